@@ -6,94 +6,96 @@ import { LoginForm } from '@/components/LoginForm';
 import { AdminDashboard } from '@/components/AdminDashboard';
 import { StaffDashboard } from '@/components/StaffDashboard';
 import { StudentDashboard } from '@/components/StudentDashboard';
+import { ParentDashboard } from '@/components/ParentDashboard';
+import { PasswordChangeForm } from '@/components/PasswordChangeForm';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { LogOut, Shield, Users, GraduationCap } from 'lucide-react';
+import { LogOut, Shield, Users, GraduationCap, HeartHandshake } from 'lucide-react';
 
 interface AuthState {
   user: User | null;
-  sessionId: string | null;
+  // Staff and administrators whose role requires two-factor authentication they haven't set up yet
+  twoFactorSetupRequired: boolean;
   isLoading: boolean;
 }
 
 function App() {
   const [authState, setAuthState] = useState<AuthState>({
     user: null,
-    sessionId: null,
+    twoFactorSetupRequired: false,
     isLoading: true
   });
 
-  const validateSession = useCallback(async (sessionId: string) => {
+  const applyUser = useCallback(async (user: User | null) => {
+    let twoFactorSetupRequired = false;
+    if (user && user.role !== 'STUDENT' && !user.must_change_password && !user.two_factor_enabled) {
+      const status = await trpc.getTwoFactorStatus.query();
+      twoFactorSetupRequired = status.required;
+    }
+
+    setAuthState({
+      user,
+      twoFactorSetupRequired,
+      isLoading: false
+    });
+  }, []);
+
+  // The session cookie is HttpOnly, so ask the server who it belongs to
+  const validateSession = useCallback(async () => {
     try {
-      const user = await trpc.validateSession.query({ sessionId });
-      if (user) {
-        setAuthState({
-          user,
-          sessionId,
-          isLoading: false
-        });
-      } else {
-        // Invalid session, clear storage
-        localStorage.removeItem('sessionId');
-        setAuthState({
-          user: null,
-          sessionId: null,
-          isLoading: false
-        });
-      }
+      const user = await trpc.validateSession.query();
+      await applyUser(user);
     } catch (error) {
       console.error('Session validation failed:', error);
-      localStorage.removeItem('sessionId');
       setAuthState({
         user: null,
-        sessionId: null,
+        twoFactorSetupRequired: false,
         isLoading: false
       });
     }
-  }, []);
+  }, [applyUser]);
 
-  // Load session from localStorage on app start
+  // Pick up an existing session on app start
   useEffect(() => {
-    const savedSessionId = localStorage.getItem('sessionId');
-    if (savedSessionId) {
-      validateSession(savedSessionId);
-    } else {
-      setAuthState(prev => ({ ...prev, isLoading: false }));
-    }
+    validateSession();
   }, [validateSession]);
 
   const handleLogin = async (username: string, password: string) => {
     try {
-      const response = await trpc.login.mutate({ username, password });
-      const { user, session } = response;
-      
-      // Store session in localStorage
-      localStorage.setItem('sessionId', session.id);
-      
-      setAuthState({
-        user,
-        sessionId: session.id,
-        isLoading: false
-      });
+      // The server sets the session cookie
+      const { user, two_factor_required } = await trpc.login.mutate({ username, password });
+
+      if (user) {
+        await applyUser(user);
+      }
+      return two_factor_required;
     } catch (error) {
       console.error('Login failed:', error);
       throw error;
     }
   };
 
+  const handleVerifyCode = async (code: string) => {
+    try {
+      const { user } = await trpc.verifyTwoFactorLogin.mutate({ code });
+      await applyUser(user);
+    } catch (error) {
+      console.error('Two-factor verification failed:', error);
+      throw error;
+    }
+  };
+
   const handleLogout = async () => {
-    if (authState.sessionId) {
-      try {
-        await trpc.logout.mutate({ sessionId: authState.sessionId });
-      } catch (error) {
-        console.error('Logout failed:', error);
-      }
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Logout failed:', error);
     }
-    
-    localStorage.removeItem('sessionId');
+
     setAuthState({
       user: null,
-      sessionId: null,
+      twoFactorSetupRequired: false,
       isLoading: false
     });
   };
@@ -106,6 +108,8 @@ function App() {
         return <Users className="h-5 w-5" />;
       case 'STUDENT':
         return <GraduationCap className="h-5 w-5" />;
+      case 'PARENT':
+        return <HeartHandshake className="h-5 w-5" />;
     }
   };
 
@@ -117,6 +121,8 @@ function App() {
         return 'text-blue-600';
       case 'STUDENT':
         return 'text-green-600';
+      case 'PARENT':
+        return 'text-amber-600';
     }
   };
 
@@ -146,7 +152,7 @@ function App() {
             </h1>
             <p className="text-gray-600">School Financial Management System</p>
           </div>
-          <LoginForm onLogin={handleLogin} />
+          <LoginForm onLogin={handleLogin} onVerifyCode={handleVerifyCode} />
         </div>
       </div>
     );
@@ -199,17 +205,38 @@ function App() {
       </header>
 
       {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {authState.user.role === 'ADMINISTRATOR' && (
-          <AdminDashboard user={authState.user} />
-        )}
-        {authState.user.role === 'STAFF' && (
-          <StaffDashboard user={authState.user} />
-        )}
-        {authState.user.role === 'STUDENT' && (
-          <StudentDashboard user={authState.user} />
-        )}
-      </main>
+      {authState.user.must_change_password ? (
+        // The server refuses everything else until the temporary password is replaced
+        <main className="max-w-md mx-auto px-4 py-8">
+          <PasswordChangeForm
+            required
+            onPasswordChanged={validateSession}
+          />
+        </main>
+      ) : authState.twoFactorSetupRequired ? (
+        // Likewise until two-factor authentication is set up where the role requires it
+        <main className="max-w-md mx-auto px-4 py-8">
+          <TwoFactorSettings
+            required
+            onEnabled={validateSession}
+          />
+        </main>
+      ) : (
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {authState.user.role === 'ADMINISTRATOR' && (
+            <AdminDashboard user={authState.user} />
+          )}
+          {authState.user.role === 'STAFF' && (
+            <StaffDashboard user={authState.user} />
+          )}
+          {authState.user.role === 'STUDENT' && (
+            <StudentDashboard user={authState.user} />
+          )}
+          {authState.user.role === 'PARENT' && (
+            <ParentDashboard user={authState.user} />
+          )}
+        </main>
+      )}
     </div>
   );
 }
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { ActiveSession } from '../../../server/src/schema';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+
+// Enough of the user agent to recognise a device by, e.g. "Chrome on Windows"
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const system = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /CrOS/.test(userAgent) ? 'ChromeOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return system ? `${browser} on ${system}` : browser;
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent);
+
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const activeSessions = await trpc.getActiveSessions.query();
+      setSessions(activeSessions);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setError('Failed to load your active sessions.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (publicId: string) => {
+    setError(null);
+    try {
+      await trpc.revokeSession.mutate({ publicId });
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to sign out session:', error);
+      setError('Failed to sign out that device.');
+    }
+  };
+
+  const handleSignOutOthers = async () => {
+    setError(null);
+    try {
+      await trpc.signOutOtherSessions.mutate();
+      await loadSessions();
+    } catch (error) {
+      console.error('Failed to sign out other sessions:', error);
+      setError('Failed to sign out your other devices.');
+    }
+  };
+
+  const otherSessions = sessions.filter(session => !session.is_current);
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <Monitor className="h-5 w-5 text-blue-600" />
+            <h3 className="text-lg font-semibold">Active Sessions</h3>
+          </div>
+          {otherSessions.length > 0 && (
+            <Button variant="outline" size="sm" onClick={handleSignOutOthers}>
+              <LogOut className="h-4 w-4 mr-1" />
+              Sign Out Other Devices
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-600">Loading sessions...</p>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session: ActiveSession) => (
+              <div key={session.public_id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center space-x-3">
+                  {isMobile(session.user_agent) ? (
+                    <Smartphone className="h-5 w-5 text-gray-500" />
+                  ) : (
+                    <Monitor className="h-5 w-5 text-gray-500" />
+                  )}
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">{describeDevice(session.user_agent)}</p>
+                      {session.is_current && (
+                        <Badge className="bg-green-100 text-green-800">This device</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {session.ip_address ?? 'Unknown address'} · signed in {session.created_at.toLocaleString()} ·
+                      last active {session.last_seen_at.toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                {!session.is_current && (
+                  <Button variant="outline" size="sm" onClick={() => handleRevoke(session.public_id)}>
+                    Sign Out
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { UserManagement } from '@/components/UserManagement';
 import { ClassManagement } from '@/components/ClassManagement';
 import { ReportsSection } from '@/components/ReportsSection';
+import { ReversalApprovals } from '@/components/ReversalApprovals';
+import { AuditLog } from '@/components/AuditLog';
+import { NotificationLog } from '@/components/NotificationLog';
+import { StatementLog } from '@/components/StatementLog';
+import { PasswordChangeForm } from '@/components/PasswordChangeForm';
+import { ContactDetailsForm } from '@/components/ContactDetailsForm';
+import { ActiveSessions } from '@/components/ActiveSessions';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
 import { 
   Users, 
   GraduationCap, 
@@ -15,7 +23,11 @@ import {
   TrendingDown,
   Activity,
   School,
-  FileSpreadsheet
+  FileSpreadsheet,
+  Undo2,
+  ScrollText,
+  MessageSquare,
+  Settings
 } from 'lucide-react';
 
 interface AdminDashboardProps {
@@ -35,17 +47,14 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
 
   const loadStats = useCallback(async () => {
     try {
-      const dashboardStats = await trpc.getDashboardStats.query({
-        userRole: 'ADMINISTRATOR',
-        userId: user.id
-      });
+      const dashboardStats = await trpc.getDashboardStats.query();
       setStats(dashboardStats);
     } catch (error) {
       console.error('Failed to load dashboard stats:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [user.id]);
+  }, []);
 
   useEffect(() => {
     loadStats();
@@ -161,7 +170,7 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
 
       {/* Main Content Tabs */}
       <Tabs defaultValue="users" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="users" className="flex items-center space-x-2">
             <Users className="h-4 w-4" />
             <span>User Management</span>
@@ -174,6 +183,22 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
             <FileSpreadsheet className="h-4 w-4" />
             <span>Reports</span>
           </TabsTrigger>
+          <TabsTrigger value="approvals" className="flex items-center space-x-2">
+            <Undo2 className="h-4 w-4" />
+            <span>Approvals</span>
+          </TabsTrigger>
+          <TabsTrigger value="audit" className="flex items-center space-x-2">
+            <ScrollText className="h-4 w-4" />
+            <span>Audit Log</span>
+          </TabsTrigger>
+          <TabsTrigger value="notifications" className="flex items-center space-x-2">
+            <MessageSquare className="h-4 w-4" />
+            <span>Notifications</span>
+          </TabsTrigger>
+          <TabsTrigger value="settings" className="flex items-center space-x-2">
+            <Settings className="h-4 w-4" />
+            <span>Settings</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="users" className="space-y-4">
@@ -187,6 +212,26 @@ export function AdminDashboard({ user }: AdminDashboardProps) {
         <TabsContent value="reports" className="space-y-4">
           <ReportsSection />
         </TabsContent>
+
+        <TabsContent value="approvals" className="space-y-4">
+          <ReversalApprovals />
+        </TabsContent>
+
+        <TabsContent value="audit" className="space-y-4">
+          <AuditLog />
+        </TabsContent>
+
+        <TabsContent value="notifications" className="space-y-4">
+          <NotificationLog />
+          <StatementLog />
+        </TabsContent>
+
+        <TabsContent value="settings" className="space-y-4">
+          <ContactDetailsForm user={user} />
+          <PasswordChangeForm />
+          <TwoFactorSettings />
+          <ActiveSessions />
+        </TabsContent>
       </Tabs>
     </div>
   );
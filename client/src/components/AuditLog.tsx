@@ -0,0 +1,283 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { downloadAuditLog } from '@/utils/reports';
+import type { AuditEvent, AuditChainStatus, AuditFilters, User } from '../../../server/src/schema';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronLeft, ChevronRight, Download, ScrollText, ShieldCheck, ShieldAlert } from 'lucide-react';
+
+const PAGE_SIZE = 50;
+
+// Action prefixes as written by the server, e.g. "user." covers user.create and user.password_reset
+const ACTION_GROUPS = [
+  { value: 'auth.', label: 'Sign-ins' },
+  { value: 'session.', label: 'Sessions' },
+  { value: 'two_factor.', label: 'Two-factor' },
+  { value: 'user.', label: 'Users' },
+  { value: 'student.', label: 'Students' },
+  { value: 'guardian.', label: 'Guardians' },
+  { value: 'staff.', label: 'Staff' },
+  { value: 'class.', label: 'Classes' },
+  { value: 'transaction.', label: 'Transactions' },
+  { value: 'reversal.', label: 'Reversals' },
+  { value: 'passbook.', label: 'Passbooks' },
+  { value: 'notification.', label: 'Notifications' },
+  { value: 'statement.', label: 'Statements' },
+  { value: 'settings.', label: 'Settings' }
+];
+
+const describeChange = (value: unknown) => (value === null || value === undefined ? null : JSON.stringify(value, null, 2));
+
+export function AuditLog() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [actors, setActors] = useState<User[]>([]);
+  const [actionFilter, setActionFilter] = useState('all');
+  const [actorFilter, setActorFilter] = useState('all');
+  const [dateRange, setDateRange] = useState({ start: '', end: '' });
+  const [page, setPage] = useState(0);
+  const [chainStatus, setChainStatus] = useState<AuditChainStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const filters: AuditFilters = {
+        action: actionFilter === 'all' ? undefined : actionFilter,
+        actor_user_id: actorFilter === 'all' ? undefined : parseInt(actorFilter),
+        start_date: dateRange.start ? new Date(dateRange.start) : undefined,
+        end_date: dateRange.end ? new Date(dateRange.end) : undefined,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE
+      };
+      const result = await trpc.getAuditEvents.query(filters);
+      setEvents(result.events);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+      setError('Failed to load the audit log.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [actionFilter, actorFilter, dateRange, page]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [actionFilter, actorFilter, dateRange]);
+
+  // Students act on little more than their own password, so only staff and administrators are offered
+  useEffect(() => {
+    trpc.getAllUsers.query()
+      .then(users => setActors(users.filter(user => user.role !== 'STUDENT')))
+      .catch(error => console.error('Failed to load users:', error));
+  }, []);
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    setError(null);
+    try {
+      setChainStatus(await trpc.verifyAuditChain.query());
+    } catch (error) {
+      console.error('Failed to verify audit log:', error);
+      setError('Failed to verify the audit log.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      await downloadAuditLog({
+        action: actionFilter === 'all' ? undefined : actionFilter,
+        actorUserId: actorFilter === 'all' ? undefined : parseInt(actorFilter),
+        startDate: dateRange.start || undefined,
+        endDate: dateRange.end || undefined
+      });
+    } catch (error) {
+      console.error('Failed to export audit log:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export the audit log.');
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <ScrollText className="h-5 w-5" />
+            <span>Audit Log ({total})</span>
+          </CardTitle>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={handleVerify} disabled={isVerifying}>
+              <ShieldCheck className="h-4 w-4 mr-1" />
+              {isVerifying ? 'Verifying...' : 'Verify Integrity'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport}>
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {chainStatus && (
+          chainStatus.valid ? (
+            <Alert className="border-green-200 bg-green-50">
+              <ShieldCheck className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-800">
+                All {chainStatus.checked} entries are intact.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertDescription>
+                The log has been altered: entry #{chainStatus.first_invalid_id} no longer matches the entries
+                before it. {chainStatus.checked} entries before it are intact.
+              </AlertDescription>
+            </Alert>
+          )
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Select value={actionFilter} onValueChange={setActionFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Actions</SelectItem>
+              {ACTION_GROUPS.map(group => (
+                <SelectItem key={group.value} value={group.value}>{group.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={actorFilter} onValueChange={setActorFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everyone</SelectItem>
+              {actors.map((actor: User) => (
+                <SelectItem key={actor.id} value={actor.id.toString()}>{actor.full_name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="date"
+            value={dateRange.start}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setDateRange(prev => ({ ...prev, start: e.target.value }))
+            }
+          />
+          <Input
+            type="date"
+            value={dateRange.end}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setDateRange(prev => ({ ...prev, end: e.target.value }))
+            }
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading audit log...</p>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No entries match the selected filters</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>IP Address</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event: AuditEvent) => {
+                const before = describeChange(event.before);
+                const after = describeChange(event.after);
+                return (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{event.created_at.toLocaleString('id-ID')}</TableCell>
+                    <TableCell>{event.actor_name ?? <span className="text-gray-500">System</span>}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="font-mono">{event.action}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {event.target_type}
+                      {event.target_id !== null && <span className="text-gray-500"> #{event.target_id}</span>}
+                    </TableCell>
+                    <TableCell>
+                      {(before || after) ? (
+                        <details>
+                          <summary className="cursor-pointer text-sm text-blue-600">Show</summary>
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 mt-2">
+                            {before && (
+                              <div>
+                                <p className="text-xs text-gray-500">Before</p>
+                                <pre className="text-xs bg-gray-50 p-2 rounded max-w-xs overflow-auto">{before}</pre>
+                              </div>
+                            )}
+                            {after && (
+                              <div>
+                                <p className="text-xs text-gray-500">After</p>
+                                <pre className="text-xs bg-gray-50 p-2 rounded max-w-xs overflow-auto">{after}</pre>
+                              </div>
+                            )}
+                          </div>
+                        </details>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{event.ip_address ?? '-'}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">Page {page + 1} of {pageCount}</p>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || isLoading}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || isLoading}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
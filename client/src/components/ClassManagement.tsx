@@ -1,13 +1,17 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
-import type { Class as ClassType, CreateClassInput } from '../../../server/src/schema';
+import { downloadClosureReceipt } from '@/utils/reports';
+import type { Class as ClassType, ClassAssignment, CreateClassInput, RolloverPlan, RolloverResult, RolloverInput, StaffProfile, StudentProfile, User } from '../../../server/src/schema';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Switch } from '@/components/ui/switch';
 import { 
   School, 
   Plus, 
@@ -15,18 +19,41 @@ import {
   Edit,
   Trash2,
   Users,
-  Calendar
+  Calendar,
+  ArrowRightLeft,
+  GraduationCap,
+  Printer,
+  UserCheck,
+  Star,
+  X
 } from 'lucide-react';
 
+type GraduatingStudent = StudentProfile & { user: User; class: { name: string; academic_year: string } };
+type StaffMember = StaffProfile & { user: User };
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
 export function ClassManagement() {
   const [classes, setClasses] = useState<ClassType[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [restrictStaff, setRestrictStaff] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
 
   const loadClasses = useCallback(async () => {
     try {
-      const allClasses = await trpc.getAllClasses.query();
+      const [allClasses, allAssignments, allStaff, settings] = await Promise.all([
+        trpc.getAllClasses.query(),
+        trpc.getClassAssignments.query({}),
+        trpc.getAllStaff.query(),
+        trpc.getSchoolSettings.query()
+      ]);
       setClasses(allClasses);
+      setAssignments(allAssignments);
+      setStaff(allStaff);
+      setRestrictStaff(settings.restrict_staff_to_assigned_classes);
     } catch (error) {
       console.error('Failed to load classes:', error);
     } finally {
@@ -57,6 +84,20 @@ export function ClassManagement() {
     }
   };
 
+  const handleRestrictStaff = async (checked: boolean) => {
+    try {
+      const settings = await trpc.updateSchoolSettings.mutate({ restrict_staff_to_assigned_classes: checked });
+      setRestrictStaff(settings.restrict_staff_to_assigned_classes);
+    } catch (error) {
+      console.error('Failed to update school settings:', error);
+      alert('Failed to update the staff access setting.');
+    }
+  };
+
+  const setClassAssignments = (classId: number, classAssignments: ClassAssignment[]) => {
+    setAssignments(prev => [...prev.filter(assignment => assignment.class_id !== classId), ...classAssignments]);
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -64,7 +105,10 @@ export function ClassManagement() {
           <h2 className="text-2xl font-bold text-gray-900">Class Management</h2>
           <p className="text-gray-600">Manage student classes and academic years</p>
         </div>
-        <CreateClassDialog onSuccess={loadClasses} />
+        <div className="flex space-x-2">
+          <RolloverDialog classes={classes} onSuccess={loadClasses} />
+          <CreateClassDialog onSuccess={loadClasses} />
+        </div>
       </div>
 
       {/* Search */}
@@ -82,6 +126,25 @@ export function ClassManagement() {
         </CardContent>
       </Card>
 
+      {/* Staff access policy */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center space-x-2">
+              <UserCheck className="h-5 w-5 text-blue-600" />
+              <div>
+                <p className="font-medium">Limit Staff to Their Classes</p>
+                <p className="text-sm text-gray-600">Staff only see and record transactions for students of the classes assigned to them</p>
+              </div>
+            </div>
+            <label className="flex items-center space-x-2 text-sm">
+              <Switch checked={restrictStaff} onCheckedChange={handleRestrictStaff} />
+              <span>{restrictStaff ? 'On' : 'Off'}</span>
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Classes List */}
       <Card>
         <CardHeader>
@@ -117,6 +180,12 @@ export function ClassManagement() {
                           <Calendar className="h-3 w-3 mr-1" />
                           {cls.academic_year}
                         </Badge>
+                        {cls.is_graduating && (
+                          <Badge variant="secondary" className="mt-1 ml-1">
+                            <GraduationCap className="h-3 w-3 mr-1" />
+                            Graduated
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     <div className="flex space-x-1">
@@ -135,7 +204,14 @@ export function ClassManagement() {
                   {cls.description && (
                     <p className="text-sm text-gray-600 mb-3">{cls.description}</p>
                   )}
-                  
+
+                  <ClassStaff
+                    classData={cls}
+                    assignments={assignments.filter(assignment => assignment.class_id === cls.id)}
+                    staff={staff}
+                    onChange={setClassAssignments}
+                  />
+
                   <div className="flex items-center justify-between text-sm text-gray-500">
                     <div className="flex items-center space-x-1">
                       <Users className="h-4 w-4" />
@@ -149,10 +225,474 @@ export function ClassManagement() {
           )}
         </CardContent>
       </Card>
+
+      <GraduatingStudents classes={classes} staff={staff} />
     </div>
   );
 }
 
+function ClassStaff({ classData, assignments, staff, onChange }: {
+  classData: ClassType;
+  assignments: ClassAssignment[];
+  staff: StaffMember[];
+  onChange: (classId: number, assignments: ClassAssignment[]) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [staffId, setStaffId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unassigned = staff.filter(member => !assignments.some(assignment => assignment.staff_id === member.id));
+
+  const run = async (action: () => Promise<ClassAssignment[]>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      onChange(classData.id, await action());
+    } catch (error) {
+      console.error('Failed to update class staff:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update the staff of this class.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const assign = (id: number, isHomeroom: boolean) =>
+    run(() => trpc.assignStaffToClass.mutate({ class_id: classData.id, staff_id: id, is_homeroom: isHomeroom }));
+
+  const unassign = (id: number) =>
+    run(() => trpc.unassignStaffFromClass.mutate({ class_id: classData.id, staff_id: id }));
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-center justify-between">
+        <div className="flex flex-wrap gap-1">
+          {assignments.length === 0 ? (
+            <span className="text-sm text-gray-500">No staff assigned</span>
+          ) : assignments.map(assignment => (
+            <Badge key={assignment.id} variant={assignment.is_homeroom ? 'default' : 'outline'}>
+              {assignment.is_homeroom && <Star className="h-3 w-3 mr-1" />}
+              {assignment.staff_name}
+            </Badge>
+          ))}
+        </div>
+        <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); setError(null); setStaffId(''); }}>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="sm">
+              <UserCheck className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Staff of {classData.name}</DialogTitle>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {assignments.length === 0 ? (
+                <p className="text-sm text-gray-500">No staff assigned to this class yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {assignments.map(assignment => (
+                    <div key={assignment.id} className="flex items-center justify-between border rounded p-2">
+                      <div>
+                        <p className="font-medium">{assignment.staff_name}</p>
+                        <p className="text-sm text-gray-500">{assignment.employee_id}</p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <label className="flex items-center space-x-2 text-sm">
+                          <Switch
+                            checked={assignment.is_homeroom}
+                            disabled={isLoading}
+                            onCheckedChange={(checked: boolean) => assign(assignment.staff_id, checked)}
+                          />
+                          <span>Homeroom</span>
+                        </label>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isLoading}
+                          onClick={() => unassign(assignment.staff_id)}
+                          className="text-red-600 hover:text-red-700 hover:border-red-300"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-end space-x-2">
+                <div className="flex-1">
+                  <label className="text-sm font-medium text-gray-700">Add Staff Member</label>
+                  <Select value={staffId} onValueChange={setStaffId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select staff member" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {unassigned.map(member => (
+                        <SelectItem key={member.id} value={member.id.toString()}>
+                          {member.user.full_name} ({member.employee_id})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  disabled={!staffId || isLoading}
+                  onClick={async () => {
+                    await assign(parseInt(staffId), assignments.length === 0);
+                    setStaffId('');
+                  }}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Assign
+                </Button>
+              </div>
+
+              <p className="text-sm text-gray-600">
+                The homeroom teacher is shown to the students of this class as their contact.
+              </p>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
+
+// Students left behind in graduated classes still hold savings that must be paid out
+function GraduatingStudents({ classes, staff }: { classes: ClassType[]; staff: StaffMember[] }) {
+  const [students, setStudents] = useState<GraduatingStudent[]>([]);
+  const [payingStaffId, setPayingStaffId] = useState('');
+  const [closingClassId, setClosingClassId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStudents = useCallback(async () => {
+    try {
+      setStudents(await trpc.getGraduatingStudents.query());
+    } catch (error) {
+      console.error('Failed to load graduating students:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStudents();
+  }, [loadStudents, classes]);
+
+  const openAccounts = students.filter(student => student.status !== 'CLOSED');
+  if (openAccounts.length === 0) {
+    return null;
+  }
+
+  const byClass = new Map<number, GraduatingStudent[]>();
+  openAccounts.forEach(student => byClass.set(student.class_id, [...(byClass.get(student.class_id) ?? []), student]));
+
+  const closeClass = async (classId: number, className: string, count: number) => {
+    if (!payingStaffId) {
+      setError('Choose the staff member who pays out the savings.');
+      return;
+    }
+    if (!confirm(`Pay out and close all ${count} open account(s) of ${className}?`)) {
+      return;
+    }
+
+    setClosingClassId(classId);
+    setError(null);
+    try {
+      await trpc.closeClassAccounts.mutate({ class_id: classId, reason: `Lulus - ${className}`, staff_id: parseInt(payingStaffId) });
+      await loadStudents();
+      await downloadClosureReceipt({ classId });
+    } catch (error) {
+      console.error('Failed to close class accounts:', error);
+      setError(error instanceof Error ? error.message : 'Failed to close the accounts of this class.');
+    } finally {
+      setClosingClassId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <GraduationCap className="h-5 w-5" />
+          <span>Graduated Students Awaiting Payout ({openAccounts.length})</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="max-w-sm">
+          <label className="text-sm font-medium text-gray-700">Paid Out By</label>
+          <Select value={payingStaffId} onValueChange={setPayingStaffId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select the teller handing out the savings" />
+            </SelectTrigger>
+            <SelectContent>
+              {staff.map(member => (
+                <SelectItem key={member.id} value={member.id.toString()}>
+                  {member.user.full_name} ({member.employee_id})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {[...byClass.entries()].map(([classId, classStudents]) => {
+          const { name, academic_year } = classStudents[0].class;
+          return (
+            <div key={classId} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-gray-900">{name} ({academic_year})</h4>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={closingClassId !== null}
+                  onClick={() => closeClass(classId, name, classStudents.length)}
+                >
+                  <Printer className="h-4 w-4 mr-1" />
+                  {closingClassId === classId ? 'Closing...' : 'Close All & Print Receipts'}
+                </Button>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>NIS</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Parent</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {classStudents.map(student => (
+                    <TableRow key={student.id}>
+                      <TableCell>{student.nis}</TableCell>
+                      <TableCell>{student.user.full_name}</TableCell>
+                      <TableCell>{student.parent_name ?? '-'}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(student.current_balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RolloverDialog({ classes, onSuccess }: { classes: ClassType[]; onSuccess: () => void }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fromYear, setFromYear] = useState('');
+  const [plan, setPlan] = useState<RolloverPlan | null>(null);
+  const [toYear, setToYear] = useState('');
+  const [mapping, setMapping] = useState<RolloverInput['classes']>([]);
+  const [result, setResult] = useState<RolloverResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const academicYears = [...new Set(classes.map(cls => cls.academic_year))].sort();
+
+  const loadPlan = async (year: string) => {
+    setFromYear(year);
+    setError(null);
+    try {
+      const rolloverPlan = await trpc.getRolloverPlan.query({ academicYear: year });
+      setPlan(rolloverPlan);
+      setToYear(rolloverPlan.to_academic_year);
+      setMapping(rolloverPlan.classes.map(entry => ({
+        class_id: entry.class.id,
+        action: entry.action,
+        new_class_name: entry.new_class_name
+      })));
+    } catch (error) {
+      console.error('Failed to load rollover plan:', error);
+      setError('Failed to load the classes of this academic year.');
+    }
+  };
+
+  const updateMapping = (classId: number, update: Partial<RolloverInput['classes'][number]>) => {
+    setMapping(prev => prev.map(entry => entry.class_id === classId ? { ...entry, ...update } : entry));
+  };
+
+  const reset = () => {
+    setFromYear('');
+    setPlan(null);
+    setToYear('');
+    setMapping([]);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (mapping.some(entry => entry.action === 'PROMOTE' && !entry.new_class_name)) {
+      setError('Enter a new class name for every promoted class.');
+      return;
+    }
+    if (!confirm(`Move all students of ${fromYear} into ${toYear}? This cannot be undone.`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setResult(await trpc.rolloverAcademicYear.mutate({
+        from_academic_year: fromYear,
+        to_academic_year: toYear,
+        classes: mapping
+      }));
+      onSuccess();
+    } catch (error) {
+      console.error('Failed to roll over academic year:', error);
+      setError(error instanceof Error ? error.message : 'Failed to roll over the academic year.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center space-x-2">
+          <ArrowRightLeft className="h-4 w-4" />
+          <span>New Academic Year</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Academic Year Rollover</DialogTitle>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4">
+            <Alert>
+              <AlertDescription>
+                {result.promoted_students} student(s) moved into {result.to_academic_year}
+                {result.created_classes.length > 0 && ` (${result.created_classes.length} new class(es) created)`}.
+                {' '}{result.graduated_students} student(s) graduated and are waiting for their savings payout.
+              </AlertDescription>
+            </Alert>
+            <div className="flex justify-end">
+              <Button onClick={() => setIsOpen(false)}>Close</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Current Academic Year</label>
+                <Select value={fromYear} onValueChange={loadPlan}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select academic year" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {academicYears.map(year => (
+                      <SelectItem key={year} value={year}>{year}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">New Academic Year</label>
+                <Input
+                  value={toYear}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setToYear(e.target.value)}
+                  placeholder="e.g., 2025/2026"
+                  disabled={!plan}
+                />
+              </div>
+            </div>
+
+            {plan && (
+              <div className="max-h-80 overflow-y-auto border rounded">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Class</TableHead>
+                      <TableHead>Students</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>New Class</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.classes.map(entry => {
+                      const current = mapping.find(item => item.class_id === entry.class.id);
+                      return (
+                        <TableRow key={entry.class.id}>
+                          <TableCell className="font-medium">{entry.class.name}</TableCell>
+                          <TableCell>{entry.student_count}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={current?.action}
+                              onValueChange={(value) => updateMapping(entry.class.id, { action: value as 'PROMOTE' | 'GRADUATE' })}
+                            >
+                              <SelectTrigger className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="PROMOTE">Promote</SelectItem>
+                                <SelectItem value="GRADUATE">Graduate</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {current?.action === 'PROMOTE' ? (
+                              <Input
+                                value={current.new_class_name ?? ''}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                  updateMapping(entry.class.id, { new_class_name: e.target.value || null })
+                                }
+                                placeholder="e.g., VIII-A"
+                              />
+                            ) : (
+                              <span className="text-sm text-gray-500">Flagged for payout</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <p className="text-sm text-gray-600">
+              Classes for the new year are created from the names above; existing ones are reused.
+              Balances carry over unchanged, and reports for past years keep each student in the class they were in at the time.
+            </p>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={!plan || plan.classes.length === 0 || !toYear.trim() || isLoading}>
+                {isLoading ? 'Moving students...' : 'Start New Academic Year'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function CreateClassDialog({ onSuccess }: { onSuccess: () => void }) {
   const [isOpen, setIsOpen] = useState(false);
   const [formData, setFormData] = useState<CreateClassInput>({
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { User } from '../../../server/src/schema';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Contact, CheckCircle } from 'lucide-react';
+
+interface ContactDetailsFormProps {
+  user: User;
+}
+
+// Name and username are set by an administrator; the owner keeps their own email and phone up to date
+export function ContactDetailsForm({ user }: ContactDetailsFormProps) {
+  const [formData, setFormData] = useState({ email: user.email, phone: user.phone });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const updated = await trpc.updateContactDetails.mutate(formData);
+      setFormData({ email: updated.email, phone: updated.phone });
+      setSuccess('Contact details saved.');
+    } catch (error) {
+      console.error('Failed to update contact details:', error);
+      setError('Failed to save your contact details. Please check them and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <Contact className="h-5 w-5 text-blue-600" />
+          <h3 className="text-lg font-semibold">Contact Details</h3>
+        </div>
+
+        {success && (
+          <Alert className="mb-4 border-green-200 bg-green-50">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-800">{success}</AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Email</label>
+              <Input
+                type="email"
+                value={formData.email || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, email: e.target.value || null }))
+                }
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Phone</label>
+              <Input
+                value={formData.phone || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, phone: e.target.value || null }))
+                }
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            To change your name or username, ask an administrator.
+          </p>
+
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? 'Saving...' : 'Save Contact Details'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
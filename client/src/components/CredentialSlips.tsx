@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import type { Credential } from '../../../server/src/schema';
+import { downloadCredentialSlips } from '@/utils/reports';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Printer } from 'lucide-react';
+
+// Initial passwords are only returned once, right after the accounts are created
+export function CredentialSlips({ credentials }: { credentials: Credential[] }) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A cut sheet of slips with a QR code to the login page, ready to print
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    setError(null);
+    try {
+      await downloadCredentialSlips(credentials);
+    } catch (error) {
+      console.error('Failed to download credential slips:', error);
+      setError(error instanceof Error ? error.message : 'Failed to download credential slips');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Alert>
+        <AlertDescription>
+          Print these slips now. The passwords are not stored and cannot be shown again;
+          a lost password has to be reset.
+        </AlertDescription>
+      </Alert>
+
+      <div className="max-h-64 overflow-y-auto border rounded">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Username</TableHead>
+              <TableHead>Initial Password</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {credentials.map(credential => (
+              <TableRow key={credential.username}>
+                <TableCell>{credential.full_name}</TableCell>
+                <TableCell className="font-mono">{credential.username}</TableCell>
+                <TableCell className="font-mono">{credential.initial_password}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Button type="button" variant="outline" onClick={handleDownload} disabled={isDownloading} className="w-full">
+        <Printer className="h-4 w-4 mr-2" />
+        {isDownloading ? 'Preparing...' : `Print Credential ${credentials.length === 1 ? 'Slip' : 'Slips'}`}
+      </Button>
+    </div>
+  );
+}
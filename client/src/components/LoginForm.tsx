@@ -4,17 +4,21 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { LogIn, User, Lock } from 'lucide-react';
+import { LogIn, User, Lock, KeyRound } from 'lucide-react';
 
 interface LoginFormProps {
-  onLogin: (username: string, password: string) => Promise<void>;
+  // Resolves to true when the account wants an authentication code as well
+  onLogin: (username: string, password: string) => Promise<boolean>;
+  onVerifyCode: (code: string) => Promise<void>;
 }
 
-export function LoginForm({ onLogin }: LoginFormProps) {
+export function LoginForm({ onLogin, onVerifyCode }: LoginFormProps) {
   const [formData, setFormData] = useState({
     username: '',
     password: ''
   });
+  const [codeStep, setCodeStep] = useState(false);
+  const [code, setCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -30,15 +34,117 @@ export function LoginForm({ onLogin }: LoginFormProps) {
     setError(null);
 
     try {
-      await onLogin(formData.username.trim(), formData.password);
+      const twoFactorRequired = await onLogin(formData.username.trim(), formData.password);
+      if (twoFactorRequired) {
+        setCodeStep(true);
+        setFormData(prev => ({ ...prev, password: '' }));
+      }
     } catch (error) {
       console.error('Login error:', error);
-      setError('Invalid username or password. Please try again.');
+      // The server's wording never says whether the username exists; keep it that way here
+      setError(error instanceof Error && /too many/i.test(error.message)
+        ? 'Too many failed login attempts. Please wait a while and try again.'
+        : 'Invalid username or password. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await onVerifyCode(code.trim());
+    } catch (error) {
+      console.error('Code verification error:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (/expired|too many/i.test(message)) {
+        // The pending sign-in is gone; start again from the password
+        setCodeStep(false);
+        setError(/too many/i.test(message)
+          ? 'Too many failed login attempts. Please wait a while and try again.'
+          : 'Your sign-in has expired. Please log in again.');
+      } else {
+        setError('Invalid authentication code. Please try again.');
+      }
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelCodeStep = () => {
+    setCodeStep(false);
+    setCode('');
+    setError(null);
+  };
+
+  if (codeStep) {
+    return (
+      <Card className="shadow-xl">
+        <CardHeader className="text-center pb-2">
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            Two-Factor Authentication
+          </CardTitle>
+          <p className="text-sm text-gray-600 mt-2">
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCodeSubmit} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <label htmlFor="code" className="text-sm font-medium text-gray-700">
+                Authentication Code
+              </label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode="text"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                  className="pl-10 tracking-widest"
+                  disabled={isLoading}
+                  autoFocus
+                  required
+                />
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isLoading || code.trim().length < 6}>
+              {isLoading ? (
+                <div className="flex items-center space-x-2">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                  <span>Verifying...</span>
+                </div>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  <KeyRound className="h-4 w-4" />
+                  <span>Verify</span>
+                </div>
+              )}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={cancelCodeStep} disabled={isLoading}>
+              Back to sign in
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="shadow-xl">
       <CardHeader className="text-center pb-2">
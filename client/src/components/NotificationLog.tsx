@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { Notification, NotificationStatus } from '../../../server/src/schema';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronLeft, ChevronRight, MessageSquare, RefreshCw, RotateCcw } from 'lucide-react';
+
+const PAGE_SIZE = 50;
+
+const STATUS_STYLES: Record<NotificationStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  SENDING: { label: 'Sending', className: 'bg-blue-100 text-blue-800' },
+  SENT: { label: 'Sent', className: 'bg-green-100 text-green-800' },
+  FAILED: { label: 'Failed', className: 'bg-red-100 text-red-800' }
+};
+
+export function NotificationLog() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [total, setTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<NotificationStatus | 'all'>('all');
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await trpc.getNotifications.query({
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE
+      });
+      setNotifications(result.notifications);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+      setError('Failed to load notifications.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter, page]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [statusFilter]);
+
+  const handleRetry = async (id: number) => {
+    setError(null);
+    try {
+      await trpc.retryNotification.mutate({ id });
+      await loadPage();
+    } catch (error) {
+      console.error('Failed to retry notification:', error);
+      setError(error instanceof Error ? error.message : 'Failed to retry the notification.');
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <MessageSquare className="h-5 w-5" />
+            <span>Parent Notifications ({total})</span>
+          </CardTitle>
+          <div className="flex space-x-2">
+            <Select value={statusFilter} onValueChange={(value: NotificationStatus | 'all') => setStatusFilter(value)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(STATUS_STYLES) as NotificationStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{STATUS_STYLES[status].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={loadPage} disabled={isLoading}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading notifications...</p>
+          </div>
+        ) : notifications.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No notifications yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {notifications.map((notification: Notification) => (
+                <TableRow key={notification.id}>
+                  <TableCell className="whitespace-nowrap">{notification.created_at.toLocaleString('id-ID')}</TableCell>
+                  <TableCell>
+                    {notification.student_name}
+                    <span className="block text-xs text-gray-500">NIS {notification.nis}</span>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{notification.recipient}</TableCell>
+                  <TableCell>
+                    <details>
+                      <summary className="cursor-pointer text-sm text-blue-600">{notification.template}</summary>
+                      <p className="text-sm text-gray-700 mt-2 max-w-md">{notification.body}</p>
+                    </details>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={STATUS_STYLES[notification.status].className}>
+                      {STATUS_STYLES[notification.status].label}
+                    </Badge>
+                    <span className="block text-xs text-gray-500 mt-1">
+                      {notification.status === 'SENT' && notification.sent_at
+                        ? `${notification.sent_at.toLocaleString('id-ID')} via ${notification.provider}`
+                        : `${notification.attempts} attempt(s)`}
+                    </span>
+                    {notification.status !== 'SENT' && notification.last_error && (
+                      <span className="block text-xs text-red-600">{notification.last_error}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {notification.status === 'FAILED' && (
+                      <Button variant="outline" size="sm" onClick={() => handleRetry(notification.id)}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Retry
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">Page {page + 1} of {pageCount}</p>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || isLoading}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || isLoading}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
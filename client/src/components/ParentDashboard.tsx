@@ -0,0 +1,312 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { User, Transaction, StudentProfile, MonthlyStatement } from '../../../server/src/schema';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PasswordChangeForm } from '@/components/PasswordChangeForm';
+import { ContactDetailsForm } from '@/components/ContactDetailsForm';
+import { ActiveSessions } from '@/components/ActiveSessions';
+import {
+  History,
+  FileText,
+  Phone,
+  Mail,
+  Settings,
+  TrendingUp,
+  TrendingDown,
+  GraduationCap,
+  User as UserIcon
+} from 'lucide-react';
+
+interface ParentDashboardProps {
+  user: User;
+}
+
+type Child = StudentProfile & { user: { full_name: string }; class: { name: string } };
+
+interface ChildDetails {
+  recent_transactions: Transaction[];
+  assigned_staff: {
+    full_name: string;
+    email: string | null;
+    phone: string | null;
+  } | null;
+  statements: MonthlyStatement[];
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+};
+
+// Read-only: guardians follow their children's savings, the school records every transaction
+export function ParentDashboard({ user }: ParentDashboardProps) {
+  const [children, setChildren] = useState<Child[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [details, setDetails] = useState<ChildDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadChildren = useCallback(async () => {
+    try {
+      const linked = await trpc.getMyChildren.query();
+      setChildren(linked);
+      setSelectedId(current => current ?? linked[0]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load children:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChildren();
+  }, [loadChildren]);
+
+  useEffect(() => {
+    if (selectedId === null) {
+      return;
+    }
+    setDetails(null);
+    const loadDetails = async () => {
+      try {
+        const [dashboard, statements] = await Promise.all([
+          trpc.getStudentDashboard.query({ studentId: selectedId }),
+          trpc.getMonthlyStatements.query({ studentId: selectedId })
+        ]);
+        setDetails({ ...dashboard, statements });
+      } catch (error) {
+        console.error('Failed to load child details:', error);
+      }
+    };
+    loadDetails();
+  }, [selectedId]);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="text-gray-600 mt-2">Loading dashboard...</p>
+      </div>
+    );
+  }
+
+  const selected = children.find(child => child.id === selectedId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">
+          👪 Parent Dashboard
+        </h1>
+        <p className="text-gray-600 mt-1">
+          Welcome, {user.full_name}! Follow your children's savings here.
+        </p>
+      </div>
+
+      {children.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <GraduationCap className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">No students are linked to your account</p>
+            <p className="text-sm text-gray-500">Contact the school administrator</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {children.map(child => (
+            <button
+              key={child.id}
+              type="button"
+              onClick={() => setSelectedId(child.id)}
+              className={`text-left border rounded-lg p-4 bg-white transition-shadow hover:shadow-md ${
+                child.id === selectedId ? 'border-green-500 ring-2 ring-green-200' : ''
+              }`}
+            >
+              <p className="font-semibold text-gray-900">{child.user.full_name}</p>
+              <p className="text-sm text-gray-600">NIS {child.nis} · {child.class.name}</p>
+              <p className="text-2xl font-bold text-green-600 mt-2">{formatCurrency(child.current_balance)}</p>
+              {child.status !== 'ACTIVE' && (
+                <p className="text-sm text-orange-600 mt-1">
+                  Account {child.status === 'FROZEN' ? 'frozen' : 'closed'}
+                </p>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Tabs defaultValue="transactions" className="space-y-4">
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="transactions" className="flex items-center space-x-2">
+            <History className="h-4 w-4" />
+            <span>Transactions</span>
+          </TabsTrigger>
+          <TabsTrigger value="statements" className="flex items-center space-x-2">
+            <FileText className="h-4 w-4" />
+            <span>Monthly Statements</span>
+          </TabsTrigger>
+          <TabsTrigger value="contact" className="flex items-center space-x-2">
+            <Phone className="h-4 w-4" />
+            <span>Homeroom Teacher</span>
+          </TabsTrigger>
+          <TabsTrigger value="settings" className="flex items-center space-x-2">
+            <Settings className="h-4 w-4" />
+            <span>Settings</span>
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="transactions">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <History className="h-5 w-5" />
+                <span>Recent Transactions{selected && ` - ${selected.user.full_name}`}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!details ? (
+                <p className="text-center text-gray-600 py-8">{selected ? 'Loading...' : 'Select a student'}</p>
+              ) : details.recent_transactions.length === 0 ? (
+                <p className="text-center text-gray-600 py-8">No transactions yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {details.recent_transactions.map((transaction: Transaction) => (
+                    <div key={transaction.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        {transaction.type === 'DEPOSIT' ? (
+                          <TrendingUp className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <TrendingDown className="h-4 w-4 text-red-600" />
+                        )}
+                        <div>
+                          <p className="font-medium">{transaction.type === 'DEPOSIT' ? 'Deposit' : 'Withdrawal'}</p>
+                          <p className="text-sm text-gray-600">
+                            {new Date(transaction.transaction_date).toLocaleDateString('id-ID', {
+                              weekday: 'short',
+                              year: 'numeric',
+                              month: 'short',
+                              day: 'numeric'
+                            })}
+                          </p>
+                          {transaction.description && (
+                            <p className="text-sm text-gray-500">{transaction.description}</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className={`font-bold ${transaction.type === 'DEPOSIT' ? 'text-green-600' : 'text-red-600'}`}>
+                          {transaction.type === 'DEPOSIT' ? '+' : '-'}
+                          {formatCurrency(transaction.amount)}
+                        </p>
+                        <p className="text-sm text-gray-600">Balance: {formatCurrency(transaction.balance_after)}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="statements">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileText className="h-5 w-5" />
+                <span>Monthly Statements{selected && ` - ${selected.user.full_name}`}</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!details ? (
+                <p className="text-center text-gray-600 py-8">{selected ? 'Loading...' : 'Select a student'}</p>
+              ) : details.statements.length === 0 ? (
+                <p className="text-center text-gray-600 py-8">No statements yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead className="text-right">Opening Balance</TableHead>
+                      <TableHead className="text-right">Deposits</TableHead>
+                      <TableHead className="text-right">Withdrawals</TableHead>
+                      <TableHead className="text-right">Closing Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {details.statements.map(statement => (
+                      <TableRow key={statement.month}>
+                        <TableCell>
+                          {formatMonth(statement.month)}
+                          <span className="block text-xs text-gray-500">{statement.transaction_count} transaction(s)</span>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(statement.opening_balance)}</TableCell>
+                        <TableCell className="text-right text-green-600">{formatCurrency(statement.deposits)}</TableCell>
+                        <TableCell className="text-right text-red-600">{formatCurrency(statement.withdrawals)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(statement.closing_balance)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="contact">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Phone className="h-5 w-5" />
+                <span>Homeroom Teacher</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {details?.assigned_staff ? (
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-3 p-4 bg-blue-50 rounded-lg">
+                    <UserIcon className="h-6 w-6 text-blue-600" />
+                    <p className="font-medium text-blue-900">{details.assigned_staff.full_name}</p>
+                  </div>
+                  {details.assigned_staff.email && (
+                    <div className="flex items-center space-x-3 p-3 border rounded-lg">
+                      <Mail className="h-5 w-5 text-gray-400" />
+                      <p className="font-medium">{details.assigned_staff.email}</p>
+                    </div>
+                  )}
+                  {details.assigned_staff.phone && (
+                    <div className="flex items-center space-x-3 p-3 border rounded-lg">
+                      <Phone className="h-5 w-5 text-gray-400" />
+                      <p className="font-medium">{details.assigned_staff.phone}</p>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-center text-gray-600 py-8">No homeroom teacher assigned yet</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="settings" className="space-y-4">
+          <ContactDetailsForm user={user} />
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Settings className="h-5 w-5" />
+                <span>Account Settings</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PasswordChangeForm />
+            </CardContent>
+          </Card>
+          <ActiveSessions />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
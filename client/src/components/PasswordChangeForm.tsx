@@ -13,10 +13,12 @@ import {
 } from 'lucide-react';
 
 interface PasswordChangeFormProps {
-  userId: number;
+  // Set when the account is still on a temporary password and nothing else is reachable yet
+  required?: boolean;
+  onPasswordChanged?: () => void;
 }
 
-export function PasswordChangeForm({ userId }: PasswordChangeFormProps) {
+export function PasswordChangeForm({ required = false, onPasswordChanged }: PasswordChangeFormProps) {
   const [formData, setFormData] = useState({
     current_password: '',
     new_password: '',
@@ -44,13 +46,17 @@ export function PasswordChangeForm({ userId }: PasswordChangeFormProps) {
       return;
     }
 
+    if (formData.new_password === formData.current_password) {
+      setError('New password must be different from the current password');
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
       await trpc.updatePassword.mutate({
-        userId,
         current_password: formData.current_password,
         new_password: formData.new_password
       });
@@ -61,6 +67,7 @@ export function PasswordChangeForm({ userId }: PasswordChangeFormProps) {
         new_password: '',
         confirm_password: ''
       });
+      onPasswordChanged?.();
     } catch (error) {
       console.error('Failed to change password:', error);
       setError('Failed to change password. Please check your current password and try again.');
@@ -84,6 +91,14 @@ export function PasswordChangeForm({ userId }: PasswordChangeFormProps) {
           <h3 className="text-lg font-semibold">Change Password</h3>
         </div>
 
+        {required && (
+          <Alert className="mb-4">
+            <AlertDescription>
+              Your account is using a temporary password. Choose your own password to continue.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {success && (
           <Alert className="mb-4 border-green-200 bg-green-50">
             <CheckCircle className="h-4 w-4 text-green-600" />
@@ -99,7 +114,9 @@ export function PasswordChangeForm({ userId }: PasswordChangeFormProps) {
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <label className="text-sm font-medium text-gray-700">Current Password *</label>
+            <label className="text-sm font-medium text-gray-700">
+              {required ? 'Temporary Password *' : 'Current Password *'}
+            </label>
             <div className="relative">
               <Input
                 type={showPasswords.current ? 'text' : 'password'}
@@ -1,10 +1,14 @@
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { trpc } from '@/utils/trpc';
+import { toDateInputValue } from '@/lib/utils';
+import { downloadReport } from '@/utils/reports';
+import { TransactionReport } from '@/components/TransactionReport';
+import type { Class, DashboardStats, ReportType, ReportFormat } from '../../../server/src/schema';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   FileSpreadsheet, 
@@ -15,22 +19,63 @@ import {
 } from 'lucide-react';
 
 export function ReportsSection() {
-  const [reportType, setReportType] = useState<string>('global');
-  const [dateRange, setDateRange] = useState({
-    start: new Date().toISOString().split('T')[0],
-    end: new Date().toISOString().split('T')[0]
+  const [reportType, setReportType] = useState<ReportType>('GLOBAL');
+  const [format, setFormat] = useState<ReportFormat>('XLSX');
+  const [classId, setClassId] = useState<string>('all');
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [dateRange, setDateRange] = useState(() => {
+    const today = new Date();
+    return {
+      start: toDateInputValue(new Date(today.getFullYear(), today.getMonth(), 1)),
+      end: toDateInputValue(today)
+    };
   });
   const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [allClasses, dashboardStats] = await Promise.all([
+          trpc.getAllClasses.query(),
+          trpc.getDashboardStats.query()
+        ]);
+        setClasses(allClasses);
+        setStats(dashboardStats);
+      } catch (error) {
+        console.error('Failed to load report data:', error);
+      }
+    };
+    loadData();
+  }, []);
 
   const handleGenerateReport = async () => {
     setIsGenerating(true);
-    
-    // Simulate report generation delay
-    setTimeout(() => {
+    setError(null);
+
+    try {
+      await downloadReport({
+        reportType,
+        format,
+        startDate: dateRange.start || undefined,
+        endDate: dateRange.end || undefined,
+        classId: classId === 'all' ? undefined : parseInt(classId)
+      });
+    } catch (error) {
+      console.error('Failed to generate report:', error);
+      setError(error instanceof Error ? error.message : 'Failed to generate report');
+    } finally {
       setIsGenerating(false);
-      // In a real implementation, this would trigger a download
-      alert('Report generated successfully! Download would start in a real implementation.');
-    }, 2000);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
   };
 
   return (
@@ -49,41 +94,56 @@ export function ReportsSection() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <Alert>
-            <FileSpreadsheet className="h-4 w-4" />
-            <AlertDescription>
-              <strong>Note:</strong> This is a stub implementation. In a production environment, 
-              reports would be generated from actual database queries and exported as Excel files.
-            </AlertDescription>
-          </Alert>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <label className="text-sm font-medium text-gray-700">Report Type</label>
-              <Select value={reportType} onValueChange={setReportType}>
+              <Select value={reportType} onValueChange={(value: string) => setReportType(value as ReportType)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="global">Global Savings Summary</SelectItem>
-                  <SelectItem value="class">Per Class Report</SelectItem>
-                  <SelectItem value="student">Individual Student Reports</SelectItem>
-                  <SelectItem value="transactions">Transaction History</SelectItem>
-                  <SelectItem value="monthly">Monthly Summary</SelectItem>
+                  <SelectItem value="GLOBAL">Global Savings Summary</SelectItem>
+                  <SelectItem value="CLASS">Per Class Report</SelectItem>
+                  <SelectItem value="STUDENT">Individual Student Reports</SelectItem>
+                  <SelectItem value="TRANSACTIONS">Transaction History</SelectItem>
+                  <SelectItem value="MONTHLY">Monthly Summary</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-gray-700">Class</label>
+              <Select value={classId} onValueChange={setClassId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Classes</SelectItem>
+                  {classes.map((classItem: Class) => (
+                    <SelectItem key={classItem.id} value={classItem.id.toString()}>
+                      {classItem.name} ({classItem.academic_year})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
             <div>
               <label className="text-sm font-medium text-gray-700">Export Format</label>
-              <Select defaultValue="excel">
+              <Select value={format} onValueChange={(value: string) => setFormat(value as ReportFormat)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="excel">Excel (.xlsx)</SelectItem>
-                  <SelectItem value="pdf">PDF Report</SelectItem>
-                  <SelectItem value="csv">CSV Data</SelectItem>
+                  <SelectItem value="XLSX">Excel (.xlsx)</SelectItem>
+                  <SelectItem value="PDF">PDF Report</SelectItem>
+                  <SelectItem value="CSV">CSV Data</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -141,11 +201,8 @@ export function ReportsSection() {
                 <Users className="h-6 w-6 text-blue-600" />
               </div>
               <div>
-                <p className="text-sm text-gray-600">Active Students</p>
-                <p className="text-2xl font-bold text-blue-600">245</p>
-                <Badge variant="outline" className="mt-1">
-                  +12 this month
-                </Badge>
+                <p className="text-sm text-gray-600">Students</p>
+                <p className="text-2xl font-bold text-blue-600">{stats?.total_students ?? '-'}</p>
               </div>
             </div>
           </CardContent>
@@ -159,10 +216,9 @@ export function ReportsSection() {
               </div>
               <div>
                 <p className="text-sm text-gray-600">Total Savings</p>
-                <p className="text-2xl font-bold text-green-600">Rp 125M</p>
-                <Badge variant="outline" className="mt-1">
-                  +8.5% this month
-                </Badge>
+                <p className="text-2xl font-bold text-green-600">
+                  {stats ? formatCurrency(stats.total_balance) : '-'}
+                </p>
               </div>
             </div>
           </CardContent>
@@ -175,50 +231,24 @@ export function ReportsSection() {
                 <TrendingUp className="h-6 w-6 text-purple-600" />
               </div>
               <div>
-                <p className="text-sm text-gray-600">Monthly Growth</p>
-                <p className="text-2xl font-bold text-purple-600">15.2%</p>
-                <Badge variant="outline" className="mt-1">
-                  Above target
-                </Badge>
+                <p className="text-sm text-gray-600">Transactions Today</p>
+                <p className="text-2xl font-bold text-purple-600">{stats?.total_transactions_today ?? '-'}</p>
+                {stats && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {stats.total_deposits_today} deposits • {stats.total_withdrawals_today} withdrawals
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
 
-      {/* Recent Report History */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Recent Reports</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            {[
-              { name: 'Monthly Summary - November 2024', date: '2024-11-30', type: 'Monthly', size: '2.3 MB' },
-              { name: 'Global Savings Report', date: '2024-11-28', type: 'Global', size: '1.8 MB' },
-              { name: 'Class VII Transaction History', date: '2024-11-25', type: 'Class', size: '0.9 MB' }
-            ].map((report, index) => (
-              <div key={index} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
-                <div className="flex items-center space-x-3">
-                  <FileSpreadsheet className="h-5 w-5 text-green-600" />
-                  <div>
-                    <p className="font-medium">{report.name}</p>
-                    <p className="text-sm text-gray-600">
-                      Generated on {new Date(report.date).toLocaleDateString('id-ID')} • {report.size}
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <Badge variant="outline">{report.type}</Badge>
-                  <Button variant="outline" size="sm">
-                    <Download className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+      <TransactionReport
+        startDate={dateRange.start || undefined}
+        endDate={dateRange.end || undefined}
+        classId={classId === 'all' ? undefined : parseInt(classId)}
+      />
     </div>
   );
 }
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { ReversalRequest, Transaction } from '../../../server/src/schema';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  CheckCircle,
+  XCircle,
+  Undo2
+} from 'lucide-react';
+
+// Define the extended type for pending requests with transaction and names
+type PendingReversal = ReversalRequest & {
+  transaction: Transaction;
+  student: { user: { full_name: string }; nis: string };
+  staff: { user: { full_name: string } };
+};
+
+export function ReversalApprovals() {
+  const [requests, setRequests] = useState<PendingReversal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const pending = await trpc.getPendingReversalRequests.query();
+      setRequests(pending);
+    } catch (error) {
+      console.error('Failed to load reversal requests:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const handleReview = async (requestId: number, approve: boolean) => {
+    setError(null);
+    try {
+      await trpc.reviewReversalRequest.mutate({ request_id: requestId, approve });
+      await loadRequests();
+    } catch (error) {
+      console.error('Failed to review reversal request:', error);
+      setError('Failed to review the request. The student balance may no longer cover the reversal.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Reversal Approvals</h2>
+        <p className="text-gray-600">Review corrections that exceed the automatic approval limit</p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Undo2 className="h-5 w-5" />
+            <span>Pending Requests ({requests.length})</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="text-gray-600 mt-2">Loading requests...</p>
+            </div>
+          ) : requests.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No reversals awaiting approval</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {requests.map((request: PendingReversal) => (
+                <div key={request.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">{request.student.user.full_name}</p>
+                      <Badge variant="outline">#{request.transaction.id} {request.transaction.type}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      NIS: {request.student.nis} • Requested by {request.staff.user.full_name} on{' '}
+                      {new Date(request.created_at).toLocaleDateString('id-ID')}
+                    </p>
+                    <p className="text-sm text-gray-500 mt-1">Reason: {request.reason}</p>
+                  </div>
+
+                  <div className="text-right space-y-2">
+                    <p className="font-bold text-lg">{formatCurrency(request.transaction.amount)}</p>
+                    <div className="flex space-x-2">
+                      <Button
+                        onClick={() => handleReview(request.id, false)}
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                      <Button
+                        onClick={() => handleReview(request.id, true)}
+                        size="sm"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,6 +8,10 @@ import { TransactionForm } from '@/components/TransactionForm';
 import { TransactionHistory } from '@/components/TransactionHistory';
 import { StudentList } from '@/components/StudentList';
 import { StaffReports } from '@/components/StaffReports';
+import { PasswordChangeForm } from '@/components/PasswordChangeForm';
+import { ContactDetailsForm } from '@/components/ContactDetailsForm';
+import { ActiveSessions } from '@/components/ActiveSessions';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
 import { 
   DollarSign, 
   Users, 
@@ -15,7 +19,8 @@ import {
   Activity,
   Plus,
   History,
-  FileText
+  FileText,
+  Settings
 } from 'lucide-react';
 
 interface StaffDashboardProps {
@@ -39,19 +44,19 @@ export function StaffDashboard({ user }: StaffDashboardProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
 
-  // Get staff profile to use staff_id for transactions
+  // Staff profile of the signed-in user (the server records it on every transaction)
   const [staffProfile, setStaffProfile] = useState<(StaffProfile & { user: User }) | null>(null);
 
   const loadDashboardData = useCallback(async () => {
     try {
-      // First get staff profile
-      const staff = await trpc.getStaffById.query({ id: user.id });
+      // First get the signed-in staff member's profile
+      const staff = await trpc.getMyStaffProfile.query();
       setStaffProfile(staff);
 
       // Only proceed if staff profile exists
       if (staff) {
         // Then get dashboard data
-        const data = await trpc.getStaffDashboard.query({ staffId: staff.id });
+        const data = await trpc.getStaffDashboard.query({});
         setDashboardData(data);
       }
     } catch (error) {
@@ -59,7 +64,7 @@ export function StaffDashboard({ user }: StaffDashboardProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [user.id]);
+  }, []);
 
   useEffect(() => {
     loadDashboardData();
@@ -171,7 +176,7 @@ export function StaffDashboard({ user }: StaffDashboardProps) {
 
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview" className="flex items-center space-x-2">
             <Users className="h-4 w-4" />
             <span>Students</span>
@@ -188,6 +193,10 @@ export function StaffDashboard({ user }: StaffDashboardProps) {
             <FileText className="h-4 w-4" />
             <span>Reports</span>
           </TabsTrigger>
+          <TabsTrigger value="settings" className="flex items-center space-x-2">
+            <Settings className="h-4 w-4" />
+            <span>Settings</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -213,10 +222,7 @@ export function StaffDashboard({ user }: StaffDashboardProps) {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <TransactionForm 
-                staffId={staffProfile.id}
-                onSuccess={handleTransactionSuccess}
-              />
+              <TransactionForm onSuccess={handleTransactionSuccess} />
             </CardContent>
           </Card>
         </TabsContent>
@@ -230,7 +236,7 @@ export function StaffDashboard({ user }: StaffDashboardProps) {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <TransactionHistory staffId={staffProfile.id} />
+              <TransactionHistory />
             </CardContent>
           </Card>
         </TabsContent>
@@ -244,10 +250,17 @@ export function StaffDashboard({ user }: StaffDashboardProps) {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <StaffReports staffId={staffProfile.id} />
+              <StaffReports />
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="settings" className="space-y-4">
+          <ContactDetailsForm user={user} />
+          <PasswordChangeForm />
+          <TwoFactorSettings />
+          <ActiveSessions />
+        </TabsContent>
       </Tabs>
     </div>
   );
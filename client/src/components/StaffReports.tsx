@@ -1,56 +1,127 @@
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { sumMoney, toDateInputValue } from '@/lib/utils';
+import { downloadReport, downloadPassbook, type ReportDownloadOptions } from '@/utils/reports';
+import type { StudentProfile, User as UserType, ReportFormat, PassbookMode, PassbookStatus } from '../../../server/src/schema';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { 
-  FileText, 
   Download, 
   Printer,
   FileSpreadsheet,
   BookOpen
 } from 'lucide-react';
 
-interface StaffReportsProps {
-  staffId: number;
-}
+// Define the extended type for students with user and class data
+type StudentWithDetails = StudentProfile & {
+  user: UserType;
+  class: { name: string }
+};
+
+type DailySummary = {
+  total_transactions: number;
+  total_deposits: number;
+  total_withdrawals: number;
+  deposit_amount: number;
+  withdrawal_amount: number;
+};
 
-export function StaffReports({ staffId }: StaffReportsProps) {
+export function StaffReports() {
   const [reportType, setReportType] = useState<string>('daily');
-  const [selectedDate, setSelectedDate] = useState<string>(
-    new Date().toISOString().split('T')[0]
-  );
+  const [format, setFormat] = useState<ReportFormat>('XLSX');
+  const [selectedDate, setSelectedDate] = useState<string>(() => toDateInputValue(new Date()));
   const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [students, setStudents] = useState<StudentWithDetails[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [summary, setSummary] = useState<DailySummary | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [allStudents, todaySummary] = await Promise.all([
+          trpc.getAllStudents.query(),
+          trpc.getDailyTransactionSummary.query({ date: new Date() })
+        ]);
+        setStudents(allStudents);
+        setSummary(todaySummary);
+      } catch (error) {
+        console.error('Failed to load report data:', error);
+      }
+    };
+    loadData();
+  }, []);
+
+  // Map the staff report choices onto the shared export report types
+  const getReportOptions = (): ReportDownloadOptions => {
+    const [year, month, day] = selectedDate.split('-').map(Number);
+    switch (reportType) {
+      case 'weekly':
+        return {
+          reportType: 'TRANSACTIONS',
+          format,
+          startDate: toDateInputValue(new Date(year, month - 1, day - 6)),
+          endDate: selectedDate
+        };
+      case 'monthly':
+        return {
+          reportType: 'TRANSACTIONS',
+          format,
+          startDate: toDateInputValue(new Date(year, month - 1, 1)),
+          endDate: toDateInputValue(new Date(year, month, 0))
+        };
+      case 'student':
+        return {
+          reportType: 'STUDENT',
+          format,
+          startDate: toDateInputValue(new Date(year, month - 1, 1)),
+          endDate: toDateInputValue(new Date(year, month, 0))
+        };
+      default:
+        return { reportType: 'TRANSACTIONS', format, startDate: selectedDate, endDate: selectedDate };
+    }
+  };
 
   const handleGenerateReport = async () => {
     setIsGenerating(true);
-    
-    // Simulate report generation delay
-    setTimeout(() => {
+    setError(null);
+
+    try {
+      await downloadReport(getReportOptions());
+    } catch (error) {
+      console.error('Failed to generate report:', error);
+      setError(error instanceof Error ? error.message : 'Failed to generate report');
+    } finally {
       setIsGenerating(false);
-      alert('Report generated successfully! Download would start in a real implementation.');
-    }, 1500);
+    }
   };
 
-  const handlePrintSavingsBook = (studentName: string) => {
-    alert(`Printing savings book for ${studentName}. In a real implementation, this would open a print dialog with the student's transaction history.`);
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
   };
 
-  // Note: staffId is available for use in actual report generation
-  console.log('Staff ID for reports:', staffId);
+  const filteredStudents = students.filter((student: StudentWithDetails) =>
+    student.user.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    student.nis.toLowerCase().includes(searchTerm.toLowerCase())
+  );
 
   return (
     <div className="space-y-6">
-      <Alert>
-        <FileText className="h-4 w-4" />
-        <AlertDescription>
-          <strong>Note:</strong> This is a stub implementation. In production, reports would be 
-          generated from actual transaction data and exported in various formats.
-        </AlertDescription>
-      </Alert>
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
 
       {/* Report Generation */}
       <Card>
@@ -61,7 +132,7 @@ export function StaffReports({ staffId }: StaffReportsProps) {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <label className="text-sm font-medium text-gray-700">Report Type</label>
               <Select value={reportType} onValueChange={setReportType}>
@@ -69,10 +140,24 @@ export function StaffReports({ staffId }: StaffReportsProps) {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="daily">Daily Transaction Summary</SelectItem>
-                  <SelectItem value="weekly">Weekly Report</SelectItem>
-                  <SelectItem value="monthly">Monthly Report</SelectItem>
-                  <SelectItem value="student">Individual Student Report</SelectItem>
+                  <SelectItem value="daily">Daily Transactions</SelectItem>
+                  <SelectItem value="weekly">Weekly Transactions (7 days to date)</SelectItem>
+                  <SelectItem value="monthly">Monthly Transactions</SelectItem>
+                  <SelectItem value="student">Student Balances for the Month</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-gray-700">Format</label>
+              <Select value={format} onValueChange={(value: string) => setFormat(value as ReportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="XLSX">Excel (.xlsx)</SelectItem>
+                  <SelectItem value="PDF">PDF Report</SelectItem>
+                  <SelectItem value="CSV">CSV Data</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -100,7 +185,7 @@ export function StaffReports({ staffId }: StaffReportsProps) {
             ) : (
               <div className="flex items-center space-x-2">
                 <Download className="h-4 w-4" />
-                <span>Generate Excel Report</span>
+                <span>Generate & Download Report</span>
               </div>
             )}
           </Button>
@@ -117,40 +202,37 @@ export function StaffReports({ staffId }: StaffReportsProps) {
         </CardHeader>
         <CardContent>
           <p className="text-sm text-gray-600 mb-4">
-            Print individual savings books showing transaction history for students
+            Print savings books page by page, or continue an existing book from its last printed line
           </p>
           
-          <div className="space-y-3">
-            {[
-              { name: 'Ahmad Fadli', nis: '2024001', balance: 125000, class: 'VII-A' },
-              { name: 'Sari Dewi', nis: '2024002', balance: 89000, class: 'VII-A' },
-              { name: 'Budi Santoso', nis: '2024003', balance: 156000, class: 'VII-B' },
-              { name: 'Maya Sari', nis: '2024004', balance: 67000, class: 'VII-B' }
-            ].map((student, index) => (
-              <div key={index} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
+          <Input
+            placeholder="Search student by name or NIS..."
+            value={searchTerm}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+            className="mb-4"
+          />
+
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {filteredStudents.length === 0 ? (
+              <p className="text-center text-gray-500 py-4">No students found</p>
+            ) : filteredStudents.map((student: StudentWithDetails) => (
+              <div key={student.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50">
                 <div className="flex items-center space-x-3">
                   <div className="bg-blue-100 rounded-full p-2">
                     <BookOpen className="h-4 w-4 text-blue-600" />
                   </div>
                   <div>
-                    <p className="font-medium">{student.name}</p>
+                    <p className="font-medium">{student.user.full_name}</p>
                     <p className="text-sm text-gray-600">
-                      NIS: {student.nis} • Class: {student.class}
+                      NIS: {student.nis} • Class: {student.class.name}
                     </p>
                   </div>
                 </div>
                 <div className="flex items-center space-x-3">
                   <Badge variant="outline">
-                    Rp {student.balance.toLocaleString('id-ID')}
+                    {formatCurrency(student.current_balance)}
                   </Badge>
-                  <Button 
-                    onClick={() => handlePrintSavingsBook(student.name)}
-                    variant="outline" 
-                    size="sm"
-                  >
-                    <Printer className="h-4 w-4 mr-1" />
-                    Print Book
-                  </Button>
+                  <PassbookDialog student={student} />
                 </div>
               </div>
             ))}
@@ -167,19 +249,25 @@ export function StaffReports({ staffId }: StaffReportsProps) {
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
             <div>
               <p className="text-sm text-gray-600">Transactions</p>
-              <p className="text-2xl font-bold text-blue-600">12</p>
+              <p className="text-2xl font-bold text-blue-600">{summary?.total_transactions ?? '-'}</p>
             </div>
             <div>
               <p className="text-sm text-gray-600">Deposits</p>
-              <p className="text-xl font-bold text-green-600">Rp 245K</p>
+              <p className="text-xl font-bold text-green-600">
+                {summary ? formatCurrency(summary.deposit_amount) : '-'}
+              </p>
             </div>
             <div>
               <p className="text-sm text-gray-600">Withdrawals</p>
-              <p className="text-xl font-bold text-red-600">Rp 89K</p>
+              <p className="text-xl font-bold text-red-600">
+                {summary ? formatCurrency(summary.withdrawal_amount) : '-'}
+              </p>
             </div>
             <div>
               <p className="text-sm text-gray-600">Net Change</p>
-              <p className="text-xl font-bold text-purple-600">+Rp 156K</p>
+              <p className="text-xl font-bold text-purple-600">
+                {summary ? formatCurrency(sumMoney([summary.deposit_amount, -summary.withdrawal_amount])) : '-'}
+              </p>
             </div>
           </div>
         </CardContent>
@@ -187,3 +275,142 @@ export function StaffReports({ staffId }: StaffReportsProps) {
     </div>
   );
 }
+
+function PassbookDialog({ student }: { student: StudentWithDetails }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState<PassbookStatus | null>(null);
+  // Printout waiting for the teller to confirm it landed in the book
+  const [pending, setPending] = useState<{ mode: PassbookMode; throughTransactionId: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const result = await trpc.getPassbookStatus.query({ studentId: student.id });
+      setStatus(result);
+    } catch (error) {
+      console.error('Failed to load passbook status:', error);
+    }
+  }, [student.id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadStatus();
+    }
+  }, [isOpen, loadStatus]);
+
+  const handlePrint = async (mode: PassbookMode) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const throughTransactionId = await downloadPassbook(student.id, mode);
+      setPending(throughTransactionId === null ? null : { mode, throughTransactionId });
+    } catch (error) {
+      console.error('Failed to print passbook:', error);
+      setError(error instanceof Error ? error.message : 'Failed to print passbook');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) {
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await trpc.recordPassbookPrint.mutate({
+        student_id: student.id,
+        mode: pending.mode,
+        through_transaction_id: pending.throughTransactionId
+      });
+      setStatus(result);
+      setPending(null);
+    } catch (error) {
+      console.error('Failed to record passbook print:', error);
+      setError('Failed to record the print. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const nextLine = status ? status.printed_lines + 1 : 1;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); setPending(null); setError(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Printer className="h-4 w-4 mr-1" />
+          Print Book
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Savings Book - {student.user.full_name}</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {status && (
+          <div className="grid grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg text-sm">
+            <div>
+              <p className="text-gray-600">Lines printed in this book</p>
+              <p className="font-bold">{status.printed_lines}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">New lines to print</p>
+              <p className="font-bold">{status.pending_lines}</p>
+            </div>
+            {status.updated_at && (
+              <p className="col-span-2 text-gray-500">
+                Last printed on {new Date(status.updated_at).toLocaleString('id-ID')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {pending ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Did the printout come out correctly in the book? Confirming moves the book position on,
+              so the next print continues after these lines.
+            </p>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setPending(null)}>
+                No, print again later
+              </Button>
+              <Button onClick={handleConfirm} disabled={isLoading}>
+                Yes, mark as printed
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Button
+              className="w-full"
+              onClick={() => handlePrint('CONTINUE')}
+              disabled={isLoading || status?.pending_lines === 0}
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Continue from line {nextLine}
+            </Button>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => handlePrint('FULL')}
+              disabled={isLoading}
+            >
+              <BookOpen className="h-4 w-4 mr-2" />
+              Print a new book from the start
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
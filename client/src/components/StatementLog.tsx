@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { previewStatement } from '@/utils/reports';
+import type { StatementDelivery, StatementDeliveryStatus, StudentProfile, User as UserType } from '../../../server/src/schema';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Eye, FileText, Send } from 'lucide-react';
+
+type StudentWithDetails = StudentProfile & {
+  user: UserType;
+  class: { name: string }
+};
+
+const STATUS_STYLES: Record<StatementDeliveryStatus, { label: string; className: string }> = {
+  SENDING: { label: 'Sending', className: 'bg-blue-100 text-blue-800' },
+  SENT: { label: 'Sent', className: 'bg-green-100 text-green-800' },
+  FAILED: { label: 'Failed', className: 'bg-red-100 text-red-800' }
+};
+
+// The month the job last sent, which is the one most often looked at
+const lastMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export function StatementLog() {
+  const [month, setMonth] = useState(lastMonth);
+  const [deliveries, setDeliveries] = useState<StatementDelivery[]>([]);
+  const [students, setStudents] = useState<StudentWithDetails[]>([]);
+  const [selectedStudent, setSelectedStudent] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatementDeliveryStatus | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [sendingFor, setSendingFor] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    if (!month) {
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setDeliveries(await trpc.getStatementDeliveries.query({
+        month,
+        status: statusFilter === 'all' ? undefined : statusFilter
+      }));
+    } catch (error) {
+      console.error('Failed to load statement deliveries:', error);
+      setError('Failed to load the delivery log.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [month, statusFilter]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  useEffect(() => {
+    trpc.getAllStudents.query()
+      .then(setStudents)
+      .catch(error => console.error('Failed to load students:', error));
+  }, []);
+
+  const handlePreview = async (studentId: number) => {
+    setError(null);
+    try {
+      await previewStatement(studentId, month);
+    } catch (error) {
+      console.error('Failed to preview statement:', error);
+      setError(error instanceof Error ? error.message : 'Failed to preview the statement.');
+    }
+  };
+
+  const handleResend = async (studentId: number) => {
+    setError(null);
+    setMessage(null);
+    setSendingFor(studentId);
+    try {
+      const delivery = await trpc.resendStatement.mutate({ student_id: studentId, month });
+      if (delivery.status === 'SENT') {
+        setMessage(`Statement sent to ${delivery.recipients}`);
+      } else {
+        setError(`Sending failed: ${delivery.error}`);
+      }
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Failed to resend statement:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send the statement.');
+    } finally {
+      setSendingFor(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileText className="h-5 w-5" />
+          <span>Monthly Statements</span>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Statements are emailed as PDF to students and their guardians after each month ends.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700">Month</label>
+            <Input
+              type="month"
+              value={month}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMonth(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700">Student</label>
+            <Select value={selectedStudent} onValueChange={setSelectedStudent}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a student" />
+              </SelectTrigger>
+              <SelectContent>
+                {students.map(student => (
+                  <SelectItem key={student.id} value={student.id.toString()}>
+                    {student.user.full_name} ({student.nis})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end space-x-2">
+            <Button
+              variant="outline"
+              disabled={!selectedStudent || !month}
+              onClick={() => handlePreview(parseInt(selectedStudent))}
+            >
+              <Eye className="h-4 w-4 mr-1" />
+              Preview
+            </Button>
+            <Button
+              disabled={!selectedStudent || !month || sendingFor !== null}
+              onClick={() => handleResend(parseInt(selectedStudent))}
+            >
+              <Send className="h-4 w-4 mr-1" />
+              Send Now
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium text-gray-700">Delivery Log ({deliveries.length})</p>
+          <Select value={statusFilter} onValueChange={(value: StatementDeliveryStatus | 'all') => setStatusFilter(value)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {(Object.keys(STATUS_STYLES) as StatementDeliveryStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{STATUS_STYLES[status].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading delivery log...</p>
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No statements sent for this month</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Recipients</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Sent By</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery: StatementDelivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="whitespace-nowrap">{delivery.created_at.toLocaleString('id-ID')}</TableCell>
+                  <TableCell>
+                    {delivery.student_name}
+                    <span className="block text-xs text-gray-500">NIS {delivery.nis}</span>
+                  </TableCell>
+                  <TableCell className="text-sm">{delivery.recipients}</TableCell>
+                  <TableCell>
+                    <Badge className={STATUS_STYLES[delivery.status].className}>
+                      {STATUS_STYLES[delivery.status].label}
+                    </Badge>
+                    <span className="block text-xs text-gray-500 mt-1">via {delivery.transport}</span>
+                    {delivery.error && <span className="block text-xs text-red-600">{delivery.error}</span>}
+                  </TableCell>
+                  <TableCell>{delivery.sent_by_name ?? <span className="text-gray-500">Monthly job</span>}</TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handlePreview(delivery.student_id)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={sendingFor !== null}
+                        onClick={() => handleResend(delivery.student_id)}
+                      >
+                        <Send className="h-4 w-4 mr-1" />
+                        Resend
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
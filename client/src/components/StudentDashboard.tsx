@@ -6,6 +6,8 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { PasswordChangeForm } from '@/components/PasswordChangeForm';
+import { ContactDetailsForm } from '@/components/ContactDetailsForm';
+import { ActiveSessions } from '@/components/ActiveSessions';
 import { 
   DollarSign, 
   TrendingUp, 
@@ -43,7 +45,7 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
   const loadDashboardData = useCallback(async () => {
     try {
       // Get student profile first
-      const student = await trpc.getStudentById.query({ id: user.id });
+      const student = await trpc.getMyStudentProfile.query();
       setStudentProfile(student);
 
       // Only proceed if student profile exists
@@ -57,7 +59,7 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [user.id]);
+  }, []);
 
   useEffect(() => {
     loadDashboardData();
@@ -296,6 +298,7 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
         </TabsContent>
 
         <TabsContent value="settings" className="space-y-4">
+          <ContactDetailsForm user={user} />
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
@@ -304,9 +307,10 @@ export function StudentDashboard({ user }: StudentDashboardProps) {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <PasswordChangeForm userId={user.id} />
+              <PasswordChangeForm />
             </CardContent>
           </Card>
+          <ActiveSessions />
         </TabsContent>
       </Tabs>
     </div>
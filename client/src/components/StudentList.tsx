@@ -1,18 +1,34 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
-import type { StudentProfile, User as UserType, Class as ClassType } from '../../../server/src/schema';
+import { sumMoney } from '@/lib/utils';
+import { downloadClosureReceipt } from '@/utils/reports';
+import type {
+  StudentProfile,
+  StudentStatus,
+  User as UserType,
+  Class as ClassType,
+  ClassChange,
+  UpdateStudentInput
+} from '../../../server/src/schema';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Switch } from '@/components/ui/switch';
 import { 
   Search, 
   User, 
   DollarSign,
   GraduationCap,
-  Eye
+  Pencil,
+  History,
+  Snowflake,
+  Lock,
+  Printer
 } from 'lucide-react';
 
 // Define the extended type for students with user and class data
@@ -21,6 +37,20 @@ type StudentWithDetails = StudentProfile & {
   class: { name: string } 
 };
 
+const STATUS_STYLES: Record<StudentStatus, { label: string; className: string }> = {
+  ACTIVE: { label: 'Active', className: 'text-green-600' },
+  FROZEN: { label: 'Frozen', className: 'text-blue-600' },
+  CLOSED: { label: 'Closed', className: 'text-gray-500' }
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0
+  }).format(amount);
+};
+
 export function StudentList() {
   const [students, setStudents] = useState<StudentWithDetails[]>([]);
   const [classes, setClasses] = useState<ClassType[]>([]);
@@ -54,12 +84,17 @@ export function StudentList() {
     return matchesSearch && matchesClass;
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('id-ID', {
-      style: 'currency',
-      currency: 'IDR',
-      minimumFractionDigits: 0
-    }).format(amount);
+  const toggleFrozen = async (student: StudentWithDetails) => {
+    try {
+      await trpc.setStudentStatus.mutate({
+        student_id: student.id,
+        status: student.status === 'FROZEN' ? 'ACTIVE' : 'FROZEN'
+      });
+      await loadData();
+    } catch (error) {
+      console.error('Failed to change account status:', error);
+      alert('Failed to change the account status. Please try again.');
+    }
   };
 
   const getBalanceColor = (balance: number) => {
@@ -128,9 +163,9 @@ export function StudentList() {
                       <p className="text-xs text-gray-600">NIS: {student.nis}</p>
                     </div>
                   </div>
-                  <Button variant="outline" size="sm">
-                    <Eye className="h-3 w-3" />
-                  </Button>
+                  {student.status !== 'CLOSED' && (
+                    <EditStudentDialog student={student} classes={classes} onSuccess={loadData} />
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -160,11 +195,32 @@ export function StudentList() {
                   <span className="text-xs text-gray-500">
                     Member since: {student.created_at.toLocaleDateString('id-ID')}
                   </span>
-                  <div className="flex items-center space-x-1">
-                    <DollarSign className="h-3 w-3 text-green-600" />
-                    <span className="text-xs font-medium text-green-600">Active</span>
+                  <div className={`flex items-center space-x-1 ${STATUS_STYLES[student.status].className}`}>
+                    <DollarSign className="h-3 w-3" />
+                    <span className="text-xs font-medium">{STATUS_STYLES[student.status].label}</span>
                   </div>
                 </div>
+
+                <div className="mt-3 flex justify-end space-x-2">
+                  {student.status === 'CLOSED' ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadClosureReceipt({ studentId: student.id }).catch((error: Error) => alert(error.message))}
+                    >
+                      <Printer className="h-3 w-3 mr-1" />
+                      Closure Receipt
+                    </Button>
+                  ) : (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => toggleFrozen(student)}>
+                        <Snowflake className="h-3 w-3 mr-1" />
+                        {student.status === 'FROZEN' ? 'Unfreeze' : 'Freeze'}
+                      </Button>
+                      <CloseAccountDialog student={student} onSuccess={loadData} />
+                    </>
+                  )}
+                </div>
               </CardContent>
             </Card>
           ))}
@@ -184,9 +240,7 @@ export function StudentList() {
                 <p className="text-sm text-gray-600">Total Savings</p>
                 <p className="text-lg font-bold text-green-600">
                   {formatCurrency(
-                    filteredStudents.reduce((sum: number, student: StudentWithDetails) => 
-                      sum + student.current_balance, 0
-                    )
+                    sumMoney(filteredStudents.map((student: StudentWithDetails) => student.current_balance))
                   )}
                 </p>
               </div>
@@ -194,9 +248,7 @@ export function StudentList() {
                 <p className="text-sm text-gray-600">Average Balance</p>
                 <p className="text-lg font-bold text-purple-600">
                   {formatCurrency(
-                    filteredStudents.reduce((sum: number, student: StudentWithDetails) => 
-                      sum + student.current_balance, 0
-                    ) / filteredStudents.length
+                    sumMoney(filteredStudents.map((student: StudentWithDetails) => student.current_balance)) / filteredStudents.length
                   )}
                 </p>
               </div>
@@ -215,3 +267,307 @@ export function StudentList() {
     </div>
   );
 }
+
+function EditStudentDialog({ student, classes, onSuccess }: {
+  student: StudentWithDetails;
+  classes: ClassType[];
+  onSuccess: () => void;
+}) {
+  // The NIS, email, parent phone, alerts and sign-in are left to administrators, who change them
+  // from User Management; they are shown here but never sent
+  const initialForm = (): UpdateStudentInput => ({
+    id: student.id,
+    full_name: student.user.full_name,
+    class_id: student.class_id,
+    class_change_reason: null,
+    parent_name: student.parent_name,
+    address: student.address,
+    phone: student.user.phone
+  });
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [formData, setFormData] = useState<UpdateStudentInput>(initialForm);
+  const [history, setHistory] = useState<ClassChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved profile every time the dialog opens
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      return;
+    }
+    setFormData(initialForm());
+    setError(null);
+    try {
+      setHistory(await trpc.getStudentClassHistory.query({ studentId: student.id }));
+    } catch (error) {
+      console.error('Failed to load class history:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await trpc.updateStudent.mutate(formData);
+      setIsOpen(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Failed to update student:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update the student. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const classChanged = formData.class_id !== student.class_id;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Pencil className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit {student.user.full_name}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <p className="text-xs text-gray-500">
+            The NIS, email, parent phone, parent notifications and sign-in can only be changed by an administrator.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Full Name *</label>
+              <Input
+                value={formData.full_name ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, full_name: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">NIS (Student Number)</label>
+              <Input value={student.nis} disabled />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Class *</label>
+              <Select value={formData.class_id?.toString()} onValueChange={(value) =>
+                setFormData(prev => ({ ...prev, class_id: parseInt(value) }))
+              }>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {classes.map((cls) => (
+                    <SelectItem key={cls.id} value={cls.id.toString()}>
+                      {cls.name} - {cls.academic_year}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {classChanged && (
+              <div>
+                <label className="text-sm font-medium text-gray-700">Reason for the Move</label>
+                <Input
+                  value={formData.class_change_reason || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, class_change_reason: e.target.value || null }))
+                  }
+                  placeholder="e.g., Pindah ke kelas sore"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Parent Name</label>
+              <Input
+                value={formData.parent_name || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, parent_name: e.target.value || null }))
+                }
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Parent Phone</label>
+              <Input value={student.parent_phone || ''} disabled />
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <p className="text-sm font-medium">Notify Parent of Transactions</p>
+              <p className="text-xs text-gray-600">
+                Sends a message to the parent phone after every deposit and withdrawal.
+              </p>
+            </div>
+            <Switch checked={student.notify_parent} disabled />
+          </label>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">Address</label>
+            <Input
+              value={formData.address || ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData(prev => ({ ...prev, address: e.target.value || null }))
+              }
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Email</label>
+              <Input type="email" value={student.user.email || ''} disabled />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Phone</label>
+              <Input
+                value={formData.phone || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, phone: e.target.value || null }))
+                }
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <p className="text-sm font-medium">Can Sign In</p>
+              <p className="text-xs text-gray-600">
+                Turning this off signs the student out. Use Freeze to stop transactions on the savings account.
+              </p>
+            </div>
+            <Switch checked={student.user.is_active} disabled />
+          </label>
+
+          {history.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 flex items-center mb-2">
+                <History className="h-4 w-4 mr-1" />
+                Class History
+              </p>
+              <ul className="space-y-1 text-sm">
+                {history.map((change: ClassChange) => (
+                  <li key={change.id} className="flex justify-between gap-4">
+                    <span>
+                      {change.from_class.name} ({change.from_class.academic_year}) → {change.to_class
+                        ? `${change.to_class.name} (${change.to_class.academic_year})`
+                        : 'Graduated'}
+                      {change.reason && <span className="text-gray-500"> - {change.reason}</span>}
+                    </span>
+                    <span className="text-gray-500 whitespace-nowrap">
+                      {change.kind === 'ROLLOVER' ? 'Rollover' : 'Transfer'}, {change.changed_at.toLocaleDateString('id-ID')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CloseAccountDialog({ student, onSuccess }: { student: StudentWithDetails; onSuccess: () => void }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await trpc.closeAccount.mutate({ student_id: student.id, reason });
+      setIsOpen(false);
+      setReason('');
+      onSuccess();
+      // The account is closed either way; the receipt can be printed again from the card
+      downloadClosureReceipt({ studentId: student.id }).catch((error: Error) => alert(error.message));
+    } catch (error) {
+      console.error('Failed to close account:', error);
+      setError(error instanceof Error ? error.message : 'Failed to close the account. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+          <Lock className="h-3 w-3 mr-1" />
+          Close
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Close Account of {student.user.full_name}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <p className="text-sm text-gray-600">
+            The remaining balance of <strong>{formatCurrency(student.current_balance)}</strong> is paid out as a
+            final withdrawal and the account is closed for good. A receipt for the parent or guardian to sign is downloaded afterwards.
+          </p>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">Reason *</label>
+            <Input
+              value={reason}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReason(e.target.value)}
+              placeholder="e.g., Lulus, pindah sekolah"
+              required
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={isLoading || !reason.trim()}>
+              {isLoading ? 'Closing...' : `Pay Out ${formatCurrency(student.current_balance)} and Close`}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 
 import { useState, useEffect } from 'react';
 import { trpc } from '@/utils/trpc';
+import { sumMoney } from '@/lib/utils';
 import type { CreateTransactionInput, StudentProfile, User as UserType } from '../../../server/src/schema';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -18,7 +19,6 @@ import {
 } from 'lucide-react';
 
 interface TransactionFormProps {
-  staffId: number;
   onSuccess: () => void;
 }
 
@@ -28,7 +28,7 @@ type StudentWithDetails = StudentProfile & {
   class: { name: string } 
 };
 
-export function TransactionForm({ staffId, onSuccess }: TransactionFormProps) {
+export function TransactionForm({ onSuccess }: TransactionFormProps) {
   const [students, setStudents] = useState<StudentWithDetails[]>([]);
   const [selectedStudent, setSelectedStudent] = useState<StudentWithDetails | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -38,6 +38,8 @@ export function TransactionForm({ staffId, onSuccess }: TransactionFormProps) {
     amount: 0,
     description: null
   });
+  // Same key for every attempt at one submit, so a double click or retry cannot post twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -67,6 +69,10 @@ export function TransactionForm({ staffId, onSuccess }: TransactionFormProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (isLoading) {
+      return;
+    }
     
     if (!selectedStudent) {
       setError('Please select a student');
@@ -78,6 +84,11 @@ export function TransactionForm({ staffId, onSuccess }: TransactionFormProps) {
       return;
     }
 
+    if (!/^\d+(\.\d{1,2})?$/.test(formData.amount.toString())) {
+      setError('Amount cannot have more than two decimal places');
+      return;
+    }
+
     // For withdrawals, check if student has sufficient balance
     if (formData.type === 'WITHDRAWAL' && formData.amount > selectedStudent.current_balance) {
       setError('Insufficient balance for withdrawal');
@@ -91,7 +102,7 @@ export function TransactionForm({ staffId, onSuccess }: TransactionFormProps) {
     try {
       await trpc.createTransaction.mutate({
         ...formData,
-        staffId
+        idempotency_key: idempotencyKey
       });
       
       setSuccess(`Transaction successful! ${formData.type === 'DEPOSIT' ? 'Deposited' : 'Withdrawn'} ${formatCurrency(formData.amount)}`);
@@ -104,6 +115,7 @@ export function TransactionForm({ staffId, onSuccess }: TransactionFormProps) {
         description: null
       });
       setSelectedStudent(null);
+      setIdempotencyKey(crypto.randomUUID());
       
       // Reload students to get updated balance
       const allStudents = await trpc.getAllStudents.query();
@@ -303,9 +315,10 @@ export function TransactionForm({ staffId, onSuccess }: TransactionFormProps) {
                       formData.type === 'DEPOSIT' ? 'text-green-600' : 'text-red-600'
                     }`}>
                       {formatCurrency(
-                        formData.type === 'DEPOSIT' 
-                          ? selectedStudent.current_balance + (formData.amount || 0)
-                          : selectedStudent.current_balance - (formData.amount || 0)
+                        sumMoney([
+                          selectedStudent.current_balance,
+                          formData.type === 'DEPOSIT' ? (formData.amount || 0) : -(formData.amount || 0)
+                        ])
                       )}
                     </p>
                   </div>
@@ -1,32 +1,37 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
+import { sumMoney } from '@/lib/utils';
 import type { Transaction } from '../../../server/src/schema';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   History, 
   TrendingUp, 
   TrendingDown, 
   Calendar,
-  Download
+  Download,
+  Undo2
 } from 'lucide-react';
 
-interface TransactionHistoryProps {
-  staffId: number;
-}
-
 // Define the extended type for transactions with student data
 type TransactionWithStudent = Transaction & { 
   student: { 
     user: { full_name: string }; 
     nis: string 
-  } 
+  };
+  reversal: {
+    id: number;
+    description: string | null;
+    transaction_date: Date;
+  } | null;
 };
 
-export function TransactionHistory({ staffId }: TransactionHistoryProps) {
+export function TransactionHistory() {
   const [transactions, setTransactions] = useState<TransactionWithStudent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState<string>(
@@ -36,17 +41,14 @@ export function TransactionHistory({ staffId }: TransactionHistoryProps) {
   const loadTransactions = useCallback(async () => {
     try {
       const date = new Date(selectedDate);
-      const transactionData = await trpc.getTransactionsByStaff.query({ 
-        staffId, 
-        date 
-      });
+      const transactionData = await trpc.getTransactionsByStaff.query({ date });
       setTransactions(transactionData);
     } catch (error) {
       console.error('Failed to load transactions:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [staffId, selectedDate]);
+  }, [selectedDate]);
 
   useEffect(() => {
     loadTransactions();
@@ -74,13 +76,16 @@ export function TransactionHistory({ staffId }: TransactionHistoryProps) {
       : 'bg-red-100 text-red-800 border-red-200';
   };
 
-  const totalDeposits = transactions
+  const totalDeposits = sumMoney(transactions
     .filter(t => t.type === 'DEPOSIT')
-    .reduce((sum, t) => sum + t.amount, 0);
+    .map(t => t.amount));
 
-  const totalWithdrawals = transactions
+  const totalWithdrawals = sumMoney(transactions
     .filter(t => t.type === 'WITHDRAWAL')
-    .reduce((sum, t) => sum + t.amount, 0);
+    .map(t => t.amount));
+
+  const canReverse = (transaction: TransactionWithStudent) =>
+    transaction.reversal === null && transaction.reverses_transaction_id === null;
 
   return (
     <div className="space-y-6">
@@ -160,10 +165,18 @@ export function TransactionHistory({ staffId }: TransactionHistoryProps) {
                     </div>
                     <div>
                       <div className="flex items-center space-x-2">
-                        <p className="font-medium">{transaction.student?.user?.full_name || 'Unknown Student'}</p>
+                        <p className={`font-medium ${transaction.reversal ? 'line-through text-gray-400' : ''}`}>
+                          {transaction.student?.user?.full_name || 'Unknown Student'}
+                        </p>
                         <Badge className={`${getTransactionColor(transaction.type)} border`}>
                           {transaction.type}
                         </Badge>
+                        {transaction.reverses_transaction_id !== null && (
+                          <Badge variant="outline">Reversal of #{transaction.reverses_transaction_id}</Badge>
+                        )}
+                        {transaction.reversal && (
+                          <Badge variant="outline" className="text-gray-500">Reversed</Badge>
+                        )}
                       </div>
                       <p className="text-sm text-gray-600">
                         NIS: {transaction.student?.nis || 'N/A'} • {new Date(transaction.transaction_date).toLocaleTimeString('id-ID', {
@@ -174,11 +187,18 @@ export function TransactionHistory({ staffId }: TransactionHistoryProps) {
                       {transaction.description && (
                         <p className="text-sm text-gray-500 mt-1">{transaction.description}</p>
                       )}
+                      {transaction.reversal && (
+                        <p className="text-sm text-red-600 mt-1">
+                          ↳ #{transaction.reversal.id} on {new Date(transaction.reversal.transaction_date).toLocaleDateString('id-ID')}
+                          {transaction.reversal.description && ` — ${transaction.reversal.description}`}
+                        </p>
+                      )}
                     </div>
                   </div>
 
                   <div className="text-right">
                     <p className={`font-bold text-lg ${
+                      transaction.reversal ? 'line-through text-gray-400' :
                       transaction.type === 'DEPOSIT' ? 'text-green-600' : 'text-red-600'
                     }`}>
                       {transaction.type === 'DEPOSIT' ? '+' : '-'}
@@ -188,6 +208,9 @@ export function TransactionHistory({ staffId }: TransactionHistoryProps) {
                       <p>Before: {formatCurrency(transaction.balance_before)}</p>
                       <p>After: {formatCurrency(transaction.balance_after)}</p>
                     </div>
+                    {canReverse(transaction) && (
+                      <ReverseTransactionDialog transaction={transaction} onSuccess={loadTransactions} />
+                    )}
                   </div>
                 </div>
               ))}
@@ -198,3 +221,95 @@ export function TransactionHistory({ staffId }: TransactionHistoryProps) {
     </div>
   );
 }
+
+function ReverseTransactionDialog({ transaction, onSuccess }: { transaction: TransactionWithStudent; onSuccess: () => void }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      setError('Please give a reason for the reversal');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const request = await trpc.reverseTransaction.mutate({
+        transaction_id: transaction.id,
+        reason: reason.trim()
+      });
+      setReason('');
+      if (request.status === 'PENDING') {
+        setNotice('This amount needs administrator approval. The reversal will be posted once approved.');
+      } else {
+        setIsOpen(false);
+      }
+      onSuccess();
+    } catch (error) {
+      console.error('Failed to reverse transaction:', error);
+      setError('Failed to reverse transaction. It may already be reversed or the balance is insufficient.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); setNotice(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="mt-2">
+          <Undo2 className="h-4 w-4 mr-1" />
+          Reverse
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reverse Transaction #{transaction.id}</DialogTitle>
+        </DialogHeader>
+
+        {notice ? (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <p className="text-sm text-gray-600">
+              A compensating {transaction.type === 'DEPOSIT' ? 'withdrawal' : 'deposit'} will be posted
+              for {transaction.student?.user?.full_name || 'this student'}.
+            </p>
+
+            <div>
+              <label className="text-sm font-medium text-gray-700">Reason *</label>
+              <Input
+                value={reason}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReason(e.target.value)}
+                placeholder="e.g., Wrong amount entered"
+                required
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Reversing...' : 'Reverse Transaction'}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import { sumMoney } from '@/lib/utils';
+import type { ReportFilters, ReportSortField, TransactionType } from '../../../server/src/schema';
+import type { TransactionReportRow } from '../../../server/src/handlers/transactions';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronLeft, ChevronRight, History } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+interface TransactionReportProps {
+  startDate?: string;
+  endDate?: string;
+  classId?: number;
+}
+
+type ReportTotals = {
+  total_count: number;
+  deposit_count: number;
+  withdrawal_count: number;
+  deposit_amount: number;
+  withdrawal_amount: number;
+};
+
+export function TransactionReport({ startDate, endDate, classId }: TransactionReportProps) {
+  const [transactions, setTransactions] = useState<TransactionReportRow[]>([]);
+  const [totals, setTotals] = useState<ReportTotals | null>(null);
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [sortBy, setSortBy] = useState<ReportSortField>('transaction_date');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const filters: ReportFilters = {
+        start_date: startDate ? new Date(startDate) : undefined,
+        end_date: endDate ? new Date(endDate) : undefined,
+        class_id: classId,
+        transaction_type: typeFilter === 'all' ? undefined : typeFilter as TransactionType,
+        sort_by: sortBy,
+        sort_order: sortOrder,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE
+      };
+      const { transactions: pageTransactions, ...pageTotals } = await trpc.getTransactionsReport.query(filters);
+      setTransactions(pageTransactions);
+      setTotals(pageTotals);
+    } catch (error) {
+      console.error('Failed to load transactions report:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [startDate, endDate, classId, typeFilter, sortBy, sortOrder, page]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  // Any change to the filters starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [startDate, endDate, classId, typeFilter, sortBy, sortOrder]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const pageCount = totals ? Math.max(1, Math.ceil(totals.total_count / PAGE_SIZE)) : 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Transactions</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              <SelectItem value="DEPOSIT">Deposits</SelectItem>
+              <SelectItem value="WITHDRAWAL">Withdrawals</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select value={sortBy} onValueChange={(value: string) => setSortBy(value as ReportSortField)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="transaction_date">Sort by Date</SelectItem>
+              <SelectItem value="amount">Sort by Amount</SelectItem>
+              <SelectItem value="student_name">Sort by Student</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select value={sortOrder} onValueChange={(value: string) => setSortOrder(value as 'asc' | 'desc')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="desc">Descending</SelectItem>
+              <SelectItem value="asc">Ascending</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {totals && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg text-center">
+            <div>
+              <p className="text-sm text-gray-600">Transactions</p>
+              <p className="text-xl font-bold text-blue-600">{totals.total_count}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Deposits ({totals.deposit_count})</p>
+              <p className="text-xl font-bold text-green-600">{formatCurrency(totals.deposit_amount)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Withdrawals ({totals.withdrawal_count})</p>
+              <p className="text-xl font-bold text-red-600">{formatCurrency(totals.withdrawal_amount)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Net Change</p>
+              <p className="text-xl font-bold text-purple-600">
+                {formatCurrency(sumMoney([totals.deposit_amount, -totals.withdrawal_amount]))}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-600 mt-2">Loading transactions...</p>
+          </div>
+        ) : transactions.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No transactions match the selected filters</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Class</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Staff</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((transaction: TransactionReportRow) => (
+                <TableRow key={transaction.id}>
+                  <TableCell>{new Date(transaction.transaction_date).toLocaleString('id-ID')}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{transaction.student.user.full_name}</p>
+                    <p className="text-xs text-gray-500">NIS: {transaction.student.nis}</p>
+                  </TableCell>
+                  <TableCell>{transaction.student.class.name}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={transaction.type === 'DEPOSIT' ? 'text-green-700' : 'text-red-700'}>
+                      {transaction.type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(transaction.amount)}</TableCell>
+                  <TableCell>{transaction.staff.user.full_name}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">Page {page + 1} of {pageCount}</p>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || isLoading}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || isLoading}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,284 @@
+import { useState, useEffect, useCallback } from 'react';
+import { trpc } from '@/utils/trpc';
+import type { TwoFactorStatus, TwoFactorEnrolment } from '../../../server/src/schema';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldCheck, Copy, Download, KeyRound } from 'lucide-react';
+
+interface TwoFactorSettingsProps {
+  // Set when the role requires two-factor authentication and nothing else is reachable until it is on
+  required?: boolean;
+  onEnabled?: () => void;
+}
+
+// Recovery codes are only shown once, so offer a file the user can keep somewhere safe
+function downloadRecoveryCodes(codes: string[]) {
+  const text = ['Student Savings - recovery codes', 'Each code can be used once.', '', ...codes, ''].join('\n');
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'recovery-codes.txt';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function TwoFactorSettings({ required = false, onEnabled }: TwoFactorSettingsProps) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<'idle' | 'disable' | 'regenerate'>('idle');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await trpc.getTwoFactorStatus.query());
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+      setError('Failed to load two-factor authentication settings.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      setError(error instanceof Error && error.message ? error.message : failure);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBegin = () => run(async () => {
+    setEnrolment(await trpc.beginTwoFactorEnrolment.mutate());
+    setCode('');
+  }, 'Failed to start two-factor setup.');
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const result = await trpc.confirmTwoFactorEnrolment.mutate({ code: code.trim() });
+      setEnrolment(null);
+      setCode('');
+      setRecoveryCodes(result.recovery_codes);
+      await loadStatus();
+    }, 'Failed to enable two-factor authentication.');
+  };
+
+  const handleRegenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const result = await trpc.regenerateRecoveryCodes.mutate({ code: code.trim() });
+      setMode('idle');
+      setCode('');
+      setRecoveryCodes(result.recovery_codes);
+      await loadStatus();
+    }, 'Failed to generate new recovery codes.');
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      await trpc.disableTwoFactor.mutate({ password });
+      setMode('idle');
+      setPassword('');
+      await loadStatus();
+    }, 'Failed to turn off two-factor authentication.');
+  };
+
+  // The dashboard only opens once the codes have been put away
+  const handleCodesSaved = () => {
+    setRecoveryCodes(null);
+    onEnabled?.();
+  };
+
+  const cancel = () => {
+    setEnrolment(null);
+    setMode('idle');
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5 text-blue-600" />
+            <h3 className="text-lg font-semibold">Two-Factor Authentication</h3>
+          </div>
+          {status && (
+            status.enabled ? (
+              <Badge className="bg-green-100 text-green-800">On</Badge>
+            ) : (
+              <Badge variant="outline">Off</Badge>
+            )
+          )}
+        </div>
+
+        {required && !recoveryCodes && (
+          <Alert className="mb-4">
+            <AlertDescription>
+              Your role requires two-factor authentication. Set it up with an authenticator app to continue.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Keep these recovery codes somewhere safe. Each one signs you in once if you lose your phone.
+              They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm">
+              {recoveryCodes.map((recoveryCode: string) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}
+              >
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => downloadRecoveryCodes(recoveryCodes)}>
+                <Download className="h-4 w-4 mr-1" />
+                Download
+              </Button>
+              <Button size="sm" onClick={handleCodesSaved}>
+                I have saved these codes
+              </Button>
+            </div>
+          </div>
+        ) : enrolment ? (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Scan this QR code with an authenticator app such as Google Authenticator, then enter the
+              6-digit code it shows.
+            </p>
+            <img
+              src={enrolment.qr_code_data_url}
+              alt="Two-factor QR code"
+              className="w-48 h-48 mx-auto border rounded-lg"
+            />
+            <div className="text-sm text-gray-600">
+              <p>Can't scan it? Enter this key instead:</p>
+              <p className="font-mono break-all bg-gray-50 p-2 rounded mt-1">{enrolment.secret}</p>
+            </div>
+            <Input
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="6-digit code"
+              value={code}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+              required
+            />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading || code.trim().length < 6}>
+                {isLoading ? 'Verifying...' : 'Turn On'}
+              </Button>
+              <Button type="button" variant="outline" onClick={cancel} disabled={isLoading}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : mode === 'regenerate' ? (
+          <form onSubmit={handleRegenerate} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Enter a code from your authenticator app. Your old recovery codes will stop working.
+            </p>
+            <Input
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="6-digit code"
+              value={code}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+              required
+            />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading || code.trim().length < 6}>
+                Generate New Codes
+              </Button>
+              <Button type="button" variant="outline" onClick={cancel} disabled={isLoading}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : mode === 'disable' ? (
+          <form onSubmit={handleDisable} className="space-y-4">
+            <p className="text-sm text-gray-700">Enter your password to turn off two-factor authentication.</p>
+            <Input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+              required
+            />
+            <div className="flex gap-2">
+              <Button type="submit" variant="destructive" disabled={isLoading || !password}>
+                Turn Off
+              </Button>
+              <Button type="button" variant="outline" onClick={cancel} disabled={isLoading}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : status?.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Signing in asks for a code from your authenticator app.
+              {' '}{status.recovery_codes_remaining} recovery codes left.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => setMode('regenerate')}>
+                <KeyRound className="h-4 w-4 mr-1" />
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" size="sm" onClick={() => setMode('disable')}>
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : status ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Protect your account with a code from an authenticator app on your phone in addition to your password.
+            </p>
+            <Button onClick={handleBegin} disabled={isLoading}>
+              <ShieldCheck className="h-4 w-4 mr-1" />
+              Set Up Two-Factor Authentication
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">Loading...</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,34 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { trpc } from '@/utils/trpc';
-import type { User, CreateStudentInput, CreateStaffInput, Class as ClassType } from '../../../server/src/schema';
+import type {
+  User,
+  StaffProfile,
+  StudentProfile,
+  StudentGuardian,
+  CreateStudentInput,
+  CreateStaffInput,
+  UpdateUserInput,
+  UpdateStaffInput,
+  UpdateStudentInput,
+  Class as ClassType,
+  ImportStudentsResult,
+  Credential,
+  IssueCredentialsResult,
+  LoginLockout,
+  TwoFactorRole
+} from '../../../server/src/schema';
+import { CredentialSlips } from '@/components/CredentialSlips';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   Users, 
   Plus, 
@@ -18,19 +37,42 @@ import {
   UserCheck,
   UserX,
   GraduationCap,
-  UserCog
+  UserCog,
+  Upload,
+  Printer,
+  Lock,
+  Unlock,
+  LogOut,
+  ShieldCheck,
+  ShieldOff,
+  Pencil,
+  HeartHandshake
 } from 'lucide-react';
 
 export function UserManagement() {
   const [users, setUsers] = useState<User[]>([]);
+  const [staffProfiles, setStaffProfiles] = useState<StaffProfile[]>([]);
+  const [studentProfiles, setStudentProfiles] = useState<StudentProfile[]>([]);
+  const [lockouts, setLockouts] = useState<LoginLockout[]>([]);
+  const [twoFactorRoles, setTwoFactorRoles] = useState<TwoFactorRole[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState<string>('all');
 
   const loadUsers = useCallback(async () => {
     try {
-      const allUsers = await trpc.getAllUsers.query();
+      const [allUsers, allStaff, allStudents, currentLockouts, requiredRoles] = await Promise.all([
+        trpc.getAllUsers.query(),
+        trpc.getAllStaff.query(),
+        trpc.getAllStudents.query(),
+        trpc.getLoginLockouts.query(),
+        trpc.getTwoFactorRequirements.query()
+      ]);
       setUsers(allUsers);
+      setStaffProfiles(allStaff);
+      setStudentProfiles(allStudents);
+      setLockouts(currentLockouts);
+      setTwoFactorRoles(requiredRoles);
     } catch (error) {
       console.error('Failed to load users:', error);
     } finally {
@@ -57,6 +99,8 @@ export function UserManagement() {
         return 'bg-blue-100 text-blue-800';
       case 'STUDENT':
         return 'bg-green-100 text-green-800';
+      case 'PARENT':
+        return 'bg-amber-100 text-amber-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -70,6 +114,8 @@ export function UserManagement() {
         return <Users className="h-4 w-4" />;
       case 'STUDENT':
         return <GraduationCap className="h-4 w-4" />;
+      case 'PARENT':
+        return <HeartHandshake className="h-4 w-4" />;
       default:
         return <Users className="h-4 w-4" />;
     }
@@ -84,6 +130,49 @@ export function UserManagement() {
     }
   };
 
+  const handleForceLogout = async (user: User) => {
+    if (!confirm(`Sign ${user.full_name} out on every device?`)) return;
+    try {
+      await trpc.forceLogout.mutate({ userId: user.id });
+    } catch (error) {
+      console.error('Failed to force logout:', error);
+    }
+  };
+
+  const handleUnlock = async (lockoutId: number) => {
+    try {
+      await trpc.unlockLogin.mutate({ id: lockoutId });
+      await loadUsers();
+    } catch (error) {
+      console.error('Failed to unlock login:', error);
+    }
+  };
+
+  const handleTwoFactorRequirement = async (role: TwoFactorRole, required: boolean) => {
+    if (required && !confirm(
+      `Require two-factor authentication for every ${role.toLowerCase()}? Anyone without it has to set it up before they can continue.`
+    )) return;
+    try {
+      setTwoFactorRoles(await trpc.setTwoFactorRequirement.mutate({ role, required }));
+    } catch (error) {
+      console.error('Failed to update two-factor requirement:', error);
+    }
+  };
+
+  // For a lost phone: the user signs in with just the password and sets it up again
+  const handleResetTwoFactor = async (user: User) => {
+    if (!confirm(`Turn off two-factor authentication for ${user.full_name} and sign them out everywhere?`)) return;
+    try {
+      await trpc.resetTwoFactor.mutate({ userId: user.id });
+      await loadUsers();
+    } catch (error) {
+      console.error('Failed to reset two-factor authentication:', error);
+    }
+  };
+
+  const isLockedOut = (user: User) =>
+    lockouts.some(lockout => lockout.scope === 'USERNAME' && lockout.key === user.username.toLowerCase());
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -92,6 +181,8 @@ export function UserManagement() {
           <p className="text-gray-600">Manage staff and student accounts</p>
         </div>
         <div className="flex space-x-2">
+          <IssueCredentialsDialog />
+          <ImportStudentsDialog onSuccess={loadUsers} />
           <CreateUserDialog onSuccess={loadUsers} />
         </div>
       </div>
@@ -120,12 +211,91 @@ export function UserManagement() {
                 <SelectItem value="ADMINISTRATOR">Administrator</SelectItem>
                 <SelectItem value="STAFF">Staff</SelectItem>
                 <SelectItem value="STUDENT">Student</SelectItem>
+                <SelectItem value="PARENT">Parent / Guardian</SelectItem>
               </SelectContent>
             </Select>
           </div>
         </CardContent>
       </Card>
 
+      {/* Two-factor policy */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center space-x-2">
+              <ShieldCheck className="h-5 w-5 text-blue-600" />
+              <div>
+                <p className="font-medium">Require Two-Factor Authentication</p>
+                <p className="text-sm text-gray-600">Users of these roles must sign in with an authenticator app code</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-6">
+              {(['ADMINISTRATOR', 'STAFF'] as TwoFactorRole[]).map((role: TwoFactorRole) => (
+                <label key={role} className="flex items-center space-x-2 text-sm">
+                  <Switch
+                    checked={twoFactorRoles.includes(role)}
+                    onCheckedChange={(checked: boolean) => handleTwoFactorRequirement(role, checked)}
+                  />
+                  <span>{role === 'ADMINISTRATOR' ? 'Administrators' : 'Staff'}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Login lockouts */}
+      {lockouts.length > 0 && (
+        <Card className="border-red-200">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-red-700">
+              <Lock className="h-5 w-5" />
+              <span>Locked Out ({lockouts.length})</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600 mb-3">
+              Too many failed logins. The lock lifts by itself at the time shown; unlock only once you know who
+              was trying.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Login</TableHead>
+                  <TableHead>Failed Attempts</TableHead>
+                  <TableHead>Locked Until</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lockouts.map((lockout: LoginLockout) => (
+                  <TableRow key={lockout.id}>
+                    <TableCell>
+                      {lockout.scope === 'IP' ? (
+                        <span>IP address <span className="font-mono">{lockout.key}</span></span>
+                      ) : (
+                        <span>
+                          {lockout.full_name ?? 'Unknown account'}{' '}
+                          <span className="text-gray-500">@{lockout.key}</span>
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{lockout.failure_count}</TableCell>
+                    <TableCell>{lockout.locked_until.toLocaleTimeString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => handleUnlock(lockout.id)}>
+                        <Unlock className="h-4 w-4 mr-1" />
+                        Unlock
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Users List */}
       <Card>
         <CardHeader>
@@ -163,6 +333,12 @@ export function UserManagement() {
                         {!user.is_active && (
                           <Badge variant="destructive">Inactive</Badge>
                         )}
+                        {user.two_factor_enabled && (
+                          <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">2FA</Badge>
+                        )}
+                        {isLockedOut(user) && (
+                          <Badge variant="destructive">Locked Out</Badge>
+                        )}
                         {user.must_change_password && (
                           <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
                             Must Change Password
@@ -195,6 +371,30 @@ export function UserManagement() {
                         </>
                       )}
                     </Button>
+                    <Button
+                      onClick={() => handleForceLogout(user)}
+                      variant="outline"
+                      size="sm"
+                    >
+                      <LogOut className="h-4 w-4 mr-1" />
+                      Force Logout
+                    </Button>
+                    {user.two_factor_enabled && (
+                      <Button
+                        onClick={() => handleResetTwoFactor(user)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        <ShieldOff className="h-4 w-4 mr-1" />
+                        Reset 2FA
+                      </Button>
+                    )}
+                    <EditUserDialog
+                      user={user}
+                      staffProfile={staffProfiles.find(profile => profile.user_id === user.id) ?? null}
+                      studentProfile={studentProfiles.find(profile => profile.user_id === user.id) ?? null}
+                      onSuccess={loadUsers}
+                    />
                     <ResetPasswordDialog userId={user.id} userName={user.full_name} />
                   </div>
                 </div>
@@ -256,6 +456,7 @@ function CreateStaffForm({ onSuccess }: { onSuccess: () => void }) {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [credential, setCredential] = useState<Credential | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -263,8 +464,13 @@ function CreateStaffForm({ onSuccess }: { onSuccess: () => void }) {
     setError(null);
 
     try {
-      await trpc.createStaff.mutate(formData);
-      onSuccess();
+      const result = await trpc.createStaff.mutate(formData);
+      // A password typed in above is already known, so there is nothing to print
+      if (result.credential) {
+        setCredential(result.credential);
+      } else {
+        onSuccess();
+      }
     } catch (error) {
       console.error('Failed to create staff:', error);
       setError('Failed to create staff member. Please try again.');
@@ -273,6 +479,17 @@ function CreateStaffForm({ onSuccess }: { onSuccess: () => void }) {
     }
   };
 
+  if (credential) {
+    return (
+      <div className="space-y-4">
+        <CredentialSlips credentials={[credential]} />
+        <Button type="button" onClick={onSuccess} className="w-full">
+          Done
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       {error && (
@@ -387,10 +604,12 @@ function CreateStudentForm({ onSuccess }: { onSuccess: () => void }) {
     parent_phone: null,
     address: null,
     email: null,
-    phone: null
+    phone: null,
+    create_guardian_account: false
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [credentials, setCredentials] = useState<Credential[] | null>(null);
 
   useEffect(() => {
     const loadClasses = async () => {
@@ -410,16 +629,27 @@ function CreateStudentForm({ onSuccess }: { onSuccess: () => void }) {
     setError(null);
 
     try {
-      await trpc.createStudent.mutate(formData);
-      onSuccess();
+      const result = await trpc.createStudent.mutate(formData);
+      setCredentials(result.guardian_credential ? [result.credential, result.guardian_credential] : [result.credential]);
     } catch (error) {
       console.error('Failed to create student:', error);
-      setError('Failed to create student. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to create student. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (credentials) {
+    return (
+      <div className="space-y-4">
+        <CredentialSlips credentials={credentials} />
+        <Button type="button" onClick={onSuccess} className="w-full">
+          Done
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       {error && (
@@ -490,6 +720,14 @@ function CreateStudentForm({ onSuccess }: { onSuccess: () => void }) {
         </div>
       </div>
 
+      <label className="flex items-center space-x-2 text-sm">
+        <Switch
+          checked={formData.create_guardian_account ?? false}
+          onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, create_guardian_account: checked }))}
+        />
+        <span>Create a parent account (signs in with the parent phone; siblings share one)</span>
+      </label>
+
       <div>
         <label className="text-sm font-medium text-gray-700">Address</label>
         <Input
@@ -529,6 +767,626 @@ function CreateStudentForm({ onSuccess }: { onSuccess: () => void }) {
   );
 }
 
+// The spreadsheet is sent as base64 inside the tRPC request
+async function readFileAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function ImportStudentsDialog({ onSuccess }: { onSuccess: () => void }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [createGuardians, setCreateGuardians] = useState(false);
+  const [preview, setPreview] = useState<ImportStudentsResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setCreateGuardians(false);
+    setPreview(null);
+    setError(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await trpc.importStudents.mutate({
+        file_name: file.name,
+        content_base64: await readFileAsBase64(file),
+        dry_run: dryRun,
+        create_guardian_accounts: createGuardians
+      });
+      setPreview(result);
+      if (!dryRun && result.created > 0) {
+        onSuccess();
+      }
+    } catch (error) {
+      console.error('Failed to import students:', error);
+      setError('Failed to read the file. Check that it is a valid CSV or XLSX spreadsheet.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isDone = preview !== null && !preview.dry_run && preview.created > 0;
+  const canImport = preview !== null && preview.dry_run && preview.errors.length === 0 && preview.valid_rows > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center space-x-2">
+          <Upload className="h-4 w-4" />
+          <span>Import Students</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Students</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Upload a CSV or XLSX file with the columns <strong>full_name</strong>, <strong>nis</strong> and{' '}
+            <strong>class</strong>, plus optional parent_name, parent_phone, address, email and phone.
+            The file is checked first; students are only created when every row is valid.
+          </p>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Input
+            type="file"
+            accept=".csv,.xlsx"
+            disabled={isLoading || isDone}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setFile(e.target.files?.[0] ?? null);
+              setPreview(null);
+              setError(null);
+            }}
+          />
+
+          <label className="flex items-center space-x-2 text-sm">
+            <Switch
+              checked={createGuardians}
+              disabled={isLoading || isDone}
+              onCheckedChange={(checked: boolean) => { setCreateGuardians(checked); setPreview(null); }}
+            />
+            <span>Create parent accounts from parent_name and parent_phone</span>
+          </label>
+
+          {preview && preview.errors.length > 0 && (
+            <div className="space-y-2">
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {preview.errors.length} problem(s) found in {preview.total_rows} row(s). Fix the file and check it again.
+                </AlertDescription>
+              </Alert>
+              <div className="max-h-64 overflow-y-auto border rounded">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>NIS</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.errors.map((rowError, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{rowError.row}</TableCell>
+                        <TableCell>{rowError.nis ?? '-'}</TableCell>
+                        <TableCell>{rowError.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          {canImport && (
+            <Alert>
+              <AlertDescription>{preview.valid_rows} student(s) are ready to import.</AlertDescription>
+            </Alert>
+          )}
+
+          {isDone && (
+            <>
+              <Alert>
+                <AlertDescription>
+                  {preview.created} student(s) imported successfully.
+                  {preview.guardian_credentials.length > 0 && ` ${preview.guardian_credentials.length} parent account(s) created.`}
+                </AlertDescription>
+              </Alert>
+              <CredentialSlips credentials={[...preview.credentials, ...preview.guardian_credentials]} />
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              {isDone ? 'Close' : 'Cancel'}
+            </Button>
+            {!isDone && (canImport ? (
+              <Button onClick={() => runImport(false)} disabled={isLoading}>
+                {isLoading ? 'Importing...' : `Import ${preview.valid_rows} Students`}
+              </Button>
+            ) : (
+              <Button onClick={() => runImport(true)} disabled={!file || isLoading}>
+                {isLoading ? 'Checking...' : 'Check File'}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Reprints slips for a class or staff group. Only accounts still on a temporary password get a
+// new one, so nobody who already signed in is locked out by a reprint.
+function IssueCredentialsDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [classes, setClasses] = useState<ClassType[]>([]);
+  const [group, setGroup] = useState<'CLASS' | 'STAFF'>('CLASS');
+  const [classId, setClassId] = useState<number | null>(null);
+  const [department, setDepartment] = useState('');
+  const [result, setResult] = useState<IssueCredentialsResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    trpc.getAllClasses.query()
+      .then(setClasses)
+      .catch(error => console.error('Failed to load classes:', error));
+  }, [isOpen]);
+
+  const reset = () => {
+    setResult(null);
+    setError(null);
+  };
+
+  const handleIssue = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const issued = group === 'CLASS'
+        ? await trpc.issueCredentials.mutate({ group, class_id: classId! })
+        : await trpc.issueCredentials.mutate({ group, department: department.trim() || null });
+      setResult(issued);
+    } catch (error) {
+      console.error('Failed to issue credentials:', error);
+      setError('Failed to issue credentials. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center space-x-2">
+          <Printer className="h-4 w-4" />
+          <span>Credential Slips</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Print Credential Slips</DialogTitle>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-4">
+            {result.skipped > 0 && (
+              <Alert>
+                <AlertDescription>
+                  {result.skipped} account(s) skipped because their owners already set their own password
+                  or the account is inactive.
+                </AlertDescription>
+              </Alert>
+            )}
+            {result.credentials.length > 0 ? (
+              <CredentialSlips credentials={result.credentials} />
+            ) : (
+              <p className="text-sm text-gray-600">No account in this group is waiting for a first login.</p>
+            )}
+            <Button type="button" onClick={() => setIsOpen(false)} className="w-full">
+              Done
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Tabs value={group} onValueChange={(value: string) => setGroup(value as 'CLASS' | 'STAFF')}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="CLASS">Class</TabsTrigger>
+                <TabsTrigger value="STAFF">Staff</TabsTrigger>
+              </TabsList>
+              <TabsContent value="CLASS" className="mt-4">
+                <label className="text-sm font-medium text-gray-700">Class</label>
+                <Select
+                  value={classId ? String(classId) : ''}
+                  onValueChange={(value: string) => setClassId(parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a class" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {classes.map((classItem: ClassType) => (
+                      <SelectItem key={classItem.id} value={String(classItem.id)}>
+                        {classItem.name} ({classItem.academic_year})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TabsContent>
+              <TabsContent value="STAFF" className="mt-4">
+                <label className="text-sm font-medium text-gray-700">Department</label>
+                <Input
+                  value={department}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDepartment(e.target.value)}
+                  placeholder="Leave empty for all staff"
+                />
+              </TabsContent>
+            </Tabs>
+
+            <Alert>
+              <AlertDescription>
+                Accounts that have not signed in yet get a new temporary password. Slips printed earlier
+                for these accounts stop working.
+              </AlertDescription>
+            </Alert>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleIssue} disabled={isLoading || (group === 'CLASS' && !classId)}>
+                {isLoading ? 'Issuing...' : 'Issue New Passwords'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Account details for everyone, plus the staff profile for staff members
+function EditUserDialog({ user, staffProfile, studentProfile, onSuccess }: {
+  user: User;
+  staffProfile: StaffProfile | null;
+  studentProfile: StudentProfile | null;
+  onSuccess: () => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [userData, setUserData] = useState<UpdateUserInput>({ id: user.id });
+  const [staffData, setStaffData] = useState<UpdateStaffInput | null>(null);
+  const [studentData, setStudentData] = useState<UpdateStudentInput | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved account every time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setUserData({ id: user.id, username: user.username, full_name: user.full_name, email: user.email, phone: user.phone });
+      setStaffData(staffProfile && {
+        id: staffProfile.id,
+        employee_id: staffProfile.employee_id,
+        department: staffProfile.department,
+        position: staffProfile.position
+      });
+      // Staff can edit the rest of a student from the student list, but not these
+      setStudentData(studentProfile && {
+        id: studentProfile.id,
+        nis: studentProfile.nis,
+        parent_phone: studentProfile.parent_phone,
+        notify_parent: studentProfile.notify_parent
+      });
+      setError(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await trpc.updateUser.mutate(userData);
+      if (staffData) {
+        await trpc.updateStaff.mutate(staffData);
+      }
+      if (studentData) {
+        await trpc.updateStudent.mutate(studentData);
+      }
+      setIsOpen(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Failed to update user:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update the user. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Pencil className="h-4 w-4 mr-1" />
+          Edit
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit {user.full_name}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Username *</label>
+              <Input
+                value={userData.username ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setUserData(prev => ({ ...prev, username: e.target.value }))
+                }
+                disabled={user.role === 'STUDENT'}
+                required
+              />
+              {user.role === 'STUDENT' && (
+                <p className="text-xs text-gray-500 mt-1">Students sign in with their NIS, which is set below.</p>
+              )}
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Full Name *</label>
+              <Input
+                value={userData.full_name ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setUserData(prev => ({ ...prev, full_name: e.target.value }))
+                }
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Email</label>
+              <Input
+                type="email"
+                value={userData.email || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setUserData(prev => ({ ...prev, email: e.target.value || null }))
+                }
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Phone</label>
+              <Input
+                value={userData.phone || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setUserData(prev => ({ ...prev, phone: e.target.value || null }))
+                }
+              />
+            </div>
+          </div>
+
+          {staffData && (
+            <>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Employee ID *</label>
+                <Input
+                  value={staffData.employee_id ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setStaffData(prev => prev && { ...prev, employee_id: e.target.value })
+                  }
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Department</label>
+                  <Input
+                    value={staffData.department || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setStaffData(prev => prev && { ...prev, department: e.target.value || null })
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Position</label>
+                  <Input
+                    value={staffData.position || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setStaffData(prev => prev && { ...prev, position: e.target.value || null })
+                    }
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          {studentData && studentProfile && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">NIS (Student Number) *</label>
+                  <Input
+                    value={studentData.nis ?? ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setStudentData(prev => prev && { ...prev, nis: e.target.value })
+                    }
+                    required
+                  />
+                  {studentData.nis !== studentProfile.nis && (
+                    <p className="text-xs text-orange-600 mt-1">The student will sign in with the new NIS.</p>
+                  )}
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Parent Phone</label>
+                  <Input
+                    value={studentData.parent_phone || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setStudentData(prev => prev && { ...prev, parent_phone: e.target.value || null })
+                    }
+                  />
+                </div>
+              </div>
+              <label className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <p className="text-sm font-medium">Notify Parent of Transactions</p>
+                  <p className="text-xs text-gray-600">
+                    Sends a message to the parent phone after every deposit and withdrawal.
+                  </p>
+                </div>
+                <Switch
+                  checked={studentData.notify_parent ?? true}
+                  onCheckedChange={(checked: boolean) => setStudentData(prev => prev && { ...prev, notify_parent: checked })}
+                />
+              </label>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </form>
+
+        {studentProfile && isOpen && <GuardianAccounts student={studentProfile} onChange={onSuccess} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Parent accounts of a student. A new one is made from the parent name and phone on the
+// student profile, or the parent's existing account is linked when a sibling already has one.
+function GuardianAccounts({ student, onChange }: { student: StudentProfile; onChange: () => void }) {
+  const [guardians, setGuardians] = useState<StudentGuardian[]>([]);
+  const [credential, setCredential] = useState<Credential | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    trpc.getStudentGuardians.query({ studentId: student.id })
+      .then(setGuardians)
+      .catch(error => console.error('Failed to load guardians:', error));
+  }, [student.id]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action();
+      onChange();
+    } catch (error) {
+      console.error('Failed to update guardians:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update the parent accounts.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    const result = await trpc.createGuardianAccount.mutate({ studentId: student.id });
+    setGuardians(result.guardians);
+    setCredential(result.credential);
+  });
+
+  const handleUnlink = (guardian: StudentGuardian) => {
+    if (!confirm(`Unlink ${guardian.full_name}? Their account stays, but they will no longer see this student.`)) {
+      return;
+    }
+    run(async () => {
+      setGuardians(await trpc.unlinkGuardian.mutate({ student_id: student.id, guardian_user_id: guardian.user_id }));
+    });
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <p className="text-sm font-medium text-gray-700 flex items-center">
+        <HeartHandshake className="h-4 w-4 mr-1" />
+        Parent Accounts
+      </p>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {guardians.length === 0 ? (
+        <p className="text-sm text-gray-500">No parent account is linked to this student.</p>
+      ) : (
+        <ul className="space-y-2">
+          {guardians.map(guardian => (
+            <li key={guardian.user_id} className="flex items-center justify-between border rounded p-2 text-sm">
+              <span>
+                {guardian.full_name} <span className="text-gray-500">({guardian.username})</span>
+                {!guardian.is_active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isLoading}
+                onClick={() => handleUnlink(guardian)}
+                className="text-red-600 hover:text-red-700 hover:border-red-300"
+              >
+                Unlink
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {credential && <CredentialSlips credentials={[credential]} />}
+
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={isLoading || !student.parent_name || !student.parent_phone}
+        onClick={handleCreate}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Create or Link Parent Account
+      </Button>
+      {(!student.parent_name || !student.parent_phone) && (
+        <p className="text-xs text-gray-500">Enter the parent name and phone on the student profile first.</p>
+      )}
+    </div>
+  );
+}
+
 function ResetPasswordDialog({ userId, userName }: { userId: number; userName: string }) {
   const [isOpen, setIsOpen] = useState(false);
   const [newPassword, setNewPassword] = useState('');
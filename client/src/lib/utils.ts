@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Sum IDR amounts in whole sen so repeated additions do not drift
+export function sumMoney(amounts: number[]) {
+  return amounts.reduce((total, amount) => total + Math.round(amount * 100), 0) / 100
+}
+
+// Local calendar date for <input type="date">; toISOString would shift it to UTC
+export function toDateInputValue(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
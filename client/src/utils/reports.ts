@@ -0,0 +1,113 @@
+import { csrfHeaders } from '@/utils/trpc';
+import type { ReportType, ReportFormat, PassbookMode, Credential } from '../../../server/src/schema';
+
+export interface ReportDownloadOptions {
+  reportType: ReportType;
+  format: ReportFormat;
+  startDate?: string;
+  endDate?: string;
+  classId?: number;
+  studentId?: number;
+}
+
+// Files are served by plain HTTP routes next to tRPC, so fetch them and hand them to the browser
+// Input goes in the query string, or as a JSON body for a POST route
+async function fetchFile(path: string, input: URLSearchParams | object): Promise<Response> {
+  const response = input instanceof URLSearchParams
+    ? await fetch(`/api${path}?${input}`)
+    : await fetch(`/api${path}`, {
+      method: 'POST',
+      headers: { ...csrfHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Download failed (${response.status})`);
+  }
+  return response;
+}
+
+async function downloadFile(path: string, input: URLSearchParams | object, fallbackName: string): Promise<Headers> {
+  const response = await fetchFile(path, input);
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+
+  return response.headers;
+}
+
+export async function downloadReport(options: ReportDownloadOptions): Promise<void> {
+  const params = new URLSearchParams({ report_type: options.reportType, format: options.format });
+  if (options.startDate) params.set('start_date', options.startDate);
+  if (options.endDate) params.set('end_date', options.endDate);
+  if (options.classId) params.set('class_id', String(options.classId));
+  if (options.studentId) params.set('student_id', String(options.studentId));
+
+  await downloadFile('/reports/export', params, `report.${options.format.toLowerCase()}`);
+}
+
+// Returns the last transaction on the printout, to confirm with recordPassbookPrint
+export async function downloadPassbook(studentId: number, mode: PassbookMode): Promise<number | null> {
+  const params = new URLSearchParams({ student_id: String(studentId), mode });
+  const headers = await downloadFile('/passbooks/export', params, 'passbook.pdf');
+  const throughTransaction = headers.get('X-Passbook-Through-Transaction');
+  return throughTransaction ? parseInt(throughTransaction) : null;
+}
+
+// A receipt for one closed account, or one page per closed account of a class
+export async function downloadClosureReceipt(target: { studentId: number } | { classId: number }): Promise<void> {
+  const params = 'studentId' in target
+    ? new URLSearchParams({ student_id: String(target.studentId) })
+    : new URLSearchParams({ class_id: String(target.classId) });
+  await downloadFile('/closures/receipt', params, 'closure-receipt.pdf');
+}
+
+// Sent as a POST so the temporary passwords stay out of URLs and server logs
+export async function downloadCredentialSlips(credentials: Credential[]): Promise<void> {
+  await downloadFile('/credentials/slips', { credentials }, 'credential-slips.pdf');
+}
+
+export interface AuditLogDownloadOptions {
+  action?: string;
+  actorUserId?: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+export async function downloadAuditLog(options: AuditLogDownloadOptions): Promise<void> {
+  const params = new URLSearchParams();
+  if (options.action) params.set('action', options.action);
+  if (options.actorUserId) params.set('actor_user_id', String(options.actorUserId));
+  if (options.startDate) params.set('start_date', options.startDate);
+  if (options.endDate) params.set('end_date', options.endDate);
+
+  await downloadFile('/audit/export', params, 'audit-log.csv');
+}
+
+// Opens the statement PDF in a new tab, as it would be emailed for the month
+export async function previewStatement(studentId: number, month: string): Promise<void> {
+  // Opened before the fetch, while the click still counts, so popup blockers let it through
+  const preview = window.open('', '_blank');
+  try {
+    const response = await fetchFile('/statements/preview', new URLSearchParams({ student_id: String(studentId), month }));
+    const url = URL.createObjectURL(await response.blob());
+    if (preview) {
+      preview.location.href = url;
+    } else {
+      window.open(url, '_blank');
+    }
+    // The tab keeps its own copy once it has loaded
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  } catch (error) {
+    preview?.close();
+    throw error;
+  }
+}
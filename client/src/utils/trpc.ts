@@ -2,9 +2,20 @@ import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+// The session cookie is HttpOnly and goes along by itself; the CSRF token next to it is
+// readable on purpose, so it can be echoed back in a header the server checks on mutations
+export function csrfHeaders(): Record<string, string> {
+  const match = /(?:^|;\s*)csrf_token=([^;]*)/.exec(document.cookie);
+  return match ? { 'X-CSRF-Token': decodeURIComponent(match[1]) } : {};
+}
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers: csrfHeaders,
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -14,6 +14,7 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:2022',
         changeOrigin: true,
+        xfwd: true, // Pass the browser's address on, the server throttles logins per IP
         rewrite: (path) => path.replace(/^\/api/, ''),
       },
     },
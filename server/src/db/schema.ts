@@ -1,10 +1,16 @@
 
-import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, varchar } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, varchar, unique, jsonb, index, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, getTableColumns } from 'drizzle-orm';
 
 // Enums
-export const userRoleEnum = pgEnum('user_role', ['ADMINISTRATOR', 'STAFF', 'STUDENT']);
+export const userRoleEnum = pgEnum('user_role', ['ADMINISTRATOR', 'STAFF', 'STUDENT', 'PARENT']);
 export const transactionTypeEnum = pgEnum('transaction_type', ['DEPOSIT', 'WITHDRAWAL']);
+export const reversalStatusEnum = pgEnum('reversal_status', ['PENDING', 'APPROVED', 'REJECTED']);
+export const studentStatusEnum = pgEnum('student_status', ['ACTIVE', 'FROZEN', 'CLOSED']);
+export const loginThrottleScopeEnum = pgEnum('login_throttle_scope', ['USERNAME', 'IP']);
+export const classChangeKindEnum = pgEnum('class_change_kind', ['ROLLOVER', 'TRANSFER']);
+export const notificationStatusEnum = pgEnum('notification_status', ['PENDING', 'SENDING', 'SENT', 'FAILED']);
+export const statementDeliveryStatusEnum = pgEnum('statement_delivery_status', ['SENDING', 'SENT', 'FAILED']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -17,16 +23,22 @@ export const usersTable = pgTable('users', {
   phone: varchar('phone', { length: 20 }),
   is_active: boolean('is_active').notNull().default(true),
   must_change_password: boolean('must_change_password').notNull().default(false),
+  two_factor_enabled: boolean('two_factor_enabled').notNull().default(false), // Mirrors an enabled two_factor_credentials row
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Every users column but the password hash, for selecting rows that go back to the client
+const { password_hash: _passwordHash, ...userColumns } = getTableColumns(usersTable);
+export { userColumns };
+
 // Classes table
 export const classesTable = pgTable('classes', {
   id: serial('id').primaryKey(),
   name: varchar('name', { length: 100 }).notNull(),
   description: text('description'),
   academic_year: varchar('academic_year', { length: 20 }).notNull(),
+  is_graduating: boolean('is_graduating').notNull().default(false), // Left school at rollover; balances await payout
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
@@ -40,6 +52,8 @@ export const studentProfilesTable = pgTable('student_profiles', {
   parent_phone: varchar('parent_phone', { length: 20 }),
   address: text('address'),
   current_balance: numeric('current_balance', { precision: 12, scale: 2 }).notNull().default('0.00'),
+  status: studentStatusEnum('status').notNull().default('ACTIVE'), // FROZEN stops teller transactions, CLOSED stops everything
+  notify_parent: boolean('notify_parent').notNull().default(true), // Message parent_phone about each deposit and withdrawal
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
@@ -63,20 +77,220 @@ export const transactionsTable = pgTable('transactions', {
   balance_before: numeric('balance_before', { precision: 12, scale: 2 }).notNull(),
   balance_after: numeric('balance_after', { precision: 12, scale: 2 }).notNull(),
   description: text('description'),
+  // Set on compensating entries; an original can only be reversed once
+  reverses_transaction_id: integer('reverses_transaction_id').unique().references((): AnyPgColumn => transactionsTable.id),
+  // Client-supplied key so a retried submit returns the original entry
+  idempotency_key: varchar('idempotency_key', { length: 100 }).unique(),
   transaction_date: timestamp('transaction_date').defaultNow().notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
-// Sessions table for authentication
+// Reversal requests - every correction goes through here, large ones wait for an administrator
+export const reversalRequestsTable = pgTable('reversal_requests', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').references(() => transactionsTable.id).notNull(),
+  requested_by: integer('requested_by').references(() => staffProfilesTable.id).notNull(),
+  reason: text('reason').notNull(),
+  status: reversalStatusEnum('status').notNull().default('PENDING'),
+  reviewed_by: integer('reviewed_by').references(() => usersTable.id),
+  reviewed_at: timestamp('reviewed_at'),
+  reversal_transaction_id: integer('reversal_transaction_id').references(() => transactionsTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Passbook print position - how far each student's physical savings book has been printed
+export const passbooksTable = pgTable('passbooks', {
+  id: serial('id').primaryKey(),
+  student_id: integer('student_id').references(() => studentProfilesTable.id).notNull().unique(),
+  last_printed_transaction_id: integer('last_printed_transaction_id').references(() => transactionsTable.id),
+  printed_lines: integer('printed_lines').notNull().default(0), // Lines used in the current book
+  updated_by: integer('updated_by').references(() => usersTable.id),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Account closures - the payout that emptied a savings account before it was closed
+export const accountClosuresTable = pgTable('account_closures', {
+  id: serial('id').primaryKey(),
+  student_id: integer('student_id').references(() => studentProfilesTable.id).notNull().unique(),
+  transaction_id: integer('transaction_id').references(() => transactionsTable.id), // Null when there was nothing to pay out
+  payout_amount: numeric('payout_amount', { precision: 12, scale: 2 }).notNull(),
+  reason: text('reason').notNull(),
+  closed_by: integer('closed_by').references(() => staffProfilesTable.id).notNull(),
+  closed_at: timestamp('closed_at').defaultNow().notNull()
+});
+
+// Class promotions - one row per student per year rollover or move to another class during the year,
+// so past transactions keep the class they were made in
+export const classPromotionsTable = pgTable('class_promotions', {
+  id: serial('id').primaryKey(),
+  student_id: integer('student_id').references(() => studentProfilesTable.id).notNull(),
+  kind: classChangeKindEnum('kind').notNull().default('ROLLOVER'),
+  from_class_id: integer('from_class_id').references(() => classesTable.id).notNull(),
+  to_class_id: integer('to_class_id').references(() => classesTable.id), // Null when the student graduated
+  reason: text('reason'), // Given for transfers
+  promoted_by: integer('promoted_by').references(() => usersTable.id).notNull(),
+  promoted_at: timestamp('promoted_at').defaultNow().notNull()
+});
+
+// One row per academic year that was rolled over, so a year can only be rolled over once,
+// even when none of its classes had students
+export const academicYearRolloversTable = pgTable('academic_year_rollovers', {
+  id: serial('id').primaryKey(),
+  from_academic_year: varchar('from_academic_year', { length: 20 }).notNull().unique(),
+  to_academic_year: varchar('to_academic_year', { length: 20 }).notNull(),
+  rolled_over_by: integer('rolled_over_by').references(() => usersTable.id).notNull(),
+  rolled_over_at: timestamp('rolled_over_at').defaultNow().notNull()
+});
+
+// Staff assigned to a class. One of them may be its homeroom teacher (wali kelas), who is the
+// contact shown to the class's students.
+export const classStaffAssignmentsTable = pgTable('class_staff_assignments', {
+  id: serial('id').primaryKey(),
+  class_id: integer('class_id').references(() => classesTable.id).notNull(),
+  staff_id: integer('staff_id').references(() => staffProfilesTable.id).notNull(),
+  is_homeroom: boolean('is_homeroom').notNull().default(false),
+  assigned_by: integer('assigned_by').references(() => usersTable.id).notNull(),
+  assigned_at: timestamp('assigned_at').defaultNow().notNull()
+}, (table) => [
+  unique('class_staff_assignments_class_staff_unique').on(table.class_id, table.staff_id)
+]);
+
+// Parent and guardian accounts linked to the students they look after. One guardian can be linked
+// to several siblings, and a student to more than one guardian.
+export const studentGuardiansTable = pgTable('student_guardians', {
+  id: serial('id').primaryKey(),
+  student_id: integer('student_id').references(() => studentProfilesTable.id).notNull(),
+  guardian_user_id: integer('guardian_user_id').references(() => usersTable.id).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique('student_guardians_student_guardian_unique').on(table.student_id, table.guardian_user_id)
+]);
+
+// School-wide settings changed by administrators at run time; keys without a row use their default
+export const schoolSettingsTable = pgTable('school_settings', {
+  key: varchar('key', { length: 100 }).primaryKey(),
+  value: jsonb('value').notNull(),
+  updated_by: integer('updated_by').references(() => usersTable.id).notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Sessions table for authentication. The id is the bearer secret, so sessions are shown and
+// revoked by public_id instead.
 export const sessionsTable = pgTable('sessions', {
   id: varchar('id', { length: 255 }).primaryKey(),
+  public_id: varchar('public_id', { length: 36 }).notNull().unique().$defaultFn(() => crypto.randomUUID()),
   user_id: integer('user_id').references(() => usersTable.id).notNull(),
-  expires_at: timestamp('expires_at').notNull(),
+  user_agent: text('user_agent'),
+  ip_address: varchar('ip_address', { length: 64 }),
+  last_seen_at: timestamp('last_seen_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull(), // Slides forward with activity, never past the maximum lifetime
+  two_factor_pending: boolean('two_factor_pending').notNull().default(false), // Password checked, code not yet
+  two_factor_attempts: integer('two_factor_attempts').notNull().default(0),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Authenticator app secrets. A row without enabled_at is an enrolment that was started but
+// never confirmed with a code.
+export const twoFactorCredentialsTable = pgTable('two_factor_credentials', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull().unique(),
+  secret: varchar('secret', { length: 64 }).notNull(), // Base32
+  last_used_step: integer('last_used_step'), // A code is only good once
+  enabled_at: timestamp('enabled_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+export const twoFactorRecoveryCodesTable = pgTable('two_factor_recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id).notNull(),
+  code_hash: varchar('code_hash', { length: 64 }).notNull(), // SHA-256 of the normalised code
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Roles whose members must enrol before they can do anything else
+export const twoFactorRequirementsTable = pgTable('two_factor_requirements', {
+  role: userRoleEnum('role').primaryKey(),
+  required_by: integer('required_by').references(() => usersTable.id).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Login throttles - recent failed logins per username and per client IP. Usernames are tracked
+// whether or not the account exists, so a lockout reveals nothing about which accounts are real.
+export const loginThrottlesTable = pgTable('login_throttles', {
+  id: serial('id').primaryKey(),
+  scope: loginThrottleScopeEnum('scope').notNull(),
+  key: varchar('key', { length: 255 }).notNull(), // Lower-cased username or IP address
+  failure_count: integer('failure_count').notNull(),
+  last_failure_at: timestamp('last_failure_at').notNull(),
+  locked_until: timestamp('locked_until') // No login attempts are checked before this time
+}, (table) => [
+  unique('login_throttles_scope_key_unique').on(table.scope, table.key)
+]);
+
+// Outbox of messages to parents. A row is written in the same database transaction as the ledger
+// entry it reports, so nothing is announced that didn't happen; the notification worker delivers
+// it afterwards and retries with backoff until it gives up. While a worker sends a message it holds
+// it as SENDING until lease_expires_at; a worker that dies mid-send leaves it to be picked up again.
+export const notificationsTable = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  student_id: integer('student_id').references(() => studentProfilesTable.id).notNull(),
+  transaction_id: integer('transaction_id').references(() => transactionsTable.id),
+  template: varchar('template', { length: 50 }).notNull(), // e.g. transaction.withdrawal
+  recipient: varchar('recipient', { length: 20 }).notNull(), // Phone number in the local 08... form
+  body: text('body').notNull(),
+  status: notificationStatusEnum('status').notNull().default('PENDING'),
+  attempts: integer('attempts').notNull().default(0),
+  next_attempt_at: timestamp('next_attempt_at').defaultNow().notNull(),
+  lease_expires_at: timestamp('lease_expires_at'), // Set while SENDING
+  last_error: text('last_error'),
+  provider: varchar('provider', { length: 50 }), // The provider that delivered it
+  provider_message_id: varchar('provider_message_id', { length: 255 }),
+  sent_at: timestamp('sent_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('notifications_due_idx').on(table.status, table.next_attempt_at)
+]);
+
+// Statement deliveries - one row per email of a monthly statement, including re-sends and failures
+export const statementDeliveriesTable = pgTable('statement_deliveries', {
+  id: serial('id').primaryKey(),
+  student_id: integer('student_id').references(() => studentProfilesTable.id).notNull(),
+  month: varchar('month', { length: 7 }).notNull(), // YYYY-MM
+  recipients: text('recipients').notNull(), // Comma separated email addresses
+  status: statementDeliveryStatusEnum('status').notNull(),
+  transport: varchar('transport', { length: 20 }).notNull(),
+  message_id: varchar('message_id', { length: 255 }),
+  error: text('error'),
+  sent_by: integer('sent_by').references(() => usersTable.id), // Null for the monthly job
+  lease_expires_at: timestamp('lease_expires_at'), // While SENDING: when another run may take over
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('statement_deliveries_month_idx').on(table.month, table.student_id)
+]);
+
+// Audit events - who did what to which record. Rows are only ever inserted; each one carries the
+// hash of the one before it, so editing or deleting a row breaks the chain from there on.
+export const auditEventsTable = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  actor_user_id: integer('actor_user_id').references(() => usersTable.id), // Null for the system itself
+  action: varchar('action', { length: 100 }).notNull(), // e.g. user.create, transaction.create
+  target_type: varchar('target_type', { length: 50 }).notNull(),
+  target_id: integer('target_id'),
+  before: jsonb('before'),
+  after: jsonb('after'),
+  ip_address: varchar('ip_address', { length: 45 }),
+  // With the time zone, so the hashed timestamp reads back the same wherever the server runs
+  created_at: timestamp('created_at', { withTimezone: true }).notNull(),
+  previous_hash: varchar('previous_hash', { length: 64 }).notNull(),
+  hash: varchar('hash', { length: 64 }).notNull().unique()
+}, (table) => [
+  index('audit_events_target_idx').on(table.target_type, table.target_id),
+  index('audit_events_actor_idx').on(table.actor_user_id)
+]);
+
 // Relations
-export const usersRelations = relations(usersTable, ({ one }) => ({
+export const usersRelations = relations(usersTable, ({ one, many }) => ({
   studentProfile: one(studentProfilesTable, {
     fields: [usersTable.id],
     references: [studentProfilesTable.user_id]
@@ -84,11 +298,13 @@ export const usersRelations = relations(usersTable, ({ one }) => ({
   staffProfile: one(staffProfilesTable, {
     fields: [usersTable.id],
     references: [staffProfilesTable.user_id]
-  })
+  }),
+  guardianOf: many(studentGuardiansTable)
 }));
 
 export const classesRelations = relations(classesTable, ({ many }) => ({
-  students: many(studentProfilesTable)
+  students: many(studentProfilesTable),
+  staffAssignments: many(classStaffAssignmentsTable)
 }));
 
 export const studentProfilesRelations = relations(studentProfilesTable, ({ one, many }) => ({
@@ -100,7 +316,8 @@ export const studentProfilesRelations = relations(studentProfilesTable, ({ one,
     fields: [studentProfilesTable.class_id],
     references: [classesTable.id]
   }),
-  transactions: many(transactionsTable)
+  transactions: many(transactionsTable),
+  guardians: many(studentGuardiansTable)
 }));
 
 export const staffProfilesRelations = relations(staffProfilesTable, ({ one, many }) => ({
@@ -108,7 +325,8 @@ export const staffProfilesRelations = relations(staffProfilesTable, ({ one, many
     fields: [staffProfilesTable.user_id],
     references: [usersTable.id]
   }),
-  transactions: many(transactionsTable)
+  transactions: many(transactionsTable),
+  classAssignments: many(classStaffAssignmentsTable)
 }));
 
 export const transactionsRelations = relations(transactionsTable, ({ one }) => ({
@@ -119,6 +337,132 @@ export const transactionsRelations = relations(transactionsTable, ({ one }) => (
   staff: one(staffProfilesTable, {
     fields: [transactionsTable.staff_id],
     references: [staffProfilesTable.id]
+  }),
+  reversedTransaction: one(transactionsTable, {
+    fields: [transactionsTable.reverses_transaction_id],
+    references: [transactionsTable.id]
+  })
+}));
+
+export const reversalRequestsRelations = relations(reversalRequestsTable, ({ one }) => ({
+  transaction: one(transactionsTable, {
+    fields: [reversalRequestsTable.transaction_id],
+    references: [transactionsTable.id]
+  }),
+  requestedBy: one(staffProfilesTable, {
+    fields: [reversalRequestsTable.requested_by],
+    references: [staffProfilesTable.id]
+  }),
+  reviewedBy: one(usersTable, {
+    fields: [reversalRequestsTable.reviewed_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const passbooksRelations = relations(passbooksTable, ({ one }) => ({
+  student: one(studentProfilesTable, {
+    fields: [passbooksTable.student_id],
+    references: [studentProfilesTable.id]
+  }),
+  lastPrintedTransaction: one(transactionsTable, {
+    fields: [passbooksTable.last_printed_transaction_id],
+    references: [transactionsTable.id]
+  })
+}));
+
+export const accountClosuresRelations = relations(accountClosuresTable, ({ one }) => ({
+  student: one(studentProfilesTable, {
+    fields: [accountClosuresTable.student_id],
+    references: [studentProfilesTable.id]
+  }),
+  transaction: one(transactionsTable, {
+    fields: [accountClosuresTable.transaction_id],
+    references: [transactionsTable.id]
+  }),
+  closedBy: one(staffProfilesTable, {
+    fields: [accountClosuresTable.closed_by],
+    references: [staffProfilesTable.id]
+  })
+}));
+
+export const classPromotionsRelations = relations(classPromotionsTable, ({ one }) => ({
+  student: one(studentProfilesTable, {
+    fields: [classPromotionsTable.student_id],
+    references: [studentProfilesTable.id]
+  }),
+  fromClass: one(classesTable, {
+    fields: [classPromotionsTable.from_class_id],
+    references: [classesTable.id]
+  }),
+  toClass: one(classesTable, {
+    fields: [classPromotionsTable.to_class_id],
+    references: [classesTable.id]
+  }),
+  promotedBy: one(usersTable, {
+    fields: [classPromotionsTable.promoted_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const academicYearRolloversRelations = relations(academicYearRolloversTable, ({ one }) => ({
+  rolledOverBy: one(usersTable, {
+    fields: [academicYearRolloversTable.rolled_over_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const classStaffAssignmentsRelations = relations(classStaffAssignmentsTable, ({ one }) => ({
+  class: one(classesTable, {
+    fields: [classStaffAssignmentsTable.class_id],
+    references: [classesTable.id]
+  }),
+  staff: one(staffProfilesTable, {
+    fields: [classStaffAssignmentsTable.staff_id],
+    references: [staffProfilesTable.id]
+  }),
+  assignedBy: one(usersTable, {
+    fields: [classStaffAssignmentsTable.assigned_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const studentGuardiansRelations = relations(studentGuardiansTable, ({ one }) => ({
+  student: one(studentProfilesTable, {
+    fields: [studentGuardiansTable.student_id],
+    references: [studentProfilesTable.id]
+  }),
+  guardian: one(usersTable, {
+    fields: [studentGuardiansTable.guardian_user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const schoolSettingsRelations = relations(schoolSettingsTable, ({ one }) => ({
+  updatedBy: one(usersTable, {
+    fields: [schoolSettingsTable.updated_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const notificationsRelations = relations(notificationsTable, ({ one }) => ({
+  student: one(studentProfilesTable, {
+    fields: [notificationsTable.student_id],
+    references: [studentProfilesTable.id]
+  }),
+  transaction: one(transactionsTable, {
+    fields: [notificationsTable.transaction_id],
+    references: [transactionsTable.id]
+  })
+}));
+
+export const statementDeliveriesRelations = relations(statementDeliveriesTable, ({ one }) => ({
+  student: one(studentProfilesTable, {
+    fields: [statementDeliveriesTable.student_id],
+    references: [studentProfilesTable.id]
+  }),
+  sentBy: one(usersTable, {
+    fields: [statementDeliveriesTable.sent_by],
+    references: [usersTable.id]
   })
 }));
 
@@ -129,6 +473,34 @@ export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
   })
 }));
 
+export const twoFactorCredentialsRelations = relations(twoFactorCredentialsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [twoFactorCredentialsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const twoFactorRecoveryCodesRelations = relations(twoFactorRecoveryCodesTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [twoFactorRecoveryCodesTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const twoFactorRequirementsRelations = relations(twoFactorRequirementsTable, ({ one }) => ({
+  requiredBy: one(usersTable, {
+    fields: [twoFactorRequirementsTable.required_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const auditEventsRelations = relations(auditEventsTable, ({ one }) => ({
+  actor: one(usersTable, {
+    fields: [auditEventsTable.actor_user_id],
+    references: [usersTable.id]
+  })
+}));
+
 // Export all tables for relation queries
 export const tables = {
   users: usersTable,
@@ -136,5 +508,20 @@ export const tables = {
   studentProfiles: studentProfilesTable,
   staffProfiles: staffProfilesTable,
   transactions: transactionsTable,
-  sessions: sessionsTable
+  reversalRequests: reversalRequestsTable,
+  passbooks: passbooksTable,
+  accountClosures: accountClosuresTable,
+  classPromotions: classPromotionsTable,
+  academicYearRollovers: academicYearRolloversTable,
+  classStaffAssignments: classStaffAssignmentsTable,
+  studentGuardians: studentGuardiansTable,
+  schoolSettings: schoolSettingsTable,
+  notifications: notificationsTable,
+  statementDeliveries: statementDeliveriesTable,
+  loginThrottles: loginThrottlesTable,
+  sessions: sessionsTable,
+  twoFactorCredentials: twoFactorCredentialsTable,
+  twoFactorRecoveryCodes: twoFactorRecoveryCodesTable,
+  twoFactorRequirements: twoFactorRequirementsTable,
+  auditEvents: auditEventsTable
 };
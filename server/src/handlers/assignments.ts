@@ -0,0 +1,157 @@
+import { db } from '../db';
+import { classStaffAssignmentsTable, classesTable, staffProfilesTable, usersTable } from '../db/schema';
+import {
+  type AssignStaffInput,
+  type UnassignStaffInput,
+  type ClassAssignment,
+  type User
+} from '../schema';
+import { and, asc, desc, eq, ne } from 'drizzle-orm';
+import { getSchoolSettings } from './settings';
+import { auditedTransaction, recordAuditEvent } from './audit';
+
+async function findAssignments(classId?: number): Promise<ClassAssignment[]> {
+  const results = await db.select({
+    assignment: classStaffAssignmentsTable,
+    staff_name: usersTable.full_name,
+    employee_id: staffProfilesTable.employee_id
+  })
+    .from(classStaffAssignmentsTable)
+    .innerJoin(staffProfilesTable, eq(classStaffAssignmentsTable.staff_id, staffProfilesTable.id))
+    .innerJoin(usersTable, eq(staffProfilesTable.user_id, usersTable.id))
+    .where(classId === undefined ? undefined : eq(classStaffAssignmentsTable.class_id, classId))
+    .orderBy(
+      asc(classStaffAssignmentsTable.class_id),
+      desc(classStaffAssignmentsTable.is_homeroom),
+      asc(usersTable.full_name)
+    )
+    .execute();
+
+  return results.map(({ assignment, staff_name, employee_id }) => ({
+    id: assignment.id,
+    class_id: assignment.class_id,
+    staff_id: assignment.staff_id,
+    staff_name,
+    employee_id,
+    is_homeroom: assignment.is_homeroom,
+    assigned_at: assignment.assigned_at
+  }));
+}
+
+// Every assignment, or those of one class; homeroom teachers come first
+export async function getClassAssignments(classId?: number): Promise<ClassAssignment[]> {
+  try {
+    return await findAssignments(classId);
+  } catch (error) {
+    console.error('Get class assignments failed:', error);
+    throw error;
+  }
+}
+
+// A class has at most one homeroom teacher, so naming a new one demotes the previous one
+export async function assignStaffToClass(userId: number, input: AssignStaffInput): Promise<ClassAssignment[]> {
+  try {
+    await auditedTransaction(async (tx) => {
+      const classes = await tx.select({ id: classesTable.id })
+        .from(classesTable)
+        .where(eq(classesTable.id, input.class_id))
+        .for('update')
+        .execute();
+      if (classes.length === 0) {
+        throw new Error('Class not found');
+      }
+
+      const staff = await tx.select({ id: staffProfilesTable.id })
+        .from(staffProfilesTable)
+        .where(eq(staffProfilesTable.id, input.staff_id))
+        .execute();
+      if (staff.length === 0) {
+        throw new Error('Staff member not found');
+      }
+
+      if (input.is_homeroom) {
+        await tx.update(classStaffAssignmentsTable)
+          .set({ is_homeroom: false })
+          .where(and(
+            eq(classStaffAssignmentsTable.class_id, input.class_id),
+            ne(classStaffAssignmentsTable.staff_id, input.staff_id)
+          ))
+          .execute();
+      }
+
+      const result = await tx.insert(classStaffAssignmentsTable)
+        .values({ class_id: input.class_id, staff_id: input.staff_id, is_homeroom: input.is_homeroom, assigned_by: userId })
+        .onConflictDoUpdate({
+          target: [classStaffAssignmentsTable.class_id, classStaffAssignmentsTable.staff_id],
+          set: { is_homeroom: input.is_homeroom }
+        })
+        .returning()
+        .execute();
+
+      await recordAuditEvent(tx, { action: 'class.staff_assign', target_type: 'class', target_id: input.class_id, after: result[0] });
+    });
+
+    return await findAssignments(input.class_id);
+  } catch (error) {
+    console.error('Assign staff to class failed:', error);
+    throw error;
+  }
+}
+
+export async function unassignStaffFromClass(input: UnassignStaffInput): Promise<ClassAssignment[]> {
+  try {
+    await auditedTransaction(async (tx) => {
+      const result = await tx.delete(classStaffAssignmentsTable)
+        .where(and(
+          eq(classStaffAssignmentsTable.class_id, input.class_id),
+          eq(classStaffAssignmentsTable.staff_id, input.staff_id)
+        ))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAuditEvent(tx, { action: 'class.staff_unassign', target_type: 'class', target_id: input.class_id, before: result[0] });
+      }
+    });
+
+    return await findAssignments(input.class_id);
+  } catch (error) {
+    console.error('Unassign staff from class failed:', error);
+    throw error;
+  }
+}
+
+// The person students of a class should turn to: the homeroom teacher, or else whoever was assigned first
+export async function getClassContact(classId: number): Promise<{ full_name: string; email: string | null; phone: string | null } | null> {
+  const results = await db.select({ full_name: usersTable.full_name, email: usersTable.email, phone: usersTable.phone })
+    .from(classStaffAssignmentsTable)
+    .innerJoin(staffProfilesTable, eq(classStaffAssignmentsTable.staff_id, staffProfilesTable.id))
+    .innerJoin(usersTable, eq(staffProfilesTable.user_id, usersTable.id))
+    .where(and(eq(classStaffAssignmentsTable.class_id, classId), eq(usersTable.is_active, true)))
+    .orderBy(desc(classStaffAssignmentsTable.is_homeroom), asc(classStaffAssignmentsTable.assigned_at))
+    .limit(1)
+    .execute();
+
+  return results[0] ?? null;
+}
+
+// Classes whose students the user may work with, or null when they are not limited. Only staff
+// are ever limited, and only while the school has switched the restriction on.
+export async function getStudentScope(user: User): Promise<number[] | null> {
+  if (user.role !== 'STAFF') {
+    return null;
+  }
+
+  const settings = await getSchoolSettings();
+  if (!settings.restrict_staff_to_assigned_classes) {
+    return null;
+  }
+
+  const assignments = await db.select({ class_id: classStaffAssignmentsTable.class_id })
+    .from(classStaffAssignmentsTable)
+    .innerJoin(staffProfilesTable, eq(classStaffAssignmentsTable.staff_id, staffProfilesTable.id))
+    .where(eq(staffProfilesTable.user_id, user.id))
+    .execute();
+
+  return assignments.map(assignment => assignment.class_id);
+}
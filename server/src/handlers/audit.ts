@@ -0,0 +1,313 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { db } from '../db';
+import { auditEventsTable, usersTable } from '../db/schema';
+import {
+  type AuditEvent,
+  type AuditFilters,
+  type AuditEventPage,
+  type AuditChainStatus,
+  type Report
+} from '../schema';
+import { and, asc, count, desc, eq, gt, gte, inArray, like, lte, sql, SQL } from 'drizzle-orm';
+import { formatMoney } from '../helpers/money';
+import { type DbTransaction } from './transactions';
+
+// Who is acting and from where. Set once per API request, so handlers don't each have to be
+// handed the caller just to write the log; outside a request (tests, jobs) the actor is the system.
+interface AuditContext {
+  actor_user_id: number | null;
+  ip_address: string | null;
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>();
+
+export const runWithAuditContext = <T>(context: AuditContext, fn: () => T): T => auditContext.run(context, fn);
+
+export interface AuditEventInput {
+  action: string;
+  target_type: string;
+  target_id?: number | null;
+  before?: unknown;
+  after?: unknown;
+  actor_user_id?: number | null; // Only for events without a signed-in caller, such as a login
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// Any fixed number works; it only has to be the same for every writer
+const AUDIT_CHAIN_LOCK = 7_260_419;
+
+// Never logged, whichever record they turn up in
+const REDACTED_KEYS = new Set([
+  'password',
+  'password_hash',
+  'current_password',
+  'new_password',
+  'initial_password',
+  'secret',
+  'code_hash'
+]);
+
+// Plain JSON for the jsonb columns: money in minor units goes back to "1250.50", dates to ISO
+const toAuditJson = (value: unknown): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  return JSON.parse(JSON.stringify(value, (key, item) => {
+    if (REDACTED_KEYS.has(key)) {
+      return undefined;
+    }
+    return typeof item === 'bigint' ? formatMoney(item) : item;
+  }));
+};
+
+// jsonb keeps its own key order, so the hash is taken over keys sorted the same way every time
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+type ChainedFields = Omit<typeof auditEventsTable.$inferSelect, 'id' | 'hash'>;
+
+const hashAuditEvent = (event: ChainedFields): string => new Bun.CryptoHasher('sha256')
+  .update(canonicalJson({ ...event, created_at: event.created_at.toISOString() }))
+  .digest('hex');
+
+type PendingEvent = Omit<ChainedFields, 'created_at' | 'previous_hash'>;
+
+// Events recorded in each open audited transaction, waiting to be appended when it is done
+const pendingEvents = new WeakMap<DbTransaction, PendingEvent[]>();
+
+// A transaction for changes that get audited. Its events are held back until the change itself is
+// done, and only then appended to the chain. Writers take turns on an advisory lock for the append
+// alone, so the chain stays a single line without their other work waiting on each other; the lock
+// is taken last, after every row lock the change needed.
+export function auditedTransaction<T>(fn: (tx: DbTransaction) => Promise<T>): Promise<T> {
+  return db.transaction(async (tx) => {
+    const events: PendingEvent[] = [];
+    pendingEvents.set(tx, events);
+    const result = await fn(tx);
+    await appendAuditEvents(tx, events);
+    return result;
+  });
+}
+
+// The chain lock is held until commit, so the next writer reads this one's last hash. The actors'
+// users rows, which the foreign key locks, are locked before it, so nothing is waited on while
+// holding it: a writer renaming one of them finishes its own append first.
+async function appendAuditEvents(tx: DbTransaction, events: PendingEvent[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  const actorIds = [...new Set(events.map(event => event.actor_user_id).filter(id => id !== null))];
+  if (actorIds.length > 0) {
+    await tx.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(inArray(usersTable.id, actorIds))
+      .for('key share')
+      .execute();
+  }
+
+  await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`);
+  const latest = await tx.select({ hash: auditEventsTable.hash })
+    .from(auditEventsTable)
+    .orderBy(desc(auditEventsTable.id))
+    .limit(1)
+    .execute();
+
+  let previousHash = latest[0]?.hash ?? GENESIS_HASH;
+  const createdAt = new Date();
+  const rows = events.map(event => {
+    const fields: ChainedFields = { ...event, created_at: createdAt, previous_hash: previousHash };
+    previousHash = hashAuditEvent(fields);
+    return { ...fields, hash: previousHash };
+  });
+  await tx.insert(auditEventsTable).values(rows).execute();
+}
+
+// Records an event in the caller's transaction, so it only exists if the change it describes does.
+// The transaction has to come from auditedTransaction, which writes it out before committing.
+export async function recordAuditEvent(tx: DbTransaction, event: AuditEventInput): Promise<void> {
+  const events = pendingEvents.get(tx);
+  if (!events) {
+    throw new Error('Audit events can only be recorded in an audited transaction');
+  }
+  const context = auditContext.getStore();
+
+  events.push({
+    actor_user_id: event.actor_user_id !== undefined ? event.actor_user_id : context?.actor_user_id ?? null,
+    action: event.action,
+    target_type: event.target_type,
+    target_id: event.target_id ?? null,
+    before: toAuditJson(event.before),
+    after: toAuditJson(event.after),
+    ip_address: context?.ip_address ?? null
+  });
+}
+
+// The database itself refuses to change or remove events, whoever asks. drizzle-kit doesn't manage
+// triggers, so this runs when the server starts; it is safe to run again.
+export async function protectAuditLog(): Promise<void> {
+  await db.execute(sql.raw(`
+    create or replace function audit_events_append_only() returns trigger language plpgsql as $$
+    begin
+      raise exception 'audit_events is append-only';
+    end
+    $$;
+    create or replace trigger audit_events_append_only
+      before update or delete or truncate on audit_events
+      for each statement execute function audit_events_append_only();
+  `));
+}
+
+function buildAuditConditions(filters: AuditFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.actor_user_id !== undefined) {
+    conditions.push(eq(auditEventsTable.actor_user_id, filters.actor_user_id));
+  }
+  if (filters.action) {
+    conditions.push(filters.action.endsWith('.')
+      ? like(auditEventsTable.action, `${filters.action.replace(/[%_\\]/g, '\\$&')}%`)
+      : eq(auditEventsTable.action, filters.action));
+  }
+  if (filters.target_type) {
+    conditions.push(eq(auditEventsTable.target_type, filters.target_type));
+  }
+  if (filters.target_id !== undefined) {
+    conditions.push(eq(auditEventsTable.target_id, filters.target_id));
+  }
+  if (filters.start_date) {
+    conditions.push(gte(auditEventsTable.created_at, filters.start_date));
+  }
+  if (filters.end_date) {
+    // The end date counts in full
+    const endOfDay = new Date(filters.end_date);
+    endOfDay.setHours(23, 59, 59, 999);
+    conditions.push(lte(auditEventsTable.created_at, endOfDay));
+  }
+  return conditions;
+}
+
+async function findAuditEvents(filters: AuditFilters): Promise<AuditEvent[]> {
+  const conditions = buildAuditConditions(filters);
+
+  let query = db.select({ event: auditEventsTable, actor_name: usersTable.full_name })
+    .from(auditEventsTable)
+    .leftJoin(usersTable, eq(auditEventsTable.actor_user_id, usersTable.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(auditEventsTable.id))
+    .$dynamic();
+
+  if (filters.limit !== undefined) {
+    query = query.limit(filters.limit);
+  }
+  if (filters.offset !== undefined) {
+    query = query.offset(filters.offset);
+  }
+
+  const rows = await query.execute();
+  return rows.map(({ event, actor_name }) => ({ ...event, actor_name }));
+}
+
+// Newest first, a page at a time
+export async function getAuditEvents(filters: AuditFilters = {}): Promise<AuditEventPage> {
+  try {
+    const conditions = buildAuditConditions(filters);
+    const [events, totals] = await Promise.all([
+      findAuditEvents({ ...filters, limit: filters.limit ?? 100 }),
+      db.select({ count: count() })
+        .from(auditEventsTable)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .execute()
+    ]);
+
+    return { events, total: totals[0].count };
+  } catch (error) {
+    console.error('Get audit events failed:', error);
+    throw error;
+  }
+}
+
+const VERIFY_BATCH = 1000;
+
+// Walks the whole log in order, re-computing every hash and link
+export async function verifyAuditChain(): Promise<AuditChainStatus> {
+  try {
+    let previousHash = GENESIS_HASH;
+    let lastId = 0;
+    let checked = 0;
+
+    for (;;) {
+      const batch = await db.select()
+        .from(auditEventsTable)
+        .where(gt(auditEventsTable.id, lastId))
+        .orderBy(asc(auditEventsTable.id))
+        .limit(VERIFY_BATCH)
+        .execute();
+
+      for (const { id, hash, ...fields } of batch) {
+        if (fields.previous_hash !== previousHash || hashAuditEvent(fields) !== hash) {
+          return { valid: false, checked, first_invalid_id: id };
+        }
+        previousHash = hash;
+        lastId = id;
+        checked++;
+      }
+
+      if (batch.length < VERIFY_BATCH) {
+        return { valid: true, checked, first_invalid_id: null };
+      }
+    }
+  } catch (error) {
+    console.error('Audit chain verification failed:', error);
+    throw error;
+  }
+}
+
+const describeJson = (value: unknown) => (value === null || value === undefined ? null : JSON.stringify(value));
+
+// The filtered log as a report, for the CSV export
+export async function buildAuditReport(filters: AuditFilters): Promise<Report> {
+  const events = await findAuditEvents({ ...filters, limit: undefined, offset: undefined });
+
+  return {
+    title: 'Audit Log',
+    period: [filters.start_date, filters.end_date]
+      .map(date => date?.toISOString().split('T')[0] ?? '…')
+      .join(' - '),
+    generated_at: new Date(),
+    columns: [
+      { key: 'id', header: 'ID', kind: 'number' },
+      { key: 'created_at', header: 'Time', kind: 'date' },
+      { key: 'actor', header: 'Actor', kind: 'text' },
+      { key: 'action', header: 'Action', kind: 'text' },
+      { key: 'target_type', header: 'Target', kind: 'text' },
+      { key: 'target_id', header: 'Target ID', kind: 'number' },
+      { key: 'before', header: 'Before', kind: 'text' },
+      { key: 'after', header: 'After', kind: 'text' },
+      { key: 'ip_address', header: 'IP Address', kind: 'text' },
+      { key: 'hash', header: 'Hash', kind: 'text' }
+    ],
+    rows: events.map(event => ({
+      id: event.id,
+      created_at: event.created_at,
+      actor: event.actor_name ?? 'System',
+      action: event.action,
+      target_type: event.target_type,
+      target_id: event.target_id,
+      before: describeJson(event.before),
+      after: describeJson(event.after),
+      ip_address: event.ip_address,
+      hash: event.hash
+    })),
+    totals: null
+  };
+}
@@ -1,59 +1,194 @@
 
 import { db } from '../db';
-import { usersTable, sessionsTable, studentProfilesTable, staffProfilesTable } from '../db/schema';
-import { type LoginInput, type User, type Session } from '../schema';
-import { eq, and, gt } from 'drizzle-orm';
+import { usersTable, userColumns, sessionsTable, studentProfilesTable, staffProfilesTable, loginThrottlesTable } from '../db/schema';
+import { type LoginInput, type User, type Session, type ActiveSession, type LoginThrottleScope, type LoginLockout } from '../schema';
+import { eq, and, gt, gte, lte, ne, or, desc, sql } from 'drizzle-orm';
+import { timingSafeEqual } from 'node:crypto';
+import { auditedTransaction, recordAuditEvent } from './audit';
 
-export async function login(input: LoginInput): Promise<{ user: User; session: Session }> {
+// A session ends after a day without activity, and a week after sign-in no matter what
+const SESSION_IDLE_MS = 24 * 60 * 60 * 1000;
+const SESSION_MAX_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+// Activity is written back at most this often, not on every request
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Time to type in the two-factor code after the password was accepted
+const TWO_FACTOR_CHALLENGE_MS = 5 * 60 * 1000;
+
+export const sessionExpiry = (createdAt: Date, now: Date): Date =>
+  new Date(Math.min(now.getTime() + SESSION_IDLE_MS, createdAt.getTime() + SESSION_MAX_LIFETIME_MS));
+
+// The CSRF token the page must echo back on every mutation. It is derived from the session id,
+// which only ever travels in an HttpOnly cookie, so another site can neither read nor compute it.
+export const csrfTokenFor = (sessionId: string): string =>
+  new Bun.CryptoHasher('sha256').update(`csrf:${sessionId}`).digest('hex');
+
+export function isValidCsrfToken(sessionId: string, token: string | null): boolean {
+  const expected = Buffer.from(csrfTokenFor(sessionId));
+  const actual = Buffer.from(token ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Failed logins are counted per username and per client IP. The first few failures are free,
+// after that every failure doubles the wait before the next attempt is checked, and enough of
+// them lock the key out. Whole classrooms share one IP, so its limits are much looser.
+const THROTTLE_POLICY: Record<LoginThrottleScope, { free_failures: number; lockout_failures: number }> = {
+  USERNAME: { free_failures: 3, lockout_failures: 10 },
+  IP: { free_failures: 50, lockout_failures: 200 }
+};
+
+const BACKOFF_BASE_MS = 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const FAILURE_WINDOW_MS = 60 * 60 * 1000; // A failure older than this no longer counts
+
+const INVALID_CREDENTIALS = 'Invalid username or password';
+const TOO_MANY_ATTEMPTS = 'Too many failed login attempts. Please try again later.';
+
+type ThrottleKey = { scope: LoginThrottleScope; key: string };
+
+const throttleKeys = (username: string, clientIp: string | null): ThrottleKey[] => [
+  { scope: 'USERNAME', key: username.trim().toLowerCase() },
+  ...(clientIp ? [{ scope: 'IP' as const, key: clientIp }] : [])
+];
+
+const matchesKey = ({ scope, key }: ThrottleKey) =>
+  and(eq(loginThrottlesTable.scope, scope), eq(loginThrottlesTable.key, key));
+
+const lockedUntil = (scope: LoginThrottleScope, failures: number, now: Date): Date | null => {
+  const policy = THROTTLE_POLICY[scope];
+  if (failures >= policy.lockout_failures) {
+    return new Date(now.getTime() + LOCKOUT_MS);
+  }
+  if (failures > policy.free_failures) {
+    const backoff = BACKOFF_BASE_MS * 2 ** (failures - policy.free_failures - 1);
+    return new Date(now.getTime() + Math.min(backoff, MAX_BACKOFF_MS));
+  }
+  return null;
+};
+
+// Also counts wrong two-factor codes, so guessing those is throttled like guessing passwords
+export async function recordFailedLogin(username: string, clientIp: string | null): Promise<void> {
+  const keys = throttleKeys(username, clientIp);
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MS);
+
+  for (const throttleKey of keys) {
+    const result = await db.insert(loginThrottlesTable)
+      .values({ ...throttleKey, failure_count: 1, last_failure_at: now })
+      .onConflictDoUpdate({
+        target: [loginThrottlesTable.scope, loginThrottlesTable.key],
+        set: {
+          failure_count: sql`case when ${loginThrottlesTable.last_failure_at} < ${windowStart} then 1 else ${loginThrottlesTable.failure_count} + 1 end`,
+          last_failure_at: now
+        }
+      })
+      .returning()
+      .execute();
+
+    await db.update(loginThrottlesTable)
+      .set({ locked_until: lockedUntil(throttleKey.scope, result[0].failure_count, now) })
+      .where(eq(loginThrottlesTable.id, result[0].id))
+      .execute();
+  }
+}
+
+// Locked keys are refused before the password is looked at, so guessing on doesn't help
+export async function assertLoginAllowed(username: string, clientIp: string | null): Promise<void> {
+  const locked = await db.select({ id: loginThrottlesTable.id })
+    .from(loginThrottlesTable)
+    .where(and(
+      or(...throttleKeys(username, clientIp).map(matchesKey)),
+      gt(loginThrottlesTable.locked_until, new Date())
+    ))
+    .execute();
+
+  if (locked.length > 0) {
+    throw new Error(TOO_MANY_ATTEMPTS);
+  }
+}
+
+export async function clearFailedLogins(username: string): Promise<void> {
+  await db.delete(loginThrottlesTable)
+    .where(matchesKey(throttleKeys(username, null)[0]))
+    .execute();
+}
+
+// Checking a password against nothing would answer faster than a real check and give
+// unknown usernames away, so they are verified against this throwaway hash instead
+let decoyHash: Promise<string> | null = null;
+
+export async function login(
+  input: LoginInput,
+  clientIp: string | null = null,
+  userAgent: string | null = null
+): Promise<{ user: User; session: Session }> {
   try {
+    await assertLoginAllowed(input.username, clientIp);
+
     // Find user by username
     const users = await db.select()
       .from(usersTable)
       .where(eq(usersTable.username, input.username))
       .execute();
 
-    if (users.length === 0) {
-      throw new Error('Invalid username or password');
-    }
-
     const user = users[0];
 
-    // Check if user is active
+    decoyHash ??= Bun.password.hash(crypto.randomUUID());
+    const passwordMatches = await Bun.password.verify(input.password, user?.password_hash ?? await decoyHash);
+    if (!user || !passwordMatches) {
+      await recordFailedLogin(input.username, clientIp);
+      throw new Error(INVALID_CREDENTIALS);
+    }
+
+    // Only reported once the password is right, so it says nothing to someone guessing
     if (!user.is_active) {
       throw new Error('Account is inactive');
     }
 
-    // Verify password (in real app, use bcrypt.compare)
-    // For now, simple comparison - in production use proper password hashing
-    const passwordMatches = await Bun.password.verify(input.password, user.password_hash);
-    if (!passwordMatches) {
-      throw new Error('Invalid username or password');
+    // With two-factor authentication on, the session is only a pending one until the code is in.
+    // The failures stay counted until then, so the code can't be guessed by logging in over and over.
+    const twoFactorPending = user.two_factor_enabled;
+    if (!twoFactorPending) {
+      await clearFailedLogins(user.username);
     }
 
     // Generate session ID and expiration
     const sessionId = crypto.randomUUID();
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-
-    // Create session
-    const sessionResult = await db.insert(sessionsTable)
-      .values({
-        id: sessionId,
-        user_id: user.id,
-        expires_at: expiresAt
-      })
-      .returning()
-      .execute();
+    const now = new Date();
 
-    const session = sessionResult[0];
+    // Create session; a pending one is only logged once the code is verified
+    const session = await auditedTransaction(async (tx) => {
+      const sessionResult = await tx.insert(sessionsTable)
+        .values({
+          id: sessionId,
+          user_id: user.id,
+          user_agent: userAgent?.slice(0, 500) ?? null,
+          ip_address: clientIp,
+          last_seen_at: now,
+          expires_at: twoFactorPending ? new Date(now.getTime() + TWO_FACTOR_CHALLENGE_MS) : sessionExpiry(now, now),
+          two_factor_pending: twoFactorPending,
+          created_at: now
+        })
+        .returning()
+        .execute();
 
+      if (!twoFactorPending) {
+        await recordAuditEvent(tx, { action: 'auth.login', target_type: 'user', target_id: user.id, actor_user_id: user.id });
+      }
+      return sessionResult[0];
+    });
+
+    const { password_hash: _passwordHash, ...account } = user;
     return {
       user: {
-        ...user,
+        ...account,
         created_at: new Date(user.created_at),
         updated_at: new Date(user.updated_at)
       },
       session: {
         ...session,
+        last_seen_at: new Date(session.last_seen_at),
         expires_at: new Date(session.expires_at),
         created_at: new Date(session.created_at)
       }
@@ -67,9 +202,16 @@ export async function login(input: LoginInput): Promise<{ user: User; session: S
 export async function logout(sessionId: string): Promise<{ success: boolean }> {
   try {
     // Delete the session from database
-    const result = await db.delete(sessionsTable)
-      .where(eq(sessionsTable.id, sessionId))
-      .execute();
+    await auditedTransaction(async (tx) => {
+      const result = await tx.delete(sessionsTable)
+        .where(eq(sessionsTable.id, sessionId))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAuditEvent(tx, { action: 'auth.logout', target_type: 'user', target_id: result[0].user_id, actor_user_id: result[0].user_id });
+      }
+    });
 
     return { success: true };
   } catch (error) {
@@ -84,7 +226,7 @@ export async function validateSession(sessionId: string): Promise<User | null> {
 
     // Find valid session with user data
     const results = await db.select({
-      user: usersTable,
+      user: userColumns,
       session: sessionsTable
     })
       .from(sessionsTable)
@@ -92,7 +234,8 @@ export async function validateSession(sessionId: string): Promise<User | null> {
       .where(
         and(
           eq(sessionsTable.id, sessionId),
-          gt(sessionsTable.expires_at, now)
+          gt(sessionsTable.expires_at, now),
+          eq(sessionsTable.two_factor_pending, false)
         )
       )
       .execute();
@@ -109,6 +252,14 @@ export async function validateSession(sessionId: string): Promise<User | null> {
       return null;
     }
 
+    // Activity keeps the session alive, up to its maximum lifetime
+    if (now.getTime() - result.session.last_seen_at.getTime() >= SESSION_TOUCH_INTERVAL_MS) {
+      await db.update(sessionsTable)
+        .set({ last_seen_at: now, expires_at: sessionExpiry(result.session.created_at, now) })
+        .where(eq(sessionsTable.id, sessionId))
+        .execute();
+    }
+
     return {
       ...user,
       created_at: new Date(user.created_at),
@@ -119,3 +270,167 @@ export async function validateSession(sessionId: string): Promise<User | null> {
     return null;
   }
 }
+
+// Usernames and IPs that are locked out right now, for the administrator to review
+export async function getLoginLockouts(): Promise<LoginLockout[]> {
+  try {
+    const results = await db.select({
+      throttle: loginThrottlesTable,
+      full_name: usersTable.full_name
+    })
+      .from(loginThrottlesTable)
+      .leftJoin(usersTable, and(
+        eq(loginThrottlesTable.scope, 'USERNAME'),
+        eq(sql`lower(${usersTable.username})`, loginThrottlesTable.key)
+      ))
+      .where(and(
+        gt(loginThrottlesTable.locked_until, new Date()),
+        or(
+          and(eq(loginThrottlesTable.scope, 'USERNAME'), gte(loginThrottlesTable.failure_count, THROTTLE_POLICY.USERNAME.lockout_failures)),
+          and(eq(loginThrottlesTable.scope, 'IP'), gte(loginThrottlesTable.failure_count, THROTTLE_POLICY.IP.lockout_failures))
+        )
+      ))
+      .orderBy(loginThrottlesTable.locked_until)
+      .execute();
+
+    return results.map(result => ({
+      id: result.throttle.id,
+      scope: result.throttle.scope,
+      key: result.throttle.key,
+      full_name: result.full_name,
+      failure_count: result.throttle.failure_count,
+      locked_until: result.throttle.locked_until!
+    }));
+  } catch (error) {
+    console.error('Get login lockouts failed:', error);
+    throw error;
+  }
+}
+
+// Forgets the failures behind a lockout, so the next login attempt is checked right away
+export async function unlockLogin(throttleId: number): Promise<{ success: boolean }> {
+  try {
+    await auditedTransaction(async (tx) => {
+      const result = await tx.delete(loginThrottlesTable)
+        .where(eq(loginThrottlesTable.id, throttleId))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error('Lockout not found');
+      }
+
+      await recordAuditEvent(tx, { action: 'auth.unlock', target_type: 'login_throttle', target_id: throttleId, before: result[0] });
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Login unlock failed:', error);
+    throw error;
+  }
+}
+
+// The caller's signed-in devices, most recently used first
+export async function getActiveSessions(userId: number, currentSessionId: string): Promise<ActiveSession[]> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        gt(sessionsTable.expires_at, new Date()),
+        eq(sessionsTable.two_factor_pending, false)
+      ))
+      .orderBy(desc(sessionsTable.last_seen_at))
+      .execute();
+
+    return sessions.map(({ id, user_id: _userId, two_factor_pending: _pending, two_factor_attempts: _attempts, ...session }) => ({
+      ...session,
+      is_current: id === currentSessionId
+    }));
+  } catch (error) {
+    console.error('Get active sessions failed:', error);
+    throw error;
+  }
+}
+
+export async function revokeSession(userId: number, publicId: string): Promise<{ success: boolean }> {
+  try {
+    await auditedTransaction(async (tx) => {
+      const result = await tx.delete(sessionsTable)
+        .where(and(
+          eq(sessionsTable.public_id, publicId),
+          eq(sessionsTable.user_id, userId)
+        ))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error('Session not found');
+      }
+
+      await recordAuditEvent(tx, { action: 'session.revoke', target_type: 'user', target_id: userId, before: { public_id: publicId } });
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+export async function signOutOtherSessions(userId: number, currentSessionId: string): Promise<{ revoked: number }> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const result = await tx.delete(sessionsTable)
+        .where(and(
+          eq(sessionsTable.user_id, userId),
+          ne(sessionsTable.id, currentSessionId)
+        ))
+        .returning()
+        .execute();
+
+      await recordAuditEvent(tx, { action: 'session.sign_out_others', target_type: 'user', target_id: userId, after: { revoked: result.length } });
+      return { revoked: result.length };
+    });
+  } catch (error) {
+    console.error('Sign out other sessions failed:', error);
+    throw error;
+  }
+}
+
+// Signs a user out everywhere. Takes an open transaction so a password reset or deactivation
+// and the sign-out happen together.
+export async function deleteUserSessions(executor: Pick<typeof db, 'delete'>, userId: number): Promise<number> {
+  const result = await executor.delete(sessionsTable)
+    .where(eq(sessionsTable.user_id, userId))
+    .returning()
+    .execute();
+  return result.length;
+}
+
+export async function forceLogout(userId: number): Promise<{ revoked: number }> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const revoked = await deleteUserSessions(tx, userId);
+      await recordAuditEvent(tx, { action: 'session.force_logout', target_type: 'user', target_id: userId, after: { revoked } });
+      return { revoked };
+    });
+  } catch (error) {
+    console.error('Force logout failed:', error);
+    throw error;
+  }
+}
+
+export async function purgeExpiredSessions(): Promise<{ purged: number }> {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(lte(sessionsTable.expires_at, new Date()))
+      .returning()
+      .execute();
+
+    return { purged: result.length };
+  } catch (error) {
+    console.error('Session purge failed:', error);
+    throw error;
+  }
+}
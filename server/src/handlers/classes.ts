@@ -1,21 +1,42 @@
 
 import { db } from '../db';
-import { classesTable, studentProfilesTable } from '../db/schema';
-import { type CreateClassInput, type Class } from '../schema';
-import { eq, count } from 'drizzle-orm';
+import {
+  academicYearRolloversTable,
+  classesTable,
+  studentProfilesTable,
+  classPromotionsTable,
+  classStaffAssignmentsTable,
+  usersTable,
+  userColumns
+} from '../db/schema';
+import {
+  type CreateClassInput,
+  type Class,
+  type RolloverInput,
+  type RolloverPlan,
+  type RolloverResult,
+  type StudentProfile,
+  type User
+} from '../schema';
+import { and, asc, eq, count, inArray, ne, or } from 'drizzle-orm';
+import { toMoneyNumber } from '../helpers/money';
+import { auditedTransaction, recordAuditEvent } from './audit';
 
 export async function createClass(input: CreateClassInput): Promise<Class> {
   try {
-    const result = await db.insert(classesTable)
-      .values({
-        name: input.name,
-        description: input.description || null,
-        academic_year: input.academic_year
-      })
-      .returning()
-      .execute();
+    return await auditedTransaction(async (tx) => {
+      const result = await tx.insert(classesTable)
+        .values({
+          name: input.name,
+          description: input.description || null,
+          academic_year: input.academic_year
+        })
+        .returning()
+        .execute();
 
-    return result[0];
+      await recordAuditEvent(tx, { action: 'class.create', target_type: 'class', target_id: result[0].id, after: result[0] });
+      return result[0];
+    });
   } catch (error) {
     console.error('Class creation failed:', error);
     throw error;
@@ -63,13 +84,25 @@ export async function updateClass(id: number, input: Partial<CreateClassInput>):
       return await getClassById(id);
     }
 
-    const result = await db.update(classesTable)
-      .set(updateData)
-      .where(eq(classesTable.id, id))
-      .returning()
-      .execute();
+    return await auditedTransaction(async (tx) => {
+      const before = await tx.select()
+        .from(classesTable)
+        .where(eq(classesTable.id, id))
+        .for('update')
+        .execute();
+      if (before.length === 0) {
+        return null;
+      }
 
-    return result.length > 0 ? result[0] : null;
+      const result = await tx.update(classesTable)
+        .set(updateData)
+        .where(eq(classesTable.id, id))
+        .returning()
+        .execute();
+
+      await recordAuditEvent(tx, { action: 'class.update', target_type: 'class', target_id: id, before: before[0], after: result[0] });
+      return result[0];
+    });
   } catch (error) {
     console.error('Class update failed:', error);
     throw error;
@@ -88,14 +121,243 @@ export async function deleteClass(id: number): Promise<{ success: boolean }> {
       throw new Error('Cannot delete class with assigned students');
     }
 
-    const result = await db.delete(classesTable)
-      .where(eq(classesTable.id, id))
-      .returning()
+    // Students' class history keeps pointing at the classes they went through
+    const historyCount = await db.select({ count: count() })
+      .from(classPromotionsTable)
+      .where(or(eq(classPromotionsTable.from_class_id, id), eq(classPromotionsTable.to_class_id, id)))
       .execute();
 
-    return { success: result.length > 0 };
+    if (historyCount[0].count > 0) {
+      throw new Error('Cannot delete a class that appears in students\' class history');
+    }
+
+    return await auditedTransaction(async (tx) => {
+      await tx.delete(classStaffAssignmentsTable)
+        .where(eq(classStaffAssignmentsTable.class_id, id))
+        .execute();
+
+      const result = await tx.delete(classesTable)
+        .where(eq(classesTable.id, id))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAuditEvent(tx, { action: 'class.delete', target_type: 'class', target_id: id, before: result[0] });
+      }
+      return { success: result.length > 0 };
+    });
   } catch (error) {
     console.error('Class deletion failed:', error);
     throw error;
   }
 }
+
+const ROMAN_GRADES = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+// Last grade of SD, SMP and SMA/SMK; students in these classes leave the school
+const FINAL_GRADES = [6, 9, 12];
+
+// "2024/2025" -> "2025/2026", "2024" -> "2025"
+const nextAcademicYear = (year: string) => {
+  const range = /^(\d{4})\s*([/-])\s*(\d{4})$/.exec(year.trim());
+  if (range) {
+    return `${parseInt(range[1]) + 1}${range[2]}${parseInt(range[3]) + 1}`;
+  }
+  return /^\d{4}$/.test(year.trim()) ? String(parseInt(year) + 1) : '';
+};
+
+// Reads the grade at the start of a class name ("VII-A", "7A", "X IPA 1") and suggests the next one
+const suggestPromotion = (name: string): { action: 'PROMOTE' | 'GRADUATE'; new_class_name: string | null } => {
+  const roman = /^(XII|XI|X|IX|VIII|VII|VI|V|IV|III|II|I)(?![A-Z])/i.exec(name);
+  const numeric = /^(\d{1,2})(?!\d)/.exec(name);
+  const grade = roman ? ROMAN_GRADES.indexOf(roman[1].toUpperCase()) + 1 : numeric ? parseInt(numeric[1]) : null;
+
+  if (grade === null) {
+    return { action: 'PROMOTE', new_class_name: null };
+  }
+  if (FINAL_GRADES.includes(grade) || grade >= ROMAN_GRADES.length) {
+    return { action: 'GRADUATE', new_class_name: null };
+  }
+
+  const rest = name.slice((roman ?? numeric)![0].length);
+  const nextGrade = roman ? ROMAN_GRADES[grade] : String(grade + 1);
+  return { action: 'PROMOTE', new_class_name: `${nextGrade}${rest}` };
+};
+
+export async function getRolloverPlan(fromAcademicYear: string): Promise<RolloverPlan> {
+  try {
+    const results = await db.select({ class: classesTable, student_count: count(studentProfilesTable.id) })
+      .from(classesTable)
+      .leftJoin(studentProfilesTable, and(
+        eq(studentProfilesTable.class_id, classesTable.id),
+        ne(studentProfilesTable.status, 'CLOSED')
+      ))
+      .where(eq(classesTable.academic_year, fromAcademicYear))
+      .groupBy(classesTable.id)
+      .orderBy(asc(classesTable.name))
+      .execute();
+
+    return {
+      from_academic_year: fromAcademicYear,
+      to_academic_year: nextAcademicYear(fromAcademicYear),
+      classes: results.map(result => ({
+        class: result.class,
+        student_count: result.student_count,
+        ...suggestPromotion(result.class.name)
+      }))
+    };
+  } catch (error) {
+    console.error('Get rollover plan failed:', error);
+    throw error;
+  }
+}
+
+// Moves every student of one academic year with an open account into next year's classes; balances
+// are not touched
+export async function rolloverAcademicYear(userId: number, input: RolloverInput): Promise<RolloverResult> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const currentClasses = await tx.select()
+        .from(classesTable)
+        .where(eq(classesTable.academic_year, input.from_academic_year))
+        .for('update')
+        .execute();
+
+      if (currentClasses.length === 0) {
+        throw new Error(`No classes found for academic year ${input.from_academic_year}`);
+      }
+
+      const mappedIds = input.classes.map(entry => entry.class_id);
+      if (new Set(mappedIds).size !== mappedIds.length) {
+        throw new Error('Each class can only be mapped once');
+      }
+      if (currentClasses.some(cls => !mappedIds.includes(cls.id)) || mappedIds.length !== currentClasses.length) {
+        throw new Error(`Every class of ${input.from_academic_year} must be mapped, and only those`);
+      }
+
+      const previous = await tx.select({ id: academicYearRolloversTable.id })
+        .from(academicYearRolloversTable)
+        .where(eq(academicYearRolloversTable.from_academic_year, input.from_academic_year))
+        .execute();
+      if (previous.length > 0) {
+        throw new Error(`Academic year ${input.from_academic_year} has already been rolled over`);
+      }
+      await tx.insert(academicYearRolloversTable)
+        .values({ from_academic_year: input.from_academic_year, to_academic_year: input.to_academic_year, rolled_over_by: userId })
+        .execute();
+
+      // Next year's classes may already exist (created by hand) and several old classes may merge into one
+      const targetClasses = await tx.select()
+        .from(classesTable)
+        .where(eq(classesTable.academic_year, input.to_academic_year))
+        .execute();
+      const targetByName = new Map(targetClasses.map(cls => [cls.name.toLowerCase(), cls]));
+
+      const createdClasses: Class[] = [];
+      const promotedAt = new Date();
+      let promotedStudents = 0;
+      let graduatedStudents = 0;
+
+      for (const entry of input.classes) {
+        const oldClass = currentClasses.find(cls => cls.id === entry.class_id)!;
+        let newClassId: number | null = null;
+
+        if (entry.action === 'PROMOTE') {
+          const name = entry.new_class_name!;
+          let target = targetByName.get(name.toLowerCase());
+          if (!target) {
+            const created = await tx.insert(classesTable)
+              .values({ name, description: oldClass.description, academic_year: input.to_academic_year })
+              .returning()
+              .execute();
+            target = created[0];
+            targetByName.set(name.toLowerCase(), target);
+            createdClasses.push(target);
+          }
+          newClassId = target.id;
+        } else {
+          await tx.update(classesTable)
+            .set({ is_graduating: true })
+            .where(eq(classesTable.id, oldClass.id))
+            .execute();
+        }
+
+        // Closed accounts belong to students who have left; they stay where they were
+        const students = await tx.select({ id: studentProfilesTable.id })
+          .from(studentProfilesTable)
+          .where(and(eq(studentProfilesTable.class_id, oldClass.id), ne(studentProfilesTable.status, 'CLOSED')))
+          .for('update')
+          .execute();
+        if (students.length === 0) {
+          continue;
+        }
+
+        await tx.insert(classPromotionsTable)
+          .values(students.map(student => ({
+            student_id: student.id,
+            from_class_id: oldClass.id,
+            to_class_id: newClassId,
+            promoted_by: userId,
+            promoted_at: promotedAt
+          })))
+          .execute();
+
+        // Graduates stay in their last class until their savings are paid out
+        if (newClassId !== null) {
+          await tx.update(studentProfilesTable)
+            .set({ class_id: newClassId })
+            .where(and(
+              eq(studentProfilesTable.class_id, oldClass.id),
+              inArray(studentProfilesTable.id, students.map(student => student.id))
+            ))
+            .execute();
+          promotedStudents += students.length;
+        } else {
+          graduatedStudents += students.length;
+        }
+      }
+
+      const result = {
+        to_academic_year: input.to_academic_year,
+        created_classes: createdClasses,
+        promoted_students: promotedStudents,
+        graduated_students: graduatedStudents
+      };
+      await recordAuditEvent(tx, {
+        action: 'class.rollover',
+        target_type: 'academic_year',
+        after: { ...input, ...result, created_classes: createdClasses.map(cls => cls.id) }
+      });
+      return result;
+    });
+  } catch (error) {
+    console.error('Academic year rollover failed:', error);
+    throw error;
+  }
+}
+
+// Students of graduated classes, for paying out what is left on their accounts
+export async function getGraduatingStudents(): Promise<(StudentProfile & { user: User; class: { name: string; academic_year: string } })[]> {
+  try {
+    const results = await db.select({ student_profiles: studentProfilesTable, users: userColumns, classes: classesTable })
+      .from(studentProfilesTable)
+      .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+      .innerJoin(classesTable, eq(studentProfilesTable.class_id, classesTable.id))
+      .where(eq(classesTable.is_graduating, true))
+      .orderBy(asc(classesTable.name), asc(studentProfilesTable.nis))
+      .execute();
+
+    return results.map(result => ({
+      ...result.student_profiles,
+      current_balance: toMoneyNumber(result.student_profiles.current_balance),
+      user: result.users,
+      class: {
+        name: result.classes.name,
+        academic_year: result.classes.academic_year
+      }
+    }));
+  } catch (error) {
+    console.error('Get graduating students failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,194 @@
+
+import { db } from '../db';
+import {
+  accountClosuresTable,
+  classesTable,
+  staffProfilesTable,
+  studentProfilesTable,
+  usersTable
+} from '../db/schema';
+import {
+  type AccountClosure,
+  type CloseAccountInput,
+  type CloseClassAccountsInput,
+  type ClosureReceipt,
+  type ClosureReceiptExportInput,
+  type SetStudentStatusInput,
+  type StudentProfile
+} from '../schema';
+import { and, asc, eq, ne } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { lockStudent, postLedgerEntry, type DbTransaction } from './transactions';
+import { parseMoney, formatMoney, toMoneyNumber } from '../helpers/money';
+import { auditedTransaction, recordAuditEvent } from './audit';
+import { enqueueTransactionNotification } from './notifications';
+
+const toAccountClosure = (closure: typeof accountClosuresTable.$inferSelect): AccountClosure => ({
+  ...closure,
+  payout_amount: toMoneyNumber(closure.payout_amount)
+});
+
+// Pays out whatever is left as a final withdrawal, then closes the account for good
+async function closeLockedAccount(tx: DbTransaction, staffId: number, studentId: number, reason: string): Promise<AccountClosure> {
+  const student = await lockStudent(tx, studentId);
+  if (student.status === 'CLOSED') {
+    throw new Error('Account is already closed');
+  }
+
+  const balance = parseMoney(student.current_balance);
+  const payout = balance > 0n
+    ? await postLedgerEntry(tx, {
+      student_id: studentId,
+      staff_id: staffId,
+      type: 'WITHDRAWAL',
+      amount: toMoneyNumber(balance),
+      description: `Account closure payout: ${reason}`
+    })
+    : null;
+
+  await tx.update(studentProfilesTable)
+    .set({ status: 'CLOSED' })
+    .where(eq(studentProfilesTable.id, studentId))
+    .execute();
+
+  const result = await tx.insert(accountClosuresTable)
+    .values({
+      student_id: studentId,
+      transaction_id: payout?.id ?? null,
+      payout_amount: formatMoney(balance),
+      reason,
+      closed_by: staffId
+    })
+    .returning()
+    .execute();
+
+  await recordAuditEvent(tx, {
+    action: 'student.close',
+    target_type: 'student',
+    target_id: studentId,
+    before: { status: student.status, current_balance: student.current_balance },
+    after: result[0]
+  });
+  if (payout) {
+    await enqueueTransactionNotification(tx, student, payout, 'payout');
+  }
+  return toAccountClosure(result[0]);
+}
+
+export async function closeAccount(staffId: number, input: CloseAccountInput): Promise<AccountClosure> {
+  try {
+    return await auditedTransaction(tx => closeLockedAccount(tx, staffId, input.student_id, input.reason));
+  } catch (error) {
+    console.error('Account closure failed:', error);
+    throw error;
+  }
+}
+
+// Closes every open account of a graduated class; one failure leaves the whole class untouched
+export async function closeClassAccounts(staffId: number, input: CloseClassAccountsInput): Promise<AccountClosure[]> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const classes = await tx.select()
+        .from(classesTable)
+        .where(eq(classesTable.id, input.class_id))
+        .execute();
+
+      if (classes.length === 0) {
+        throw new Error('Class not found');
+      }
+      if (!classes[0].is_graduating) {
+        throw new Error('Only graduated classes can be closed in bulk');
+      }
+
+      const students = await tx.select({ id: studentProfilesTable.id })
+        .from(studentProfilesTable)
+        .where(and(
+          eq(studentProfilesTable.class_id, input.class_id),
+          ne(studentProfilesTable.status, 'CLOSED')
+        ))
+        .orderBy(asc(studentProfilesTable.nis))
+        .execute();
+
+      const closures: AccountClosure[] = [];
+      for (const student of students) {
+        closures.push(await closeLockedAccount(tx, staffId, student.id, input.reason));
+      }
+      return closures;
+    });
+  } catch (error) {
+    console.error('Class account closure failed:', error);
+    throw error;
+  }
+}
+
+export async function setStudentStatus(input: SetStudentStatusInput): Promise<StudentProfile> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const student = await lockStudent(tx, input.student_id);
+      if (student.status === 'CLOSED') {
+        throw new Error('Account is closed');
+      }
+
+      const result = await tx.update(studentProfilesTable)
+        .set({ status: input.status })
+        .where(eq(studentProfilesTable.id, input.student_id))
+        .returning()
+        .execute();
+
+      await recordAuditEvent(tx, {
+        action: 'student.status_change',
+        target_type: 'student',
+        target_id: input.student_id,
+        before: { status: student.status },
+        after: { status: input.status }
+      });
+      return {
+        ...result[0],
+        current_balance: toMoneyNumber(result[0].current_balance)
+      };
+    });
+  } catch (error) {
+    console.error('Student status update failed:', error);
+    throw error;
+  }
+}
+
+const staffUsersTable = alias(usersTable, 'staff_users');
+
+export async function getClosureReceipts(input: ClosureReceiptExportInput): Promise<ClosureReceipt[]> {
+  try {
+    const results = await db.select({
+      closure: accountClosuresTable,
+      nis: studentProfilesTable.nis,
+      parent_name: studentProfilesTable.parent_name,
+      full_name: usersTable.full_name,
+      class_name: classesTable.name,
+      staff_name: staffUsersTable.full_name
+    })
+      .from(accountClosuresTable)
+      .innerJoin(studentProfilesTable, eq(accountClosuresTable.student_id, studentProfilesTable.id))
+      .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+      .innerJoin(classesTable, eq(studentProfilesTable.class_id, classesTable.id))
+      .innerJoin(staffProfilesTable, eq(accountClosuresTable.closed_by, staffProfilesTable.id))
+      .innerJoin(staffUsersTable, eq(staffProfilesTable.user_id, staffUsersTable.id))
+      .where(input.student_id !== undefined
+        ? eq(accountClosuresTable.student_id, input.student_id)
+        : eq(studentProfilesTable.class_id, input.class_id!))
+      .orderBy(asc(studentProfilesTable.nis))
+      .execute();
+
+    return results.map(result => ({
+      closure: toAccountClosure(result.closure),
+      student: {
+        full_name: result.full_name,
+        nis: result.nis,
+        class_name: result.class_name,
+        parent_name: result.parent_name
+      },
+      staff_name: result.staff_name
+    }));
+  } catch (error) {
+    console.error('Get closure receipts failed:', error);
+    throw error;
+  }
+}
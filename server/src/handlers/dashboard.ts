@@ -9,6 +9,8 @@ import {
 } from '../db/schema';
 import { type DashboardStats, type UserRole } from '../schema';
 import { eq, count, sum, and, gte, desc } from 'drizzle-orm';
+import { toMoneyNumber } from '../helpers/money';
+import { getClassContact } from './assignments';
 
 export async function getDashboardStats(userRole: UserRole, userId?: number): Promise<DashboardStats> {
   try {
@@ -65,7 +67,7 @@ export async function getDashboardStats(userRole: UserRole, userId?: number): Pr
       return {
         total_students: studentsResult.count,
         total_staff: staffResult.count,
-        total_balance: parseFloat(balanceResult.total || '0'),
+        total_balance: toMoneyNumber(balanceResult.total),
         total_transactions_today: transactionsTodayResult.count,
         total_deposits_today: depositsTodayResult.count,
         total_withdrawals_today: withdrawalsTodayResult.count
@@ -161,7 +163,7 @@ export async function getStudentDashboard(studentId: number): Promise<{
       throw new Error('Student profile not found');
     }
 
-    const currentBalance = parseFloat(studentProfile[0].current_balance);
+    const currentBalance = toMoneyNumber(studentProfile[0].current_balance);
 
     // Get recent transactions (last 10)
     const recentTransactionsData = await db
@@ -185,19 +187,17 @@ export async function getStudentDashboard(studentId: number): Promise<{
     const recentTransactions = recentTransactionsData.map(transaction => ({
       id: transaction.id,
       type: transaction.type,
-      amount: parseFloat(transaction.amount),
+      amount: toMoneyNumber(transaction.amount),
       description: transaction.description,
       transaction_date: transaction.transaction_date,
-      balance_after: parseFloat(transaction.balance_after),
+      balance_after: toMoneyNumber(transaction.balance_after),
       staff_name: transaction.staff_name
     }));
 
-    // For this system, we don't have assigned staff per student
-    // So we return null for assigned_staff
     return {
       current_balance: currentBalance,
       recent_transactions: recentTransactions,
-      assigned_staff: null
+      assigned_staff: await getClassContact(studentProfile[0].class_id)
     };
   } catch (error) {
     console.error('Student dashboard retrieval failed:', error);
@@ -262,14 +262,14 @@ export async function getStaffDashboard(staffId: number): Promise<{
       student_id: student.student_id,
       student_name: student.student_name,
       nis: student.nis,
-      current_balance: parseFloat(student.current_balance),
+      current_balance: toMoneyNumber(student.current_balance),
       class_name: student.class_name,
       last_transaction: student.last_transaction
     }));
 
     return {
       students_count: studentsCountResult.count,
-      total_balance_managed: parseFloat(totalBalanceResult.total || '0'),
+      total_balance_managed: toMoneyNumber(totalBalanceResult.total),
       transactions_today: transactionsTodayResult.count,
       recent_students: recentStudents
     };
@@ -0,0 +1,211 @@
+import { db } from '../db';
+import { usersTable, userColumns, studentProfilesTable, studentGuardiansTable, classesTable } from '../db/schema';
+import {
+  type StudentGuardian,
+  type UnlinkGuardianInput,
+  type StudentProfile,
+  type User,
+  type UserRole,
+  type Credential
+} from '../schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { toMoneyNumber } from '../helpers/money';
+import { normalizePhone } from '../helpers/phone';
+import { issuePasswords } from '../helpers/passwords';
+import { type DbTransaction } from './transactions';
+import { auditedTransaction, recordAuditEvent } from './audit';
+
+// The username a parent signs in with, which is their phone number. Throws when the student's
+// parent details can't make one.
+export function guardianUsername(parentName: string | null | undefined, parentPhone: string | null | undefined): string {
+  if (!parentName?.trim() || !parentPhone?.trim()) {
+    throw new Error('Parent name and phone are needed for a guardian account');
+  }
+  const username = normalizePhone(parentPhone);
+  if (username === null) {
+    throw new Error(`Parent phone ${parentPhone} is not a valid phone number`);
+  }
+  return username;
+}
+
+// Roles of the accounts already using these usernames. A PARENT one is reused for siblings;
+// any other role means the phone number can't become a guardian's username.
+export async function findAccountRoles(usernames: string[]): Promise<Map<string, UserRole>> {
+  if (usernames.length === 0) {
+    return new Map();
+  }
+  const users = await db.select({ username: usersTable.username, role: usersTable.role })
+    .from(usersTable)
+    .where(inArray(usersTable.username, usernames))
+    .execute();
+  return new Map(users.map(user => [user.username, user.role]));
+}
+
+export const guardianUsernameTaken = (username: string) => `Phone ${username} is already the username of another account`;
+
+// Links the parent's account to the student, creating it first when the parent has none yet.
+// The caller hashes a password beforehand for parents who will need a new account.
+export async function linkGuardian(
+  tx: DbTransaction,
+  student: { id: number; parent_name: string | null; parent_phone: string | null },
+  passwordHash: string | undefined
+): Promise<{ guardian: User; created: boolean }> {
+  const username = guardianUsername(student.parent_name, student.parent_phone);
+
+  const existing = await tx.select(userColumns)
+    .from(usersTable)
+    .where(eq(usersTable.username, username))
+    .execute();
+
+  let guardian = existing[0];
+  let created = false;
+  if (guardian && guardian.role !== 'PARENT') {
+    throw new Error(guardianUsernameTaken(username));
+  }
+  if (!guardian) {
+    if (passwordHash === undefined) {
+      throw new Error('No password was issued for the new guardian account');
+    }
+    [guardian] = await tx.insert(usersTable)
+      .values({
+        username,
+        password_hash: passwordHash,
+        role: 'PARENT',
+        full_name: student.parent_name!.trim(),
+        phone: username,
+        is_active: true,
+        must_change_password: true
+      })
+      .returning(userColumns)
+      .execute();
+    created = true;
+    await recordAuditEvent(tx, { action: 'guardian.create', target_type: 'user', target_id: guardian.id, after: guardian });
+  }
+
+  const linked = await tx.insert(studentGuardiansTable)
+    .values({ student_id: student.id, guardian_user_id: guardian.id })
+    .onConflictDoNothing()
+    .returning()
+    .execute();
+  if (linked.length > 0) {
+    await recordAuditEvent(tx, { action: 'guardian.link', target_type: 'student', target_id: student.id, after: linked[0] });
+  }
+
+  return { guardian, created };
+}
+
+export async function getStudentGuardians(studentId: number): Promise<StudentGuardian[]> {
+  try {
+    const results = await db.select({
+      user_id: usersTable.id,
+      username: usersTable.username,
+      full_name: usersTable.full_name,
+      phone: usersTable.phone,
+      is_active: usersTable.is_active,
+      linked_at: studentGuardiansTable.created_at
+    })
+      .from(studentGuardiansTable)
+      .innerJoin(usersTable, eq(studentGuardiansTable.guardian_user_id, usersTable.id))
+      .where(eq(studentGuardiansTable.student_id, studentId))
+      .orderBy(asc(studentGuardiansTable.created_at))
+      .execute();
+
+    return results;
+  } catch (error) {
+    console.error('Get student guardians failed:', error);
+    throw error;
+  }
+}
+
+// The children a guardian looks after. Only the child's name is passed along from their user account.
+export async function getGuardianStudents(guardianUserId: number): Promise<(StudentProfile & { user: { full_name: string }; class: { name: string } })[]> {
+  try {
+    const results = await db.select()
+      .from(studentGuardiansTable)
+      .innerJoin(studentProfilesTable, eq(studentGuardiansTable.student_id, studentProfilesTable.id))
+      .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+      .innerJoin(classesTable, eq(studentProfilesTable.class_id, classesTable.id))
+      .where(eq(studentGuardiansTable.guardian_user_id, guardianUserId))
+      .orderBy(asc(usersTable.full_name))
+      .execute();
+
+    return results.map(result => ({
+      ...result.student_profiles,
+      current_balance: toMoneyNumber(result.student_profiles.current_balance),
+      user: { full_name: result.users.full_name },
+      class: { name: result.classes.name }
+    }));
+  } catch (error) {
+    console.error('Get guardian students failed:', error);
+    throw error;
+  }
+}
+
+export async function isGuardianOf(guardianUserId: number, studentId: number): Promise<boolean> {
+  const links = await db.select({ id: studentGuardiansTable.id })
+    .from(studentGuardiansTable)
+    .where(and(
+      eq(studentGuardiansTable.guardian_user_id, guardianUserId),
+      eq(studentGuardiansTable.student_id, studentId)
+    ))
+    .execute();
+  return links.length > 0;
+}
+
+// For students enrolled before their parent had an account. The credential is null when the
+// parent already had one through a sibling.
+export async function createGuardianAccount(studentId: number): Promise<{ guardians: StudentGuardian[]; credential: Credential | null }> {
+  try {
+    const students = await db.select()
+      .from(studentProfilesTable)
+      .where(eq(studentProfilesTable.id, studentId))
+      .execute();
+    if (students.length === 0) {
+      throw new Error('Student not found');
+    }
+
+    const username = guardianUsername(students[0].parent_name, students[0].parent_phone);
+    const role = (await findAccountRoles([username])).get(username);
+    if (role !== undefined && role !== 'PARENT') {
+      throw new Error(guardianUsernameTaken(username));
+    }
+
+    // Hash before opening the transaction; it is slow on purpose
+    const [issued] = role === undefined ? await issuePasswords(1) : [];
+    const { guardian, created } = await auditedTransaction(tx => linkGuardian(tx, students[0], issued?.hash));
+
+    return {
+      guardians: await getStudentGuardians(studentId),
+      credential: created && issued
+        ? { username: guardian.username, full_name: guardian.full_name, initial_password: issued.password }
+        : null
+    };
+  } catch (error) {
+    console.error('Create guardian account failed:', error);
+    throw error;
+  }
+}
+
+// The guardian's account stays; an administrator deactivates it when it is no longer needed
+export async function unlinkGuardian(input: UnlinkGuardianInput): Promise<StudentGuardian[]> {
+  try {
+    await auditedTransaction(async (tx) => {
+      const result = await tx.delete(studentGuardiansTable)
+        .where(and(
+          eq(studentGuardiansTable.student_id, input.student_id),
+          eq(studentGuardiansTable.guardian_user_id, input.guardian_user_id)
+        ))
+        .returning()
+        .execute();
+
+      if (result.length > 0) {
+        await recordAuditEvent(tx, { action: 'guardian.unlink', target_type: 'student', target_id: input.student_id, before: result[0] });
+      }
+    });
+
+    return await getStudentGuardians(input.student_id);
+  } catch (error) {
+    console.error('Unlink guardian failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,268 @@
+import { db } from '../db';
+import { notificationsTable, studentProfilesTable, usersTable } from '../db/schema';
+import { type Notification, type NotificationFilters, type NotificationPage, type TransactionType } from '../schema';
+import { and, asc, count, desc, eq, lte, or, type SQL } from 'drizzle-orm';
+import { normalizePhone } from '../helpers/phone';
+import { type MessageProvider } from '../helpers/messaging';
+import { type DbTransaction } from './transactions';
+import { auditedTransaction, recordAuditEvent } from './audit';
+
+// A message is tried this many times before it is marked FAILED
+export const MAX_NOTIFICATION_ATTEMPTS = 5;
+
+// Wait before the next try: 1, 2, 4, then 8 minutes
+const RETRY_BASE_MS = 60 * 1000;
+
+export const retryDelayMs = (attempts: number) => RETRY_BASE_MS * 2 ** (attempts - 1);
+
+// Messages delivered per worker run; the rest wait for the next one
+const DELIVERY_BATCH = 50;
+
+const formatRupiah = (amount: number) =>
+  `Rp${new Intl.NumberFormat('id-ID', { maximumFractionDigits: 2 }).format(amount)}`;
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('id-ID', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+type TransactionMessage = {
+  parent_name: string | null;
+  student_name: string;
+  nis: string;
+  amount: number;
+  balance_after: number;
+  transaction_date: Date;
+};
+
+// What the parent is told about: an ordinary deposit or withdrawal, the payout when the account is
+// closed, or the correcting entry when a transaction is reversed
+export type TransactionNotice = 'deposit' | 'withdrawal' | 'payout' | 'reversal';
+
+const greeting = (message: TransactionMessage) =>
+  `Yth. Bapak/Ibu${message.parent_name ? ` ${message.parent_name}` : ''}`;
+
+// Message templates, in Indonesian for the parents who receive them
+const TRANSACTION_TEMPLATES: Record<TransactionNotice, (message: TransactionMessage) => string> = {
+  deposit: (message) =>
+    `${greeting(message)}, tabungan ${message.student_name} ` +
+    `(NIS ${message.nis}) menerima setoran ${formatRupiah(message.amount)} pada ${formatDateTime(message.transaction_date)}. ` +
+    `Saldo sekarang ${formatRupiah(message.balance_after)}.`,
+  withdrawal: (message) =>
+    `${greeting(message)}, tabungan ${message.student_name} ` +
+    `(NIS ${message.nis}) ditarik ${formatRupiah(message.amount)} pada ${formatDateTime(message.transaction_date)}. ` +
+    `Saldo sekarang ${formatRupiah(message.balance_after)}. ` +
+    'Jika Anda tidak mengenali penarikan ini, segera hubungi pihak sekolah.',
+  payout: (message) =>
+    `${greeting(message)}, rekening tabungan ${message.student_name} (NIS ${message.nis}) ditutup dan sisa saldo ` +
+    `${formatRupiah(message.amount)} dibayarkan pada ${formatDateTime(message.transaction_date)}. ` +
+    'Jika Anda tidak mengenali penutupan ini, segera hubungi pihak sekolah.',
+  reversal: (message) =>
+    `${greeting(message)}, sebuah transaksi pada tabungan ${message.student_name} (NIS ${message.nis}) ` +
+    `dibatalkan pada ${formatDateTime(message.transaction_date)}; saldo dikoreksi sebesar ${formatRupiah(message.amount)}. ` +
+    `Saldo sekarang ${formatRupiah(message.balance_after)}. ` +
+    'Jika Anda tidak mengenali koreksi ini, segera hubungi pihak sekolah.'
+};
+
+// Queues the parent's message for a new ledger entry. Runs inside the entry's database transaction;
+// students whose parents opted out, or who have no usable parent phone, get nothing queued.
+export async function enqueueTransactionNotification(
+  tx: DbTransaction,
+  student: typeof studentProfilesTable.$inferSelect,
+  transaction: { id: number; type: TransactionType; amount: number; balance_after: number; transaction_date: Date },
+  notice: TransactionNotice = transaction.type === 'DEPOSIT' ? 'deposit' : 'withdrawal'
+): Promise<void> {
+  const recipient = student.parent_phone ? normalizePhone(student.parent_phone) : null;
+  if (!student.notify_parent || recipient === null) {
+    return;
+  }
+
+  const users = await tx.select({ full_name: usersTable.full_name })
+    .from(usersTable)
+    .where(eq(usersTable.id, student.user_id))
+    .execute();
+
+  await tx.insert(notificationsTable)
+    .values({
+      student_id: student.id,
+      transaction_id: transaction.id,
+      template: `transaction.${notice}`,
+      recipient,
+      body: TRANSACTION_TEMPLATES[notice]({
+        parent_name: student.parent_name,
+        student_name: users[0].full_name,
+        nis: student.nis,
+        amount: transaction.amount,
+        balance_after: transaction.balance_after,
+        transaction_date: transaction.transaction_date
+      })
+    })
+    .execute();
+}
+
+// How long a worker may take to send a claimed message before another worker may take it over.
+// Well above the gateway timeout, so a slow send is never picked up twice.
+export const NOTIFICATION_LEASE_MS = 5 * 60 * 1000;
+
+// Claims the next due message, or one whose sender died mid-send, and commits the claim, so the
+// provider is never called with a transaction or row lock open. The attempt is counted when the
+// message is claimed, which also tells a late worker its claim has been taken over.
+async function claimDueNotification(now: Date) {
+  return await db.transaction(async (tx) => {
+    const due = await tx.select()
+      .from(notificationsTable)
+      .where(or(
+        and(eq(notificationsTable.status, 'PENDING'), lte(notificationsTable.next_attempt_at, now)),
+        and(eq(notificationsTable.status, 'SENDING'), lte(notificationsTable.lease_expires_at, now))
+      ))
+      .orderBy(asc(notificationsTable.next_attempt_at), asc(notificationsTable.id))
+      .limit(1)
+      .for('update', { skipLocked: true })
+      .execute();
+    if (due.length === 0) {
+      return null;
+    }
+
+    const claimed = await tx.update(notificationsTable)
+      .set({
+        status: 'SENDING',
+        attempts: due[0].attempts + 1,
+        lease_expires_at: new Date(now.getTime() + NOTIFICATION_LEASE_MS)
+      })
+      .where(eq(notificationsTable.id, due[0].id))
+      .returning()
+      .execute();
+    return claimed[0];
+  });
+}
+
+// Sends what is due, one message at a time: claim it, send it, then record how it went.
+// Failed attempts are counted whether or not the message will be tried again.
+export async function deliverPendingNotifications(provider: MessageProvider, now = new Date()): Promise<{ sent: number; failed: number }> {
+  let sent = 0;
+  let failed = 0;
+
+  for (let processed = 0; processed < DELIVERY_BATCH; processed++) {
+    const notification = await claimDueNotification(now);
+    if (notification === null) {
+      break;
+    }
+
+    // Only the worker still holding the claim records the outcome
+    const stillClaimed = and(
+      eq(notificationsTable.id, notification.id),
+      eq(notificationsTable.status, 'SENDING'),
+      eq(notificationsTable.attempts, notification.attempts)
+    );
+
+    try {
+      const { id } = await provider.send({ to: notification.recipient, body: notification.body });
+      await db.update(notificationsTable)
+        .set({ status: 'SENT', provider: provider.name, provider_message_id: id, sent_at: new Date(), lease_expires_at: null, last_error: null })
+        .where(stillClaimed)
+        .execute();
+      sent++;
+    } catch (error) {
+      const gaveUp = notification.attempts >= MAX_NOTIFICATION_ATTEMPTS;
+      await db.update(notificationsTable)
+        .set({
+          status: gaveUp ? 'FAILED' : 'PENDING',
+          provider: provider.name,
+          lease_expires_at: null,
+          last_error: error instanceof Error ? error.message : String(error),
+          next_attempt_at: gaveUp ? notification.next_attempt_at : new Date(now.getTime() + retryDelayMs(notification.attempts))
+        })
+        .where(stillClaimed)
+        .execute();
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
+export async function getNotifications(filters: NotificationFilters = {}): Promise<NotificationPage> {
+  try {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(eq(notificationsTable.status, filters.status));
+    }
+    if (filters.student_id) {
+      conditions.push(eq(notificationsTable.student_id, filters.student_id));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [results, totals] = await Promise.all([
+      db.select({
+        notification: notificationsTable,
+        student_name: usersTable.full_name,
+        nis: studentProfilesTable.nis
+      })
+        .from(notificationsTable)
+        .innerJoin(studentProfilesTable, eq(notificationsTable.student_id, studentProfilesTable.id))
+        .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+        .where(where)
+        .orderBy(desc(notificationsTable.created_at), desc(notificationsTable.id))
+        .limit(filters.limit ?? 100)
+        .offset(filters.offset ?? 0)
+        .execute(),
+      db.select({ count: count() })
+        .from(notificationsTable)
+        .where(where)
+        .execute()
+    ]);
+
+    const notifications: Notification[] = results.map(({ notification, student_name, nis }) => ({
+      id: notification.id,
+      student_id: notification.student_id,
+      student_name,
+      nis,
+      transaction_id: notification.transaction_id,
+      template: notification.template,
+      recipient: notification.recipient,
+      body: notification.body,
+      status: notification.status,
+      attempts: notification.attempts,
+      next_attempt_at: notification.next_attempt_at,
+      last_error: notification.last_error,
+      provider: notification.provider,
+      provider_message_id: notification.provider_message_id,
+      sent_at: notification.sent_at,
+      created_at: notification.created_at
+    }));
+
+    return { notifications, total: totals[0].count };
+  } catch (error) {
+    console.error('Get notifications failed:', error);
+    throw error;
+  }
+}
+
+// Puts a message that ran out of attempts back in the queue, for instance once the gateway is fixed
+export async function retryNotification(id: number): Promise<{ success: boolean }> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const notifications = await tx.select()
+        .from(notificationsTable)
+        .where(eq(notificationsTable.id, id))
+        .for('update')
+        .execute();
+      if (notifications.length === 0) {
+        throw new Error('Notification not found');
+      }
+      if (notifications[0].status !== 'FAILED') {
+        throw new Error('Only failed notifications can be retried');
+      }
+
+      const updated = await tx.update(notificationsTable)
+        .set({ status: 'PENDING', attempts: 0, next_attempt_at: new Date() })
+        .where(eq(notificationsTable.id, id))
+        .returning()
+        .execute();
+
+      await recordAuditEvent(tx, { action: 'notification.retry', target_type: 'notification', target_id: id, before: notifications[0], after: updated[0] });
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Retry notification failed:', error);
+    throw error;
+  }
+}
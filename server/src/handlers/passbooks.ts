@@ -0,0 +1,164 @@
+
+import { db } from '../db';
+import { passbooksTable, transactionsTable } from '../db/schema';
+import {
+  type Passbook,
+  type PassbookExportInput,
+  type PassbookLine,
+  type PassbookStatus,
+  type RecordPassbookPrintInput
+} from '../schema';
+import { and, eq, gt, lte, count } from 'drizzle-orm';
+import { getStudentById } from './students';
+import { getTransactionsByStudent } from './transactions';
+import { auditedTransaction, recordAuditEvent } from './audit';
+
+// Printed lines per passbook page; must match the physical book the school uses
+export const PASSBOOK_LINES_PER_PAGE = 20;
+
+export async function getPassbookStatus(studentId: number): Promise<PassbookStatus> {
+  try {
+    const passbooks = await db.select()
+      .from(passbooksTable)
+      .where(eq(passbooksTable.student_id, studentId))
+      .execute();
+
+    const passbook = passbooks[0] ?? null;
+    const lastPrinted = passbook?.last_printed_transaction_id ?? null;
+
+    const pending = await db.select({ count: count() })
+      .from(transactionsTable)
+      .where(and(
+        eq(transactionsTable.student_id, studentId),
+        lastPrinted === null ? undefined : gt(transactionsTable.id, lastPrinted)
+      ))
+      .execute();
+
+    return {
+      student_id: studentId,
+      last_printed_transaction_id: lastPrinted,
+      printed_lines: passbook?.printed_lines ?? 0,
+      pending_lines: pending[0].count,
+      updated_at: passbook?.updated_at ?? null
+    };
+  } catch (error) {
+    console.error('Get passbook status failed:', error);
+    throw error;
+  }
+}
+
+export async function getPassbook(input: PassbookExportInput): Promise<Passbook> {
+  try {
+    const student = await getStudentById(input.student_id);
+    if (!student) {
+      throw new Error('Student not found');
+    }
+
+    const status = await getPassbookStatus(input.student_id);
+
+    // Ledger order, oldest first, so balance_after reads as a running balance
+    const transactions = (await getTransactionsByStudent(input.student_id))
+      .sort((a, b) => a.id - b.id);
+
+    const continuing = input.mode === 'CONTINUE' && status.last_printed_transaction_id !== null;
+    const entries = continuing
+      ? transactions.filter(transaction => transaction.id > status.last_printed_transaction_id!)
+      : transactions;
+    const firstLine = continuing ? status.printed_lines + 1 : 1;
+
+    const lines: PassbookLine[] = entries.map((transaction, index) => ({
+      line: firstLine + index,
+      transaction_id: transaction.id,
+      date: transaction.transaction_date,
+      code: transaction.type === 'DEPOSIT' ? 'SETOR' : 'TARIK',
+      debit: transaction.type === 'WITHDRAWAL' ? transaction.amount : null,
+      credit: transaction.type === 'DEPOSIT' ? transaction.amount : null,
+      balance: transaction.balance_after
+    }));
+
+    return {
+      student: {
+        full_name: student.user.full_name,
+        nis: student.nis,
+        class_name: student.class.name
+      },
+      mode: input.mode,
+      lines,
+      through_transaction_id: entries.length > 0 ? entries[entries.length - 1].id : null
+    };
+  } catch (error) {
+    console.error('Get passbook failed:', error);
+    throw error;
+  }
+}
+
+// Called once the teller confirms the printout landed in the book
+export async function recordPassbookPrint(userId: number, input: RecordPassbookPrintInput): Promise<PassbookStatus> {
+  try {
+    await auditedTransaction(async (tx) => {
+      const throughRows = await tx.select()
+        .from(transactionsTable)
+        .where(eq(transactionsTable.id, input.through_transaction_id))
+        .execute();
+
+      if (throughRows.length === 0 || throughRows[0].student_id !== input.student_id) {
+        throw new Error('Transaction does not belong to this student');
+      }
+
+      const existingRows = await tx.select()
+        .from(passbooksTable)
+        .where(eq(passbooksTable.student_id, input.student_id))
+        .for('update')
+        .execute();
+
+      const existing = existingRows[0] ?? null;
+      const lastPrinted = input.mode === 'CONTINUE' ? existing?.last_printed_transaction_id ?? null : null;
+
+      if (lastPrinted !== null && input.through_transaction_id <= lastPrinted) {
+        throw new Error('Passbook is already printed past this transaction');
+      }
+
+      const printed = await tx.select({ count: count() })
+        .from(transactionsTable)
+        .where(and(
+          eq(transactionsTable.student_id, input.student_id),
+          lastPrinted === null ? undefined : gt(transactionsTable.id, lastPrinted),
+          lte(transactionsTable.id, input.through_transaction_id)
+        ))
+        .execute();
+
+      const printedLines = (input.mode === 'CONTINUE' ? existing?.printed_lines ?? 0 : 0) + printed[0].count;
+
+      await tx.insert(passbooksTable)
+        .values({
+          student_id: input.student_id,
+          last_printed_transaction_id: input.through_transaction_id,
+          printed_lines: printedLines,
+          updated_by: userId
+        })
+        .onConflictDoUpdate({
+          target: passbooksTable.student_id,
+          set: {
+            last_printed_transaction_id: input.through_transaction_id,
+            printed_lines: printedLines,
+            updated_by: userId,
+            updated_at: new Date()
+          }
+        })
+        .execute();
+
+      await recordAuditEvent(tx, {
+        action: 'passbook.print',
+        target_type: 'student',
+        target_id: input.student_id,
+        before: existing && { last_printed_transaction_id: existing.last_printed_transaction_id, printed_lines: existing.printed_lines },
+        after: { mode: input.mode, last_printed_transaction_id: input.through_transaction_id, printed_lines: printedLines }
+      });
+    });
+
+    return getPassbookStatus(input.student_id);
+  } catch (error) {
+    console.error('Record passbook print failed:', error);
+    throw error;
+  }
+}
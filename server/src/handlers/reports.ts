@@ -0,0 +1,418 @@
+
+import { db } from '../db';
+import { usersTable, studentProfilesTable, classesTable, classPromotionsTable, transactionsTable } from '../db/schema';
+import { type ReportExportInput, type Report, type ReportFilters, type Transaction } from '../schema';
+import { and, or, eq, asc, inArray, sql, type SQL } from 'drizzle-orm';
+import { getTransactionsReport, reportConditions, transactionClassId, type TransactionReportRow } from './transactions';
+import { parseMoney, toMoneyNumber } from '../helpers/money';
+
+type ReportRow = Report['rows'][number];
+
+type Totals = { count: number; deposits: bigint; withdrawals: bigint };
+
+const emptyTotals = (): Totals => ({ count: 0, deposits: 0n, withdrawals: 0n });
+
+const addTransaction = (totals: Totals, transaction: Transaction) => {
+  totals.count += 1;
+  if (transaction.type === 'DEPOSIT') {
+    totals.deposits += parseMoney(transaction.amount);
+  } else {
+    totals.withdrawals += parseMoney(transaction.amount);
+  }
+};
+
+const addTotals = (totals: Totals, more: Totals) => {
+  totals.count += more.count;
+  totals.deposits += more.deposits;
+  totals.withdrawals += more.withdrawals;
+};
+
+// The summary reports leave counting and summing to the database, so they never load the
+// transactions themselves; only the transaction history lists them
+const transactionTotals = {
+  count: sql<number>`count(*)::int`,
+  deposits: sql<string>`coalesce(sum(${transactionsTable.amount}) filter (where ${transactionsTable.type} = 'DEPOSIT'), 0)`,
+  withdrawals: sql<string>`coalesce(sum(${transactionsTable.amount}) filter (where ${transactionsTable.type} = 'WITHDRAWAL'), 0)`
+};
+
+const readTotals = (row: { count: number; deposits: string; withdrawals: string }): Totals => ({
+  count: row.count,
+  deposits: parseMoney(row.deposits),
+  withdrawals: parseMoney(row.withdrawals)
+});
+
+const transactionFilter = (filters: ReportFilters, classIds: number[] | null) => {
+  const conditions = reportConditions(filters, classIds);
+  return conditions.length > 0 ? and(...conditions) : undefined;
+};
+
+// Months as the server's clock reads them, like the date filters; transaction dates are stored
+// in UTC. A literal rather than a parameter, so the grouped and selected expressions are identical.
+const SERVER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const transactionMonth = sql<string>`to_char((${transactionsTable.transaction_date} at time zone 'UTC') at time zone ${sql.raw(`'${SERVER_TIME_ZONE.replaceAll("'", "''")}'`)}, 'YYYY-MM')`;
+
+const REPORT_TITLES: Record<ReportExportInput['report_type'], string> = {
+  GLOBAL: 'Global Savings Summary',
+  CLASS: 'Per Class Report',
+  STUDENT: 'Individual Student Report',
+  TRANSACTIONS: 'Transaction History',
+  MONTHLY: 'Monthly Summary'
+};
+
+const formatDay = (date: Date) => date.toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' });
+
+const describePeriod = (filters: ReportFilters) => {
+  if (filters.start_date && filters.end_date) {
+    return `${formatDay(filters.start_date)} - ${formatDay(filters.end_date)}`;
+  }
+  if (filters.start_date) {
+    return `From ${formatDay(filters.start_date)}`;
+  }
+  if (filters.end_date) {
+    return `Until ${formatDay(filters.end_date)}`;
+  }
+  return 'All time';
+};
+
+// Students in scope of the filters, with their class and current balance.
+// A class filter also matches students who have since been promoted out of that class.
+async function getReportStudents(filters: ReportFilters, classIds: number[] | null) {
+  const conditions: SQL[] = [];
+  if (classIds !== null) {
+    conditions.push(inArray(studentProfilesTable.class_id, classIds));
+  }
+  if (filters.class_id) {
+    const formerMembers = db.select({ student_id: classPromotionsTable.student_id })
+      .from(classPromotionsTable)
+      .where(eq(classPromotionsTable.from_class_id, filters.class_id));
+    conditions.push(or(
+      eq(studentProfilesTable.class_id, filters.class_id),
+      inArray(studentProfilesTable.id, formerMembers)
+    )!);
+  }
+  if (filters.student_id) {
+    conditions.push(eq(studentProfilesTable.id, filters.student_id));
+  }
+
+  const results = await db.select()
+    .from(studentProfilesTable)
+    .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+    .innerJoin(classesTable, eq(studentProfilesTable.class_id, classesTable.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(asc(classesTable.name), asc(studentProfilesTable.nis))
+    .execute();
+
+  return results.map(result => ({
+    id: result.student_profiles.id,
+    nis: result.student_profiles.nis,
+    full_name: result.users.full_name,
+    class_id: result.classes.id,
+    class_name: result.classes.name,
+    academic_year: result.classes.academic_year,
+    balance: parseMoney(result.student_profiles.current_balance)
+  }));
+}
+
+async function buildGlobalReport(
+  filters: ReportFilters,
+  classIds: number[] | null
+): Promise<Pick<Report, 'columns' | 'rows' | 'totals'>> {
+  const [students, [result]] = await Promise.all([
+    getReportStudents(filters, classIds),
+    db.select({
+      ...transactionTotals,
+      deposit_count: sql<number>`count(*) filter (where ${transactionsTable.type} = 'DEPOSIT')::int`
+    })
+      .from(transactionsTable)
+      .innerJoin(studentProfilesTable, eq(transactionsTable.student_id, studentProfilesTable.id))
+      .where(transactionFilter(filters, classIds))
+      .execute()
+  ]);
+
+  const totals = readTotals(result);
+  const depositCount = result.deposit_count;
+  const balance = students.reduce((total, student) => total + student.balance, 0n);
+
+  return {
+    columns: [
+      { key: 'metric', header: 'Metric', kind: 'text' },
+      { key: 'count', header: 'Count', kind: 'number' },
+      { key: 'amount', header: 'Amount', kind: 'money' }
+    ],
+    rows: [
+      { metric: 'Students and current savings', count: students.length, amount: toMoneyNumber(balance) },
+      { metric: 'Deposits', count: depositCount, amount: toMoneyNumber(totals.deposits) },
+      { metric: 'Withdrawals', count: totals.count - depositCount, amount: toMoneyNumber(totals.withdrawals) },
+      { metric: 'Net change', count: totals.count, amount: toMoneyNumber(totals.deposits - totals.withdrawals) }
+    ],
+    totals: null
+  };
+}
+
+// Transactions count towards the class the student was in at the time, so classes of
+// past academic years keep their figures after a rollover
+async function buildClassReport(
+  filters: ReportFilters,
+  classIds: number[] | null
+): Promise<Pick<Report, 'columns' | 'rows' | 'totals'>> {
+  const [students, results] = await Promise.all([
+    getReportStudents(filters, classIds),
+    // Per student as well, so each class and the grand total count distinct students
+    db.select({
+      class: classesTable,
+      student_id: transactionsTable.student_id,
+      ...transactionTotals
+    })
+      .from(transactionsTable)
+      .innerJoin(studentProfilesTable, eq(transactionsTable.student_id, studentProfilesTable.id))
+      .innerJoin(classesTable, eq(classesTable.id, transactionClassId))
+      .where(transactionFilter(filters, classIds))
+      .groupBy(classesTable.id, transactionsTable.student_id)
+      .execute()
+  ]);
+
+  type ClassEntry = { name: string; academic_year: string; students: Set<number>; balance: bigint; totals: Totals };
+  const classes = new Map<number, ClassEntry>();
+  const classEntry = (id: number, name: string, academicYear: string) => {
+    const entry = classes.get(id) ?? { name, academic_year: academicYear, students: new Set<number>(), balance: 0n, totals: emptyTotals() };
+    classes.set(id, entry);
+    return entry;
+  };
+
+  // Former members found by a class filter are listed under that class only
+  for (const student of students.filter(student => !filters.class_id || student.class_id === filters.class_id)) {
+    const entry = classEntry(student.class_id, student.class_name, student.academic_year);
+    entry.students.add(student.id);
+    entry.balance += student.balance;
+  }
+
+  for (const result of results) {
+    const entry = classEntry(result.class.id, result.class.name, result.class.academic_year);
+    entry.students.add(result.student_id);
+    addTotals(entry.totals, readTotals(result));
+  }
+
+  const grand = { students: new Set<number>(), balance: 0n, totals: emptyTotals() };
+  const rows: ReportRow[] = [];
+  const sorted = [...classes.values()]
+    .sort((a, b) => a.academic_year.localeCompare(b.academic_year) || a.name.localeCompare(b.name));
+  for (const entry of sorted) {
+    entry.students.forEach(student => grand.students.add(student));
+    grand.balance += entry.balance;
+    addTotals(grand.totals, entry.totals);
+    rows.push({
+      class: entry.name,
+      academic_year: entry.academic_year,
+      students: entry.students.size,
+      transactions: entry.totals.count,
+      deposits: toMoneyNumber(entry.totals.deposits),
+      withdrawals: toMoneyNumber(entry.totals.withdrawals),
+      balance: toMoneyNumber(entry.balance)
+    });
+  }
+
+  return {
+    columns: [
+      { key: 'class', header: 'Class', kind: 'text' },
+      { key: 'academic_year', header: 'Academic Year', kind: 'text' },
+      { key: 'students', header: 'Students', kind: 'number' },
+      { key: 'transactions', header: 'Transactions', kind: 'number' },
+      { key: 'deposits', header: 'Deposits', kind: 'money' },
+      { key: 'withdrawals', header: 'Withdrawals', kind: 'money' },
+      { key: 'balance', header: 'Current Balance', kind: 'money' }
+    ],
+    rows,
+    totals: {
+      class: 'Total',
+      academic_year: null,
+      students: grand.students.size,
+      transactions: grand.totals.count,
+      deposits: toMoneyNumber(grand.totals.deposits),
+      withdrawals: toMoneyNumber(grand.totals.withdrawals),
+      balance: toMoneyNumber(grand.balance)
+    }
+  };
+}
+
+async function buildStudentReport(
+  filters: ReportFilters,
+  classIds: number[] | null
+): Promise<Pick<Report, 'columns' | 'rows' | 'totals'>> {
+  const [students, results] = await Promise.all([
+    getReportStudents(filters, classIds),
+    db.select({ student_id: transactionsTable.student_id, ...transactionTotals })
+      .from(transactionsTable)
+      .innerJoin(studentProfilesTable, eq(transactionsTable.student_id, studentProfilesTable.id))
+      .where(transactionFilter(filters, classIds))
+      .groupBy(transactionsTable.student_id)
+      .execute()
+  ]);
+  const totalsByStudent = new Map(results.map(result => [result.student_id, readTotals(result)]));
+
+  const grand = { balance: 0n, totals: emptyTotals() };
+  const rows = students.map(student => {
+    const totals = totalsByStudent.get(student.id) ?? emptyTotals();
+    grand.balance += student.balance;
+    addTotals(grand.totals, totals);
+    return {
+      nis: student.nis,
+      name: student.full_name,
+      class: student.class_name,
+      transactions: totals.count,
+      deposits: toMoneyNumber(totals.deposits),
+      withdrawals: toMoneyNumber(totals.withdrawals),
+      balance: toMoneyNumber(student.balance)
+    };
+  });
+
+  return {
+    columns: [
+      { key: 'nis', header: 'NIS', kind: 'text' },
+      { key: 'name', header: 'Student', kind: 'text' },
+      { key: 'class', header: 'Class', kind: 'text' },
+      { key: 'transactions', header: 'Transactions', kind: 'number' },
+      { key: 'deposits', header: 'Deposits', kind: 'money' },
+      { key: 'withdrawals', header: 'Withdrawals', kind: 'money' },
+      { key: 'balance', header: 'Current Balance', kind: 'money' }
+    ],
+    rows,
+    totals: {
+      nis: 'Total',
+      name: null,
+      class: null,
+      transactions: grand.totals.count,
+      deposits: toMoneyNumber(grand.totals.deposits),
+      withdrawals: toMoneyNumber(grand.totals.withdrawals),
+      balance: toMoneyNumber(grand.balance)
+    }
+  };
+}
+
+function buildTransactionsReport(
+  transactions: TransactionReportRow[]
+): Pick<Report, 'columns' | 'rows' | 'totals'> {
+  const totals = emptyTotals();
+  const rows = transactions.map(transaction => {
+    addTransaction(totals, transaction);
+    return {
+      id: transaction.id,
+      date: transaction.transaction_date,
+      nis: transaction.student.nis,
+      student: transaction.student.user.full_name,
+      class: transaction.student.class.name,
+      type: transaction.type,
+      amount: transaction.amount,
+      balance_after: transaction.balance_after,
+      staff: transaction.staff.user.full_name,
+      description: transaction.description
+    };
+  });
+
+  return {
+    columns: [
+      { key: 'id', header: 'No.', kind: 'number' },
+      { key: 'date', header: 'Date', kind: 'date' },
+      { key: 'nis', header: 'NIS', kind: 'text' },
+      { key: 'student', header: 'Student', kind: 'text' },
+      { key: 'class', header: 'Class', kind: 'text' },
+      { key: 'type', header: 'Type', kind: 'text' },
+      { key: 'amount', header: 'Amount', kind: 'money' },
+      { key: 'balance_after', header: 'Balance After', kind: 'money' },
+      { key: 'staff', header: 'Staff', kind: 'text' },
+      { key: 'description', header: 'Description', kind: 'text' }
+    ],
+    rows,
+    totals: {
+      id: null,
+      date: null,
+      nis: null,
+      student: `${totals.count} transactions`,
+      class: null,
+      type: 'NET',
+      amount: toMoneyNumber(totals.deposits - totals.withdrawals),
+      balance_after: null,
+      staff: null,
+      description: null
+    }
+  };
+}
+
+async function buildMonthlyReport(
+  filters: ReportFilters,
+  classIds: number[] | null
+): Promise<Pick<Report, 'columns' | 'rows' | 'totals'>> {
+  const results = await db.select({ month: transactionMonth, ...transactionTotals })
+    .from(transactionsTable)
+    .innerJoin(studentProfilesTable, eq(transactionsTable.student_id, studentProfilesTable.id))
+    .where(transactionFilter(filters, classIds))
+    .groupBy(transactionMonth)
+    .orderBy(transactionMonth)
+    .execute();
+
+  const grand = emptyTotals();
+  const rows = results.map(result => {
+    const totals = readTotals(result);
+    addTotals(grand, totals);
+    return {
+      month: result.month,
+      transactions: totals.count,
+      deposits: toMoneyNumber(totals.deposits),
+      withdrawals: toMoneyNumber(totals.withdrawals),
+      net: toMoneyNumber(totals.deposits - totals.withdrawals)
+    };
+  });
+
+  return {
+    columns: [
+      { key: 'month', header: 'Month', kind: 'text' },
+      { key: 'transactions', header: 'Transactions', kind: 'number' },
+      { key: 'deposits', header: 'Deposits', kind: 'money' },
+      { key: 'withdrawals', header: 'Withdrawals', kind: 'money' },
+      { key: 'net', header: 'Net Change', kind: 'money' }
+    ],
+    rows,
+    totals: {
+      month: 'Total',
+      transactions: grand.count,
+      deposits: toMoneyNumber(grand.deposits),
+      withdrawals: toMoneyNumber(grand.withdrawals),
+      net: toMoneyNumber(grand.deposits - grand.withdrawals)
+    }
+  };
+}
+
+// Optionally limited to some classes, for staff who only serve the classes they are assigned to
+export async function buildReport(input: ReportExportInput, classIds: number[] | null = null): Promise<Report> {
+  try {
+    const { report_type, format: _format, ...filters } = input;
+
+    let body: Pick<Report, 'columns' | 'rows' | 'totals'>;
+    switch (report_type) {
+      case 'GLOBAL':
+        body = await buildGlobalReport(filters, classIds);
+        break;
+      case 'CLASS':
+        body = await buildClassReport(filters, classIds);
+        break;
+      case 'STUDENT':
+        body = await buildStudentReport(filters, classIds);
+        break;
+      case 'TRANSACTIONS':
+        body = buildTransactionsReport((await getTransactionsReport(filters, classIds)).transactions);
+        break;
+      case 'MONTHLY':
+        body = await buildMonthlyReport(filters, classIds);
+        break;
+    }
+
+    return {
+      title: REPORT_TITLES[report_type],
+      period: describePeriod(filters),
+      generated_at: new Date(),
+      ...body
+    };
+  } catch (error) {
+    console.error('Report generation failed:', error);
+    throw error;
+  }
+}
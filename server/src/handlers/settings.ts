@@ -0,0 +1,61 @@
+import { db } from '../db';
+import { schoolSettingsTable } from '../db/schema';
+import { schoolSettingsSchema, type SchoolSettings, type UpdateSchoolSettingsInput } from '../schema';
+import { auditedTransaction, recordAuditEvent } from './audit';
+
+const DEFAULT_SETTINGS: SchoolSettings = {
+  restrict_staff_to_assigned_classes: false
+};
+
+// Stored values are checked against the schema; anything unknown or malformed falls back to the default
+async function readSettings(executor: Pick<typeof db, 'select'>): Promise<SchoolSettings> {
+  const rows = await executor.select().from(schoolSettingsTable).execute();
+  const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS };
+
+  for (const row of rows) {
+    const field = schoolSettingsSchema.shape[row.key as keyof SchoolSettings];
+    const parsed = field?.safeParse(row.value);
+    if (parsed?.success) {
+      settings[row.key] = parsed.data;
+    }
+  }
+
+  return settings as SchoolSettings;
+}
+
+export async function getSchoolSettings(): Promise<SchoolSettings> {
+  try {
+    return await readSettings(db);
+  } catch (error) {
+    console.error('Get school settings failed:', error);
+    throw error;
+  }
+}
+
+export async function updateSchoolSettings(adminUserId: number, input: UpdateSchoolSettingsInput): Promise<SchoolSettings> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const before = await readSettings(tx);
+
+      for (const [key, value] of Object.entries(input)) {
+        if (value === undefined) {
+          continue;
+        }
+        await tx.insert(schoolSettingsTable)
+          .values({ key, value, updated_by: adminUserId })
+          .onConflictDoUpdate({
+            target: schoolSettingsTable.key,
+            set: { value, updated_by: adminUserId, updated_at: new Date() }
+          })
+          .execute();
+      }
+
+      const after = await readSettings(tx);
+      await recordAuditEvent(tx, { action: 'settings.update', target_type: 'school_settings', before, after });
+      return after;
+    });
+  } catch (error) {
+    console.error('Update school settings failed:', error);
+    throw error;
+  }
+}
@@ -1,55 +1,114 @@
 
 import { db } from '../db';
-import { usersTable, staffProfilesTable } from '../db/schema';
-import { type CreateStaffInput, type StaffProfile, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { usersTable, userColumns, staffProfilesTable } from '../db/schema';
+import { type CreateStaffInput, type UpdateStaffInput, type Credential, type StaffProfile, type User } from '../schema';
+import { and, eq, ne } from 'drizzle-orm';
+import { generateInitialPassword, hashPassword } from '../helpers/passwords';
+import { auditedTransaction, recordAuditEvent } from './audit';
 
-export async function createStaff(input: CreateStaffInput): Promise<{ user: User; profile: StaffProfile }> {
+// As with createUser, only a generated password comes back in the response
+export async function createStaff(input: CreateStaffInput): Promise<{ user: User; profile: StaffProfile; credential: Credential | null }> {
   try {
     // Generate password if not provided
-    const password = input.password || Math.random().toString(36).slice(-8);
-    const passwordHash = await Bun.password.hash(password);
-
-    // Insert user record
-    const userResult = await db.insert(usersTable)
-      .values({
-        username: input.username,
-        password_hash: passwordHash,
-        role: 'STAFF',
-        full_name: input.full_name,
-        email: input.email ?? null,
-        phone: input.phone ?? null,
-        is_active: true,
-        must_change_password: !input.password // Force password change if auto-generated
-      })
-      .returning()
-      .execute();
+    const password = input.password || generateInitialPassword();
+    const passwordHash = await hashPassword(password);
 
-    const user = userResult[0];
-
-    // Insert staff profile record
-    const profileResult = await db.insert(staffProfilesTable)
-      .values({
-        user_id: user.id,
-        employee_id: input.employee_id,
-        department: input.department ?? null,
-        position: input.position ?? null
-      })
-      .returning()
-      .execute();
+    return await auditedTransaction(async (tx) => {
+      // Insert user record
+      const userResult = await tx.insert(usersTable)
+        .values({
+          username: input.username,
+          password_hash: passwordHash,
+          role: 'STAFF',
+          full_name: input.full_name,
+          email: input.email ?? null,
+          phone: input.phone ?? null,
+          is_active: true,
+          must_change_password: !input.password // Force password change if auto-generated
+        })
+        .returning(userColumns)
+        .execute();
+
+      const user = userResult[0];
 
-    const profile = profileResult[0];
+      // Insert staff profile record
+      const profileResult = await tx.insert(staffProfilesTable)
+        .values({
+          user_id: user.id,
+          employee_id: input.employee_id,
+          department: input.department ?? null,
+          position: input.position ?? null
+        })
+        .returning()
+        .execute();
 
-    return { user, profile };
+      const profile = profileResult[0];
+      await recordAuditEvent(tx, { action: 'staff.create', target_type: 'staff', target_id: profile.id, after: { user, profile } });
+
+      return {
+        user,
+        profile,
+        credential: input.password ? null : { username: user.username, full_name: user.full_name, initial_password: password }
+      };
+    });
   } catch (error) {
     console.error('Staff creation failed:', error);
     throw error;
   }
 }
 
+export async function updateStaff(input: UpdateStaffInput): Promise<StaffProfile & { user: User }> {
+  try {
+    await auditedTransaction(async (tx) => {
+      const profiles = await tx.select()
+        .from(staffProfilesTable)
+        .where(eq(staffProfilesTable.id, input.id))
+        .for('update')
+        .execute();
+      if (profiles.length === 0) {
+        throw new Error('Staff member not found');
+      }
+      const profile = profiles[0];
+
+      const employeeIdChanged = input.employee_id !== undefined && input.employee_id !== profile.employee_id;
+      if (employeeIdChanged) {
+        const taken = await tx.select({ id: staffProfilesTable.id })
+          .from(staffProfilesTable)
+          .where(and(eq(staffProfilesTable.employee_id, input.employee_id!), ne(staffProfilesTable.id, profile.id)))
+          .execute();
+        if (taken.length > 0) {
+          throw new Error(`Employee ID ${input.employee_id} is already in use`);
+        }
+      }
+
+      const updateData: Partial<typeof staffProfilesTable.$inferInsert> = {};
+      if (employeeIdChanged) updateData.employee_id = input.employee_id;
+      if (input.department !== undefined) updateData.department = input.department || null;
+      if (input.position !== undefined) updateData.position = input.position || null;
+
+      if (Object.keys(updateData).length === 0) {
+        return;
+      }
+
+      const result = await tx.update(staffProfilesTable)
+        .set(updateData)
+        .where(eq(staffProfilesTable.id, profile.id))
+        .returning()
+        .execute();
+
+      await recordAuditEvent(tx, { action: 'staff.update', target_type: 'staff', target_id: profile.id, before: profile, after: result[0] });
+    });
+
+    return (await getStaffById(input.id))!;
+  } catch (error) {
+    console.error('Staff update failed:', error);
+    throw error;
+  }
+}
+
 export async function getAllStaff(): Promise<(StaffProfile & { user: User })[]> {
   try {
-    const results = await db.select()
+    const results = await db.select({ staff_profiles: staffProfilesTable, users: userColumns })
       .from(staffProfilesTable)
       .innerJoin(usersTable, eq(staffProfilesTable.user_id, usersTable.id))
       .execute();
@@ -66,7 +125,7 @@ export async function getAllStaff(): Promise<(StaffProfile & { user: User })[]>
 
 export async function getStaffById(id: number): Promise<(StaffProfile & { user: User }) | null> {
   try {
-    const results = await db.select()
+    const results = await db.select({ staff_profiles: staffProfilesTable, users: userColumns })
       .from(staffProfilesTable)
       .innerJoin(usersTable, eq(staffProfilesTable.user_id, usersTable.id))
       .where(eq(staffProfilesTable.id, id))
@@ -86,3 +145,26 @@ export async function getStaffById(id: number): Promise<(StaffProfile & { user:
     throw error;
   }
 }
+
+export async function getStaffByUserId(userId: number): Promise<(StaffProfile & { user: User }) | null> {
+  try {
+    const results = await db.select({ staff_profiles: staffProfilesTable, users: userColumns })
+      .from(staffProfilesTable)
+      .innerJoin(usersTable, eq(staffProfilesTable.user_id, usersTable.id))
+      .where(eq(staffProfilesTable.user_id, userId))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const result = results[0];
+    return {
+      ...result.staff_profiles,
+      user: result.users
+    };
+  } catch (error) {
+    console.error('Get staff by user ID failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,460 @@
+import { PassThrough } from 'node:stream';
+import { db } from '../db';
+import { classesTable, statementDeliveriesTable, studentGuardiansTable, studentProfilesTable, transactionsTable, usersTable } from '../db/schema';
+import {
+  type MonthlyStatement,
+  type StatementDelivery,
+  type StatementDeliveryFilters,
+  type StatementDocument,
+  type StatementInput
+} from '../schema';
+import { and, asc, desc, eq, exists, gte, lt, ne, notExists, or, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { parseMoney, toMoneyNumber } from '../helpers/money';
+import { statementMonthName, writeStatementPdf } from '../helpers/export';
+import { type MailTransport } from '../helpers/mail';
+import { auditedTransaction, recordAuditEvent } from './audit';
+
+// Calendar months in server time, the same way the monthly report groups them
+const monthOf = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Month by month, newest first. Reversals count as the deposit or withdrawal they are, so every
+// month's closing balance matches the ledger.
+export async function getMonthlyStatements(studentId: number): Promise<MonthlyStatement[]> {
+  try {
+    const students = await db.select({ id: studentProfilesTable.id })
+      .from(studentProfilesTable)
+      .where(eq(studentProfilesTable.id, studentId))
+      .execute();
+    if (students.length === 0) {
+      throw new Error('Student profile not found');
+    }
+
+    const transactions = await db.select({
+      type: transactionsTable.type,
+      amount: transactionsTable.amount,
+      balance_before: transactionsTable.balance_before,
+      balance_after: transactionsTable.balance_after,
+      transaction_date: transactionsTable.transaction_date
+    })
+      .from(transactionsTable)
+      .where(eq(transactionsTable.student_id, studentId))
+      .orderBy(asc(transactionsTable.transaction_date), asc(transactionsTable.id))
+      .execute();
+
+    const months = new Map<string, { opening: bigint; deposits: bigint; withdrawals: bigint; closing: bigint; count: number }>();
+    for (const transaction of transactions) {
+      const month = monthOf(transaction.transaction_date);
+      const totals = months.get(month) ?? {
+        opening: parseMoney(transaction.balance_before),
+        deposits: 0n,
+        withdrawals: 0n,
+        closing: 0n,
+        count: 0
+      };
+      const amount = parseMoney(transaction.amount);
+      if (transaction.type === 'DEPOSIT') {
+        totals.deposits += amount;
+      } else {
+        totals.withdrawals += amount;
+      }
+      totals.closing = parseMoney(transaction.balance_after);
+      totals.count++;
+      months.set(month, totals);
+    }
+
+    return [...months.entries()]
+      .reverse()
+      .map(([month, totals]) => ({
+        month,
+        opening_balance: toMoneyNumber(totals.opening),
+        deposits: toMoneyNumber(totals.deposits),
+        withdrawals: toMoneyNumber(totals.withdrawals),
+        closing_balance: toMoneyNumber(totals.closing),
+        transaction_count: totals.count
+      }));
+  } catch (error) {
+    console.error('Get monthly statements failed:', error);
+    throw error;
+  }
+}
+
+const rupiah = new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0, maximumFractionDigits: 2 });
+
+// First instant of the month and of the month after it, in server time
+const monthBounds = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return { start: new Date(year, monthNumber - 1, 1), end: new Date(year, monthNumber, 1) };
+};
+
+// The month before the one `now` falls in, which is the one the monthly job sends
+export const previousMonth = (now: Date) => monthOf(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+
+// The opening balance is the balance before the month's first entry, or where the ledger stood
+// when the month began if there was no activity
+export async function getStatementDocument(studentId: number, month: string): Promise<StatementDocument> {
+  try {
+    const students = await db.select({
+      id: studentProfilesTable.id,
+      full_name: usersTable.full_name,
+      nis: studentProfilesTable.nis,
+      class_name: classesTable.name,
+      parent_name: studentProfilesTable.parent_name
+    })
+      .from(studentProfilesTable)
+      .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+      .innerJoin(classesTable, eq(studentProfilesTable.class_id, classesTable.id))
+      .where(eq(studentProfilesTable.id, studentId))
+      .execute();
+    if (students.length === 0) {
+      throw new Error('Student profile not found');
+    }
+
+    const { start, end } = monthBounds(month);
+    const [transactions, earlier] = await Promise.all([
+      db.select()
+        .from(transactionsTable)
+        .where(and(
+          eq(transactionsTable.student_id, studentId),
+          gte(transactionsTable.transaction_date, start),
+          lt(transactionsTable.transaction_date, end)
+        ))
+        .orderBy(asc(transactionsTable.transaction_date), asc(transactionsTable.id))
+        .execute(),
+      db.select({ balance_after: transactionsTable.balance_after })
+        .from(transactionsTable)
+        .where(and(eq(transactionsTable.student_id, studentId), lt(transactionsTable.transaction_date, start)))
+        .orderBy(desc(transactionsTable.transaction_date), desc(transactionsTable.id))
+        .limit(1)
+        .execute()
+    ]);
+
+    const opening = transactions.length > 0
+      ? parseMoney(transactions[0].balance_before)
+      : parseMoney(earlier[0]?.balance_after ?? '0');
+    const closing = transactions.length > 0 ? parseMoney(transactions[transactions.length - 1].balance_after) : opening;
+    let deposits = 0n;
+    let withdrawals = 0n;
+    for (const transaction of transactions) {
+      if (transaction.type === 'DEPOSIT') {
+        deposits += parseMoney(transaction.amount);
+      } else {
+        withdrawals += parseMoney(transaction.amount);
+      }
+    }
+
+    return {
+      student: students[0],
+      month,
+      opening_balance: toMoneyNumber(opening),
+      deposits: toMoneyNumber(deposits),
+      withdrawals: toMoneyNumber(withdrawals),
+      closing_balance: toMoneyNumber(closing),
+      lines: transactions.map(transaction => ({
+        transaction_id: transaction.id,
+        date: transaction.transaction_date,
+        type: transaction.type,
+        description: transaction.description,
+        amount: toMoneyNumber(transaction.amount),
+        balance_after: toMoneyNumber(transaction.balance_after)
+      })),
+      generated_at: new Date()
+    };
+  } catch (error) {
+    console.error('Get statement document failed:', error);
+    throw error;
+  }
+}
+
+export async function renderStatementPdf(statement: StatementDocument): Promise<Buffer> {
+  const stream = new PassThrough();
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+  await writeStatementPdf(statement, stream);
+  return Buffer.concat(chunks);
+}
+
+// The student's own address and those of their active guardian accounts
+async function statementRecipients(studentId: number): Promise<string[]> {
+  const [students, guardians] = await Promise.all([
+    db.select({ email: usersTable.email })
+      .from(studentProfilesTable)
+      .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+      .where(eq(studentProfilesTable.id, studentId))
+      .execute(),
+    db.select({ email: usersTable.email })
+      .from(studentGuardiansTable)
+      .innerJoin(usersTable, eq(studentGuardiansTable.guardian_user_id, usersTable.id))
+      .where(and(eq(studentGuardiansTable.student_id, studentId), eq(usersTable.is_active, true)))
+      .execute()
+  ]);
+
+  const emails = [...students, ...guardians]
+    .map(({ email }) => email?.trim().toLowerCase())
+    .filter((email): email is string => !!email);
+  return [...new Set(emails)];
+}
+
+// Renders and emails one statement, and answers how it went whether or not the transport took it
+async function deliverStatement(
+  transport: MailTransport,
+  studentId: number,
+  month: string,
+  recipients: string[]
+): Promise<{ status: 'SENT' | 'FAILED'; message_id: string | null; error: string | null }> {
+  const statement = await getStatementDocument(studentId, month);
+  const pdf = await renderStatementPdf(statement);
+  const monthName = statementMonthName(month);
+  const format = (amount: number) => rupiah.format(amount);
+
+  try {
+    const { id } = await transport.send({
+      to: recipients,
+      subject: `Laporan Tabungan ${statement.student.full_name} - ${monthName}`,
+      text: [
+        `Terlampir laporan bulanan tabungan ${statement.student.full_name} (NIS ${statement.student.nis}) untuk periode ${monthName}.`,
+        '',
+        `Saldo awal  : ${format(statement.opening_balance)}`,
+        `Setoran     : ${format(statement.deposits)}`,
+        `Penarikan   : ${format(statement.withdrawals)}`,
+        `Saldo akhir : ${format(statement.closing_balance)}`,
+        '',
+        'Email ini dikirim otomatis. Jika ada pertanyaan, silakan hubungi pihak sekolah.'
+      ].join('\n'),
+      attachments: [{ filename: `laporan-tabungan-${statement.student.nis}-${month}.pdf`, content_type: 'application/pdf', content: pdf }]
+    });
+    return { status: 'SENT', message_id: id, error: null };
+  } catch (error) {
+    return { status: 'FAILED', message_id: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// The job tries a statement this many times before leaving it to an administrator
+export const MAX_STATEMENT_ATTEMPTS = 5;
+
+// Wait before the next try: 1, 2, 4, then 8 hours, so a mail server that is down for a while
+// isn't given up on within the hour
+const STATEMENT_RETRY_BASE_MS = 60 * 60 * 1000;
+
+export const statementRetryDelayMs = (attempts: number) => STATEMENT_RETRY_BASE_MS * 2 ** (attempts - 1);
+
+// How long a run may take to send a claimed statement before another run may take it over.
+// Well above the SMTP timeouts, so a slow send is never picked up twice.
+export const STATEMENT_LEASE_MS = 10 * 60 * 1000;
+
+type StatementDeliveryRow = typeof statementDeliveriesTable.$inferSelect;
+
+// Whether the job should try the month's statement now, going by the deliveries logged for it so far.
+// A statement that was sent, by the job or an administrator, or is being sent is never due; the
+// job's own failures, runs that died mid-send included, are retried after a wait.
+function isStatementDue(deliveries: StatementDeliveryRow[], now: Date): boolean {
+  if (deliveries.some(delivery => delivery.status === 'SENT')) {
+    return false;
+  }
+  if (deliveries.some(delivery => delivery.status === 'SENDING' && delivery.lease_expires_at! > now)) {
+    return false;
+  }
+  const attempts = deliveries.filter(delivery => delivery.sent_by === null);
+  if (attempts.length >= MAX_STATEMENT_ATTEMPTS) {
+    return false;
+  }
+  const last = attempts.at(-1);
+  return !last || last.created_at.getTime() + statementRetryDelayMs(attempts.length) <= now.getTime();
+}
+
+// Claims the student's statement for this run and commits the claim, so the email is never sent
+// with a transaction or row lock open. The student's row is locked while the deliveries are
+// checked, so two runs, on this server or another, can't both claim it; a student locked by
+// another run or a deposit is left for the next run.
+async function claimStatement(studentId: number, month: string, recipients: string[], transportName: string, now: Date) {
+  return await db.transaction(async (tx) => {
+    const students = await tx.select({ id: studentProfilesTable.id })
+      .from(studentProfilesTable)
+      .where(eq(studentProfilesTable.id, studentId))
+      .for('update', { skipLocked: true })
+      .execute();
+    if (students.length === 0) {
+      return null;
+    }
+
+    const deliveries = await tx.select()
+      .from(statementDeliveriesTable)
+      .where(and(eq(statementDeliveriesTable.student_id, studentId), eq(statementDeliveriesTable.month, month)))
+      .orderBy(asc(statementDeliveriesTable.created_at), asc(statementDeliveriesTable.id))
+      .execute();
+    if (!isStatementDue(deliveries, now)) {
+      return null;
+    }
+
+    // A run that ran out of time counts as a failed attempt
+    await tx.update(statementDeliveriesTable)
+      .set({ status: 'FAILED', error: 'Sending was interrupted', lease_expires_at: null })
+      .where(and(
+        eq(statementDeliveriesTable.student_id, studentId),
+        eq(statementDeliveriesTable.month, month),
+        eq(statementDeliveriesTable.status, 'SENDING')
+      ))
+      .execute();
+
+    const claimed = await tx.insert(statementDeliveriesTable)
+      .values({
+        student_id: studentId,
+        month,
+        recipients: recipients.join(', '),
+        status: 'SENDING',
+        transport: transportName,
+        sent_by: null,
+        lease_expires_at: new Date(now.getTime() + STATEMENT_LEASE_MS),
+        created_at: now
+      })
+      .returning()
+      .execute();
+    return claimed[0];
+  });
+}
+
+// The monthly job. Every student whose account was open during the month gets one statement.
+// Each one is claimed before it is sent, so the job can run as often as it likes, from more than
+// one server at once. Failures are retried a few times; after that an administrator re-sends them.
+export async function sendMonthlyStatements(
+  transport: MailTransport,
+  month: string,
+  now = new Date()
+): Promise<{ sent: number; failed: number; skipped: number }> {
+  try {
+    const { start, end } = monthBounds(month);
+    const sent = db.select({ id: statementDeliveriesTable.id })
+      .from(statementDeliveriesTable)
+      .where(and(
+        eq(statementDeliveriesTable.student_id, studentProfilesTable.id),
+        eq(statementDeliveriesTable.month, month),
+        eq(statementDeliveriesTable.status, 'SENT')
+      ));
+    const activeInMonth = db.select({ id: transactionsTable.id })
+      .from(transactionsTable)
+      .where(and(
+        eq(transactionsTable.student_id, studentProfilesTable.id),
+        gte(transactionsTable.transaction_date, start),
+        lt(transactionsTable.transaction_date, end)
+      ));
+
+    // A closed account still gets the statement of the month it was closed in
+    const students = await db.select({ id: studentProfilesTable.id })
+      .from(studentProfilesTable)
+      .where(and(
+        lt(studentProfilesTable.created_at, end),
+        or(ne(studentProfilesTable.status, 'CLOSED'), exists(activeInMonth)),
+        notExists(sent)
+      ))
+      .orderBy(asc(studentProfilesTable.id))
+      .execute();
+
+    const result = { sent: 0, failed: 0, skipped: 0 };
+    for (const student of students) {
+      const recipients = await statementRecipients(student.id);
+      if (recipients.length === 0) {
+        result.skipped++;
+        continue;
+      }
+      const claimed = await claimStatement(student.id, month, recipients, transport.name, now);
+      if (claimed === null) {
+        continue;
+      }
+
+      const outcome = await deliverStatement(transport, student.id, month, recipients);
+      // Only the run still holding the claim records the outcome
+      await db.update(statementDeliveriesTable)
+        .set({ ...outcome, lease_expires_at: null })
+        .where(and(eq(statementDeliveriesTable.id, claimed.id), eq(statementDeliveriesTable.status, 'SENDING')))
+        .execute();
+      result[outcome.status === 'SENT' ? 'sent' : 'failed']++;
+    }
+    return result;
+  } catch (error) {
+    console.error('Send monthly statements failed:', error);
+    throw error;
+  }
+}
+
+// Sends a statement again on an administrator's request, for instance after a failure or to a
+// parent who has just added their email address
+export async function resendStatement(transport: MailTransport, sentBy: number, input: StatementInput): Promise<StatementDelivery> {
+  try {
+    const recipients = await statementRecipients(input.student_id);
+    if (recipients.length === 0) {
+      throw new Error('Neither the student nor their guardians have an email address');
+    }
+
+    const outcome = await deliverStatement(transport, input.student_id, input.month, recipients);
+    const delivery = {
+      student_id: input.student_id,
+      month: input.month,
+      recipients: recipients.join(', '),
+      transport: transport.name,
+      sent_by: sentBy,
+      ...outcome
+    };
+    const id = await auditedTransaction(async (tx) => {
+      const inserted = await tx.insert(statementDeliveriesTable).values(delivery).returning().execute();
+      await recordAuditEvent(tx, {
+        action: 'statement.resend',
+        target_type: 'student',
+        target_id: input.student_id,
+        after: inserted[0]
+      });
+      return inserted[0].id;
+    });
+
+    const deliveries = await getStatementDeliveries({ month: input.month, student_id: input.student_id });
+    return deliveries.find(saved => saved.id === id)!;
+  } catch (error) {
+    console.error('Resend statement failed:', error);
+    throw error;
+  }
+}
+
+// The delivery log of one month, newest first
+export async function getStatementDeliveries(filters: StatementDeliveryFilters): Promise<StatementDelivery[]> {
+  try {
+    const studentUsers = alias(usersTable, 'student_users');
+    const conditions: SQL[] = [eq(statementDeliveriesTable.month, filters.month)];
+    if (filters.status) {
+      conditions.push(eq(statementDeliveriesTable.status, filters.status));
+    }
+    if (filters.student_id) {
+      conditions.push(eq(statementDeliveriesTable.student_id, filters.student_id));
+    }
+
+    const results = await db.select({
+      delivery: statementDeliveriesTable,
+      student_name: studentUsers.full_name,
+      nis: studentProfilesTable.nis,
+      sent_by_name: usersTable.full_name
+    })
+      .from(statementDeliveriesTable)
+      .innerJoin(studentProfilesTable, eq(statementDeliveriesTable.student_id, studentProfilesTable.id))
+      .innerJoin(studentUsers, eq(studentProfilesTable.user_id, studentUsers.id))
+      .leftJoin(usersTable, eq(statementDeliveriesTable.sent_by, usersTable.id))
+      .where(and(...conditions))
+      .orderBy(desc(statementDeliveriesTable.created_at), desc(statementDeliveriesTable.id))
+      .execute();
+
+    return results.map(({ delivery, student_name, nis, sent_by_name }) => ({
+      id: delivery.id,
+      student_id: delivery.student_id,
+      student_name,
+      nis,
+      month: delivery.month,
+      recipients: delivery.recipients,
+      status: delivery.status,
+      transport: delivery.transport,
+      message_id: delivery.message_id,
+      error: delivery.error,
+      sent_by_name,
+      created_at: delivery.created_at
+    }));
+  } catch (error) {
+    console.error('Get statement deliveries failed:', error);
+    throw error;
+  }
+}
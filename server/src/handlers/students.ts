@@ -1,50 +1,120 @@
 
 import { db } from '../db';
-import { usersTable, studentProfilesTable, classesTable } from '../db/schema';
-import { type CreateStudentInput, type StudentProfile, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { usersTable, userColumns, studentProfilesTable, classesTable, classPromotionsTable } from '../db/schema';
+import {
+  createStudentInputSchema,
+  type CreateStudentInput,
+  type ImportStudentsInput,
+  type ImportStudentsResult,
+  type ImportRowError,
+  type UpdateStudentInput,
+  type ClassChange,
+  type StudentProfile,
+  type User,
+  type UserRole,
+  type Credential
+} from '../schema';
+import { and, desc, eq, inArray, ne } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { toMoneyNumber } from '../helpers/money';
+import { readSpreadsheet } from '../helpers/spreadsheet';
+import { issuePasswords } from '../helpers/passwords';
+import { normalizePhone } from '../helpers/phone';
+import { lockStudent, type DbTransaction } from './transactions';
+import { deleteUserSessions } from './auth';
+import { auditedTransaction, recordAuditEvent } from './audit';
+import { guardianUsername, guardianUsernameTaken, findAccountRoles, linkGuardian } from './guardians';
 
-export async function createStudent(input: CreateStudentInput): Promise<{ user: User; profile: StudentProfile }> {
-  try {
-    // Create user record first (using NIS as username and default password)
-    const userResult = await db.insert(usersTable)
-      .values({
-        username: input.nis,
-        password_hash: 'hashed_nis', // In real app, this would be properly hashed
-        role: 'STUDENT',
-        full_name: input.full_name,
-        email: input.email || null,
-        phone: input.phone || null,
-        is_active: true,
-        must_change_password: true
-      })
-      .returning()
-      .execute();
+async function insertStudent(
+  tx: DbTransaction,
+  input: CreateStudentInput,
+  passwordHash: string,
+  action: 'student.create' | 'student.import',
+  guardianPasswordHash?: string // Only needed when the parent gets a new account
+): Promise<{ user: User; profile: StudentProfile; guardian: { user: User; created: boolean } | null }> {
+  // Create user record first (NIS is the username; the password must be changed on first login)
+  const userResult = await tx.insert(usersTable)
+    .values({
+      username: input.nis,
+      password_hash: passwordHash,
+      role: 'STUDENT',
+      full_name: input.full_name,
+      email: input.email || null,
+      phone: input.phone || null,
+      is_active: true,
+      must_change_password: true
+    })
+    .returning(userColumns)
+    .execute();
 
-    const user = userResult[0];
-
-    // Create student profile
-    const profileResult = await db.insert(studentProfilesTable)
-      .values({
-        user_id: user.id,
-        nis: input.nis,
-        class_id: input.class_id,
-        parent_name: input.parent_name || null,
-        parent_phone: input.parent_phone || null,
-        address: input.address || null,
-        current_balance: '0.00' // Convert number to string for numeric column
-      })
-      .returning()
-      .execute();
+  const user = userResult[0];
 
-    const profile = profileResult[0];
+  // Create student profile
+  const profileResult = await tx.insert(studentProfilesTable)
+    .values({
+      user_id: user.id,
+      nis: input.nis,
+      class_id: input.class_id,
+      parent_name: input.parent_name || null,
+      parent_phone: input.parent_phone || null,
+      address: input.address || null,
+      current_balance: '0.00' // Convert number to string for numeric column
+    })
+    .returning()
+    .execute();
 
-    return {
-      user,
-      profile: {
-        ...profile,
-        current_balance: parseFloat(profile.current_balance) // Convert string back to number
+  const profile = profileResult[0];
+  await recordAuditEvent(tx, { action, target_type: 'student', target_id: profile.id, after: { user, profile } });
+
+  const guardian = input.create_guardian_account
+    ? await linkGuardian(tx, profile, guardianPasswordHash)
+    : null;
+
+  return {
+    user,
+    profile: {
+      ...profile,
+      current_balance: toMoneyNumber(profile.current_balance) // Convert string back to number
+    },
+    guardian: guardian && { user: guardian.guardian, created: guardian.created }
+  };
+}
+
+// The initial passwords are only ever returned here, for the admin to print on credential slips.
+// guardian_credential is null unless the parent got a new account.
+export async function createStudent(input: CreateStudentInput): Promise<{
+  user: User;
+  profile: StudentProfile;
+  credential: Credential;
+  guardian_credential: Credential | null;
+}> {
+  try {
+    let newGuardian = false;
+    if (input.create_guardian_account) {
+      const username = guardianUsername(input.parent_name, input.parent_phone);
+      const role = (await findAccountRoles([username])).get(username);
+      if (role !== undefined && role !== 'PARENT') {
+        throw new Error(guardianUsernameTaken(username));
       }
+      newGuardian = role === undefined;
+    }
+
+    // Hash before opening the transaction; it is slow on purpose
+    const [student, guardianPassword] = await issuePasswords(newGuardian ? 2 : 1);
+    const { guardian, ...created } = await auditedTransaction(tx =>
+      insertStudent(tx, input, student.hash, 'student.create', guardianPassword?.hash)
+    );
+
+    return {
+      ...created,
+      credential: {
+        username: created.user.username,
+        full_name: created.user.full_name,
+        initial_password: student.password
+      },
+      guardian_credential: guardian?.created && guardianPassword
+        ? { username: guardian.user.username, full_name: guardian.user.full_name, initial_password: guardianPassword.password }
+        : null
     };
   } catch (error) {
     console.error('Student creation failed:', error);
@@ -52,17 +122,212 @@ export async function createStudent(input: CreateStudentInput): Promise<{ user:
   }
 }
 
-export async function getAllStudents(): Promise<(StudentProfile & { user: User; class: { name: string } })[]> {
+// Spreadsheet headings accepted for each field, compared lower-cased with spaces as underscores
+const IMPORT_COLUMNS = {
+  full_name: ['full_name', 'name', 'nama', 'nama_lengkap'],
+  nis: ['nis'],
+  class_name: ['class', 'class_name', 'kelas'],
+  parent_name: ['parent_name', 'nama_orang_tua', 'nama_wali'],
+  parent_phone: ['parent_phone', 'telepon_orang_tua', 'hp_orang_tua'],
+  address: ['address', 'alamat'],
+  email: ['email'],
+  phone: ['phone', 'telepon', 'hp']
+} as const;
+
+type ImportField = keyof typeof IMPORT_COLUMNS;
+
+const REQUIRED_IMPORT_FIELDS: ImportField[] = ['full_name', 'nis', 'class_name'];
+
+const MAX_IMPORT_ROWS = 2000;
+
+export async function importStudents(input: ImportStudentsInput): Promise<ImportStudentsResult> {
   try {
-    const results = await db.select()
+    const rows = await readSpreadsheet(input.file_name, Buffer.from(input.content_base64, 'base64'));
+    const [header = [], ...dataRows] = rows;
+
+    const result = (
+      errors: ImportRowError[],
+      totalRows: number,
+      validRows: number,
+      credentials: Credential[] = [],
+      guardianCredentials: Credential[] = []
+    ): ImportStudentsResult => ({
+      dry_run: input.dry_run,
+      total_rows: totalRows,
+      valid_rows: validRows,
+      errors,
+      created: credentials.length,
+      credentials,
+      guardian_credentials: guardianCredentials
+    });
+
+    // Map each field to its column position
+    const headings = header.map(heading => heading.trim().toLowerCase().replace(/\s+/g, '_'));
+    const columnOf = {} as Record<ImportField, number>;
+    for (const field of Object.keys(IMPORT_COLUMNS) as ImportField[]) {
+      columnOf[field] = headings.findIndex(heading => (IMPORT_COLUMNS[field] as readonly string[]).includes(heading));
+    }
+
+    const missing = REQUIRED_IMPORT_FIELDS.filter(field => columnOf[field] === -1);
+    if (missing.length > 0) {
+      return result([{ row: 1, nis: null, message: `Missing column(s): ${missing.join(', ')}` }], 0, 0);
+    }
+
+    // Row numbers as the user sees them in the spreadsheet; blank lines are skipped
+    const entries = dataRows
+      .map((cells, index) => ({ row: index + 2, cells }))
+      .filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+
+    if (entries.length > MAX_IMPORT_ROWS) {
+      return result([{ row: 1, nis: null, message: `Too many rows (${MAX_IMPORT_ROWS} maximum per import)` }], entries.length, 0);
+    }
+
+    const cell = (cells: string[], field: ImportField) => {
+      const value = columnOf[field] === -1 ? '' : (cells[columnOf[field]] ?? '').trim();
+      return value === '' ? null : value;
+    };
+
+    const classes = await db.select().from(classesTable).execute();
+    const classByName = new Map(classes.map(cls => [cls.name.trim().toLowerCase(), cls.id]));
+
+    // NIS is also the login username, so it has to be free in both tables
+    const fileNis = entries.map(({ cells }) => cell(cells, 'nis')).filter((nis): nis is string => nis !== null);
+    const takenNis = new Set<string>();
+    if (fileNis.length > 0) {
+      const existingProfiles = await db.select({ nis: studentProfilesTable.nis })
+        .from(studentProfilesTable)
+        .where(inArray(studentProfilesTable.nis, fileNis))
+        .execute();
+      const existingUsers = await db.select({ username: usersTable.username })
+        .from(usersTable)
+        .where(inArray(usersTable.username, fileNis))
+        .execute();
+      existingProfiles.forEach(profile => takenNis.add(profile.nis));
+      existingUsers.forEach(user => takenNis.add(user.username));
+    }
+
+    // Parents who already have an account keep it; their children are linked to it
+    const accountRoles = input.create_guardian_accounts
+      ? await findAccountRoles(entries
+        .map(({ cells }) => normalizePhone(cell(cells, 'parent_phone') ?? ''))
+        .filter((phone): phone is string => phone !== null))
+      : new Map<string, UserRole>();
+
+    const errors: ImportRowError[] = [];
+    const valid: CreateStudentInput[] = [];
+    const seenNis = new Map<string, number>();
+
+    for (const { row, cells } of entries) {
+      const nis = cell(cells, 'nis');
+      const rowErrors: string[] = [];
+
+      const className = cell(cells, 'class_name');
+      const classId = className === null ? undefined : classByName.get(className.toLowerCase());
+      if (className === null) {
+        rowErrors.push('Class is required');
+      } else if (classId === undefined) {
+        rowErrors.push(`Unknown class "${className}"`);
+      }
+
+      const parsed = createStudentInputSchema.safeParse({
+        full_name: cell(cells, 'full_name') ?? undefined,
+        nis: nis ?? undefined,
+        class_id: classId ?? 0,
+        parent_name: cell(cells, 'parent_name'),
+        parent_phone: cell(cells, 'parent_phone'),
+        address: cell(cells, 'address'),
+        email: cell(cells, 'email'),
+        phone: cell(cells, 'phone'),
+        create_guardian_account: input.create_guardian_accounts
+      });
+      if (!parsed.success) {
+        parsed.error.issues.forEach(issue => rowErrors.push(`${issue.path.join('.')}: ${issue.message}`));
+      }
+
+      if (input.create_guardian_accounts) {
+        try {
+          const username = guardianUsername(cell(cells, 'parent_name'), cell(cells, 'parent_phone'));
+          const role = accountRoles.get(username);
+          if (role !== undefined && role !== 'PARENT') {
+            rowErrors.push(guardianUsernameTaken(username));
+          }
+        } catch (error) {
+          rowErrors.push(error instanceof Error ? error.message : 'Invalid parent details');
+        }
+      }
+
+      if (nis !== null) {
+        if (takenNis.has(nis)) {
+          rowErrors.push(`NIS ${nis} is already registered`);
+        } else if (seenNis.has(nis)) {
+          rowErrors.push(`NIS ${nis} also appears on row ${seenNis.get(nis)}`);
+        } else {
+          seenNis.set(nis, row);
+        }
+      }
+
+      if (rowErrors.length > 0 || !parsed.success) {
+        rowErrors.forEach(message => errors.push({ row, nis, message }));
+      } else {
+        valid.push(parsed.data);
+      }
+    }
+
+    // All or nothing: a single bad row keeps the whole file out
+    if (input.dry_run || errors.length > 0 || valid.length === 0) {
+      return result(errors, entries.length, valid.length);
+    }
+
+    // One password per student, and one per parent who gets a new account; siblings share it
+    const newGuardians = [...new Set(valid
+      .filter(student => student.create_guardian_account)
+      .map(student => guardianUsername(student.parent_name, student.parent_phone))
+      .filter(username => !accountRoles.has(username)))];
+    const passwords = await issuePasswords(valid.length + newGuardians.length);
+    const guardianPasswords = new Map(newGuardians.map((username, index) => [username, passwords[valid.length + index]]));
+
+    const guardianCredentials = await auditedTransaction(async (tx) => {
+      const credentials: Credential[] = [];
+      for (const [index, student] of valid.entries()) {
+        const guardianPassword = student.create_guardian_account
+          ? guardianPasswords.get(guardianUsername(student.parent_name, student.parent_phone))
+          : undefined;
+        const { guardian } = await insertStudent(tx, student, passwords[index].hash, 'student.import', guardianPassword?.hash);
+        if (guardian?.created && guardianPassword) {
+          credentials.push({ username: guardian.user.username, full_name: guardian.user.full_name, initial_password: guardianPassword.password });
+        }
+      }
+      return credentials;
+    });
+
+    return result(errors, entries.length, valid.length, valid.map((student, index) => ({
+      username: student.nis,
+      full_name: student.full_name,
+      initial_password: passwords[index].password
+    })), guardianCredentials);
+  } catch (error) {
+    console.error('Student import failed:', error);
+    throw error;
+  }
+}
+
+// Optionally limited to some classes, for staff who only serve the classes they are assigned to
+export async function getAllStudents(classIds: number[] | null = null): Promise<(StudentProfile & { user: User; class: { name: string } })[]> {
+  try {
+    if (classIds !== null && classIds.length === 0) {
+      return [];
+    }
+
+    const results = await db.select({ student_profiles: studentProfilesTable, users: userColumns, classes: classesTable })
       .from(studentProfilesTable)
       .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
       .innerJoin(classesTable, eq(studentProfilesTable.class_id, classesTable.id))
+      .where(classIds === null ? undefined : inArray(studentProfilesTable.class_id, classIds))
       .execute();
 
     return results.map(result => ({
       ...result.student_profiles,
-      current_balance: parseFloat(result.student_profiles.current_balance), // Convert numeric field
+      current_balance: toMoneyNumber(result.student_profiles.current_balance), // Convert numeric field
       user: result.users,
       class: {
         name: result.classes.name
@@ -76,7 +341,7 @@ export async function getAllStudents(): Promise<(StudentProfile & { user: User;
 
 export async function getStudentById(id: number): Promise<(StudentProfile & { user: User; class: { name: string } }) | null> {
   try {
-    const results = await db.select()
+    const results = await db.select({ student_profiles: studentProfilesTable, users: userColumns, classes: classesTable })
       .from(studentProfilesTable)
       .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
       .innerJoin(classesTable, eq(studentProfilesTable.class_id, classesTable.id))
@@ -90,7 +355,7 @@ export async function getStudentById(id: number): Promise<(StudentProfile & { us
     const result = results[0];
     return {
       ...result.student_profiles,
-      current_balance: parseFloat(result.student_profiles.current_balance), // Convert numeric field
+      current_balance: toMoneyNumber(result.student_profiles.current_balance), // Convert numeric field
       user: result.users,
       class: {
         name: result.classes.name
@@ -102,9 +367,37 @@ export async function getStudentById(id: number): Promise<(StudentProfile & { us
   }
 }
 
+export async function getStudentByUserId(userId: number): Promise<(StudentProfile & { user: User; class: { name: string } }) | null> {
+  try {
+    const results = await db.select({ student_profiles: studentProfilesTable, users: userColumns, classes: classesTable })
+      .from(studentProfilesTable)
+      .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+      .innerJoin(classesTable, eq(studentProfilesTable.class_id, classesTable.id))
+      .where(eq(studentProfilesTable.user_id, userId))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const result = results[0];
+    return {
+      ...result.student_profiles,
+      current_balance: toMoneyNumber(result.student_profiles.current_balance), // Convert numeric field
+      user: result.users,
+      class: {
+        name: result.classes.name
+      }
+    };
+  } catch (error) {
+    console.error('Get student by user ID failed:', error);
+    throw error;
+  }
+}
+
 export async function getStudentsByClass(classId: number): Promise<(StudentProfile & { user: User })[]> {
   try {
-    const results = await db.select()
+    const results = await db.select({ student_profiles: studentProfilesTable, users: userColumns })
       .from(studentProfilesTable)
       .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
       .where(eq(studentProfilesTable.class_id, classId))
@@ -112,7 +405,7 @@ export async function getStudentsByClass(classId: number): Promise<(StudentProfi
 
     return results.map(result => ({
       ...result.student_profiles,
-      current_balance: parseFloat(result.student_profiles.current_balance), // Convert numeric field
+      current_balance: toMoneyNumber(result.student_profiles.current_balance), // Convert numeric field
       user: result.users
     }));
   } catch (error) {
@@ -121,18 +414,164 @@ export async function getStudentsByClass(classId: number): Promise<(StudentProfi
   }
 }
 
-export async function updateStudentBalance(studentId: number, newBalance: number): Promise<{ success: boolean }> {
+// As on import, the NIS may not be in use by another profile or as anyone else's username
+async function assertNisAvailable(tx: DbTransaction, nis: string, studentId: number, userId: number): Promise<void> {
+  const profiles = await tx.select({ id: studentProfilesTable.id })
+    .from(studentProfilesTable)
+    .where(and(eq(studentProfilesTable.nis, nis), ne(studentProfilesTable.id, studentId)))
+    .execute();
+  const users = await tx.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(and(eq(usersTable.username, nis), ne(usersTable.id, userId)))
+    .execute();
+
+  if (profiles.length > 0 || users.length > 0) {
+    throw new Error(`NIS ${nis} is already registered`);
+  }
+}
+
+// Balances are not editable here; they only move through the ledger
+export async function updateStudent(changedBy: number, input: UpdateStudentInput): Promise<StudentProfile & { user: User; class: { name: string } }> {
+  try {
+    await auditedTransaction(async (tx) => {
+      const profile = await lockStudent(tx, input.id);
+      if (profile.status === 'CLOSED') {
+        throw new Error('Account is closed');
+      }
+
+      const users = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, profile.user_id))
+        .for('update')
+        .execute();
+      const user = users[0];
+
+      const nisChanged = input.nis !== undefined && input.nis !== profile.nis;
+      if (nisChanged) {
+        await assertNisAvailable(tx, input.nis!, profile.id, user.id);
+      }
+
+      const classChanged = input.class_id !== undefined && input.class_id !== profile.class_id;
+      if (classChanged) {
+        const classes = await tx.select({ id: classesTable.id })
+          .from(classesTable)
+          .where(eq(classesTable.id, input.class_id!))
+          .execute();
+        if (classes.length === 0) {
+          throw new Error('Class not found');
+        }
+      }
+
+      // Blank optional fields are cleared, as on creation
+      const profileData: Partial<typeof studentProfilesTable.$inferInsert> = {};
+      if (nisChanged) profileData.nis = input.nis;
+      if (classChanged) profileData.class_id = input.class_id;
+      if (input.parent_name !== undefined) profileData.parent_name = input.parent_name || null;
+      if (input.parent_phone !== undefined) profileData.parent_phone = input.parent_phone || null;
+      if (input.address !== undefined) profileData.address = input.address || null;
+      if (input.notify_parent !== undefined) profileData.notify_parent = input.notify_parent;
+
+      const userData: Partial<typeof usersTable.$inferInsert> = {};
+      if (nisChanged) userData.username = input.nis;
+      if (input.full_name !== undefined) userData.full_name = input.full_name;
+      if (input.email !== undefined) userData.email = input.email || null;
+      if (input.phone !== undefined) userData.phone = input.phone || null;
+      if (input.is_active !== undefined) userData.is_active = input.is_active;
+
+      const updatedProfile = Object.keys(profileData).length > 0
+        ? (await tx.update(studentProfilesTable)
+          .set(profileData)
+          .where(eq(studentProfilesTable.id, profile.id))
+          .returning()
+          .execute())[0]
+        : profile;
+
+      const updatedUser = Object.keys(userData).length > 0
+        ? (await tx.update(usersTable)
+          .set({ ...userData, updated_at: new Date() })
+          .where(eq(usersTable.id, user.id))
+          .returning()
+          .execute())[0]
+        : user;
+
+      // A student who can no longer sign in is signed out everywhere at once
+      if (user.is_active && !updatedUser.is_active) {
+        await deleteUserSessions(tx, user.id);
+      }
+
+      if (classChanged) {
+        await tx.insert(classPromotionsTable)
+          .values({
+            student_id: profile.id,
+            kind: 'TRANSFER',
+            from_class_id: profile.class_id,
+            to_class_id: input.class_id!,
+            reason: input.class_change_reason || null,
+            promoted_by: changedBy
+          })
+          .execute();
+      }
+
+      await recordAuditEvent(tx, {
+        action: 'student.update',
+        target_type: 'student',
+        target_id: profile.id,
+        before: { user, profile },
+        after: { user: updatedUser, profile: updatedProfile, class_change_reason: input.class_change_reason ?? null }
+      });
+
+      // Withdrawal alerts go to this number, so a change to it stands out in the log on its own
+      if (updatedProfile.parent_phone !== profile.parent_phone) {
+        await recordAuditEvent(tx, {
+          action: 'student.parent_phone_change',
+          target_type: 'student',
+          target_id: profile.id,
+          before: { parent_phone: profile.parent_phone },
+          after: { parent_phone: updatedProfile.parent_phone }
+        });
+      }
+    });
+
+    return (await getStudentById(input.id))!;
+  } catch (error) {
+    console.error('Student update failed:', error);
+    throw error;
+  }
+}
+
+const fromClassTable = alias(classesTable, 'from_class');
+const toClassTable = alias(classesTable, 'to_class');
+
+// Every class a student has left, newest first: year rollovers and transfers alike
+export async function getStudentClassHistory(studentId: number): Promise<ClassChange[]> {
   try {
-    await db.update(studentProfilesTable)
-      .set({
-        current_balance: newBalance.toString() // Convert number to string for numeric column
-      })
-      .where(eq(studentProfilesTable.id, studentId))
+    const results = await db.select({
+      change: classPromotionsTable,
+      from_class: fromClassTable,
+      to_class: toClassTable,
+      changed_by_name: usersTable.full_name
+    })
+      .from(classPromotionsTable)
+      .innerJoin(fromClassTable, eq(classPromotionsTable.from_class_id, fromClassTable.id))
+      .leftJoin(toClassTable, eq(classPromotionsTable.to_class_id, toClassTable.id))
+      .innerJoin(usersTable, eq(classPromotionsTable.promoted_by, usersTable.id))
+      .where(eq(classPromotionsTable.student_id, studentId))
+      .orderBy(desc(classPromotionsTable.promoted_at), desc(classPromotionsTable.id))
       .execute();
 
-    return { success: true };
+    const summary = (cls: typeof classesTable.$inferSelect) => ({ id: cls.id, name: cls.name, academic_year: cls.academic_year });
+
+    return results.map(result => ({
+      id: result.change.id,
+      kind: result.change.kind,
+      from_class: summary(result.from_class),
+      to_class: result.to_class ? summary(result.to_class) : null,
+      reason: result.change.reason,
+      changed_by_name: result.changed_by_name,
+      changed_at: result.change.promoted_at
+    }));
   } catch (error) {
-    console.error('Update student balance failed:', error);
+    console.error('Get student class history failed:', error);
     throw error;
   }
 }
@@ -5,77 +5,426 @@ import {
   studentProfilesTable, 
   staffProfilesTable, 
   usersTable, 
-  classesTable 
+  classesTable,
+  reversalRequestsTable,
+  classPromotionsTable
 } from '../db/schema';
 import { 
   type CreateTransactionInput, 
   type Transaction, 
-  type ReportFilters 
+  type TransactionType,
+  type ReportFilters,
+  type ReverseTransactionInput,
+  type ReviewReversalInput,
+  type ReversalRequest
 } from '../schema';
-import { eq, and, gte, lte, desc, sql, inArray } from 'drizzle-orm';
+import { eq, and, gte, lte, asc, desc, sql, inArray, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { parseMoney, formatMoney, toMoneyNumber } from '../helpers/money';
+import { auditedTransaction, recordAuditEvent } from './audit';
+import { enqueueTransactionNotification } from './notifications';
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type LedgerEntry = {
+  student_id: number;
+  staff_id: number;
+  type: TransactionType;
+  amount: number;
+  description: string | null;
+  reverses_transaction_id?: number | null;
+  idempotency_key?: string | null;
+};
+
+const toTransaction = (transaction: typeof transactionsTable.$inferSelect): Transaction => ({
+  ...transaction,
+  amount: toMoneyNumber(transaction.amount),
+  balance_before: toMoneyNumber(transaction.balance_before),
+  balance_after: toMoneyNumber(transaction.balance_after)
+});
+
+// Reads the student row with FOR UPDATE so concurrent postings for the same
+// student queue up behind each other instead of overwriting the balance
+export async function lockStudent(tx: DbTransaction, studentId: number): Promise<typeof studentProfilesTable.$inferSelect> {
+  const student = await tx.select()
+    .from(studentProfilesTable)
+    .where(eq(studentProfilesTable.id, studentId))
+    .for('update')
+    .execute();
+
+  if (student.length === 0) {
+    throw new Error('Student not found');
+  }
+
+  return student[0];
+}
+
+// Applies an entry to the student's balance and appends it to the ledger.
+// Must run inside a database transaction so both writes commit together.
+export async function postLedgerEntry(tx: DbTransaction, entry: LedgerEntry): Promise<Transaction> {
+  // Get current student balance
+  const student = await lockStudent(tx, entry.student_id);
+  if (student.status === 'CLOSED') {
+    throw new Error('Account is closed');
+  }
+
+  // Work in minor units so balances never pick up float rounding
+  const currentBalance = parseMoney(student.current_balance);
+  const transactionAmount = parseMoney(entry.amount);
+  
+  let newBalance: bigint;
+  if (entry.type === 'DEPOSIT') {
+    newBalance = currentBalance + transactionAmount;
+  } else {
+    newBalance = currentBalance - transactionAmount;
+    // Check for negative balance
+    if (newBalance < 0n) {
+      throw new Error('Insufficient balance');
+    }
+  }
+
+  // Update student balance
+  await tx.update(studentProfilesTable)
+    .set({ current_balance: formatMoney(newBalance) })
+    .where(eq(studentProfilesTable.id, entry.student_id))
+    .execute();
+
+  // Create transaction record
+  const result = await tx.insert(transactionsTable)
+    .values({
+      student_id: entry.student_id,
+      staff_id: entry.staff_id,
+      type: entry.type,
+      amount: formatMoney(transactionAmount),
+      balance_before: formatMoney(currentBalance),
+      balance_after: formatMoney(newBalance),
+      description: entry.description,
+      reverses_transaction_id: entry.reverses_transaction_id ?? null,
+      idempotency_key: entry.idempotency_key ?? null
+    })
+    .returning()
+    .execute();
+
+  // Every posting is logged here, whichever handler it came from
+  await recordAuditEvent(tx, { action: 'transaction.create', target_type: 'transaction', target_id: result[0].id, after: result[0] });
+
+  return toTransaction(result[0]);
+}
+
+const isUniqueViolation = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+
+// Returns the entry already recorded under an idempotency key, if any. A key
+// replayed with a different student, type or amount is a client bug, not a retry.
+async function findIdempotentTransaction(executor: DbTransaction | typeof db, staffId: number, input: CreateTransactionInput): Promise<Transaction | null> {
+  if (!input.idempotency_key) {
+    return null;
+  }
+
+  const existing = await executor.select()
+    .from(transactionsTable)
+    .where(eq(transactionsTable.idempotency_key, input.idempotency_key))
+    .execute();
+
+  if (existing.length === 0) {
+    return null;
+  }
+
+  const transaction = toTransaction(existing[0]);
+  if (
+    transaction.student_id !== input.student_id ||
+    transaction.staff_id !== staffId ||
+    transaction.type !== input.type ||
+    parseMoney(transaction.amount) !== parseMoney(input.amount)
+  ) {
+    throw new Error('Idempotency key was already used for a different transaction');
+  }
+
+  return transaction;
+}
 
 export async function createTransaction(staffId: number, input: CreateTransactionInput): Promise<Transaction> {
   try {
-    return await db.transaction(async (tx) => {
-      // Get current student balance
-      const student = await tx.select()
-        .from(studentProfilesTable)
-        .where(eq(studentProfilesTable.id, input.student_id))
+    return await auditedTransaction(async (tx) => {
+      // Take the row lock first so a concurrent retry sees the committed original
+      const student = await lockStudent(tx, input.student_id);
+
+      const existing = await findIdempotentTransaction(tx, staffId, input);
+      if (existing) {
+        return existing;
+      }
+
+      if (student.status === 'FROZEN') {
+        throw new Error('Account is frozen');
+      }
+
+      const transaction = await postLedgerEntry(tx, {
+        student_id: input.student_id,
+        staff_id: staffId,
+        type: input.type,
+        amount: input.amount,
+        description: input.description || null,
+        idempotency_key: input.idempotency_key ?? null
+      });
+
+      // Delivered to the parent by the notification worker once this commits
+      await enqueueTransactionNotification(tx, student, transaction);
+      return transaction;
+    });
+  } catch (error) {
+    // Lost the race on the idempotency key: hand back the winner's entry
+    if (input.idempotency_key && isUniqueViolation(error)) {
+      const existing = await findIdempotentTransaction(db, staffId, input);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    console.error('Transaction creation failed:', error);
+    throw error;
+  }
+}
+
+// Reversals above this amount (IDR, in minor units) wait for an administrator's approval
+export const getReversalApprovalThreshold = (): bigint => {
+  const configured = process.env['REVERSAL_APPROVAL_THRESHOLD']?.trim();
+  return parseMoney(configured || '100000');
+};
+
+// Writes the compensating entry for a request and marks it approved
+async function applyReversal(tx: DbTransaction, request: typeof reversalRequestsTable.$inferSelect, reviewerId: number | null): Promise<ReversalRequest> {
+  const originals = await tx.select()
+    .from(transactionsTable)
+    .where(eq(transactionsTable.id, request.transaction_id))
+    .execute();
+  const original = originals[0];
+  const student = await lockStudent(tx, original.student_id);
+
+  const reversal = await postLedgerEntry(tx, {
+    student_id: original.student_id,
+    staff_id: request.requested_by,
+    type: original.type === 'DEPOSIT' ? 'WITHDRAWAL' : 'DEPOSIT',
+    amount: toMoneyNumber(original.amount),
+    description: `Reversal of #${original.id}: ${request.reason}`,
+    reverses_transaction_id: original.id
+  });
+
+  const updated = await tx.update(reversalRequestsTable)
+    .set({
+      status: 'APPROVED',
+      reviewed_by: reviewerId,
+      reviewed_at: reviewerId === null ? null : new Date(),
+      reversal_transaction_id: reversal.id
+    })
+    .where(eq(reversalRequestsTable.id, request.id))
+    .returning()
+    .execute();
+
+  await recordAuditEvent(tx, { action: 'reversal.approve', target_type: 'reversal_request', target_id: request.id, before: request, after: updated[0] });
+  await enqueueTransactionNotification(tx, student, reversal, 'reversal');
+  return updated[0];
+}
+
+export async function reverseTransaction(staffId: number, input: ReverseTransactionInput): Promise<ReversalRequest> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const originals = await tx.select()
+        .from(transactionsTable)
+        .where(eq(transactionsTable.id, input.transaction_id))
         .execute();
 
-      if (student.length === 0) {
-        throw new Error('Student not found');
+      if (originals.length === 0) {
+        throw new Error('Transaction not found');
       }
 
-      const currentBalance = parseFloat(student[0].current_balance);
-      const transactionAmount = input.amount;
-      
-      let newBalance: number;
-      if (input.type === 'DEPOSIT') {
-        newBalance = currentBalance + transactionAmount;
-      } else {
-        newBalance = currentBalance - transactionAmount;
-        // Check for negative balance
-        if (newBalance < 0) {
-          throw new Error('Insufficient balance');
-        }
+      const original = originals[0];
+      if (original.reverses_transaction_id !== null) {
+        throw new Error('Cannot reverse a reversal entry');
       }
 
-      // Update student balance
-      await tx.update(studentProfilesTable)
-        .set({ current_balance: newBalance.toString() })
-        .where(eq(studentProfilesTable.id, input.student_id))
+      // Only one open or completed reversal per transaction
+      const existing = await tx.select()
+        .from(reversalRequestsTable)
+        .where(and(
+          eq(reversalRequestsTable.transaction_id, original.id),
+          inArray(reversalRequestsTable.status, ['PENDING', 'APPROVED'])
+        ))
         .execute();
 
-      // Create transaction record
-      const result = await tx.insert(transactionsTable)
+      if (existing.length > 0) {
+        throw new Error('Transaction has already been reversed or is awaiting approval');
+      }
+
+      const requestResult = await tx.insert(reversalRequestsTable)
         .values({
-          student_id: input.student_id,
-          staff_id: staffId,
-          type: input.type,
-          amount: transactionAmount.toString(),
-          balance_before: currentBalance.toString(),
-          balance_after: newBalance.toString(),
-          description: input.description || null
+          transaction_id: original.id,
+          requested_by: staffId,
+          reason: input.reason
         })
         .returning()
         .execute();
 
-      const transaction = result[0];
-      return {
-        ...transaction,
-        amount: parseFloat(transaction.amount),
-        balance_before: parseFloat(transaction.balance_before),
-        balance_after: parseFloat(transaction.balance_after)
-      };
+      const request = requestResult[0];
+      await recordAuditEvent(tx, { action: 'reversal.request', target_type: 'reversal_request', target_id: request.id, after: request });
+
+      if (parseMoney(original.amount) > getReversalApprovalThreshold()) {
+        return request;
+      }
+
+      return await applyReversal(tx, request, null);
     });
   } catch (error) {
-    console.error('Transaction creation failed:', error);
+    console.error('Transaction reversal failed:', error);
+    throw error;
+  }
+}
+
+export async function reviewReversalRequest(reviewerId: number, input: ReviewReversalInput): Promise<ReversalRequest> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const requests = await tx.select()
+        .from(reversalRequestsTable)
+        .where(eq(reversalRequestsTable.id, input.request_id))
+        .execute();
+
+      if (requests.length === 0) {
+        throw new Error('Reversal request not found');
+      }
+
+      const request = requests[0];
+      if (request.status !== 'PENDING') {
+        throw new Error('Reversal request has already been reviewed');
+      }
+
+      if (input.approve) {
+        return await applyReversal(tx, request, reviewerId);
+      }
+
+      const updated = await tx.update(reversalRequestsTable)
+        .set({
+          status: 'REJECTED',
+          reviewed_by: reviewerId,
+          reviewed_at: new Date()
+        })
+        .where(eq(reversalRequestsTable.id, request.id))
+        .returning()
+        .execute();
+
+      await recordAuditEvent(tx, { action: 'reversal.reject', target_type: 'reversal_request', target_id: request.id, before: request, after: updated[0] });
+      return updated[0];
+    });
+  } catch (error) {
+    console.error('Reversal review failed:', error);
+    throw error;
+  }
+}
+
+export async function getPendingReversalRequests(): Promise<(ReversalRequest & {
+  transaction: Transaction;
+  student: { user: { full_name: string }; nis: string };
+  staff: { user: { full_name: string } };
+})[]> {
+  try {
+    const results = await db.select()
+      .from(reversalRequestsTable)
+      .innerJoin(transactionsTable, eq(reversalRequestsTable.transaction_id, transactionsTable.id))
+      .innerJoin(studentProfilesTable, eq(transactionsTable.student_id, studentProfilesTable.id))
+      .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+      .where(eq(reversalRequestsTable.status, 'PENDING'))
+      .orderBy(reversalRequestsTable.created_at)
+      .execute();
+
+    if (results.length === 0) {
+      return [];
+    }
+
+    // Resolve the requesting staff names
+    const staffIds = [...new Set(results.map(r => r.reversal_requests.requested_by))];
+    const staffProfiles = await db.select()
+      .from(staffProfilesTable)
+      .innerJoin(usersTable, eq(staffProfilesTable.user_id, usersTable.id))
+      .where(inArray(staffProfilesTable.id, staffIds))
+      .execute();
+
+    const staffUserMap = new Map<number, string>();
+    staffProfiles.forEach(sp => {
+      staffUserMap.set(sp.staff_profiles.id, sp.users.full_name);
+    });
+
+    return results.map(result => ({
+      ...result.reversal_requests,
+      transaction: toTransaction(result.transactions),
+      student: {
+        user: {
+          full_name: result.users.full_name
+        },
+        nis: result.student_profiles.nis
+      },
+      staff: {
+        user: {
+          full_name: staffUserMap.get(result.reversal_requests.requested_by) || 'Unknown'
+        }
+      }
+    }));
+  } catch (error) {
+    console.error('Failed to get pending reversal requests:', error);
     throw error;
   }
 }
 
-export async function getTransactionsByStudent(studentId: number): Promise<(Transaction & { staff: { user: { full_name: string } } })[]> {
+type ReversalInfo = { id: number; description: string | null; transaction_date: Date };
+
+// Looks up the compensating entries for a set of original transactions
+async function getReversalsFor(transactionIds: number[]): Promise<Map<number, ReversalInfo>> {
+  const reversals = new Map<number, ReversalInfo>();
+  if (transactionIds.length === 0) {
+    return reversals;
+  }
+
+  const results = await db.select({
+    id: transactionsTable.id,
+    reverses_transaction_id: transactionsTable.reverses_transaction_id,
+    description: transactionsTable.description,
+    transaction_date: transactionsTable.transaction_date
+  })
+    .from(transactionsTable)
+    .where(inArray(transactionsTable.reverses_transaction_id, transactionIds))
+    .execute();
+
+  results.forEach(({ reverses_transaction_id, ...reversal }) => {
+    if (reverses_transaction_id !== null) {
+      reversals.set(reverses_transaction_id, reversal);
+    }
+  });
+
+  return reversals;
+}
+
+export async function getTransactionById(id: number): Promise<Transaction | null> {
+  try {
+    const results = await db.select()
+      .from(transactionsTable)
+      .where(eq(transactionsTable.id, id))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const transaction = results[0];
+    return {
+      ...transaction,
+      amount: toMoneyNumber(transaction.amount),
+      balance_before: toMoneyNumber(transaction.balance_before),
+      balance_after: toMoneyNumber(transaction.balance_after)
+    };
+  } catch (error) {
+    console.error('Get transaction by ID failed:', error);
+    throw error;
+  }
+}
+
+export async function getTransactionsByStudent(studentId: number): Promise<(Transaction & { staff: { user: { full_name: string } }; reversal: ReversalInfo | null })[]> {
   try {
     const results = await db.select()
       .from(transactionsTable)
@@ -85,16 +434,19 @@ export async function getTransactionsByStudent(studentId: number): Promise<(Tran
       .orderBy(desc(transactionsTable.created_at))
       .execute();
 
+    const reversals = await getReversalsFor(results.map(result => result.transactions.id));
+
     return results.map(result => ({
       ...result.transactions,
-      amount: parseFloat(result.transactions.amount),
-      balance_before: parseFloat(result.transactions.balance_before),
-      balance_after: parseFloat(result.transactions.balance_after),
+      amount: toMoneyNumber(result.transactions.amount),
+      balance_before: toMoneyNumber(result.transactions.balance_before),
+      balance_after: toMoneyNumber(result.transactions.balance_after),
       staff: {
         user: {
           full_name: result.users.full_name
         }
-      }
+      },
+      reversal: reversals.get(result.transactions.id) ?? null
     }));
   } catch (error) {
     console.error('Failed to get transactions by student:', error);
@@ -102,7 +454,7 @@ export async function getTransactionsByStudent(studentId: number): Promise<(Tran
   }
 }
 
-export async function getTransactionsByStaff(staffId: number, date?: Date): Promise<(Transaction & { student: { user: { full_name: string }; nis: string } })[]> {
+export async function getTransactionsByStaff(staffId: number, date?: Date): Promise<(Transaction & { student: { user: { full_name: string }; nis: string }; reversal: ReversalInfo | null })[]> {
   try {
     // Build base query
     let results;
@@ -135,17 +487,20 @@ export async function getTransactionsByStaff(staffId: number, date?: Date): Prom
         .execute();
     }
 
+    const reversals = await getReversalsFor(results.map(result => result.transactions.id));
+
     return results.map(result => ({
       ...result.transactions,
-      amount: parseFloat(result.transactions.amount),
-      balance_before: parseFloat(result.transactions.balance_before),
-      balance_after: parseFloat(result.transactions.balance_after),
+      amount: toMoneyNumber(result.transactions.amount),
+      balance_before: toMoneyNumber(result.transactions.balance_before),
+      balance_after: toMoneyNumber(result.transactions.balance_after),
       student: {
         user: {
           full_name: result.users.full_name
         },
         nis: result.student_profiles.nis
-      }
+      },
+      reversal: reversals.get(result.transactions.id) ?? null
     }));
   } catch (error) {
     console.error('Failed to get transactions by staff:', error);
@@ -153,113 +508,158 @@ export async function getTransactionsByStaff(staffId: number, date?: Date): Prom
   }
 }
 
-export async function getTransactionsReport(filters: ReportFilters): Promise<(Transaction & { 
-  student: { user: { full_name: string }; nis: string; class: { name: string } }; 
+export type TransactionReportRow = Transaction & { 
+  student: { user: { full_name: string }; nis: string; class: { id: number; name: string; academic_year: string } }; 
   staff: { user: { full_name: string } } 
-})[]> {
-  try {
-    // Simple approach: get all transactions that match basic filters first
-    let baseTransactions = await db.select()
-      .from(transactionsTable)
-      .innerJoin(studentProfilesTable, eq(transactionsTable.student_id, studentProfilesTable.id))
-      .innerJoin(classesTable, eq(studentProfilesTable.class_id, classesTable.id))
-      .orderBy(desc(transactionsTable.created_at))
-      .execute();
+};
 
-    // Apply filters in memory for simplicity
-    let filteredTransactions = baseTransactions;
+const staffUsersTable = alias(usersTable, 'staff_users');
 
-    if (filters.start_date) {
-      const startOfDay = new Date(filters.start_date);
-      startOfDay.setHours(0, 0, 0, 0);
-      filteredTransactions = filteredTransactions.filter(t => 
-        t.transactions.transaction_date >= startOfDay
-      );
-    }
+// The class a student was in when the transaction was made: the class of their first
+// promotion after that date, or their current class if they have not moved since
+export const transactionClassId = sql<number>`coalesce((
+  select ${classPromotionsTable.from_class_id} from ${classPromotionsTable}
+  where ${classPromotionsTable.student_id} = ${transactionsTable.student_id}
+    and ${classPromotionsTable.promoted_at} > ${transactionsTable.transaction_date}
+  order by ${classPromotionsTable.promoted_at} asc
+  limit 1
+), ${studentProfilesTable.class_id})`;
 
-    if (filters.end_date) {
-      const endOfDay = new Date(filters.end_date);
-      endOfDay.setHours(23, 59, 59, 999);
-      filteredTransactions = filteredTransactions.filter(t => 
-        t.transactions.transaction_date <= endOfDay
-      );
-    }
+// Translate report filters into SQL conditions; dates cover whole days. Staff limited to some
+// classes only see the students currently in them.
+export const reportConditions = (filters: ReportFilters, classIds: number[] | null): SQL[] => {
+  const conditions: SQL[] = [];
 
-    if (filters.student_id) {
-      filteredTransactions = filteredTransactions.filter(t => 
-        t.transactions.student_id === filters.student_id
-      );
-    }
+  if (classIds !== null) {
+    conditions.push(inArray(studentProfilesTable.class_id, classIds));
+  }
 
-    if (filters.class_id) {
-      filteredTransactions = filteredTransactions.filter(t => 
-        t.student_profiles.class_id === filters.class_id
-      );
-    }
+  if (filters.start_date) {
+    const startOfDay = new Date(filters.start_date);
+    startOfDay.setHours(0, 0, 0, 0);
+    conditions.push(gte(transactionsTable.transaction_date, startOfDay));
+  }
 
-    if (filters.transaction_type) {
-      filteredTransactions = filteredTransactions.filter(t => 
-        t.transactions.type === filters.transaction_type
-      );
-    }
+  if (filters.end_date) {
+    const endOfDay = new Date(filters.end_date);
+    endOfDay.setHours(23, 59, 59, 999);
+    conditions.push(lte(transactionsTable.transaction_date, endOfDay));
+  }
 
-    if (filteredTransactions.length === 0) {
-      return [];
-    }
+  if (filters.student_id) {
+    conditions.push(eq(transactionsTable.student_id, filters.student_id));
+  }
 
-    // Get student user data
-    const studentIds = [...new Set(filteredTransactions.map(t => t.student_profiles.user_id))];
-    const studentUsers = await db.select()
-      .from(usersTable)
-      .where(inArray(usersTable.id, studentIds))
-      .execute();
+  if (filters.class_id) {
+    conditions.push(eq(transactionClassId, filters.class_id));
+  }
 
-    // Get staff user data
-    const staffIds = [...new Set(filteredTransactions.map(t => t.transactions.staff_id))];
-    const staffProfiles = await db.select()
-      .from(staffProfilesTable)
-      .innerJoin(usersTable, eq(staffProfilesTable.user_id, usersTable.id))
-      .where(inArray(staffProfilesTable.id, staffIds))
-      .execute();
+  if (filters.transaction_type) {
+    conditions.push(eq(transactionsTable.type, filters.transaction_type));
+  }
 
-    // Create lookup maps
-    const studentUserMap = new Map();
-    studentUsers.forEach(user => {
-      studentUserMap.set(user.id, user.full_name);
-    });
+  return conditions;
+};
 
-    const staffUserMap = new Map();
-    staffProfiles.forEach(sp => {
-      staffUserMap.set(sp.staff_profiles.id, sp.users.full_name);
-    });
+const REPORT_SORT_COLUMNS = {
+  transaction_date: transactionsTable.transaction_date,
+  amount: transactionsTable.amount,
+  student_name: usersTable.full_name
+};
 
-    return filteredTransactions.map(result => ({
-      ...result.transactions,
-      amount: parseFloat(result.transactions.amount),
-      balance_before: parseFloat(result.transactions.balance_before),
-      balance_after: parseFloat(result.transactions.balance_after),
-      student: {
-        user: {
-          full_name: studentUserMap.get(result.student_profiles.user_id) || 'Unknown'
+export async function getTransactionsReport(filters: ReportFilters, classIds: number[] | null = null): Promise<{
+  transactions: TransactionReportRow[];
+  total_count: number;
+  deposit_count: number;
+  withdrawal_count: number;
+  deposit_amount: number;
+  withdrawal_amount: number;
+}> {
+  try {
+    const conditions = reportConditions(filters, classIds);
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Id breaks ties so pages stay stable when sort values repeat
+    const direction = filters.sort_order === 'asc' ? asc : desc;
+    const sortColumn = REPORT_SORT_COLUMNS[filters.sort_by ?? 'transaction_date'];
+
+    const pageQuery = db.select({
+      transaction: transactionsTable,
+      nis: studentProfilesTable.nis,
+      student_name: usersTable.full_name,
+      class: classesTable,
+      staff_name: staffUsersTable.full_name
+    })
+      .from(transactionsTable)
+      .innerJoin(studentProfilesTable, eq(transactionsTable.student_id, studentProfilesTable.id))
+      .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+      .innerJoin(classesTable, eq(classesTable.id, transactionClassId))
+      .innerJoin(staffProfilesTable, eq(transactionsTable.staff_id, staffProfilesTable.id))
+      .innerJoin(staffUsersTable, eq(staffProfilesTable.user_id, staffUsersTable.id))
+      .where(where)
+      .orderBy(direction(sortColumn), direction(transactionsTable.id))
+      .$dynamic();
+
+    if (filters.limit !== undefined) {
+      pageQuery.limit(filters.limit);
+    }
+    if (filters.offset !== undefined) {
+      pageQuery.offset(filters.offset);
+    }
+
+    const [results, totalsResult] = await Promise.all([
+      pageQuery.execute(),
+      db.select({
+        total_count: sql<number>`count(*)::int`,
+        deposit_count: sql<number>`count(*) filter (where ${transactionsTable.type} = 'DEPOSIT')::int`,
+        withdrawal_count: sql<number>`count(*) filter (where ${transactionsTable.type} = 'WITHDRAWAL')::int`,
+        deposit_amount: sql<string>`coalesce(sum(${transactionsTable.amount}) filter (where ${transactionsTable.type} = 'DEPOSIT'), 0)`,
+        withdrawal_amount: sql<string>`coalesce(sum(${transactionsTable.amount}) filter (where ${transactionsTable.type} = 'WITHDRAWAL'), 0)`
+      })
+        .from(transactionsTable)
+        .innerJoin(studentProfilesTable, eq(transactionsTable.student_id, studentProfilesTable.id))
+        .where(where)
+        .execute()
+    ]);
+
+    const totals = totalsResult[0];
+
+    return {
+      transactions: results.map(result => ({
+        ...result.transaction,
+        amount: toMoneyNumber(result.transaction.amount),
+        balance_before: toMoneyNumber(result.transaction.balance_before),
+        balance_after: toMoneyNumber(result.transaction.balance_after),
+        student: {
+          user: {
+            full_name: result.student_name
+          },
+          nis: result.nis,
+          class: {
+            id: result.class.id,
+            name: result.class.name,
+            academic_year: result.class.academic_year
+          }
         },
-        nis: result.student_profiles.nis,
-        class: {
-          name: result.classes.name
+        staff: {
+          user: {
+            full_name: result.staff_name
+          }
         }
-      },
-      staff: {
-        user: {
-          full_name: staffUserMap.get(result.transactions.staff_id) || 'Unknown'
-        }
-      }
-    }));
+      })),
+      total_count: totals.total_count,
+      deposit_count: totals.deposit_count,
+      withdrawal_count: totals.withdrawal_count,
+      deposit_amount: toMoneyNumber(totals.deposit_amount),
+      withdrawal_amount: toMoneyNumber(totals.withdrawal_amount)
+    };
   } catch (error) {
     console.error('Failed to get transactions report:', error);
     throw error;
   }
 }
 
-export async function getDailyTransactionSummary(date: Date): Promise<{
+export async function getDailyTransactionSummary(date: Date, classIds: number[] | null = null): Promise<{
   total_transactions: number;
   total_deposits: number;
   total_withdrawals: number;
@@ -279,9 +679,11 @@ export async function getDailyTransactionSummary(date: Date): Promise<{
       count: sql<number>`count(*)::int`
     })
     .from(transactionsTable)
+    .innerJoin(studentProfilesTable, eq(transactionsTable.student_id, studentProfilesTable.id))
     .where(and(
       gte(transactionsTable.transaction_date, startOfDay),
-      lte(transactionsTable.transaction_date, endOfDay)
+      lte(transactionsTable.transaction_date, endOfDay),
+      classIds === null ? undefined : inArray(studentProfilesTable.class_id, classIds)
     ))
     .groupBy(transactionsTable.type)
     .execute();
@@ -289,12 +691,12 @@ export async function getDailyTransactionSummary(date: Date): Promise<{
     let total_transactions = 0;
     let total_deposits = 0;
     let total_withdrawals = 0;
-    let deposit_amount = 0;
-    let withdrawal_amount = 0;
+    let deposit_amount = 0n;
+    let withdrawal_amount = 0n;
 
     for (const result of results) {
       const count = result.count;
-      const totalAmount = parseFloat(result.total_amount);
+      const totalAmount = parseMoney(result.total_amount);
       
       total_transactions += count;
       
@@ -311,8 +713,8 @@ export async function getDailyTransactionSummary(date: Date): Promise<{
       total_transactions,
       total_deposits,
       total_withdrawals,
-      deposit_amount,
-      withdrawal_amount
+      deposit_amount: toMoneyNumber(deposit_amount),
+      withdrawal_amount: toMoneyNumber(withdrawal_amount)
     };
   } catch (error) {
     console.error('Failed to get daily transaction summary:', error);
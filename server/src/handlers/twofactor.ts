@@ -0,0 +1,392 @@
+import { db } from '../db';
+import {
+  usersTable,
+  userColumns,
+  sessionsTable,
+  twoFactorCredentialsTable,
+  twoFactorRecoveryCodesTable,
+  twoFactorRequirementsTable
+} from '../db/schema';
+import {
+  type User,
+  type UserRole,
+  type TwoFactorStatus,
+  type TwoFactorEnrolment,
+  type TwoFactorCodeInput,
+  type RecoveryCodes,
+  type DisableTwoFactorInput,
+  type TwoFactorRole,
+  type SetTwoFactorRequirementInput
+} from '../schema';
+import { and, asc, count, eq, gt, isNotNull, isNull } from 'drizzle-orm';
+import QRCode from 'qrcode';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  otpauthUri,
+  generateRecoveryCode,
+  hashRecoveryCode
+} from '../helpers/totp';
+import { type DbTransaction } from './transactions';
+import {
+  sessionExpiry,
+  assertLoginAllowed,
+  recordFailedLogin,
+  clearFailedLogins,
+  deleteUserSessions
+} from './auth';
+import { auditedTransaction, recordAuditEvent } from './audit';
+
+const TWO_FACTOR_ISSUER = 'Tabungan Siswa';
+const RECOVERY_CODE_COUNT = 10;
+// Wrong codes allowed per sign-in before the password has to be entered again
+const MAX_CODE_ATTEMPTS = 5;
+
+const canUseTwoFactor = (role: UserRole): role is TwoFactorRole => role === 'ADMINISTRATOR' || role === 'STAFF';
+
+async function findUser(userId: number): Promise<typeof usersTable.$inferSelect> {
+  const users = await db.select().from(usersTable).where(eq(usersTable.id, userId)).execute();
+  if (users.length === 0) {
+    throw new Error('User not found');
+  }
+  return users[0];
+}
+
+export async function isTwoFactorRequired(role: UserRole): Promise<boolean> {
+  if (!canUseTwoFactor(role)) {
+    return false;
+  }
+
+  const requirements = await db.select()
+    .from(twoFactorRequirementsTable)
+    .where(eq(twoFactorRequirementsTable.role, role))
+    .execute();
+  return requirements.length > 0;
+}
+
+// True while the user's role demands two-factor authentication and they have not set it up yet
+export async function isTwoFactorSetupPending(user: User): Promise<boolean> {
+  return !user.two_factor_enabled && await isTwoFactorRequired(user.role);
+}
+
+export async function getTwoFactorStatus(userId: number): Promise<TwoFactorStatus> {
+  try {
+    const user = await findUser(userId);
+
+    const remaining = await db.select({ count: count() })
+      .from(twoFactorRecoveryCodesTable)
+      .where(and(
+        eq(twoFactorRecoveryCodesTable.user_id, userId),
+        isNull(twoFactorRecoveryCodesTable.used_at)
+      ))
+      .execute();
+
+    return {
+      enabled: user.two_factor_enabled,
+      required: await isTwoFactorRequired(user.role),
+      recovery_codes_remaining: user.two_factor_enabled ? remaining[0].count : 0
+    };
+  } catch (error) {
+    console.error('Get two-factor status failed:', error);
+    throw error;
+  }
+}
+
+// Starts over with a fresh secret each time; nothing changes for the login until it is confirmed
+export async function beginTwoFactorEnrolment(userId: number): Promise<TwoFactorEnrolment> {
+  try {
+    const user = await findUser(userId);
+    if (!canUseTwoFactor(user.role)) {
+      throw new Error('Two-factor authentication is only available to staff and administrators');
+    }
+    if (user.two_factor_enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await db.insert(twoFactorCredentialsTable)
+      .values({ user_id: userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentialsTable.user_id,
+        set: { secret, last_used_step: null, enabled_at: null, created_at: new Date() }
+      })
+      .execute();
+
+    const uri = otpauthUri(secret, user.username, TWO_FACTOR_ISSUER);
+    return {
+      secret,
+      otpauth_uri: uri,
+      qr_code_data_url: await QRCode.toDataURL(uri, { margin: 1, width: 240 })
+    };
+  } catch (error) {
+    console.error('Two-factor enrolment failed:', error);
+    throw error;
+  }
+}
+
+// Replaces any earlier recovery codes; the plain codes are only ever returned from here
+async function issueRecoveryCodes(tx: DbTransaction, userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await tx.delete(twoFactorRecoveryCodesTable)
+    .where(eq(twoFactorRecoveryCodesTable.user_id, userId))
+    .execute();
+  await tx.insert(twoFactorRecoveryCodesTable)
+    .values(codes.map(code => ({ user_id: userId, code_hash: hashRecoveryCode(code) })))
+    .execute();
+
+  return codes;
+}
+
+export async function confirmTwoFactorEnrolment(userId: number, input: TwoFactorCodeInput): Promise<RecoveryCodes> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const credentials = await tx.select()
+        .from(twoFactorCredentialsTable)
+        .where(and(
+          eq(twoFactorCredentialsTable.user_id, userId),
+          isNull(twoFactorCredentialsTable.enabled_at)
+        ))
+        .for('update')
+        .execute();
+
+      if (credentials.length === 0) {
+        throw new Error('Start the two-factor setup first');
+      }
+
+      const step = verifyTotp(credentials[0].secret, input.code);
+      if (step === null) {
+        throw new Error('Invalid authentication code');
+      }
+
+      await tx.update(twoFactorCredentialsTable)
+        .set({ enabled_at: new Date(), last_used_step: step })
+        .where(eq(twoFactorCredentialsTable.id, credentials[0].id))
+        .execute();
+      await tx.update(usersTable)
+        .set({ two_factor_enabled: true, updated_at: new Date() })
+        .where(eq(usersTable.id, userId))
+        .execute();
+      await recordAuditEvent(tx, { action: 'two_factor.enable', target_type: 'user', target_id: userId });
+
+      return { recovery_codes: await issueRecoveryCodes(tx, userId) };
+    });
+  } catch (error) {
+    console.error('Two-factor confirmation failed:', error);
+    throw error;
+  }
+}
+
+// Accepts an app code (each one only once) or an unused recovery code
+async function consumeTwoFactorCode(tx: DbTransaction, userId: number, code: string, allowRecoveryCode: boolean): Promise<boolean> {
+  const credentials = await tx.select()
+    .from(twoFactorCredentialsTable)
+    .where(and(
+      eq(twoFactorCredentialsTable.user_id, userId),
+      isNotNull(twoFactorCredentialsTable.enabled_at)
+    ))
+    .for('update')
+    .execute();
+
+  if (credentials.length === 0) {
+    return false;
+  }
+
+  const credential = credentials[0];
+  const step = verifyTotp(credential.secret, code);
+  if (step !== null && (credential.last_used_step === null || step > credential.last_used_step)) {
+    await tx.update(twoFactorCredentialsTable)
+      .set({ last_used_step: step })
+      .where(eq(twoFactorCredentialsTable.id, credential.id))
+      .execute();
+    return true;
+  }
+
+  if (!allowRecoveryCode) {
+    return false;
+  }
+
+  const used = await tx.update(twoFactorRecoveryCodesTable)
+    .set({ used_at: new Date() })
+    .where(and(
+      eq(twoFactorRecoveryCodesTable.user_id, userId),
+      eq(twoFactorRecoveryCodesTable.code_hash, hashRecoveryCode(code)),
+      isNull(twoFactorRecoveryCodesTable.used_at)
+    ))
+    .returning()
+    .execute();
+  return used.length > 0;
+}
+
+// Second login step: turns the pending session from the password step into a real one
+export async function verifyTwoFactorLogin(sessionId: string, input: TwoFactorCodeInput, clientIp: string | null = null): Promise<User> {
+  try {
+    const now = new Date();
+    const pending = await db.select({ session: sessionsTable, user: userColumns })
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.two_factor_pending, true),
+        gt(sessionsTable.expires_at, now)
+      ))
+      .execute();
+
+    if (pending.length === 0 || !pending[0].user.is_active) {
+      throw new Error('Sign-in has expired. Please log in again.');
+    }
+
+    const { session, user } = pending[0];
+    await assertLoginAllowed(user.username, clientIp);
+
+    const verified = await auditedTransaction(async (tx) => {
+      if (await consumeTwoFactorCode(tx, user.id, input.code, true)) {
+        await tx.update(sessionsTable)
+          .set({
+            two_factor_pending: false,
+            two_factor_attempts: 0,
+            last_seen_at: now,
+            expires_at: sessionExpiry(now, now),
+            created_at: now // The lifetime counts from the completed sign-in
+          })
+          .where(eq(sessionsTable.id, sessionId))
+          .execute();
+        await recordAuditEvent(tx, {
+          action: 'auth.login',
+          target_type: 'user',
+          target_id: user.id,
+          actor_user_id: user.id,
+          after: { two_factor: true }
+        });
+        return true;
+      }
+
+      // Too many wrong codes and the password has to be entered again
+      if (session.two_factor_attempts + 1 >= MAX_CODE_ATTEMPTS) {
+        await tx.delete(sessionsTable).where(eq(sessionsTable.id, sessionId)).execute();
+      } else {
+        await tx.update(sessionsTable)
+          .set({ two_factor_attempts: session.two_factor_attempts + 1 })
+          .where(eq(sessionsTable.id, sessionId))
+          .execute();
+      }
+      return false;
+    });
+
+    if (!verified) {
+      await recordFailedLogin(user.username, clientIp);
+      throw new Error('Invalid authentication code');
+    }
+
+    await clearFailedLogins(user.username);
+    return user;
+  } catch (error) {
+    console.error('Two-factor verification failed:', error);
+    throw error;
+  }
+}
+
+// Needs a code from the app, so a stolen session alone can't print a fresh set
+export async function regenerateRecoveryCodes(userId: number, input: TwoFactorCodeInput): Promise<RecoveryCodes> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      if (!await consumeTwoFactorCode(tx, userId, input.code, false)) {
+        throw new Error('Invalid authentication code');
+      }
+      await recordAuditEvent(tx, { action: 'two_factor.recovery_codes_regenerate', target_type: 'user', target_id: userId });
+      return { recovery_codes: await issueRecoveryCodes(tx, userId) };
+    });
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+async function removeTwoFactor(tx: DbTransaction, userId: number): Promise<void> {
+  await tx.delete(twoFactorRecoveryCodesTable)
+    .where(eq(twoFactorRecoveryCodesTable.user_id, userId))
+    .execute();
+  await tx.delete(twoFactorCredentialsTable)
+    .where(eq(twoFactorCredentialsTable.user_id, userId))
+    .execute();
+  await tx.update(usersTable)
+    .set({ two_factor_enabled: false, updated_at: new Date() })
+    .where(eq(usersTable.id, userId))
+    .execute();
+}
+
+// Turning it off takes the password, and isn't possible while the role requires it
+export async function disableTwoFactor(userId: number, input: DisableTwoFactorInput): Promise<{ success: boolean }> {
+  try {
+    const user = await findUser(userId);
+    if (!await Bun.password.verify(input.password, user.password_hash)) {
+      throw new Error('Password is incorrect');
+    }
+    if (await isTwoFactorRequired(user.role)) {
+      throw new Error('Two-factor authentication is required for your role');
+    }
+
+    await auditedTransaction(async (tx) => {
+      await removeTwoFactor(tx, userId);
+      await recordAuditEvent(tx, { action: 'two_factor.disable', target_type: 'user', target_id: userId });
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Two-factor disable failed:', error);
+    throw error;
+  }
+}
+
+// For a lost phone: the user signs in with the password alone and enrols again
+export async function resetTwoFactor(userId: number): Promise<{ success: boolean }> {
+  try {
+    await findUser(userId);
+
+    await auditedTransaction(async (tx) => {
+      await removeTwoFactor(tx, userId);
+      await deleteUserSessions(tx, userId);
+      await recordAuditEvent(tx, { action: 'two_factor.reset', target_type: 'user', target_id: userId });
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Two-factor reset failed:', error);
+    throw error;
+  }
+}
+
+export async function getTwoFactorRequirements(): Promise<TwoFactorRole[]> {
+  try {
+    const requirements = await db.select({ role: twoFactorRequirementsTable.role })
+      .from(twoFactorRequirementsTable)
+      .orderBy(asc(twoFactorRequirementsTable.role))
+      .execute();
+    return requirements.map(requirement => requirement.role).filter(canUseTwoFactor);
+  } catch (error) {
+    console.error('Get two-factor requirements failed:', error);
+    throw error;
+  }
+}
+
+// Members of a newly covered role are asked to enrol on their next request
+export async function setTwoFactorRequirement(adminUserId: number, input: SetTwoFactorRequirementInput): Promise<TwoFactorRole[]> {
+  try {
+    await auditedTransaction(async (tx) => {
+      if (input.required) {
+        await tx.insert(twoFactorRequirementsTable)
+          .values({ role: input.role, required_by: adminUserId })
+          .onConflictDoNothing()
+          .execute();
+      } else {
+        await tx.delete(twoFactorRequirementsTable)
+          .where(eq(twoFactorRequirementsTable.role, input.role))
+          .execute();
+      }
+      await recordAuditEvent(tx, { action: 'two_factor.requirement_set', target_type: 'role', after: input });
+    });
+
+    return await getTwoFactorRequirements();
+  } catch (error) {
+    console.error('Set two-factor requirement failed:', error);
+    throw error;
+  }
+}
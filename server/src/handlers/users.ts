@@ -1,50 +1,57 @@
 
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type CreateUserInput, type User, type UpdatePasswordInput, type ResetPasswordInput } from '../schema';
-import { eq, SQL } from 'drizzle-orm';
-
-// Simple password hashing using Bun's built-in crypto
-const hashPassword = async (password: string): Promise<string> => {
-  return await Bun.password.hash(password);
-};
+import { usersTable, userColumns, studentProfilesTable, staffProfilesTable } from '../db/schema';
+import {
+  type CreateUserInput,
+  type UpdateUserInput,
+  type UpdateContactDetailsInput,
+  type User,
+  type UpdatePasswordInput,
+  type ResetPasswordInput,
+  type Credential,
+  type IssueCredentialsInput,
+  type IssueCredentialsResult
+} from '../schema';
+import { and, asc, eq, ne, SQL } from 'drizzle-orm';
+import { generateInitialPassword, hashPassword, issuePasswords } from '../helpers/passwords';
+import { deleteUserSessions } from './auth';
+import { auditedTransaction, recordAuditEvent } from './audit';
 
 const verifyPassword = async (password: string, hash: string): Promise<boolean> => {
   return await Bun.password.verify(password, hash);
 };
 
-// Generate a simple random password
-const generatePassword = (): string => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let password = '';
-  for (let i = 0; i < 8; i++) {
-    password += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return password;
-};
-
-export async function createUser(input: CreateUserInput): Promise<User> {
+// A generated password is revealed in the response once; one typed by the admin is not echoed back
+export async function createUser(input: CreateUserInput): Promise<User & { credential: Credential | null }> {
   try {
     // Generate password if not provided
-    const password = input.password || generatePassword();
+    const password = input.password || generateInitialPassword();
     const passwordHash = await hashPassword(password);
 
     // Insert user record
-    const result = await db.insert(usersTable)
-      .values({
-        username: input.username,
-        password_hash: passwordHash,
-        role: input.role,
-        full_name: input.full_name,
-        email: input.email || null,
-        phone: input.phone || null,
-        is_active: true,
-        must_change_password: input.password ? false : true // Auto-generated passwords require change
-      })
-      .returning()
-      .execute();
+    const user = await auditedTransaction(async (tx) => {
+      const result = await tx.insert(usersTable)
+        .values({
+          username: input.username,
+          password_hash: passwordHash,
+          role: input.role,
+          full_name: input.full_name,
+          email: input.email || null,
+          phone: input.phone || null,
+          is_active: true,
+          must_change_password: input.password ? false : true // Auto-generated passwords require change
+        })
+        .returning(userColumns)
+        .execute();
+
+      await recordAuditEvent(tx, { action: 'user.create', target_type: 'user', target_id: result[0].id, after: result[0] });
+      return result[0];
+    });
 
-    return result[0];
+    return {
+      ...user,
+      credential: input.password ? null : { username: user.username, full_name: user.full_name, initial_password: password }
+    };
   } catch (error) {
     console.error('User creation failed:', error);
     throw error;
@@ -53,7 +60,7 @@ export async function createUser(input: CreateUserInput): Promise<User> {
 
 export async function getAllUsers(): Promise<User[]> {
   try {
-    const result = await db.select()
+    const result = await db.select(userColumns)
       .from(usersTable)
       .execute();
 
@@ -66,7 +73,7 @@ export async function getAllUsers(): Promise<User[]> {
 
 export async function getUserById(id: number): Promise<User | null> {
   try {
-    const result = await db.select()
+    const result = await db.select(userColumns)
       .from(usersTable)
       .where(eq(usersTable.id, id))
       .execute();
@@ -78,10 +85,101 @@ export async function getUserById(id: number): Promise<User | null> {
   }
 }
 
+export async function updateUser(input: UpdateUserInput): Promise<User> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const users = await tx.select(userColumns)
+        .from(usersTable)
+        .where(eq(usersTable.id, input.id))
+        .for('update')
+        .execute();
+      if (users.length === 0) {
+        throw new Error('User not found');
+      }
+      const user = users[0];
+
+      const usernameChanged = input.username !== undefined && input.username !== user.username;
+      if (usernameChanged) {
+        // Keeps the username and NIS of a student the same
+        if (user.role === 'STUDENT') {
+          throw new Error('A student signs in with their NIS; change it on the student profile');
+        }
+        const taken = await tx.select({ id: usersTable.id })
+          .from(usersTable)
+          .where(and(eq(usersTable.username, input.username!), ne(usersTable.id, user.id)))
+          .execute();
+        if (taken.length > 0) {
+          throw new Error(`Username ${input.username} is already taken`);
+        }
+      }
+
+      const updateData: Partial<typeof usersTable.$inferInsert> = {};
+      if (usernameChanged) updateData.username = input.username;
+      if (input.full_name !== undefined) updateData.full_name = input.full_name;
+      if (input.email !== undefined) updateData.email = input.email || null;
+      if (input.phone !== undefined) updateData.phone = input.phone || null;
+
+      if (Object.keys(updateData).length === 0) {
+        return user;
+      }
+
+      const result = await tx.update(usersTable)
+        .set({ ...updateData, updated_at: new Date() })
+        .where(eq(usersTable.id, user.id))
+        .returning(userColumns)
+        .execute();
+
+      await recordAuditEvent(tx, { action: 'user.update', target_type: 'user', target_id: user.id, before: user, after: result[0] });
+      return result[0];
+    });
+  } catch (error) {
+    console.error('User update failed:', error);
+    throw error;
+  }
+}
+
+// Self-service from the settings tab: only the ways the school can reach the user
+export async function updateContactDetails(userId: number, input: UpdateContactDetailsInput): Promise<User> {
+  try {
+    return await auditedTransaction(async (tx) => {
+      const before = await tx.select({ email: usersTable.email, phone: usersTable.phone })
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .for('update')
+        .execute();
+      if (before.length === 0) {
+        throw new Error('User not found');
+      }
+
+      const result = await tx.update(usersTable)
+        .set({ email: input.email || null, phone: input.phone || null, updated_at: new Date() })
+        .where(eq(usersTable.id, userId))
+        .returning(userColumns)
+        .execute();
+
+      await recordAuditEvent(tx, {
+        action: 'user.contact_update',
+        target_type: 'user',
+        target_id: userId,
+        before: before[0],
+        after: { email: result[0].email, phone: result[0].phone }
+      });
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Contact details update failed:', error);
+    throw error;
+  }
+}
+
 export async function updatePassword(userId: number, input: UpdatePasswordInput): Promise<{ success: boolean }> {
   try {
-    // Get current user
-    const user = await getUserById(userId);
+    // Get current user, with the hash to check against
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+    const user = users[0];
     if (!user) {
       throw new Error('User not found');
     }
@@ -92,18 +190,27 @@ export async function updatePassword(userId: number, input: UpdatePasswordInput)
       throw new Error('Current password is incorrect');
     }
 
+    // Re-entering the temporary password would lift the restriction without replacing it
+    if (input.new_password === input.current_password) {
+      throw new Error('New password must be different from the current password');
+    }
+
     // Hash new password
     const newPasswordHash = await hashPassword(input.new_password);
 
     // Update password
-    await db.update(usersTable)
-      .set({
-        password_hash: newPasswordHash,
-        must_change_password: false,
-        updated_at: new Date()
-      })
-      .where(eq(usersTable.id, userId))
-      .execute();
+    await auditedTransaction(async (tx) => {
+      await tx.update(usersTable)
+        .set({
+          password_hash: newPasswordHash,
+          must_change_password: false,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      await recordAuditEvent(tx, { action: 'user.password_change', target_type: 'user', target_id: userId });
+    });
 
     return { success: true };
   } catch (error) {
@@ -123,15 +230,20 @@ export async function resetPassword(input: ResetPasswordInput): Promise<{ succes
     // Hash new password
     const newPasswordHash = await hashPassword(input.new_password);
 
-    // Update password and require change
-    await db.update(usersTable)
-      .set({
-        password_hash: newPasswordHash,
-        must_change_password: true,
-        updated_at: new Date()
-      })
-      .where(eq(usersTable.id, input.user_id))
-      .execute();
+    // Update password and require change; whoever was signed in with the old one is signed out
+    await auditedTransaction(async (tx) => {
+      await tx.update(usersTable)
+        .set({
+          password_hash: newPasswordHash,
+          must_change_password: true,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, input.user_id))
+        .execute();
+
+      await deleteUserSessions(tx, input.user_id);
+      await recordAuditEvent(tx, { action: 'user.password_reset', target_type: 'user', target_id: input.user_id });
+    });
 
     return { success: true };
   } catch (error) {
@@ -148,14 +260,28 @@ export async function toggleUserStatus(userId: number): Promise<{ success: boole
       throw new Error('User not found');
     }
 
-    // Toggle status
-    await db.update(usersTable)
-      .set({
-        is_active: !user.is_active,
-        updated_at: new Date()
-      })
-      .where(eq(usersTable.id, userId))
-      .execute();
+    // Toggle status; a deactivated user is signed out everywhere at once
+    await auditedTransaction(async (tx) => {
+      await tx.update(usersTable)
+        .set({
+          is_active: !user.is_active,
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, userId))
+        .execute();
+
+      if (user.is_active) {
+        await deleteUserSessions(tx, userId);
+      }
+
+      await recordAuditEvent(tx, {
+        action: user.is_active ? 'user.deactivate' : 'user.activate',
+        target_type: 'user',
+        target_id: userId,
+        before: { is_active: user.is_active },
+        after: { is_active: !user.is_active }
+      });
+    });
 
     return { success: true };
   } catch (error) {
@@ -163,3 +289,62 @@ export async function toggleUserStatus(userId: number): Promise<{ success: boole
     throw error;
   }
 }
+
+// Replaces the temporary password of every account in the group that is still waiting for its first
+// password change. Accounts whose owners already chose a password are left alone.
+export async function issueCredentials(input: IssueCredentialsInput): Promise<IssueCredentialsResult> {
+  try {
+    const members = input.group === 'CLASS'
+      ? await db.select({ user: usersTable })
+        .from(studentProfilesTable)
+        .innerJoin(usersTable, eq(studentProfilesTable.user_id, usersTable.id))
+        .where(and(
+          eq(studentProfilesTable.class_id, input.class_id),
+          ne(studentProfilesTable.status, 'CLOSED')
+        ))
+        .orderBy(asc(studentProfilesTable.nis))
+        .execute()
+      : await db.select({ user: usersTable })
+        .from(staffProfilesTable)
+        .innerJoin(usersTable, eq(staffProfilesTable.user_id, usersTable.id))
+        .where(input.department ? eq(staffProfilesTable.department, input.department) : undefined)
+        .orderBy(asc(usersTable.full_name))
+        .execute();
+
+    const eligible = members
+      .map(member => member.user)
+      .filter(user => user.is_active && user.must_change_password);
+
+    const passwords = await issuePasswords(eligible.length);
+
+    const credentials = await auditedTransaction(async (tx) => {
+      const issued: Credential[] = [];
+      for (const [index, user] of eligible.entries()) {
+        const updated = await tx.update(usersTable)
+          .set({ password_hash: passwords[index].hash, updated_at: new Date() })
+          .where(and(
+            eq(usersTable.id, user.id),
+            eq(usersTable.must_change_password, true) // Skip anyone who changed their password meanwhile
+          ))
+          .returning({ id: usersTable.id })
+          .execute();
+
+        if (updated.length > 0) {
+          await deleteUserSessions(tx, user.id);
+          // The group it was issued for; the new password itself is never logged
+          await recordAuditEvent(tx, { action: 'user.credentials_issue', target_type: 'user', target_id: user.id, after: input });
+          issued.push({ username: user.username, full_name: user.full_name, initial_password: passwords[index].password });
+        }
+      }
+      return issued;
+    });
+
+    return {
+      credentials,
+      skipped: members.length - credentials.length
+    };
+  } catch (error) {
+    console.error('Issue credentials failed:', error);
+    throw error;
+  }
+}
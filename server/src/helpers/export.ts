@@ -0,0 +1,452 @@
+// Renders a report into a downloadable file.
+//
+// Every format is written straight to the given stream (normally the HTTP
+// response) row by row, so a large export never has to be held in memory as a
+// finished file.
+
+import { type Writable } from 'node:stream';
+import { finished } from 'node:stream/promises';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { type ClosureReceipt, type Credential, type Passbook, type Report, type ReportColumn, type ReportFormat, type StatementDocument } from '../schema';
+
+type ReportValue = Report['rows'][number][string];
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  CSV: 'text/csv; charset=utf-8',
+  XLSX: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  PDF: 'application/pdf'
+};
+
+export const reportFileName = (report: Report, format: ReportFormat) => {
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  const date = report.generated_at.toISOString().split('T')[0];
+  return `${slug}-${date}.${format.toLowerCase()}`;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDateTime = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const rupiah = new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0, maximumFractionDigits: 2 });
+
+// Plain value for CSV: machine readable, no thousands separators
+const toCsvText = (value: ReportValue, column: ReportColumn) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return formatDateTime(value);
+  }
+  if (column.kind === 'money' && typeof value === 'number') {
+    return value.toFixed(2);
+  }
+  return String(value);
+};
+
+// Human readable value for PDF
+const toDisplayText = (value: ReportValue, column: ReportColumn) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return formatDateTime(value);
+  }
+  if (column.kind === 'money' && typeof value === 'number') {
+    return rupiah.format(value);
+  }
+  if (column.kind === 'number' && typeof value === 'number') {
+    return value.toLocaleString('id-ID');
+  }
+  return String(value);
+};
+
+const escapeCsv = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+async function writeCsv(report: Report, stream: Writable) {
+  const line = (values: string[]) => `${values.map(escapeCsv).join(',')}\r\n`;
+  const rowLine = (row: Report['rows'][number]) =>
+    line(report.columns.map(column => toCsvText(row[column.key] ?? null, column)));
+
+  // The byte order mark makes Excel open the file as UTF-8
+  stream.write('\ufeff');
+  stream.write(line(report.columns.map(column => column.header)));
+  for (const row of report.rows) {
+    stream.write(rowLine(row));
+  }
+  if (report.totals) {
+    stream.write(rowLine(report.totals));
+  }
+  stream.end();
+  await finished(stream);
+}
+
+async function writeXlsx(report: Report, stream: Writable) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: true });
+  const worksheet = workbook.addWorksheet(report.title.slice(0, 31));
+
+  worksheet.columns = report.columns.map(column => ({
+    key: column.key,
+    width: column.kind === 'text' ? 24 : 16,
+    style: column.kind === 'money'
+      ? { numFmt: '#,##0.00' }
+      : column.kind === 'date' ? { numFmt: 'yyyy-mm-dd hh:mm' } : {}
+  }));
+
+  worksheet.addRow([report.title]).font = { bold: true, size: 14 };
+  worksheet.addRow([report.period]);
+  worksheet.addRow([`Generated ${formatDateTime(report.generated_at)}`]);
+  worksheet.addRow([]);
+  worksheet.addRow(report.columns.map(column => column.header)).font = { bold: true };
+
+  for (const row of report.rows) {
+    worksheet.addRow(report.columns.map(column => row[column.key] ?? null)).commit();
+  }
+  if (report.totals) {
+    const totals = report.totals;
+    const totalsRow = worksheet.addRow(report.columns.map(column => totals[column.key] ?? null));
+    totalsRow.font = { bold: true };
+    totalsRow.commit();
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+}
+
+async function writePdf(report: Report, stream: Writable) {
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 36 });
+  doc.pipe(stream);
+
+  const left = doc.page.margins.left;
+  const usableWidth = doc.page.width - left - doc.page.margins.right;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  const rowHeight = 16;
+
+  // Names and descriptions get the most room, plain counts the least
+  const weights = report.columns.map(column => (column.kind === 'text' ? 2 : column.kind === 'number' ? 0.8 : 1.4));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map(weight => (usableWidth * weight) / totalWeight);
+
+  const drawRow = (values: string[], bold: boolean) => {
+    if (doc.y + rowHeight > bottom) {
+      doc.addPage();
+      drawHeader();
+    }
+    const y = doc.y;
+    let x = left;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+    values.forEach((value, index) => {
+      const align = report.columns[index].kind === 'text' ? 'left' : 'right';
+      doc.text(value, x + 2, y + 4, { width: widths[index] - 4, align, lineBreak: false, ellipsis: true });
+      x += widths[index];
+    });
+    doc.moveTo(left, y + rowHeight).lineTo(left + usableWidth, y + rowHeight).lineWidth(0.5).strokeColor('#cccccc').stroke();
+    doc.x = left;
+    doc.y = y + rowHeight;
+  };
+
+  const drawHeader = () => drawRow(report.columns.map(column => column.header), true);
+
+  doc.font('Helvetica-Bold').fontSize(16).text(report.title);
+  doc.font('Helvetica').fontSize(10).text(report.period);
+  doc.fontSize(8).fillColor('#666666').text(`Generated ${formatDateTime(report.generated_at)}`).fillColor('#000000');
+  doc.moveDown();
+
+  drawHeader();
+  for (const row of report.rows) {
+    drawRow(report.columns.map(column => toDisplayText(row[column.key] ?? null, column)), false);
+  }
+  if (report.totals) {
+    const totals = report.totals;
+    drawRow(report.columns.map(column => toDisplayText(totals[column.key] ?? null, column)), true);
+  }
+  if (report.rows.length === 0) {
+    doc.moveDown().font('Helvetica-Oblique').fontSize(9).text('No data for the selected filters.');
+  }
+
+  doc.end();
+  await finished(stream);
+}
+
+export async function writeReport(report: Report, format: ReportFormat, stream: Writable): Promise<void> {
+  switch (format) {
+    case 'CSV':
+      return writeCsv(report, stream);
+    case 'XLSX':
+      return writeXlsx(report, stream);
+    case 'PDF':
+      return writePdf(report, stream);
+  }
+}
+
+const PASSBOOK_COLUMNS = [
+  { header: 'No', width: 26, align: 'right' },
+  { header: 'Tanggal', width: 62, align: 'left' },
+  { header: 'Sandi', width: 40, align: 'left' },
+  { header: 'Debet', width: 76, align: 'right' },
+  { header: 'Kredit', width: 76, align: 'right' },
+  { header: 'Saldo', width: 84, align: 'right' }
+] as const;
+
+// Lays lines out at fixed positions, like the rows of a physical passbook page.
+// When continuing a book, the lines already printed are left blank so the new
+// ones land under them, and the page heading is only printed on fresh pages.
+export async function writePassbookPdf(passbook: Passbook, linesPerPage: number, stream: Writable): Promise<void> {
+  const doc = new PDFDocument({ size: 'A5', margin: 28, autoFirstPage: false });
+  doc.pipe(stream);
+
+  const firstRowY = 130;
+  const rowHeight = 20;
+  const amount = (value: number | null) => (value === null ? '' : rupiah.format(value));
+  const day = (date: Date) => `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+
+  const drawCells = (values: string[], y: number) => {
+    let x = doc.page.margins.left;
+    PASSBOOK_COLUMNS.forEach((column, index) => {
+      doc.text(values[index], x, y, { width: column.width - 4, align: column.align, lineBreak: false });
+      x += column.width;
+    });
+  };
+
+  const startPage = (withHeading: boolean) => {
+    doc.addPage();
+    if (!withHeading) {
+      return;
+    }
+    doc.font('Helvetica-Bold').fontSize(13).text('BUKU TABUNGAN SISWA', { align: 'center' });
+    doc.moveDown(0.5);
+    doc.font('Helvetica').fontSize(9);
+    doc.text(`Nama   : ${passbook.student.full_name}`);
+    doc.text(`NIS    : ${passbook.student.nis}`);
+    doc.text(`Kelas  : ${passbook.student.class_name}`);
+    doc.font('Helvetica-Bold').fontSize(8);
+    drawCells(PASSBOOK_COLUMNS.map(column => column.header), firstRowY - rowHeight);
+  };
+
+  if (passbook.lines.length === 0) {
+    startPage(true);
+    doc.font('Helvetica-Oblique').fontSize(9).text('Belum ada transaksi.', doc.page.margins.left, firstRowY);
+  }
+
+  let currentPage = -1;
+  for (const line of passbook.lines) {
+    const position = line.line - 1;
+    const page = Math.floor(position / linesPerPage);
+    if (page !== currentPage) {
+      // The first page of a continued printout already carries its heading
+      const continuedPage = currentPage === -1 && passbook.mode === 'CONTINUE' && position % linesPerPage !== 0;
+      startPage(!continuedPage);
+      currentPage = page;
+    }
+
+    doc.font('Helvetica').fontSize(8);
+    drawCells([
+      String(line.line),
+      day(line.date),
+      line.code,
+      amount(line.debit),
+      amount(line.credit),
+      amount(line.balance)
+    ], firstRowY + (position % linesPerPage) * rowHeight);
+  }
+
+  doc.end();
+  await finished(stream);
+}
+
+// One A5 page per closed account, with a line for the parent or guardian to sign for the payout
+export async function writeClosureReceiptsPdf(receipts: ClosureReceipt[], stream: Writable): Promise<void> {
+  const doc = new PDFDocument({ size: 'A5', margin: 36, autoFirstPage: false });
+  doc.pipe(stream);
+
+  for (const receipt of receipts) {
+    const { closure, student } = receipt;
+    const closedAt = closure.closed_at;
+    doc.addPage();
+
+    doc.font('Helvetica-Bold').fontSize(13).text('TANDA TERIMA PENUTUPAN TABUNGAN', { align: 'center' });
+    doc.moveDown(1);
+
+    doc.font('Helvetica').fontSize(9);
+    const fields: [string, string][] = [
+      ['No. Penutupan', String(closure.id)],
+      ['Tanggal', formatDateTime(closedAt)],
+      ['Nama Siswa', student.full_name],
+      ['NIS', student.nis],
+      ['Kelas', student.class_name],
+      ['Alasan', closure.reason],
+      ['No. Transaksi', closure.transaction_id === null ? '-' : String(closure.transaction_id)],
+      ['Petugas', receipt.staff_name]
+    ];
+    for (const [label, value] of fields) {
+      const y = doc.y;
+      doc.text(label, doc.page.margins.left, y, { width: 90 });
+      doc.text(`: ${value}`, doc.page.margins.left + 90, y);
+      doc.moveDown(0.3);
+    }
+
+    doc.moveDown(0.8);
+    doc.font('Helvetica-Bold').fontSize(11).text(`Saldo dibayarkan: ${rupiah.format(closure.payout_amount)}`, doc.page.margins.left);
+    doc.moveDown(1);
+
+    doc.font('Helvetica').fontSize(9).text(
+      'Saya yang bertanda tangan di bawah ini, orang tua/wali siswa tersebut, menyatakan telah menerima ' +
+      `seluruh saldo tabungan sebesar ${rupiah.format(closure.payout_amount)} dan rekening tabungan siswa ditutup.`,
+      doc.page.margins.left,
+      doc.y,
+      { align: 'justify' }
+    );
+
+    // Signature blocks side by side
+    const columnWidth = (doc.page.width - doc.page.margins.left - doc.page.margins.right) / 2;
+    const top = doc.y + 24;
+    const signature = (x: number, title: string, name: string | null) => {
+      doc.text(title, x, top, { width: columnWidth, align: 'center' });
+      doc.text(name ? `( ${name} )` : '( ........................................ )', x, top + 60, { width: columnWidth, align: 'center' });
+    };
+    signature(doc.page.margins.left, 'Orang Tua / Wali', student.parent_name);
+    signature(doc.page.margins.left + columnWidth, 'Petugas', receipt.staff_name);
+  }
+
+  doc.end();
+  await finished(stream);
+}
+
+// Cut sheet of login slips, ten to an A4 page; the QR code opens the login page
+export async function writeCredentialSlipsPdf(credentials: Credential[], loginUrl: string, stream: Writable): Promise<void> {
+  const doc = new PDFDocument({ size: 'A4', margin: 28, autoFirstPage: false });
+  doc.pipe(stream);
+
+  const columns = 2;
+  const rows = 5;
+  const qrCode = await QRCode.toBuffer(loginUrl, { margin: 1, width: 240 });
+  const qrSize = 84;
+  const padding = 10;
+
+  credentials.forEach((credential, index) => {
+    const position = index % (columns * rows);
+    if (position === 0) {
+      doc.addPage();
+    }
+
+    const width = (doc.page.width - doc.page.margins.left - doc.page.margins.right) / columns;
+    const height = (doc.page.height - doc.page.margins.top - doc.page.margins.bottom) / rows;
+    const x = doc.page.margins.left + (position % columns) * width;
+    const y = doc.page.margins.top + Math.floor(position / columns) * height;
+    const textWidth = width - qrSize - padding * 3;
+
+    // Dashed cutting lines
+    doc.save().dash(4, { space: 3 }).lineWidth(0.5).strokeColor('#888888').rect(x, y, width, height).stroke().restore();
+
+    doc.fillColor('black').font('Helvetica-Bold').fontSize(10)
+      .text('AKUN TABUNGAN SISWA', x + padding, y + padding, { width: textWidth, lineBreak: false });
+    doc.font('Helvetica').fontSize(9)
+      .text(credential.full_name, x + padding, y + padding + 18, { width: textWidth, height: 24, ellipsis: true });
+
+    doc.fontSize(8).text('Username', x + padding, y + padding + 46);
+    doc.font('Courier-Bold').fontSize(11).text(credential.username, x + padding, y + padding + 56, { width: textWidth, lineBreak: false });
+    doc.font('Helvetica').fontSize(8).text('Password sementara', x + padding, y + padding + 74);
+    doc.font('Courier-Bold').fontSize(11).text(credential.initial_password, x + padding, y + padding + 84, { width: textWidth, lineBreak: false });
+
+    doc.font('Helvetica-Oblique').fontSize(7)
+      .text('Wajib diganti saat login pertama. Jangan berikan kepada orang lain.', x + padding, y + height - padding - 18, { width: textWidth });
+
+    doc.image(qrCode, x + width - qrSize - padding, y + padding, { width: qrSize, height: qrSize });
+    doc.font('Helvetica').fontSize(6)
+      .text(loginUrl, x + width - qrSize - padding, y + padding + qrSize + 2, { width: qrSize, align: 'center' });
+  });
+
+  doc.end();
+  await finished(stream);
+}
+
+const STATEMENT_COLUMNS = [
+  { header: 'Tanggal', width: 70, align: 'left' },
+  { header: 'Keterangan', width: 165, align: 'left' },
+  { header: 'Setoran', width: 90, align: 'right' },
+  { header: 'Penarikan', width: 90, align: 'right' },
+  { header: 'Saldo', width: 100, align: 'right' }
+] as const;
+
+const MONTH_NAMES = ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'];
+
+// "2024-08" as "Agustus 2024"
+export const statementMonthName = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return `${MONTH_NAMES[monthNumber - 1]} ${year}`;
+};
+
+// A4 account statement for one month, opening balance first and closing balance last
+export async function writeStatementPdf(statement: StatementDocument, stream: Writable): Promise<void> {
+  const doc = new PDFDocument({ size: 'A4', margin: 40 });
+  doc.pipe(stream);
+
+  const left = doc.page.margins.left;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  const tableWidth = STATEMENT_COLUMNS.reduce((sum, column) => sum + column.width, 0);
+  const rowHeight = 18;
+  const day = (date: Date) => `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+
+  const drawRow = (values: string[], bold: boolean) => {
+    if (doc.y + rowHeight > bottom) {
+      doc.addPage();
+      drawRow(STATEMENT_COLUMNS.map(column => column.header), true);
+    }
+    const y = doc.y;
+    let x = left;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8.5);
+    STATEMENT_COLUMNS.forEach((column, index) => {
+      doc.text(values[index], x + 2, y + 5, { width: column.width - 4, align: column.align, lineBreak: false, ellipsis: true });
+      x += column.width;
+    });
+    doc.moveTo(left, y + rowHeight).lineTo(left + tableWidth, y + rowHeight).lineWidth(0.5).strokeColor('#cccccc').stroke();
+    doc.x = left;
+    doc.y = y + rowHeight;
+  };
+
+  doc.font('Helvetica-Bold').fontSize(14).text('LAPORAN BULANAN TABUNGAN SISWA', { align: 'center' });
+  doc.font('Helvetica').fontSize(10).text(`Periode ${statementMonthName(statement.month)}`, { align: 'center' });
+  doc.moveDown(1);
+
+  doc.fontSize(9);
+  const fields: [string, string][] = [
+    ['Nama', statement.student.full_name],
+    ['NIS', statement.student.nis],
+    ['Kelas', statement.student.class_name],
+    ['Orang Tua / Wali', statement.student.parent_name ?? '-']
+  ];
+  for (const [label, value] of fields) {
+    const y = doc.y;
+    doc.text(label, left, y, { width: 90 });
+    doc.text(`: ${value}`, left + 90, y);
+    doc.moveDown(0.2);
+  }
+  doc.moveDown(1);
+
+  drawRow(STATEMENT_COLUMNS.map(column => column.header), true);
+  drawRow(['', 'Saldo awal', '', '', rupiah.format(statement.opening_balance)], false);
+  for (const line of statement.lines) {
+    const label = line.type === 'DEPOSIT' ? 'Setoran' : 'Penarikan';
+    drawRow([
+      day(line.date),
+      line.description ? `${label} - ${line.description}` : label,
+      line.type === 'DEPOSIT' ? rupiah.format(line.amount) : '',
+      line.type === 'WITHDRAWAL' ? rupiah.format(line.amount) : '',
+      rupiah.format(line.balance_after)
+    ], false);
+  }
+  drawRow(['', 'Jumlah', rupiah.format(statement.deposits), rupiah.format(statement.withdrawals), ''], true);
+  drawRow(['', 'Saldo akhir', '', '', rupiah.format(statement.closing_balance)], true);
+
+  if (statement.lines.length === 0) {
+    doc.moveDown(0.5).font('Helvetica-Oblique').fontSize(9).text('Tidak ada transaksi pada bulan ini.', left);
+  }
+  doc.moveDown(1.5).font('Helvetica').fontSize(7).fillColor('#666666')
+    .text(`Dibuat ${formatDateTime(statement.generated_at)}. Laporan ini dibuat otomatis dan tidak memerlukan tanda tangan.`, left)
+    .fillColor('#000000');
+
+  doc.end();
+  await finished(stream);
+}
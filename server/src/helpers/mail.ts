@@ -0,0 +1,136 @@
+// Outgoing email, used for the monthly account statements.
+//
+// MAIL_TRANSPORT picks where mail goes. Left unset, no mail is sent at all and the statement
+// job doesn't run, rather than statements being logged as sent when nobody got them.
+//   file            each message is written as an .eml file to MAIL_DROP_DIR (default outbox in the
+//                   data directory), for development and for checking what would be sent
+//   smtp            sent through SMTP_HOST. SMTP_PORT defaults to 587, which upgrades to TLS when the
+//                   server offers STARTTLS; SMTP_SECURE=true connects over TLS from the start, as
+//                   port 465 expects. SMTP_USER and SMTP_PASSWORD are used to sign in when set,
+//                   and only ever over TLS: a server that doesn't offer STARTTLS gets no password.
+// MAIL_FROM is the sender for both, e.g. "Tabungan Siswa <tabungan@sekolah.sch.id>".
+// Messages are composed and sent by nodemailer; the file transport only writes them to disk.
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import nodemailer from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer';
+import { dataPath } from './storage';
+
+export interface MailAttachment {
+  filename: string;
+  content_type: string;
+  content: Buffer;
+}
+
+export interface OutgoingMail {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments: MailAttachment[];
+}
+
+export interface MailTransport {
+  readonly name: string;
+  // Resolves with the Message-ID, and throws when the message wasn't accepted
+  send(mail: OutgoingMail): Promise<{ id: string }>;
+}
+
+const DEFAULT_FROM = 'Tabungan Siswa <noreply@localhost>';
+
+// The bare address out of "Name <address>"
+const addressOf = (mailbox: string) => /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim();
+
+const newMessageId = (from: string) => `${crypto.randomUUID()}@${addressOf(from).split('@')[1] ?? 'localhost'}`;
+
+const toMessage = (from: string, mail: OutgoingMail, id: string): Mail.Options => ({
+  from,
+  to: mail.to,
+  subject: mail.subject,
+  text: mail.text,
+  messageId: `<${id}>`,
+  attachments: mail.attachments.map(attachment => ({
+    filename: attachment.filename,
+    contentType: attachment.content_type,
+    content: attachment.content
+  }))
+});
+
+// Composes the message without sending it anywhere
+const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+
+export const fileDropTransport = (directory: string, from = DEFAULT_FROM): MailTransport => ({
+  name: 'file',
+  async send(mail) {
+    const id = newMessageId(from);
+    const { message } = await composer.sendMail(toMessage(from, mail, id));
+    await mkdir(directory, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    await writeFile(join(directory, `${stamp}-${id.split('@')[0]}.eml`), message);
+    return { id };
+  }
+});
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the first byte, rather than upgrading with STARTTLS
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+// Upper bound for a quiet SMTP server, so a hung connection can't stall the statement job
+const SMTP_TIMEOUT_MS = 30_000;
+
+export const smtpTransport = (options: SmtpOptions): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    // Someone in between can strip STARTTLS from the server's reply; the password would then go out in the clear
+    requireTLS: !options.secure && !!options.user,
+    auth: options.user ? { user: options.user, pass: options.password ?? '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS
+  });
+
+  return {
+    name: 'smtp',
+    async send(mail) {
+      const id = newMessageId(options.from);
+      await transporter.sendMail(toMessage(options.from, mail, id));
+      return { id };
+    }
+  };
+};
+
+export function createMailTransport(env: Record<string, string | undefined> = process.env): MailTransport | null {
+  const kind = env['MAIL_TRANSPORT'];
+  if (!kind) {
+    return null;
+  }
+  const from = env['MAIL_FROM'] || DEFAULT_FROM;
+  switch (kind) {
+    case 'file':
+      return fileDropTransport(env['MAIL_DROP_DIR'] || dataPath(env, 'outbox'), from);
+    case 'smtp': {
+      const host = env['SMTP_HOST'];
+      if (!host) {
+        throw new Error('SMTP_HOST is required for the smtp transport');
+      }
+      const secure = env['SMTP_SECURE'] === 'true';
+      return smtpTransport({
+        host,
+        port: env['SMTP_PORT'] ? parseInt(env['SMTP_PORT']) : secure ? 465 : 587,
+        secure,
+        user: env['SMTP_USER'] || undefined,
+        password: env['SMTP_PASSWORD'],
+        from
+      });
+    }
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+}
@@ -0,0 +1,93 @@
+// Delivery of text messages to parents' phones.
+//
+// NOTIFICATION_PROVIDER picks where messages go. Left unset, nothing is sent and messages wait in
+// the outbox, rather than being marked sent when no parent got them.
+//   console            printed to the server log, for development
+//   file               appended as JSON lines to NOTIFICATION_FILE (default notifications.log in the
+//                      data directory)
+//   webhook            POSTed as JSON to NOTIFICATION_WEBHOOK_URL, for an SMS or WhatsApp gateway.
+//                      NOTIFICATION_WEBHOOK_TOKEN is sent as a bearer token and NOTIFICATION_CHANNEL
+//                      (SMS or WHATSAPP, default WHATSAPP) tells the gateway which one to use.
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { toInternationalPhone } from './phone';
+import { dataPath } from './storage';
+
+export interface OutgoingMessage {
+  to: string; // Local 08... form
+  body: string;
+}
+
+export interface MessageProvider {
+  readonly name: string;
+  // Resolves with the provider's id for the message, and throws when it wasn't accepted
+  send(message: OutgoingMessage): Promise<{ id: string }>;
+}
+
+export const consoleProvider: MessageProvider = {
+  name: 'console',
+  async send(message) {
+    const id = crypto.randomUUID();
+    console.log(`[message ${id}] to ${message.to}: ${message.body}`);
+    return { id };
+  }
+};
+
+export const fileProvider = (path: string): MessageProvider => ({
+  name: 'file',
+  async send(message) {
+    const id = crypto.randomUUID();
+    await mkdir(dirname(path), { recursive: true });
+    await appendFile(path, JSON.stringify({ id, ...message, sent_at: new Date().toISOString() }) + '\n');
+    return { id };
+  }
+});
+
+// Upper bound for one gateway call, so a hanging gateway can't hold up the queue
+const WEBHOOK_TIMEOUT_MS = 15_000;
+
+export const webhookProvider = (url: string, token: string | undefined, channel: 'SMS' | 'WHATSAPP'): MessageProvider => ({
+  name: `webhook:${channel.toLowerCase()}`,
+  async send(message) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: JSON.stringify({ to: toInternationalPhone(message.to), message: message.body, channel }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Gateway answered ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+    // Gateways that return an id for the message let it be traced on their side
+    const reply = await response.json().catch(() => null) as { id?: unknown } | null;
+    const id = reply?.id;
+    return { id: typeof id === 'string' || typeof id === 'number' ? String(id) : crypto.randomUUID() };
+  }
+});
+
+export function createMessageProvider(env: Record<string, string | undefined> = process.env): MessageProvider | null {
+  const kind = env['NOTIFICATION_PROVIDER'];
+  if (!kind) {
+    return null;
+  }
+  switch (kind) {
+    case 'console':
+      return consoleProvider;
+    case 'file':
+      return fileProvider(env['NOTIFICATION_FILE'] || dataPath(env, 'notifications.log'));
+    case 'webhook': {
+      const url = env['NOTIFICATION_WEBHOOK_URL'];
+      if (!url) {
+        throw new Error('NOTIFICATION_WEBHOOK_URL is required for the webhook provider');
+      }
+      const channel = env['NOTIFICATION_CHANNEL'] === 'SMS' ? 'SMS' : 'WHATSAPP';
+      return webhookProvider(url, env['NOTIFICATION_WEBHOOK_TOKEN'], channel);
+    }
+    default:
+      throw new Error(`Unknown NOTIFICATION_PROVIDER: ${kind}`);
+  }
+}
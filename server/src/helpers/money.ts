@@ -0,0 +1,38 @@
+// Exact money handling for the numeric(12,2) columns.
+//
+// Arithmetic happens on integer minor units (sen) held in a bigint, never on
+// JS floats. Amounts only become a number at the API boundary: a value with at
+// most two decimals survives JSON, and therefore the superjson transformer,
+// unchanged, so the client always receives the exact stored amount.
+
+const MONEY_PATTERN = /^(-)?(\d+)(?:\.(\d{1,2}))?$/;
+
+// Parse a numeric column value ("1250.50") or a validated amount into minor units
+export const parseMoney = (value: string | number): bigint => {
+  const text = typeof value === 'number' ? value.toFixed(2) : value.trim();
+  const match = MONEY_PATTERN.exec(text);
+  if (!match) {
+    throw new Error(`Invalid money amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const minor = BigInt(whole) * 100n + BigInt(fraction.padEnd(2, '0'));
+  return sign ? -minor : minor;
+};
+
+// Format minor units for a numeric column ("1250.50")
+export const formatMoney = (minor: bigint): string => {
+  const sign = minor < 0n ? '-' : '';
+  const absolute = minor < 0n ? -minor : minor;
+  const whole = absolute / 100n;
+  const fraction = (absolute % 100n).toString().padStart(2, '0');
+  return `${sign}${whole}.${fraction}`;
+};
+
+// Convert a numeric column value or minor units to the number sent over the API
+export const toMoneyNumber = (value: string | bigint | null): number => {
+  if (value === null) {
+    return 0;
+  }
+  return Number(formatMoney(typeof value === 'bigint' ? value : parseMoney(value)));
+};
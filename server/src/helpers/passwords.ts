@@ -0,0 +1,39 @@
+// Initial passwords handed out on printed credential slips.
+//
+// The alphabet leaves out characters that are easy to misread on paper
+// (0/O, 1/l/I), and every character is drawn from the system CSPRNG.
+
+const PASSWORD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+
+const INITIAL_PASSWORD_LENGTH = 10;
+
+export const generateInitialPassword = (length = INITIAL_PASSWORD_LENGTH): string => {
+  // Rejection sampling keeps every character equally likely
+  const limit = 256 - (256 % PASSWORD_ALPHABET.length);
+  let password = '';
+  while (password.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length * 2))) {
+      if (byte < limit && password.length < length) {
+        password += PASSWORD_ALPHABET[byte % PASSWORD_ALPHABET.length];
+      }
+    }
+  }
+  return password;
+};
+
+export const hashPassword = (password: string): Promise<string> => Bun.password.hash(password);
+
+// Hashing takes real CPU and memory, so a large batch is worked through a few at a time
+const HASH_BATCH = 8;
+
+export async function issuePasswords(count: number): Promise<{ password: string; hash: string }[]> {
+  const issued: { password: string; hash: string }[] = [];
+  while (issued.length < count) {
+    const batch = Array.from({ length: Math.min(HASH_BATCH, count - issued.length) }, async () => {
+      const password = generateInitialPassword();
+      return { password, hash: await hashPassword(password) };
+    });
+    issued.push(...await Promise.all(batch));
+  }
+  return issued;
+}
@@ -0,0 +1,17 @@
+// Indonesian phone numbers as they are typed into forms and spreadsheets: "0812-3456-7890",
+// "+62 812 3456 7890" and "62812..." are all the same number.
+
+// The local form, 08..., or null when the input doesn't look like a phone number
+export const normalizePhone = (phone: string): string | null => {
+  let digits = phone.replace(/[\s\-().]/g, '');
+  if (digits.startsWith('+62')) {
+    digits = '0' + digits.slice(3);
+  } else if (digits.startsWith('62')) {
+    digits = '0' + digits.slice(2);
+  }
+  return /^0\d{8,13}$/.test(digits) ? digits : null;
+};
+
+// The international form without the plus, 628..., which SMS and WhatsApp gateways expect
+export const toInternationalPhone = (phone: string): string =>
+  phone.startsWith('0') ? '62' + phone.slice(1) : phone;
@@ -0,0 +1,84 @@
+// Reads uploaded CSV and XLSX files into rows of cell text.
+//
+// Cells are kept as text on purpose: NIS and phone numbers often start with a
+// zero that a numeric conversion would drop.
+
+import ExcelJS from 'exceljs';
+
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Spreadsheet programs in Indonesian locales save with ';' between fields
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+async function readXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      cells.push(row.getCell(column).text);
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+export async function readSpreadsheet(fileName: string, buffer: Buffer): Promise<string[][]> {
+  if (/\.xlsx$/i.test(fileName)) {
+    return readXlsx(buffer);
+  }
+  // Drop the byte order mark Excel puts in front of UTF-8 CSV files
+  return parseCsv(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+}
@@ -0,0 +1,12 @@
+// Files the server writes itself, such as the .eml files of the file mail transport.
+//
+// They go under DATA_DIR. Left unset that is server/data, found from this file rather than from
+// wherever the server was started, and ignored by git.
+
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const DEFAULT_DATA_DIR = fileURLToPath(new URL('../../data', import.meta.url));
+
+export const dataPath = (env: Record<string, string | undefined>, ...segments: string[]): string =>
+  resolve(env['DATA_DIR'] || DEFAULT_DATA_DIR, ...segments);
@@ -1,6 +1,7 @@
 
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPHandler, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import http from 'node:http';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -10,181 +11,1046 @@ import { z } from 'zod';
 import { 
   loginInputSchema,
   createUserInputSchema,
+  updateUserInputSchema,
+  updateContactDetailsInputSchema,
   createStudentInputSchema,
+  importStudentsInputSchema,
+  updateStudentInputSchema,
+  unlinkGuardianInputSchema,
   createStaffInputSchema,
+  updateStaffInputSchema,
   createClassInputSchema,
+  rolloverInputSchema,
+  assignStaffInputSchema,
+  unassignStaffInputSchema,
+  updateSchoolSettingsInputSchema,
   createTransactionInputSchema,
+  reverseTransactionInputSchema,
+  reviewReversalInputSchema,
   updatePasswordInputSchema,
   resetPasswordInputSchema,
   reportFiltersSchema,
-  userRoleSchema
+  reportExportInputSchema,
+  passbookExportInputSchema,
+  recordPassbookPrintInputSchema,
+  closeAccountInputSchema,
+  closeClassAccountsInputSchema,
+  setStudentStatusInputSchema,
+  closureReceiptExportInputSchema,
+  issueCredentialsInputSchema,
+  credentialSlipsInputSchema,
+  twoFactorCodeInputSchema,
+  disableTwoFactorInputSchema,
+  setTwoFactorRequirementInputSchema,
+  auditFiltersSchema,
+  auditExportInputSchema,
+  notificationFiltersSchema,
+  statementDeliveryFiltersSchema,
+  statementInputSchema,
+  type User,
+  type UserRole
 } from './schema';
 
 // Handler imports
-import { login, logout, validateSession } from './handlers/auth';
-import { createUser, getAllUsers, getUserById, updatePassword, resetPassword, toggleUserStatus } from './handlers/users';
-import { createStudent, getAllStudents, getStudentById, getStudentsByClass } from './handlers/students';
-import { createStaff, getAllStaff, getStaffById } from './handlers/staff';
-import { createClass, getAllClasses, getClassById, updateClass, deleteClass } from './handlers/classes';
-import { createTransaction, getTransactionsByStudent, getTransactionsByStaff, getTransactionsReport, getDailyTransactionSummary } from './handlers/transactions';
+import {
+  login,
+  logout,
+  validateSession,
+  csrfTokenFor,
+  isValidCsrfToken,
+  getLoginLockouts,
+  unlockLogin,
+  getActiveSessions,
+  revokeSession,
+  signOutOtherSessions,
+  forceLogout,
+  purgeExpiredSessions
+} from './handlers/auth';
+import {
+  isTwoFactorSetupPending,
+  getTwoFactorStatus,
+  beginTwoFactorEnrolment,
+  confirmTwoFactorEnrolment,
+  verifyTwoFactorLogin,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  resetTwoFactor,
+  getTwoFactorRequirements,
+  setTwoFactorRequirement
+} from './handlers/twofactor';
+import {
+  createUser,
+  getAllUsers,
+  getUserById,
+  updateUser,
+  updateContactDetails,
+  updatePassword,
+  resetPassword,
+  toggleUserStatus,
+  issueCredentials
+} from './handlers/users';
+import {
+  createStudent,
+  importStudents,
+  updateStudent,
+  getAllStudents,
+  getStudentById,
+  getStudentByUserId,
+  getStudentsByClass,
+  getStudentClassHistory
+} from './handlers/students';
+import { createStaff, updateStaff, getAllStaff, getStaffById, getStaffByUserId } from './handlers/staff';
+import {
+  createClass,
+  getAllClasses,
+  getClassById,
+  updateClass,
+  deleteClass,
+  getRolloverPlan,
+  rolloverAcademicYear,
+  getGraduatingStudents
+} from './handlers/classes';
+import { 
+  createTransaction, 
+  reverseTransaction, 
+  reviewReversalRequest, 
+  getPendingReversalRequests, 
+  getTransactionsByStudent, 
+  getTransactionsByStaff, 
+  getTransactionsReport, 
+  getTransactionById,
+  getDailyTransactionSummary 
+} from './handlers/transactions';
 import { getDashboardStats, getStudentDashboard, getStaffDashboard } from './handlers/dashboard';
+import { buildReport } from './handlers/reports';
+import { getPassbook, getPassbookStatus, recordPassbookPrint, PASSBOOK_LINES_PER_PAGE } from './handlers/passbooks';
+import { closeAccount, closeClassAccounts, setStudentStatus, getClosureReceipts } from './handlers/closures';
+import {
+  getClassAssignments,
+  assignStaffToClass,
+  unassignStaffFromClass,
+  getStudentScope
+} from './handlers/assignments';
+import { getSchoolSettings, updateSchoolSettings } from './handlers/settings';
+import {
+  getStudentGuardians,
+  getGuardianStudents,
+  isGuardianOf,
+  createGuardianAccount,
+  unlinkGuardian
+} from './handlers/guardians';
+import {
+  getMonthlyStatements,
+  getStatementDocument,
+  getStatementDeliveries,
+  resendStatement,
+  sendMonthlyStatements,
+  previousMonth
+} from './handlers/statements';
+import { deliverPendingNotifications, getNotifications, retryNotification } from './handlers/notifications';
+import { runWithAuditContext, getAuditEvents, verifyAuditChain, buildAuditReport, protectAuditLog } from './handlers/audit';
+import { readCookie, serializeCookie, appendCookies } from './helpers/cookies';
+import { createMessageProvider } from './helpers/messaging';
+import { createMailTransport } from './helpers/mail';
+import {
+  writeReport,
+  writePassbookPdf,
+  writeClosureReceiptsPdf,
+  writeCredentialSlipsPdf,
+  writeStatementPdf,
+  reportFileName,
+  REPORT_CONTENT_TYPES
+} from './helpers/export';
+
+// The session id lives in an HttpOnly cookie that page scripts can't read. Its CSRF token sits
+// in a readable cookie and must come back in a header on every state-changing request.
+const SESSION_COOKIE = 'session';
+const CSRF_COOKIE = 'csrf_token';
+const CSRF_HEADER = 'x-csrf-token';
+
+// Resolve the caller from the session cookie
+async function resolveSession(req: http.IncomingMessage): Promise<{ user: User | null; sessionId: string | null }> {
+  const sessionId = readCookie(req, SESSION_COOKIE);
+  if (!sessionId) {
+    return { user: null, sessionId: null };
+  }
+
+  const user = await validateSession(sessionId);
+  return { user, sessionId: user ? sessionId : null };
+}
+
+function hasValidCsrfToken(req: http.IncomingMessage, sessionId: string): boolean {
+  const header = req.headers[CSRF_HEADER];
+  return isValidCsrfToken(sessionId, (Array.isArray(header) ? header[0] : header) ?? null);
+}
+
+// Only the reverse proxy in front of the app (Caddy in production, Vite in development)
+// talks to us over loopback, so only its forwarding headers are trusted
+function isFromProxy(req: http.IncomingMessage): boolean {
+  const remote = req.socket.remoteAddress;
+  return remote === '127.0.0.1' || remote === '::1' || remote === '::ffff:127.0.0.1';
+}
+
+// Session cookies are marked Secure whenever the browser reached us over HTTPS. They carry no
+// Max-Age, so closing the browser on a shared classroom computer ends the session there.
+function sessionCookies(req: http.IncomingMessage, sessionId: string): string[] {
+  const secure = isFromProxy(req) && req.headers['x-forwarded-proto'] === 'https';
+  return [
+    serializeCookie(SESSION_COOKIE, sessionId, { httpOnly: true, secure }),
+    serializeCookie(CSRF_COOKIE, csrfTokenFor(sessionId), { secure })
+  ];
+}
 
-const t = initTRPC.create({
+const expiredSessionCookies = [
+  serializeCookie(SESSION_COOKIE, '', { httpOnly: true, maxAgeSeconds: 0 }),
+  serializeCookie(CSRF_COOKIE, '', { maxAgeSeconds: 0 })
+];
+
+// The address the request came from
+function clientIp(req: http.IncomingMessage): string | null {
+  const remote = req.socket.remoteAddress ?? null;
+  if (!isFromProxy(req)) {
+    return remote;
+  }
+
+  const realIp = req.headers['x-real-ip'];
+  const forwarded = req.headers['x-forwarded-for'];
+  const proxied = (Array.isArray(realIp) ? realIp[0] : realIp)
+    ?? (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0];
+  return proxied?.trim() || remote;
+}
+
+async function createContext({ req, res }: CreateHTTPContextOptions) {
+  return {
+    ...await resolveSession(req),
+    req,
+    res,
+    ip: clientIp(req),
+    userAgent: req.headers['user-agent'] ?? null
+  };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
-const publicProcedure = t.procedure;
+// Every call runs with the caller and their address at hand for the audit log
+const publicProcedure = t.procedure.use(({ ctx, next }) =>
+  runWithAuditContext({ actor_user_id: ctx.user?.id ?? null, ip_address: ctx.ip }, next));
 const router = t.router;
 
-const appRouter = router({
+// Any signed-in session, including one that still has to replace a temporary password.
+// The browser sends the cookie along with any request, so mutations also need the CSRF header.
+const sessionProcedure = publicProcedure.use(({ ctx, type, next }) => {
+  if (!ctx.user || !ctx.sessionId) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  if (type === 'mutation' && !hasValidCsrfToken(ctx.req, ctx.sessionId)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Invalid CSRF token' });
+  }
+  return next({ ctx: { user: ctx.user, sessionId: ctx.sessionId } });
+});
+
+// Until a flagged user picks their own password, the session is good for nothing but
+// updatePassword and logout. The flag is read on every request, so a reset takes effect at once.
+const PASSWORD_CHANGE_REQUIRED = 'Password change required';
+
+const enrolmentProcedure = sessionProcedure.use(({ ctx, next }) => {
+  if (ctx.user.must_change_password) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: PASSWORD_CHANGE_REQUIRED });
+  }
+  return next();
+});
+
+// Likewise, once two-factor authentication is required for a role, its members can only
+// set it up until they have done so
+const TWO_FACTOR_SETUP_REQUIRED = 'Two-factor setup required';
+
+const protectedProcedure = enrolmentProcedure.use(async ({ ctx, next }) => {
+  if (await isTwoFactorSetupPending(ctx.user)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: TWO_FACTOR_SETUP_REQUIRED });
+  }
+  return next();
+});
+
+const roleProcedure = (...roles: UserRole[]) => protectedProcedure.use(({ ctx, next }) => {
+  if (!roles.includes(ctx.user.role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Insufficient permissions' });
+  }
+  return next();
+});
+
+const adminProcedure = roleProcedure('ADMINISTRATOR');
+const staffProcedure = roleProcedure('ADMINISTRATOR', 'STAFF');
+const studentProcedure = roleProcedure('STUDENT');
+const parentProcedure = roleProcedure('PARENT');
+
+// Students may only read data belonging to their own profile, and guardians that of their
+// linked children. Staff can reach every student unless the school limits them to their
+// assigned classes.
+async function assertStudentAccess(user: User, studentId: number): Promise<void> {
+  if (user.role === 'STUDENT') {
+    const profile = await getStudentByUserId(user.id);
+    if (!profile || profile.id !== studentId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Cannot access another student\'s data' });
+    }
+    return;
+  }
+
+  if (user.role === 'PARENT') {
+    if (!await isGuardianOf(user.id, studentId)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Cannot access another student\'s data' });
+    }
+    return;
+  }
+
+  const scope = await getStudentScope(user);
+  if (scope === null) {
+    return;
+  }
+  const student = await getStudentById(studentId);
+  if (student && !scope.includes(student.class_id)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Student is not in one of your classes' });
+  }
+}
+
+async function assertClassAccess(user: User, classId: number): Promise<void> {
+  const scope = await getStudentScope(user);
+  if (scope !== null && !scope.includes(classId)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Class is not one of your classes' });
+  }
+}
+
+// A report filtered to a student or class needs access to it; without those filters the
+// report is narrowed to the caller's scope instead
+async function assertReportAccess(user: User, filters: { student_id?: number; class_id?: number }): Promise<number[] | null> {
+  if (filters.student_id !== undefined) {
+    await assertStudentAccess(user, filters.student_id);
+  }
+  if (filters.class_id !== undefined) {
+    await assertClassAccess(user, filters.class_id);
+  }
+  return getStudentScope(user);
+}
+
+// Who a student is and where withdrawal alerts go. Only administrators change these, so a teller
+// can't redirect or silence the alert for a withdrawal, or take over a student's sign-in.
+const STUDENT_IDENTITY_FIELDS = ['nis', 'email', 'is_active', 'parent_phone', 'notify_parent'] as const;
+
+// Resolve the staff profile a request acts as. Staff are always pinned to their
+// own profile; administrators may look at another staff member's records.
+async function resolveStaffId(user: User, requestedStaffId?: number): Promise<number> {
+  if (user.role === 'ADMINISTRATOR' && requestedStaffId !== undefined) {
+    return requestedStaffId;
+  }
+
+  const profile = await getStaffByUserId(user.id);
+  if (!profile && user.role === 'ADMINISTRATOR') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Choose the staff member to act as' });
+  }
+  if (!profile) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Staff profile not found' });
+  }
+
+  if (requestedStaffId !== undefined && requestedStaffId !== profile.id) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Cannot act on behalf of another staff member' });
+  }
+
+  return profile.id;
+}
+
+// Monthly statements are emailed through this, by the job in start() and by re-sends.
+// Null until MAIL_TRANSPORT is set.
+const mailTransport = createMailTransport();
+
+function requireMailTransport() {
+  if (!mailTransport) {
+    throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Email is not set up on this server (MAIL_TRANSPORT)' });
+  }
+  return mailTransport;
+}
+
+export const appRouter = router({
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
   // Authentication routes
+  // The session itself only ever travels in the cookie, never in a response body.
+  // With two-factor authentication on, the user only comes back from verifyTwoFactorLogin.
   login: publicProcedure
     .input(loginInputSchema)
-    .mutation(({ input }) => login(input)),
-  
+    .mutation(async ({ input, ctx }) => {
+      const { user, session } = await login(input, ctx.ip, ctx.userAgent);
+      appendCookies(ctx.res, sessionCookies(ctx.req, session.id));
+      return session.two_factor_pending
+        ? { user: null, two_factor_required: true }
+        : { user, two_factor_required: false };
+    }),
+
+  // The pending session isn't a valid one yet, so it is read straight from the cookie
+  verifyTwoFactorLogin: publicProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const sessionId = readCookie(ctx.req, SESSION_COOKIE);
+      if (!sessionId) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Sign-in has expired. Please log in again.' });
+      }
+      if (!hasValidCsrfToken(ctx.req, sessionId)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Invalid CSRF token' });
+      }
+      const user = await verifyTwoFactorLogin(sessionId, input, ctx.ip);
+      return { user };
+    }),
+
+  // Clears the cookies even when the session is already gone
   logout: publicProcedure
-    .input(z.object({ sessionId: z.string() }))
-    .mutation(({ input }) => logout(input.sessionId)),
-  
+    .mutation(async ({ ctx }) => {
+      if (ctx.sessionId && hasValidCsrfToken(ctx.req, ctx.sessionId)) {
+        await logout(ctx.sessionId);
+      }
+      appendCookies(ctx.res, expiredSessionCookies);
+      return { success: true };
+    }),
+
+  // The signed-in user, or null. Re-sends the cookies so a lost CSRF cookie is restored.
   validateSession: publicProcedure
-    .input(z.object({ sessionId: z.string() }))
-    .query(({ input }) => validateSession(input.sessionId)),
+    .query(({ ctx }) => {
+      if (ctx.sessionId) {
+        appendCookies(ctx.res, sessionCookies(ctx.req, ctx.sessionId));
+      }
+      return ctx.user;
+    }),
+
+  // The caller's own signed-in devices
+  getActiveSessions: protectedProcedure
+    .query(({ ctx }) => getActiveSessions(ctx.user.id, ctx.sessionId)),
+
+  revokeSession: protectedProcedure
+    .input(z.object({ publicId: z.string() }))
+    .mutation(({ input, ctx }) => revokeSession(ctx.user.id, input.publicId)),
+
+  signOutOtherSessions: protectedProcedure
+    .mutation(({ ctx }) => signOutOtherSessions(ctx.user.id, ctx.sessionId)),
+
+  // Two-factor authentication for the caller's own account
+  getTwoFactorStatus: enrolmentProcedure
+    .query(({ ctx }) => getTwoFactorStatus(ctx.user.id)),
+
+  beginTwoFactorEnrolment: enrolmentProcedure
+    .mutation(({ ctx }) => beginTwoFactorEnrolment(ctx.user.id)),
+
+  confirmTwoFactorEnrolment: enrolmentProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ input, ctx }) => confirmTwoFactorEnrolment(ctx.user.id, input)),
+
+  regenerateRecoveryCodes: protectedProcedure
+    .input(twoFactorCodeInputSchema)
+    .mutation(({ input, ctx }) => regenerateRecoveryCodes(ctx.user.id, input)),
+
+  disableTwoFactor: protectedProcedure
+    .input(disableTwoFactorInputSchema)
+    .mutation(({ input, ctx }) => disableTwoFactor(ctx.user.id, input)),
 
   // User management routes (Administrator)
-  createUser: publicProcedure
+  createUser: adminProcedure
     .input(createUserInputSchema)
     .mutation(({ input }) => createUser(input)),
   
-  getAllUsers: publicProcedure
+  getAllUsers: adminProcedure
     .query(() => getAllUsers()),
   
-  getUserById: publicProcedure
+  getUserById: adminProcedure
     .input(z.object({ id: z.number() }))
     .query(({ input }) => getUserById(input.id)),
   
-  updatePassword: publicProcedure
-    .input(updatePasswordInputSchema.extend({ userId: z.number() }))
-    .mutation(({ input }) => {
-      const { userId, ...passwordInput } = input;
-      return updatePassword(userId, passwordInput);
-    }),
+  updateUser: adminProcedure
+    .input(updateUserInputSchema)
+    .mutation(({ input }) => updateUser(input)),
+
+  updateContactDetails: protectedProcedure
+    .input(updateContactDetailsInputSchema)
+    .mutation(({ input, ctx }) => updateContactDetails(ctx.user.id, input)),
+
+  updatePassword: sessionProcedure
+    .input(updatePasswordInputSchema)
+    .mutation(({ input, ctx }) => updatePassword(ctx.user.id, input)),
   
-  resetPassword: publicProcedure
+  resetPassword: adminProcedure
     .input(resetPasswordInputSchema)
     .mutation(({ input }) => resetPassword(input)),
   
-  toggleUserStatus: publicProcedure
+  toggleUserStatus: adminProcedure
     .input(z.object({ userId: z.number() }))
     .mutation(({ input }) => toggleUserStatus(input.userId)),
 
+  forceLogout: adminProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(({ input }) => forceLogout(input.userId)),
+
+  // Two-factor policy and lost-phone resets (Administrator)
+  getTwoFactorRequirements: adminProcedure
+    .query(() => getTwoFactorRequirements()),
+
+  setTwoFactorRequirement: adminProcedure
+    .input(setTwoFactorRequirementInputSchema)
+    .mutation(({ input, ctx }) => setTwoFactorRequirement(ctx.user.id, input)),
+
+  resetTwoFactor: adminProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(({ input }) => resetTwoFactor(input.userId)),
+
+  // Login lockouts (Administrator)
+  getLoginLockouts: adminProcedure
+    .query(() => getLoginLockouts()),
+
+  unlockLogin: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => unlockLogin(input.id)),
+
+  // New temporary passwords for a class or staff group; print them via /credentials/slips
+  issueCredentials: adminProcedure
+    .input(issueCredentialsInputSchema)
+    .mutation(({ input }) => issueCredentials(input)),
+
+  // Audit log (Administrator); the CSV export is served by /audit/export
+  getAuditEvents: adminProcedure
+    .input(auditFiltersSchema)
+    .query(({ input }) => getAuditEvents(input)),
+
+  verifyAuditChain: adminProcedure
+    .query(() => verifyAuditChain()),
+
+  // Parent notifications and their delivery status (Administrator)
+  getNotifications: adminProcedure
+    .input(notificationFiltersSchema)
+    .query(({ input }) => getNotifications(input)),
+
+  retryNotification: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(({ input }) => retryNotification(input.id)),
+
+  // Emailed monthly statements (Administrator); the PDF preview is served by /statements/preview
+  getStatementDeliveries: adminProcedure
+    .input(statementDeliveryFiltersSchema)
+    .query(({ input }) => getStatementDeliveries(input)),
+
+  resendStatement: adminProcedure
+    .input(statementInputSchema)
+    .mutation(({ input, ctx }) => resendStatement(requireMailTransport(), ctx.user.id, input)),
+
   // Student management routes
-  createStudent: publicProcedure
+  createStudent: adminProcedure
     .input(createStudentInputSchema)
     .mutation(({ input }) => createStudent(input)),
+  importStudents: adminProcedure
+    .input(importStudentsInputSchema)
+    .mutation(({ input }) => importStudents(input)),
   
-  getAllStudents: publicProcedure
-    .query(() => getAllStudents()),
+  getAllStudents: staffProcedure
+    .query(async ({ ctx }) => getAllStudents(await getStudentScope(ctx.user))),
   
-  getStudentById: publicProcedure
+  getStudentById: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .query(({ input }) => getStudentById(input.id)),
+    .query(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.id);
+      return getStudentById(input.id);
+    }),
+
+  getMyStudentProfile: studentProcedure
+    .query(({ ctx }) => getStudentByUserId(ctx.user.id)),
   
-  getStudentsByClass: publicProcedure
+  getStudentsByClass: staffProcedure
     .input(z.object({ classId: z.number() }))
-    .query(({ input }) => getStudentsByClass(input.classId)),
+    .query(async ({ input, ctx }) => {
+      await assertClassAccess(ctx.user, input.classId);
+      return getStudentsByClass(input.classId);
+    }),
+
+  updateStudent: staffProcedure
+    .input(updateStudentInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== 'ADMINISTRATOR') {
+        const locked = STUDENT_IDENTITY_FIELDS.filter(field => input[field] !== undefined);
+        if (locked.length > 0) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: `Only administrators can change ${locked.join(', ')}` });
+        }
+      }
+      await assertStudentAccess(ctx.user, input.id);
+      // Moving a student out of reach would be a way around the limit
+      if (input.class_id !== undefined) {
+        await assertClassAccess(ctx.user, input.class_id);
+      }
+      return updateStudent(ctx.user.id, input);
+    }),
+
+  getStudentClassHistory: staffProcedure
+    .input(z.object({ studentId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.studentId);
+      return getStudentClassHistory(input.studentId);
+    }),
+
+  // Guardian (parent) accounts
+  getStudentGuardians: staffProcedure
+    .input(z.object({ studentId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.studentId);
+      return getStudentGuardians(input.studentId);
+    }),
+
+  createGuardianAccount: adminProcedure
+    .input(z.object({ studentId: z.number() }))
+    .mutation(({ input }) => createGuardianAccount(input.studentId)),
+
+  unlinkGuardian: adminProcedure
+    .input(unlinkGuardianInputSchema)
+    .mutation(({ input }) => unlinkGuardian(input)),
+
+  getMyChildren: parentProcedure
+    .query(({ ctx }) => getGuardianStudents(ctx.user.id)),
+
+  getMonthlyStatements: protectedProcedure
+    .input(z.object({ studentId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.studentId);
+      return getMonthlyStatements(input.studentId);
+    }),
 
   // Staff management routes
-  createStaff: publicProcedure
+  createStaff: adminProcedure
     .input(createStaffInputSchema)
     .mutation(({ input }) => createStaff(input)),
+
+  updateStaff: adminProcedure
+    .input(updateStaffInputSchema)
+    .mutation(({ input }) => updateStaff(input)),
   
-  getAllStaff: publicProcedure
+  getAllStaff: adminProcedure
     .query(() => getAllStaff()),
   
-  getStaffById: publicProcedure
+  getStaffById: staffProcedure
     .input(z.object({ id: z.number() }))
     .query(({ input }) => getStaffById(input.id)),
 
+  getMyStaffProfile: staffProcedure
+    .query(({ ctx }) => getStaffByUserId(ctx.user.id)),
+
   // Class management routes
-  createClass: publicProcedure
+  createClass: adminProcedure
     .input(createClassInputSchema)
     .mutation(({ input }) => createClass(input)),
   
-  getAllClasses: publicProcedure
+  getAllClasses: staffProcedure
     .query(() => getAllClasses()),
   
-  getClassById: publicProcedure
+  getClassById: staffProcedure
     .input(z.object({ id: z.number() }))
-    .query(({ input }) => getClassById(input.id)),
+    .query(async ({ input, ctx }) => {
+      await assertClassAccess(ctx.user, input.id);
+      return getClassById(input.id);
+    }),
   
-  updateClass: publicProcedure
+  updateClass: adminProcedure
     .input(createClassInputSchema.partial().extend({ id: z.number() }))
     .mutation(({ input }) => {
       const { id, ...updateData } = input;
       return updateClass(id, updateData);
     }),
   
-  deleteClass: publicProcedure
+  deleteClass: adminProcedure
     .input(z.object({ id: z.number() }))
     .mutation(({ input }) => deleteClass(input.id)),
 
+  // Academic year rollover
+  getRolloverPlan: adminProcedure
+    .input(z.object({ academicYear: z.string() }))
+    .query(({ input }) => getRolloverPlan(input.academicYear)),
+
+  rolloverAcademicYear: adminProcedure
+    .input(rolloverInputSchema)
+    .mutation(({ input, ctx }) => rolloverAcademicYear(ctx.user.id, input)),
+
+  getGraduatingStudents: adminProcedure
+    .query(() => getGraduatingStudents()),
+
+  // Staff assigned to classes, and whether staff are limited to them
+  getClassAssignments: staffProcedure
+    .input(z.object({ classId: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      if (input.classId !== undefined) {
+        await assertClassAccess(ctx.user, input.classId);
+      }
+      return getClassAssignments(input.classId);
+    }),
+
+  assignStaffToClass: adminProcedure
+    .input(assignStaffInputSchema)
+    .mutation(({ input, ctx }) => assignStaffToClass(ctx.user.id, input)),
+
+  unassignStaffFromClass: adminProcedure
+    .input(unassignStaffInputSchema)
+    .mutation(({ input }) => unassignStaffFromClass(input)),
+
+  getSchoolSettings: staffProcedure
+    .query(() => getSchoolSettings()),
+
+  updateSchoolSettings: adminProcedure
+    .input(updateSchoolSettingsInputSchema)
+    .mutation(({ input, ctx }) => updateSchoolSettings(ctx.user.id, input)),
+
   // Transaction routes
-  createTransaction: publicProcedure
-    .input(createTransactionInputSchema.extend({ staffId: z.number() }))
-    .mutation(({ input }) => {
-      const { staffId, ...transactionInput } = input;
-      return createTransaction(staffId, transactionInput);
+  createTransaction: staffProcedure
+    .input(createTransactionInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.student_id);
+      // The teller recorded on the ledger is always the authenticated caller
+      const staffId = await resolveStaffId(ctx.user);
+      return createTransaction(staffId, input);
     }),
   
-  getTransactionsByStudent: publicProcedure
+  reverseTransaction: staffProcedure
+    .input(reverseTransactionInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const transaction = await getTransactionById(input.transaction_id);
+      if (transaction) {
+        await assertStudentAccess(ctx.user, transaction.student_id);
+      }
+      const staffId = await resolveStaffId(ctx.user);
+      return reverseTransaction(staffId, input);
+    }),
+
+  reviewReversalRequest: adminProcedure
+    .input(reviewReversalInputSchema)
+    .mutation(({ input, ctx }) => reviewReversalRequest(ctx.user.id, input)),
+
+  getPendingReversalRequests: adminProcedure
+    .query(() => getPendingReversalRequests()),
+  
+  getTransactionsByStudent: protectedProcedure
     .input(z.object({ studentId: z.number() }))
-    .query(({ input }) => getTransactionsByStudent(input.studentId)),
+    .query(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.studentId);
+      return getTransactionsByStudent(input.studentId);
+    }),
   
-  getTransactionsByStaff: publicProcedure
-    .input(z.object({ staffId: z.number(), date: z.coerce.date().optional() }))
-    .query(({ input }) => getTransactionsByStaff(input.staffId, input.date)),
+  getTransactionsByStaff: staffProcedure
+    .input(z.object({ staffId: z.number().optional(), date: z.coerce.date().optional() }))
+    .query(async ({ input, ctx }) => {
+      const staffId = await resolveStaffId(ctx.user, input.staffId);
+      return getTransactionsByStaff(staffId, input.date);
+    }),
   
-  getTransactionsReport: publicProcedure
+  getTransactionsReport: staffProcedure
     .input(reportFiltersSchema)
-    .query(({ input }) => getTransactionsReport(input)),
+    .query(async ({ input, ctx }) => getTransactionsReport(input, await assertReportAccess(ctx.user, input))),
   
-  getDailyTransactionSummary: publicProcedure
+  getDailyTransactionSummary: staffProcedure
     .input(z.object({ date: z.coerce.date() }))
-    .query(({ input }) => getDailyTransactionSummary(input.date)),
+    .query(async ({ input, ctx }) => getDailyTransactionSummary(input.date, await getStudentScope(ctx.user))),
+
+  // Passbook routes (the printout itself is served by /passbooks/export)
+  getPassbookStatus: staffProcedure
+    .input(z.object({ studentId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.studentId);
+      return getPassbookStatus(input.studentId);
+    }),
+
+  recordPassbookPrint: staffProcedure
+    .input(recordPassbookPrintInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.student_id);
+      return recordPassbookPrint(ctx.user.id, input);
+    }),
+
+  // Account closure routes (receipts are served by /closures/receipt)
+  setStudentStatus: staffProcedure
+    .input(setStudentStatusInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.student_id);
+      return setStudentStatus(input);
+    }),
+
+  closeAccount: staffProcedure
+    .input(closeAccountInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.student_id);
+      const staffId = await resolveStaffId(ctx.user);
+      return closeAccount(staffId, input);
+    }),
+
+  closeClassAccounts: adminProcedure
+    .input(closeClassAccountsInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      if (input.staff_id !== undefined && !await getStaffById(input.staff_id)) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Staff member not found' });
+      }
+      const staffId = await resolveStaffId(ctx.user, input.staff_id);
+      return closeClassAccounts(staffId, input);
+    }),
 
   // Dashboard routes
-  getDashboardStats: publicProcedure
-    .input(z.object({ userRole: userRoleSchema, userId: z.number().optional() }))
-    .query(({ input }) => getDashboardStats(input.userRole, input.userId)),
+  getDashboardStats: protectedProcedure
+    .query(({ ctx }) => getDashboardStats(ctx.user.role, ctx.user.id)),
   
-  getStudentDashboard: publicProcedure
+  getStudentDashboard: protectedProcedure
     .input(z.object({ studentId: z.number() }))
-    .query(({ input }) => getStudentDashboard(input.studentId)),
+    .query(async ({ input, ctx }) => {
+      await assertStudentAccess(ctx.user, input.studentId);
+      return getStudentDashboard(input.studentId);
+    }),
   
-  getStaffDashboard: publicProcedure
-    .input(z.object({ staffId: z.number() }))
-    .query(({ input }) => getStaffDashboard(input.staffId))
+  getStaffDashboard: staffProcedure
+    .input(z.object({ staffId: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      const staffId = await resolveStaffId(ctx.user, input.staffId);
+      return getStaffDashboard(staffId);
+    })
 });
 
 export type AppRouter = typeof appRouter;
 
+// File downloads can't go through tRPC, so they get plain HTTP routes next to it.
+// Each one is limited to staff (or fewer roles), reads its input from the query string
+// (or the JSON body of a POST) and streams the file.
+class DownloadError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+type DownloadRoute = (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => Promise<void>;
+
+type DownloadRouteOptions = {
+  method?: 'GET' | 'POST'; // POST for input that must stay out of URLs and logs
+  roles?: UserRole[];
+};
+
+// Upper bound for POSTed download input
+const MAX_DOWNLOAD_BODY_BYTES = 1_000_000;
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_DOWNLOAD_BODY_BYTES) {
+      throw new DownloadError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new DownloadError(400, 'Request body must be JSON');
+  }
+}
+
+function downloadRoute<T>(
+  name: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  send: (input: T, res: http.ServerResponse, req: http.IncomingMessage, user: User) => Promise<void>,
+  { method = 'GET', roles = ['ADMINISTRATOR', 'STAFF'] }: DownloadRouteOptions = {}
+): DownloadRoute {
+  return async (req, res, url) => {
+    const sendError = (status: number, message: string) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: message }));
+    };
+
+    // A failure anywhere, the session lookup included, still gets an answer
+    try {
+      if (req.method !== method) {
+        return sendError(405, 'Method not allowed');
+      }
+
+      const { user, sessionId } = await resolveSession(req);
+      if (!user || !sessionId) {
+        return sendError(401, 'Authentication required');
+      }
+      if (method === 'POST' && !hasValidCsrfToken(req, sessionId)) {
+        return sendError(403, 'Invalid CSRF token');
+      }
+      if (!roles.includes(user.role)) {
+        return sendError(403, 'Insufficient permissions');
+      }
+      if (user.must_change_password) {
+        return sendError(403, PASSWORD_CHANGE_REQUIRED);
+      }
+      if (await isTwoFactorSetupPending(user)) {
+        return sendError(403, TWO_FACTOR_SETUP_REQUIRED);
+      }
+
+      let rawInput: unknown;
+      try {
+        rawInput = method === 'GET' ? Object.fromEntries(url.searchParams) : await readJsonBody(req);
+      } catch (error) {
+        const status = error instanceof DownloadError ? error.status : 400;
+        return sendError(status, error instanceof Error ? error.message : 'Invalid request');
+      }
+
+      const parsed = schema.safeParse(rawInput);
+      if (!parsed.success) {
+        return sendError(400, parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+      }
+
+      await send(parsed.data, res, req, user);
+    } catch (error) {
+      console.error(`${name} failed:`, error);
+      if (res.headersSent) {
+        res.destroy();
+      } else if (error instanceof DownloadError) {
+        sendError(error.status, error.message);
+      } else if (error instanceof TRPCError && error.code === 'FORBIDDEN') {
+        sendError(403, error.message);
+      } else {
+        sendError(500, `${name} failed`);
+      }
+    }
+  };
+}
+
+export const downloadRoutes: Record<string, DownloadRoute> = {
+  // GET /reports/export?report_type=…&format=…
+  '/reports/export': downloadRoute('Report export', reportExportInputSchema, async (input, res, _req, user) => {
+    const report = await buildReport(input, await assertReportAccess(user, input));
+    res.writeHead(200, {
+      'Content-Type': REPORT_CONTENT_TYPES[input.format],
+      'Content-Disposition': `attachment; filename="${reportFileName(report, input.format)}"`
+    });
+    await writeReport(report, input.format, res);
+  }),
+
+  // GET /passbooks/export?student_id=…&mode=FULL|CONTINUE
+  '/passbooks/export': downloadRoute('Passbook printing', passbookExportInputSchema, async (input, res, _req, user) => {
+    await assertStudentAccess(user, input.student_id);
+    const passbook = await getPassbook(input);
+    if (input.mode === 'CONTINUE' && passbook.lines.length === 0) {
+      throw new DownloadError(409, 'No new transactions to print');
+    }
+    res.writeHead(200, {
+      'Content-Type': REPORT_CONTENT_TYPES.PDF,
+      'Content-Disposition': `attachment; filename="passbook-${passbook.student.nis}.pdf"`,
+      // The client confirms the print with this id once the book is printed
+      'X-Passbook-Through-Transaction': String(passbook.through_transaction_id ?? '')
+    });
+    await writePassbookPdf(passbook, PASSBOOK_LINES_PER_PAGE, res);
+  }),
+
+  // GET /closures/receipt?student_id=… or ?class_id=…
+  '/closures/receipt': downloadRoute('Closure receipt', closureReceiptExportInputSchema, async (input, res, _req, user) => {
+    if (input.student_id !== undefined) {
+      await assertStudentAccess(user, input.student_id);
+    }
+    if (input.class_id !== undefined) {
+      await assertClassAccess(user, input.class_id);
+    }
+    const receipts = await getClosureReceipts(input);
+    if (receipts.length === 0) {
+      throw new DownloadError(404, 'No closed accounts found');
+    }
+    const name = input.student_id !== undefined ? receipts[0].student.nis : `class-${input.class_id}`;
+    res.writeHead(200, {
+      'Content-Type': REPORT_CONTENT_TYPES.PDF,
+      'Content-Disposition': `attachment; filename="closure-receipt-${name}.pdf"`
+    });
+    await writeClosureReceiptsPdf(receipts, res);
+  }),
+
+  // GET /statements/preview?student_id=…&month=YYYY-MM - the PDF as it would be emailed
+  '/statements/preview': downloadRoute('Statement preview', statementInputSchema, async (input, res) => {
+    const statement = await getStatementDocument(input.student_id, input.month);
+    res.writeHead(200, {
+      'Content-Type': REPORT_CONTENT_TYPES.PDF,
+      'Content-Disposition': `inline; filename="statement-${statement.student.nis}-${input.month}.pdf"`
+    });
+    await writeStatementPdf(statement, res);
+  }, { roles: ['ADMINISTRATOR'] }),
+
+  // GET /audit/export?action=…&start_date=… - always CSV
+  '/audit/export': downloadRoute('Audit log export', auditExportInputSchema, async (input, res) => {
+    const report = await buildAuditReport(input);
+    res.writeHead(200, {
+      'Content-Type': REPORT_CONTENT_TYPES.CSV,
+      'Content-Disposition': `attachment; filename="${reportFileName(report, 'CSV')}"`
+    });
+    await writeReport(report, 'CSV', res);
+  }, { roles: ['ADMINISTRATOR'] }),
+
+  // POST /credentials/slips with { credentials: [...] } - the passwords never appear in a URL
+  '/credentials/slips': downloadRoute('Credential slips', credentialSlipsInputSchema, async (input, res, req) => {
+    // Slips point at the app the admin is using unless APP_URL says otherwise
+    const loginUrl = process.env['APP_URL'] || req.headers.origin || 'http://localhost:5173';
+    res.writeHead(200, {
+      'Content-Type': REPORT_CONTENT_TYPES.PDF,
+      'Content-Disposition': 'attachment; filename="credential-slips.pdf"'
+    });
+    await writeCredentialSlipsPdf(input.credentials, loginUrl, res);
+  }, { method: 'POST', roles: ['ADMINISTRATOR'] })
+};
+
+const SESSION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const NOTIFICATION_POLL_INTERVAL_MS = 15 * 1000;
+const STATEMENT_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
 async function start() {
+  await protectAuditLog();
+
   const port = process.env['SERVER_PORT'] || 2022;
-  const server = createHTTPServer({
-    middleware: (req, res, next) => {
-      cors()(req, res, next);
-    },
+  const trpcHandler = createHTTPHandler({
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
+  });
+  const server = http.createServer((req, res) => {
+    cors()(req, res, () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const downloadRoute = downloadRoutes[url.pathname];
+      if (downloadRoute) {
+        void downloadRoute(req, res, url);
+        return;
+      }
+      trpcHandler(req, res);
+    });
   });
   server.listen(port);
   console.log(`Student Savings TRPC server listening at port: ${port}`);
+
+  // Expired sessions are refused anyway; this only keeps the table from growing forever
+  const purgeSessions = () => purgeExpiredSessions().catch(() => undefined);
+  void purgeSessions();
+  setInterval(purgeSessions, SESSION_PURGE_INTERVAL_MS).unref();
+
+  // Parent notifications wait in the outbox until this worker gets them out
+  const messageProvider = createMessageProvider();
+  if (messageProvider) {
+    const deliverNotifications = () => deliverPendingNotifications(messageProvider)
+      .catch(error => console.error('Notification delivery failed:', error));
+    setInterval(deliverNotifications, NOTIFICATION_POLL_INTERVAL_MS).unref();
+  } else {
+    console.warn('NOTIFICATION_PROVIDER is not set; parent notifications will wait in the outbox');
+  }
+
+  // Last month's statements go out once the month is over; later runs only pick up students
+  // whose statement hasn't gone out yet, including failed ones that are due for another try
+  if (mailTransport) {
+    const sendStatements = () => sendMonthlyStatements(mailTransport, previousMonth(new Date()))
+      .then(({ sent, failed }) => {
+        if (sent + failed > 0) {
+          console.log(`Monthly statements: ${sent} sent, ${failed} failed`);
+        }
+      })
+      .catch(error => console.error('Monthly statements failed:', error));
+    void sendStatements();
+    setInterval(sendStatements, STATEMENT_JOB_INTERVAL_MS).unref();
+  } else {
+    console.warn('MAIL_TRANSPORT is not set; monthly statements will not be emailed');
+  }
 }
 
-start();
+// Tests import the router without starting the server
+if (import.meta.main) {
+  start();
+}
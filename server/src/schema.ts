@@ -1,25 +1,43 @@
 
 import { z } from 'zod';
 
+// Money: IDR amounts with at most two decimal places, within numeric(12,2)
+export const moneySchema = z.number()
+  .finite()
+  .refine(value => Math.abs(value) < 1e10, 'Amount is out of range')
+  .refine(value => /^-?\d+(\.\d{1,2})?$/.test(value.toString()), 'Amount cannot have more than two decimal places');
+
 // User role enum
-export const userRoleSchema = z.enum(['ADMINISTRATOR', 'STAFF', 'STUDENT']);
+export const userRoleSchema = z.enum(['ADMINISTRATOR', 'STAFF', 'STUDENT', 'PARENT']);
 export type UserRole = z.infer<typeof userRoleSchema>;
 
 // Transaction type enum
 export const transactionTypeSchema = z.enum(['DEPOSIT', 'WITHDRAWAL']);
 export type TransactionType = z.infer<typeof transactionTypeSchema>;
 
-// User schema
+// Reversal request status enum
+export const reversalStatusSchema = z.enum(['PENDING', 'APPROVED', 'REJECTED']);
+export type ReversalStatus = z.infer<typeof reversalStatusSchema>;
+
+// Savings account status enum
+export const studentStatusSchema = z.enum(['ACTIVE', 'FROZEN', 'CLOSED']);
+export type StudentStatus = z.infer<typeof studentStatusSchema>;
+
+// Parent notification delivery status enum
+export const notificationStatusSchema = z.enum(['PENDING', 'SENDING', 'SENT', 'FAILED']);
+export type NotificationStatus = z.infer<typeof notificationStatusSchema>;
+
+// User schema; the password hash never leaves the server
 export const userSchema = z.object({
   id: z.number(),
   username: z.string(),
-  password_hash: z.string(),
   role: userRoleSchema,
   full_name: z.string(),
   email: z.string().email().nullable(),
   phone: z.string().nullable(),
   is_active: z.boolean(),
   must_change_password: z.boolean(),
+  two_factor_enabled: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -32,6 +50,7 @@ export const classSchema = z.object({
   name: z.string(),
   description: z.string().nullable(),
   academic_year: z.string(),
+  is_graduating: z.boolean(),
   created_at: z.coerce.date()
 });
 
@@ -46,7 +65,9 @@ export const studentProfileSchema = z.object({
   parent_name: z.string().nullable(),
   parent_phone: z.string().nullable(),
   address: z.string().nullable(),
-  current_balance: z.number(),
+  current_balance: moneySchema,
+  status: studentStatusSchema,
+  notify_parent: z.boolean(), // Parent is messaged about deposits and withdrawals
   created_at: z.coerce.date()
 });
 
@@ -70,26 +91,124 @@ export const transactionSchema = z.object({
   student_id: z.number(),
   staff_id: z.number(),
   type: transactionTypeSchema,
-  amount: z.number(),
-  balance_before: z.number(),
-  balance_after: z.number(),
+  amount: moneySchema,
+  balance_before: moneySchema,
+  balance_after: moneySchema,
   description: z.string().nullable(),
+  reverses_transaction_id: z.number().nullable(), // Set on compensating entries
+  idempotency_key: z.string().nullable(),
   transaction_date: z.coerce.date(),
   created_at: z.coerce.date()
 });
 
 export type Transaction = z.infer<typeof transactionSchema>;
 
+// Reversal request schema
+export const reversalRequestSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  requested_by: z.number(),
+  reason: z.string(),
+  status: reversalStatusSchema,
+  reviewed_by: z.number().nullable(),
+  reviewed_at: z.coerce.date().nullable(),
+  reversal_transaction_id: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ReversalRequest = z.infer<typeof reversalRequestSchema>;
+
 // Session schema for authentication
 export const sessionSchema = z.object({
   id: z.string(),
+  public_id: z.string(),
   user_id: z.number(),
+  user_agent: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  last_seen_at: z.coerce.date(),
   expires_at: z.coerce.date(),
+  two_factor_pending: z.boolean(),
+  two_factor_attempts: z.number().int(),
   created_at: z.coerce.date()
 });
 
 export type Session = z.infer<typeof sessionSchema>;
 
+// A signed-in device as the account owner sees it - without the session secret
+export const activeSessionSchema = sessionSchema.omit({
+  id: true,
+  user_id: true,
+  two_factor_pending: true,
+  two_factor_attempts: true
+}).extend({
+  is_current: z.boolean()
+});
+
+export type ActiveSession = z.infer<typeof activeSessionSchema>;
+
+export const loginThrottleScopeSchema = z.enum(['USERNAME', 'IP']);
+export type LoginThrottleScope = z.infer<typeof loginThrottleScopeSchema>;
+
+// A username or client IP that is locked out after too many failed logins
+export const loginLockoutSchema = z.object({
+  id: z.number(),
+  scope: loginThrottleScopeSchema,
+  key: z.string(),
+  full_name: z.string().nullable(), // Account owner when the username belongs to a real account
+  failure_count: z.number().int(),
+  locked_until: z.coerce.date()
+});
+
+export type LoginLockout = z.infer<typeof loginLockoutSchema>;
+
+// Two-factor authentication (authenticator app codes)
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  required: z.boolean(), // The user's role has to use it
+  recovery_codes_remaining: z.number().int()
+});
+
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+
+// Shown once while enrolling; the secret is for typing in when the QR code can't be scanned
+export const twoFactorEnrolmentSchema = z.object({
+  secret: z.string(),
+  otpauth_uri: z.string(),
+  qr_code_data_url: z.string()
+});
+
+export type TwoFactorEnrolment = z.infer<typeof twoFactorEnrolmentSchema>;
+
+// A six digit app code, or a recovery code where the step allows one
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string().trim().min(6).max(20)
+});
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+export const recoveryCodesSchema = z.object({
+  recovery_codes: z.array(z.string())
+});
+
+export type RecoveryCodes = z.infer<typeof recoveryCodesSchema>;
+
+export const disableTwoFactorInputSchema = z.object({
+  password: z.string()
+});
+
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorInputSchema>;
+
+// Students can't use two-factor authentication, so only these roles can be made to
+export const twoFactorRoleSchema = z.enum(['ADMINISTRATOR', 'STAFF']);
+export type TwoFactorRole = z.infer<typeof twoFactorRoleSchema>;
+
+export const setTwoFactorRequirementInputSchema = z.object({
+  role: twoFactorRoleSchema,
+  required: z.boolean()
+});
+
+export type SetTwoFactorRequirementInput = z.infer<typeof setTwoFactorRequirementInputSchema>;
+
 // Input schemas
 
 // Login input
@@ -112,6 +231,25 @@ export const createUserInputSchema = z.object({
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+// Edit an account (administrators); fields left out stay as they are
+export const updateUserInputSchema = z.object({
+  id: z.number(),
+  username: z.string().trim().min(1).max(50).optional(), // Students sign in with their NIS, which is changed on the profile instead
+  full_name: z.string().trim().min(1).optional(),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().max(20).nullable().optional()
+});
+
+export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
+
+// What anyone may change about their own account from the settings tab
+export const updateContactDetailsInputSchema = z.object({
+  email: z.string().email().nullable(),
+  phone: z.string().max(20).nullable()
+});
+
+export type UpdateContactDetailsInput = z.infer<typeof updateContactDetailsInputSchema>;
+
 // Create student input
 export const createStudentInputSchema = z.object({
   full_name: z.string(),
@@ -121,11 +259,111 @@ export const createStudentInputSchema = z.object({
   parent_phone: z.string().nullable().optional(),
   address: z.string().nullable().optional(),
   email: z.string().email().nullable().optional(),
-  phone: z.string().nullable().optional()
+  phone: z.string().nullable().optional(),
+  // Sign the parent up as a guardian, with their phone number as the username. A parent who
+  // already has an account, through a sibling, is linked to this student instead.
+  create_guardian_account: z.boolean().optional()
 });
 
 export type CreateStudentInput = z.infer<typeof createStudentInputSchema>;
 
+// Edit a student; fields left out stay as they are. The NIS doubles as the login username,
+// so changing it changes what the student signs in with.
+export const updateStudentInputSchema = z.object({
+  id: z.number(),
+  full_name: z.string().trim().min(1).optional(),
+  nis: z.string().trim().min(1).max(20).optional(),
+  class_id: z.number().optional(),
+  class_change_reason: z.string().trim().max(500).nullable().optional(), // Kept with the class history
+  parent_name: z.string().nullable().optional(),
+  parent_phone: z.string().max(20).nullable().optional(),
+  address: z.string().nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().max(20).nullable().optional(),
+  is_active: z.boolean().optional(), // Whether the student can sign in; the savings account is frozen separately
+  notify_parent: z.boolean().optional()
+});
+
+export type UpdateStudentInput = z.infer<typeof updateStudentInputSchema>;
+
+// Class history: rollovers move a whole year at once, transfers move one student during the year
+export const classChangeKindSchema = z.enum(['ROLLOVER', 'TRANSFER']);
+
+export type ClassChangeKind = z.infer<typeof classChangeKindSchema>;
+
+export const classChangeSchema = z.object({
+  id: z.number(),
+  kind: classChangeKindSchema,
+  from_class: z.object({ id: z.number(), name: z.string(), academic_year: z.string() }),
+  to_class: z.object({ id: z.number(), name: z.string(), academic_year: z.string() }).nullable(), // Null when the student graduated
+  reason: z.string().nullable(),
+  changed_by_name: z.string(),
+  changed_at: z.coerce.date()
+});
+
+export type ClassChange = z.infer<typeof classChangeSchema>;
+
+// Login details for a new account, shown to the administrator once and never stored in plain text
+export const credentialSchema = z.object({
+  username: z.string(),
+  full_name: z.string(),
+  initial_password: z.string()
+});
+
+export type Credential = z.infer<typeof credentialSchema>;
+
+// Re-issue temporary passwords for a class or for staff (optionally one department)
+export const issueCredentialsInputSchema = z.discriminatedUnion('group', [
+  z.object({ group: z.literal('CLASS'), class_id: z.number() }),
+  z.object({ group: z.literal('STAFF'), department: z.string().nullable() })
+]);
+
+export type IssueCredentialsInput = z.infer<typeof issueCredentialsInputSchema>;
+
+export const issueCredentialsResultSchema = z.object({
+  credentials: z.array(credentialSchema),
+  skipped: z.number().int() // Inactive accounts and accounts whose owner already set a password
+});
+
+export type IssueCredentialsResult = z.infer<typeof issueCredentialsResultSchema>;
+
+// Body of the slip printing route
+export const credentialSlipsInputSchema = z.object({
+  credentials: z.array(credentialSchema).min(1).max(2000)
+});
+
+export type CredentialSlipsInput = z.infer<typeof credentialSlipsInputSchema>;
+
+// Bulk student import: the spreadsheet travels base64 encoded inside the request
+export const importStudentsInputSchema = z.object({
+  file_name: z.string().regex(/\.(csv|xlsx)$/i, 'Upload a .csv or .xlsx file'),
+  content_base64: z.string().max(7_000_000, 'File is too large (5 MB maximum)'),
+  dry_run: z.boolean(), // Validate only; nothing is written
+  create_guardian_accounts: z.boolean().optional() // As create_guardian_account, for every row
+});
+
+export type ImportStudentsInput = z.infer<typeof importStudentsInputSchema>;
+
+export const importRowErrorSchema = z.object({
+  row: z.number().int(), // Spreadsheet row number, the header being row 1
+  nis: z.string().nullable(),
+  message: z.string()
+});
+
+export type ImportRowError = z.infer<typeof importRowErrorSchema>;
+
+export const importStudentsResultSchema = z.object({
+  dry_run: z.boolean(),
+  total_rows: z.number().int(),
+  valid_rows: z.number().int(),
+  errors: z.array(importRowErrorSchema),
+  created: z.number().int(),
+  credentials: z.array(credentialSchema), // One per created student
+  guardian_credentials: z.array(credentialSchema) // One per new guardian account; siblings share one
+});
+
+export type ImportStudentsResult = z.infer<typeof importStudentsResultSchema>;
+
 // Create staff input
 export const createStaffInputSchema = z.object({
   username: z.string(),
@@ -140,6 +378,16 @@ export const createStaffInputSchema = z.object({
 
 export type CreateStaffInput = z.infer<typeof createStaffInputSchema>;
 
+// Name and contact details live on the user and go through updateUser
+export const updateStaffInputSchema = z.object({
+  id: z.number(),
+  employee_id: z.string().trim().min(1).max(20).optional(),
+  department: z.string().max(100).nullable().optional(),
+  position: z.string().max(100).nullable().optional()
+});
+
+export type UpdateStaffInput = z.infer<typeof updateStaffInputSchema>;
+
 // Create class input
 export const createClassInputSchema = z.object({
   name: z.string(),
@@ -149,16 +397,214 @@ export const createClassInputSchema = z.object({
 
 export type CreateClassInput = z.infer<typeof createClassInputSchema>;
 
+// Academic year rollover
+export const rolloverActionSchema = z.enum(['PROMOTE', 'GRADUATE']);
+
+export type RolloverAction = z.infer<typeof rolloverActionSchema>;
+
+export const rolloverPlanSchema = z.object({
+  from_academic_year: z.string(),
+  to_academic_year: z.string(), // Suggested, empty when the year format is not recognised
+  classes: z.array(z.object({
+    class: classSchema,
+    student_count: z.number().int(),
+    action: rolloverActionSchema,
+    new_class_name: z.string().nullable()
+  }))
+});
+
+export type RolloverPlan = z.infer<typeof rolloverPlanSchema>;
+
+export const rolloverInputSchema = z.object({
+  from_academic_year: z.string().trim().min(1),
+  to_academic_year: z.string().trim().min(1),
+  classes: z.array(z.object({
+    class_id: z.number().int(),
+    action: rolloverActionSchema,
+    new_class_name: z.string().trim().min(1).nullable() // Required when promoting
+  })).min(1)
+}).refine(input => input.from_academic_year !== input.to_academic_year, {
+  message: 'The new academic year must differ from the current one',
+  path: ['to_academic_year']
+}).refine(input => input.classes.every(entry => entry.action === 'GRADUATE' || entry.new_class_name !== null), {
+  message: 'Every promoted class needs a new class name',
+  path: ['classes']
+});
+
+export type RolloverInput = z.infer<typeof rolloverInputSchema>;
+
+export const rolloverResultSchema = z.object({
+  to_academic_year: z.string(),
+  created_classes: z.array(classSchema),
+  promoted_students: z.number().int(),
+  graduated_students: z.number().int()
+});
+
+export type RolloverResult = z.infer<typeof rolloverResultSchema>;
+
+// Staff assigned to a class, with the name to show for them
+export const classAssignmentSchema = z.object({
+  id: z.number(),
+  class_id: z.number(),
+  staff_id: z.number(),
+  staff_name: z.string(),
+  employee_id: z.string(),
+  is_homeroom: z.boolean(),
+  assigned_at: z.coerce.date()
+});
+
+export type ClassAssignment = z.infer<typeof classAssignmentSchema>;
+
+// Assigning someone already on the class only changes whether they are its homeroom teacher
+export const assignStaffInputSchema = z.object({
+  class_id: z.number(),
+  staff_id: z.number(),
+  is_homeroom: z.boolean().default(false)
+});
+
+export type AssignStaffInput = z.infer<typeof assignStaffInputSchema>;
+
+export const unassignStaffInputSchema = z.object({
+  class_id: z.number(),
+  staff_id: z.number()
+});
+
+export type UnassignStaffInput = z.infer<typeof unassignStaffInputSchema>;
+
+// Guardian accounts linked to a student
+export const studentGuardianSchema = z.object({
+  user_id: z.number(),
+  username: z.string(),
+  full_name: z.string(),
+  phone: z.string().nullable(),
+  is_active: z.boolean(),
+  linked_at: z.coerce.date()
+});
+
+export type StudentGuardian = z.infer<typeof studentGuardianSchema>;
+
+export const unlinkGuardianInputSchema = z.object({
+  student_id: z.number(),
+  guardian_user_id: z.number()
+});
+
+export type UnlinkGuardianInput = z.infer<typeof unlinkGuardianInputSchema>;
+
+// One calendar month of a student's savings account, for months with any activity
+export const monthlyStatementSchema = z.object({
+  month: z.string(), // YYYY-MM
+  opening_balance: z.number(),
+  deposits: z.number(),
+  withdrawals: z.number(),
+  closing_balance: z.number(),
+  transaction_count: z.number().int()
+});
+
+export type MonthlyStatement = z.infer<typeof monthlyStatementSchema>;
+
+export const statementMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM form');
+
+// The statement of one month as it is printed: every entry between the opening and closing balance
+export const statementDocumentSchema = z.object({
+  student: z.object({
+    id: z.number(),
+    full_name: z.string(),
+    nis: z.string(),
+    class_name: z.string(),
+    parent_name: z.string().nullable()
+  }),
+  month: statementMonthSchema,
+  opening_balance: z.number(),
+  deposits: z.number(),
+  withdrawals: z.number(),
+  closing_balance: z.number(),
+  lines: z.array(z.object({
+    transaction_id: z.number(),
+    date: z.coerce.date(),
+    type: transactionTypeSchema,
+    description: z.string().nullable(),
+    amount: z.number(),
+    balance_after: z.number()
+  })),
+  generated_at: z.coerce.date()
+});
+
+export type StatementDocument = z.infer<typeof statementDocumentSchema>;
+
+export const statementDeliveryStatusSchema = z.enum(['SENDING', 'SENT', 'FAILED']);
+export type StatementDeliveryStatus = z.infer<typeof statementDeliveryStatusSchema>;
+
+export const statementDeliverySchema = z.object({
+  id: z.number(),
+  student_id: z.number(),
+  student_name: z.string(),
+  nis: z.string(),
+  month: statementMonthSchema,
+  recipients: z.string(),
+  status: statementDeliveryStatusSchema,
+  transport: z.string(),
+  message_id: z.string().nullable(),
+  error: z.string().nullable(),
+  sent_by_name: z.string().nullable(), // Null when the monthly job sent it
+  created_at: z.coerce.date()
+});
+
+export type StatementDelivery = z.infer<typeof statementDeliverySchema>;
+
+export const statementDeliveryFiltersSchema = z.object({
+  month: statementMonthSchema,
+  status: statementDeliveryStatusSchema.optional(),
+  student_id: z.number().optional()
+});
+
+export type StatementDeliveryFilters = z.infer<typeof statementDeliveryFiltersSchema>;
+
+export const statementInputSchema = z.object({
+  student_id: z.coerce.number().int().positive(),
+  month: statementMonthSchema
+});
+
+export type StatementInput = z.infer<typeof statementInputSchema>;
+
+// School-wide settings
+export const schoolSettingsSchema = z.object({
+  // Staff only see and serve students of the classes they are assigned to; administrators are never limited
+  restrict_staff_to_assigned_classes: z.boolean()
+});
+
+export type SchoolSettings = z.infer<typeof schoolSettingsSchema>;
+
+export const updateSchoolSettingsInputSchema = schoolSettingsSchema.partial();
+
+export type UpdateSchoolSettingsInput = z.infer<typeof updateSchoolSettingsInputSchema>;
+
 // Create transaction input
 export const createTransactionInputSchema = z.object({
   student_id: z.number(),
   type: transactionTypeSchema,
-  amount: z.number().positive(),
-  description: z.string().nullable().optional()
+  amount: moneySchema.refine(amount => amount > 0, 'Amount must be greater than 0'),
+  description: z.string().nullable().optional(),
+  idempotency_key: z.string().min(1).max(100).optional() // Reused on retries of the same submit
 });
 
 export type CreateTransactionInput = z.infer<typeof createTransactionInputSchema>;
 
+// Reverse transaction input
+export const reverseTransactionInputSchema = z.object({
+  transaction_id: z.number(),
+  reason: z.string().trim().min(1, 'A reason is required')
+});
+
+export type ReverseTransactionInput = z.infer<typeof reverseTransactionInputSchema>;
+
+// Review reversal input (for administrators)
+export const reviewReversalInputSchema = z.object({
+  request_id: z.number(),
+  approve: z.boolean()
+});
+
+export type ReviewReversalInput = z.infer<typeof reviewReversalInputSchema>;
+
 // Update password input
 export const updatePasswordInputSchema = z.object({
   current_password: z.string(),
@@ -176,21 +622,274 @@ export const resetPasswordInputSchema = z.object({
 export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
 
 // Report filters
+export const reportSortFieldSchema = z.enum(['transaction_date', 'amount', 'student_name']);
+export type ReportSortField = z.infer<typeof reportSortFieldSchema>;
+
 export const reportFiltersSchema = z.object({
   start_date: z.coerce.date().optional(),
   end_date: z.coerce.date().optional(),
   student_id: z.number().optional(),
   class_id: z.number().optional(),
-  transaction_type: transactionTypeSchema.optional()
+  transaction_type: transactionTypeSchema.optional(),
+  // Newest first unless asked otherwise; without a limit every matching row is returned
+  sort_by: reportSortFieldSchema.optional(),
+  sort_order: z.enum(['asc', 'desc']).optional(),
+  limit: z.number().int().positive().max(500).optional(),
+  offset: z.number().int().nonnegative().optional()
 });
 
 export type ReportFilters = z.infer<typeof reportFiltersSchema>;
 
+// Report export schemas
+export const reportTypeSchema = z.enum(['GLOBAL', 'CLASS', 'STUDENT', 'TRANSACTIONS', 'MONTHLY']);
+export type ReportType = z.infer<typeof reportTypeSchema>;
+
+export const reportFormatSchema = z.enum(['CSV', 'XLSX', 'PDF']);
+export type ReportFormat = z.infer<typeof reportFormatSchema>;
+
+// Parsed from the query string of the export route, hence the coerced ids
+export const reportExportInputSchema = reportFiltersSchema.omit({ limit: true, offset: true }).extend({
+  report_type: reportTypeSchema,
+  format: reportFormatSchema,
+  student_id: z.coerce.number().int().positive().optional(),
+  class_id: z.coerce.number().int().positive().optional()
+});
+
+export type ReportExportInput = z.infer<typeof reportExportInputSchema>;
+
+export const reportColumnSchema = z.object({
+  key: z.string(),
+  header: z.string(),
+  kind: z.enum(['text', 'number', 'money', 'date'])
+});
+
+export type ReportColumn = z.infer<typeof reportColumnSchema>;
+
+const reportValueSchema = z.union([z.string(), z.number(), z.date(), z.null()]);
+
+export const reportSchema = z.object({
+  title: z.string(),
+  period: z.string(),
+  generated_at: z.date(),
+  columns: z.array(reportColumnSchema),
+  rows: z.array(z.record(reportValueSchema)),
+  totals: z.record(reportValueSchema).nullable()
+});
+
+export type Report = z.infer<typeof reportSchema>;
+
+// Passbook (buku tabungan) schemas
+export const passbookModeSchema = z.enum(['FULL', 'CONTINUE']); // Whole new book, or only lines not yet printed
+export type PassbookMode = z.infer<typeof passbookModeSchema>;
+
+export const passbookStatusSchema = z.object({
+  student_id: z.number(),
+  last_printed_transaction_id: z.number().nullable(),
+  printed_lines: z.number().int(),
+  pending_lines: z.number().int(),
+  updated_at: z.coerce.date().nullable()
+});
+
+export type PassbookStatus = z.infer<typeof passbookStatusSchema>;
+
+export const passbookLineSchema = z.object({
+  line: z.number().int(), // Position in the book, starting at 1
+  transaction_id: z.number(),
+  date: z.coerce.date(),
+  code: z.enum(['SETOR', 'TARIK']),
+  debit: moneySchema.nullable(),
+  credit: moneySchema.nullable(),
+  balance: moneySchema
+});
+
+export type PassbookLine = z.infer<typeof passbookLineSchema>;
+
+export const passbookSchema = z.object({
+  student: z.object({
+    full_name: z.string(),
+    nis: z.string(),
+    class_name: z.string()
+  }),
+  mode: passbookModeSchema,
+  lines: z.array(passbookLineSchema),
+  through_transaction_id: z.number().nullable() // Last transaction on this printout
+});
+
+export type Passbook = z.infer<typeof passbookSchema>;
+
+// Parsed from the query string of the passbook route
+export const passbookExportInputSchema = z.object({
+  student_id: z.coerce.number().int().positive(),
+  mode: passbookModeSchema.default('CONTINUE')
+});
+
+export type PassbookExportInput = z.infer<typeof passbookExportInputSchema>;
+
+export const recordPassbookPrintInputSchema = z.object({
+  student_id: z.number(),
+  mode: passbookModeSchema,
+  through_transaction_id: z.number()
+});
+
+export type RecordPassbookPrintInput = z.infer<typeof recordPassbookPrintInputSchema>;
+
+// Account closure schemas
+export const accountClosureSchema = z.object({
+  id: z.number(),
+  student_id: z.number(),
+  transaction_id: z.number().nullable(),
+  payout_amount: moneySchema,
+  reason: z.string(),
+  closed_by: z.number(),
+  closed_at: z.coerce.date()
+});
+
+export type AccountClosure = z.infer<typeof accountClosureSchema>;
+
+export const closeAccountInputSchema = z.object({
+  student_id: z.number(),
+  reason: z.string().trim().min(1).max(500)
+});
+
+export type CloseAccountInput = z.infer<typeof closeAccountInputSchema>;
+
+export const closeClassAccountsInputSchema = z.object({
+  class_id: z.number(),
+  reason: z.string().trim().min(1).max(500),
+  staff_id: z.number().optional() // The teller paying out; administrators have no staff profile of their own
+});
+
+export type CloseClassAccountsInput = z.infer<typeof closeClassAccountsInputSchema>;
+
+// Freezing is reversible; closing goes through closeAccount
+export const setStudentStatusInputSchema = z.object({
+  student_id: z.number(),
+  status: studentStatusSchema.exclude(['CLOSED'])
+});
+
+export type SetStudentStatusInput = z.infer<typeof setStudentStatusInputSchema>;
+
+export const closureReceiptSchema = z.object({
+  closure: accountClosureSchema,
+  student: z.object({
+    full_name: z.string(),
+    nis: z.string(),
+    class_name: z.string(),
+    parent_name: z.string().nullable()
+  }),
+  staff_name: z.string()
+});
+
+export type ClosureReceipt = z.infer<typeof closureReceiptSchema>;
+
+// Parsed from the query string of the receipt route: one student, or every closed account of a class
+export const closureReceiptExportInputSchema = z.object({
+  student_id: z.coerce.number().int().positive().optional(),
+  class_id: z.coerce.number().int().positive().optional()
+}).refine(input => (input.student_id === undefined) !== (input.class_id === undefined), {
+  message: 'Pass either student_id or class_id'
+});
+
+export type ClosureReceiptExportInput = z.infer<typeof closureReceiptExportInputSchema>;
+
+// Audit log schemas
+export const auditEventSchema = z.object({
+  id: z.number(),
+  actor_user_id: z.number().nullable(), // Null for the system itself
+  actor_name: z.string().nullable(),
+  action: z.string(),
+  target_type: z.string(),
+  target_id: z.number().nullable(),
+  before: z.unknown(), // Record as it was, without secrets such as password hashes
+  after: z.unknown(),
+  ip_address: z.string().nullable(),
+  created_at: z.coerce.date(),
+  previous_hash: z.string(),
+  hash: z.string()
+});
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+export const auditFiltersSchema = z.object({
+  actor_user_id: z.number().int().positive().optional(),
+  action: z.string().trim().min(1).optional(), // Exact action, or a prefix ending in a dot such as "user."
+  target_type: z.string().trim().min(1).optional(),
+  target_id: z.number().int().positive().optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  limit: z.number().int().positive().max(500).optional(),
+  offset: z.number().int().nonnegative().optional()
+});
+
+export type AuditFilters = z.infer<typeof auditFiltersSchema>;
+
+// Parsed from the query string of the CSV export route
+export const auditExportInputSchema = auditFiltersSchema.omit({ limit: true, offset: true }).extend({
+  actor_user_id: z.coerce.number().int().positive().optional(),
+  target_id: z.coerce.number().int().positive().optional()
+});
+
+export type AuditExportInput = z.infer<typeof auditExportInputSchema>;
+
+export const auditEventPageSchema = z.object({
+  events: z.array(auditEventSchema),
+  total: z.number().int()
+});
+
+export type AuditEventPage = z.infer<typeof auditEventPageSchema>;
+
+// Result of re-computing the hash chain over the whole log
+export const auditChainStatusSchema = z.object({
+  valid: z.boolean(),
+  checked: z.number().int(),
+  first_invalid_id: z.number().nullable() // First row that no longer matches the chain
+});
+
+export type AuditChainStatus = z.infer<typeof auditChainStatusSchema>;
+
+// Parent notification schemas
+export const notificationSchema = z.object({
+  id: z.number(),
+  student_id: z.number(),
+  student_name: z.string(),
+  nis: z.string(),
+  transaction_id: z.number().nullable(),
+  template: z.string(),
+  recipient: z.string(),
+  body: z.string(),
+  status: notificationStatusSchema,
+  attempts: z.number().int(),
+  next_attempt_at: z.coerce.date(),
+  last_error: z.string().nullable(),
+  provider: z.string().nullable(),
+  provider_message_id: z.string().nullable(),
+  sent_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+export const notificationFiltersSchema = z.object({
+  status: notificationStatusSchema.optional(),
+  student_id: z.number().int().positive().optional(),
+  limit: z.number().int().positive().max(500).optional(),
+  offset: z.number().int().nonnegative().optional()
+});
+
+export type NotificationFilters = z.infer<typeof notificationFiltersSchema>;
+
+export const notificationPageSchema = z.object({
+  notifications: z.array(notificationSchema),
+  total: z.number().int()
+});
+
+export type NotificationPage = z.infer<typeof notificationPageSchema>;
+
 // Dashboard stats schema
 export const dashboardStatsSchema = z.object({
   total_students: z.number(),
   total_staff: z.number(),
-  total_balance: z.number(),
+  total_balance: moneySchema,
   total_transactions_today: z.number(),
   total_deposits_today: z.number(),
   total_withdrawals_today: z.number()
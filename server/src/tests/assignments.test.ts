@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import {
+  getClassAssignments,
+  assignStaffToClass,
+  unassignStaffFromClass,
+  getStudentScope
+} from '../handlers/assignments';
+import { getSchoolSettings, updateSchoolSettings } from '../handlers/settings';
+import { createClass, deleteClass } from '../handlers/classes';
+import { createStaff } from '../handlers/staff';
+import { createStudent, getAllStudents } from '../handlers/students';
+import { getStudentDashboard } from '../handlers/dashboard';
+import { getAuditEvents } from '../handlers/audit';
+
+describe('class staff assignments', () => {
+  let admin: typeof usersTable.$inferSelect;
+  let classA: Awaited<ReturnType<typeof createClass>>;
+  let classB: Awaited<ReturnType<typeof createClass>>;
+  let teacher: Awaited<ReturnType<typeof createStaff>>;
+  let assistant: Awaited<ReturnType<typeof createStaff>>;
+
+  beforeEach(async () => {
+    await createDB();
+    [admin] = await db.insert(usersTable)
+      .values({ username: 'admin', password_hash: 'x', role: 'ADMINISTRATOR', full_name: 'Admin User' })
+      .returning()
+      .execute();
+    classA = await createClass({ name: 'VII A', academic_year: '2024/2025' });
+    classB = await createClass({ name: 'VII B', academic_year: '2024/2025' });
+    teacher = await createStaff({ username: 'sari', password: 'staffpass', full_name: 'Bu Sari', employee_id: 'E1', email: 'sari@school.id', phone: '0811' });
+    assistant = await createStaff({ username: 'budi', password: 'staffpass', full_name: 'Pak Budi', employee_id: 'E2' });
+  });
+  afterEach(resetDB);
+
+  it('should keep a single homeroom teacher per class', async () => {
+    await assignStaffToClass(admin.id, { class_id: classA.id, staff_id: assistant.profile.id, is_homeroom: true });
+    await assignStaffToClass(admin.id, { class_id: classA.id, staff_id: teacher.profile.id, is_homeroom: true });
+
+    const assignments = await getClassAssignments(classA.id);
+    expect(assignments.map(assignment => [assignment.staff_name, assignment.is_homeroom])).toEqual([
+      ['Bu Sari', true],
+      ['Pak Budi', false]
+    ]);
+
+    // Assigning again only changes the homeroom flag
+    await assignStaffToClass(admin.id, { class_id: classA.id, staff_id: teacher.profile.id, is_homeroom: false });
+    expect(await getClassAssignments(classA.id)).toHaveLength(2);
+
+    const remaining = await unassignStaffFromClass({ class_id: classA.id, staff_id: assistant.profile.id });
+    expect(remaining.map(assignment => assignment.staff_name)).toEqual(['Bu Sari']);
+
+    const { events } = await getAuditEvents({ action: 'class.' });
+    expect(events.map(event => event.action).filter(action => action.startsWith('class.staff_'))).toEqual(['class.staff_unassign', 'class.staff_assign', 'class.staff_assign', 'class.staff_assign']);
+
+    await expect(assignStaffToClass(admin.id, { class_id: 999, staff_id: teacher.profile.id, is_homeroom: false })).rejects.toThrow(/class not found/i);
+    await expect(assignStaffToClass(admin.id, { class_id: classA.id, staff_id: 999, is_homeroom: false })).rejects.toThrow(/staff member not found/i);
+  });
+
+  it('should show the homeroom teacher on the student dashboard', async () => {
+    const { profile } = await createStudent({ full_name: 'Student', nis: '1001', class_id: classA.id });
+    expect((await getStudentDashboard(profile.id)).assigned_staff).toBeNull();
+
+    await assignStaffToClass(admin.id, { class_id: classA.id, staff_id: assistant.profile.id, is_homeroom: false });
+    await assignStaffToClass(admin.id, { class_id: classA.id, staff_id: teacher.profile.id, is_homeroom: true });
+
+    expect((await getStudentDashboard(profile.id)).assigned_staff).toEqual({
+      full_name: 'Bu Sari',
+      email: 'sari@school.id',
+      phone: '0811'
+    });
+  });
+
+  it('should only limit staff once the school turns it on', async () => {
+    await createStudent({ full_name: 'Student A', nis: '1001', class_id: classA.id });
+    await createStudent({ full_name: 'Student B', nis: '1002', class_id: classB.id });
+    await assignStaffToClass(admin.id, { class_id: classA.id, staff_id: teacher.profile.id, is_homeroom: true });
+
+    expect(await getSchoolSettings()).toEqual({ restrict_staff_to_assigned_classes: false });
+    expect(await getStudentScope(teacher.user)).toBeNull();
+
+    await updateSchoolSettings(admin.id, { restrict_staff_to_assigned_classes: true });
+
+    expect(await getStudentScope(teacher.user)).toEqual([classA.id]);
+    expect(await getStudentScope(assistant.user)).toEqual([]);
+    expect(await getStudentScope(admin)).toBeNull();
+
+    const visible = await getAllStudents(await getStudentScope(teacher.user));
+    expect(visible.map(student => student.nis)).toEqual(['1001']);
+    expect(await getAllStudents(await getStudentScope(assistant.user))).toHaveLength(0);
+
+    const { events } = await getAuditEvents({ action: 'settings.update' });
+    expect(events[0].before).toEqual({ restrict_staff_to_assigned_classes: false });
+    expect(events[0].after).toEqual({ restrict_staff_to_assigned_classes: true });
+  });
+
+  it('should drop the assignments of a deleted class', async () => {
+    await assignStaffToClass(admin.id, { class_id: classB.id, staff_id: teacher.profile.id, is_homeroom: true });
+
+    expect((await deleteClass(classB.id)).success).toBe(true);
+    expect(await getClassAssignments()).toHaveLength(0);
+  });
+});
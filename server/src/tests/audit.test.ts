@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditEventsTable, usersTable } from '../db/schema';
+import { runWithAuditContext, getAuditEvents, verifyAuditChain, buildAuditReport, auditedTransaction, recordAuditEvent } from '../handlers/audit';
+import { createClass, updateClass, deleteClass } from '../handlers/classes';
+import { createUser } from '../handlers/users';
+import { createStudent } from '../handlers/students';
+import { createStaff } from '../handlers/staff';
+import { createTransaction } from '../handlers/transactions';
+import { eq, sql } from 'drizzle-orm';
+
+describe('audit log', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record changes with the acting user and address', async () => {
+    const admin = await createUser({ username: 'admin', password: 'adminpass', role: 'ADMINISTRATOR', full_name: 'Admin User' });
+
+    const cls = await runWithAuditContext({ actor_user_id: admin.id, ip_address: '10.0.0.7' }, async () => {
+      const created = await createClass({ name: 'VII A', academic_year: '2024/2025' });
+      await updateClass(created.id, { name: 'VII B' });
+      return created;
+    });
+
+    const { events, total } = await getAuditEvents({ target_type: 'class' });
+    expect(total).toEqual(2);
+
+    // Newest first
+    const [update, create] = events;
+    expect(create.action).toEqual('class.create');
+    expect(update.action).toEqual('class.update');
+    expect(update.target_id).toEqual(cls.id);
+    expect(update.actor_user_id).toEqual(admin.id);
+    expect(update.actor_name).toEqual('Admin User');
+    expect(update.ip_address).toEqual('10.0.0.7');
+    expect(update.before).toMatchObject({ name: 'VII A' });
+    expect(update.after).toMatchObject({ name: 'VII B' });
+    expect(update.previous_hash).toEqual(create.hash);
+  });
+
+  it('should leave secrets out of the log', async () => {
+    await createUser({ username: 'staff1', password: 'secretpass', role: 'STAFF', full_name: 'Staff One' });
+
+    const { events } = await getAuditEvents({ action: 'user.create' });
+    expect(events).toHaveLength(1);
+    expect(events[0].actor_user_id).toBeNull();
+    expect(events[0].after).toMatchObject({ username: 'staff1' });
+    expect(events[0].after).not.toHaveProperty('password_hash');
+    expect(JSON.stringify(events[0].after)).not.toContain('$argon2');
+  });
+
+  it('should log ledger postings from every handler', async () => {
+    const cls = await createClass({ name: 'VII A', academic_year: '2024/2025' });
+    const { profile: student } = await createStudent({ full_name: 'Student', nis: '1001', class_id: cls.id });
+    const { profile: staff } = await createStaff({ username: 'teller', password: 'tellerpass', full_name: 'Teller', employee_id: 'E1' });
+
+    const transaction = await createTransaction(staff.id, { student_id: student.id, type: 'DEPOSIT', amount: 1500 });
+
+    const { events } = await getAuditEvents({ action: 'transaction.' });
+    expect(events).toHaveLength(1);
+    expect(events[0].target_id).toEqual(transaction.id);
+    expect(events[0].after).toMatchObject({ amount: '1500.00', balance_after: '1500.00' });
+  });
+
+  it('should filter by action prefix and date', async () => {
+    const cls = await createClass({ name: 'VII A', academic_year: '2024/2025' });
+    await deleteClass(cls.id);
+    await createUser({ username: 'staff1', password: 'secretpass', role: 'STAFF', full_name: 'Staff One' });
+
+    expect((await getAuditEvents({ action: 'class.' })).total).toEqual(2);
+    expect((await getAuditEvents({ action: 'class' })).total).toEqual(0);
+    expect((await getAuditEvents({ start_date: new Date(Date.now() + 86_400_000) })).total).toEqual(0);
+    expect((await getAuditEvents({ limit: 1 })).events).toHaveLength(1);
+
+    const report = await buildAuditReport({ action: 'class.' });
+    expect(report.rows.map(row => row['action'])).toEqual(['class.delete', 'class.create']);
+    expect(report.rows[0]['actor']).toEqual('System');
+  });
+
+  it('should not hold other writers up while a change is still being made', async () => {
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    let recorded!: () => void;
+    const started = new Promise<void>(resolve => { recorded = resolve; });
+
+    const slow = auditedTransaction(async (tx) => {
+      await recordAuditEvent(tx, { action: 'test.slow', target_type: 'test' });
+      recorded();
+      await held;
+    });
+    await started;
+
+    // Goes through while the slow change is still open, and gets the earlier place in the chain
+    await createClass({ name: 'VII B', academic_year: '2024/2025' });
+    release();
+    await slow;
+
+    const events = await db.select().from(auditEventsTable).orderBy(auditEventsTable.id).execute();
+    expect(events.map(event => event.action)).toEqual(['class.create', 'test.slow']);
+    expect(await verifyAuditChain()).toEqual({ valid: true, checked: 2, first_invalid_id: null });
+  });
+
+  describe('hash chain', () => {
+    beforeEach(async () => {
+      const cls = await createClass({ name: 'VII A', academic_year: '2024/2025' });
+      await updateClass(cls.id, { description: 'Morning class' });
+      await updateClass(cls.id, { description: 'Afternoon class' });
+    });
+
+    // The database owner can switch the guard off; the chain still gives them away
+    const tamper = async (change: () => Promise<unknown>) => {
+      await db.execute(sql`alter table audit_events disable trigger audit_events_append_only`);
+      await change();
+      await db.execute(sql`alter table audit_events enable trigger audit_events_append_only`);
+    };
+
+    it('should verify an untouched log', async () => {
+      expect(await verifyAuditChain()).toEqual({ valid: true, checked: 3, first_invalid_id: null });
+    });
+
+    it('should refuse to change or remove events', async () => {
+      const { events } = await getAuditEvents({});
+      await expect(db.update(auditEventsTable)
+        .set({ after: { description: 'Something else' } })
+        .where(eq(auditEventsTable.id, events[0].id))
+        .execute()).rejects.toThrow(/append-only/);
+      await expect(db.delete(auditEventsTable).execute()).rejects.toThrow(/append-only/);
+      await expect(Promise.resolve(db.execute(sql`truncate audit_events`))).rejects.toThrow(/append-only/);
+
+      expect(await verifyAuditChain()).toEqual({ valid: true, checked: 3, first_invalid_id: null });
+    });
+
+    it('should detect an edited row', async () => {
+      const { events } = await getAuditEvents({ action: 'class.update' });
+      const edited = events[1];
+      await tamper(() => db.update(auditEventsTable)
+        .set({ after: { description: 'Something else' } })
+        .where(eq(auditEventsTable.id, edited.id))
+        .execute());
+
+      expect(await verifyAuditChain()).toEqual({ valid: false, checked: 1, first_invalid_id: edited.id });
+    });
+
+    it('should detect a removed row', async () => {
+      const { events } = await getAuditEvents({});
+      await tamper(() => db.delete(auditEventsTable).where(eq(auditEventsTable.id, events[1].id)).execute());
+
+      const status = await verifyAuditChain();
+      expect(status.valid).toBe(false);
+      expect(status.first_invalid_id).toEqual(events[0].id);
+    });
+
+    it('should detect a changed actor', async () => {
+      const [user] = await db.insert(usersTable)
+        .values({ username: 'someone', password_hash: 'x', role: 'STAFF', full_name: 'Someone' })
+        .returning()
+        .execute();
+      const { events } = await getAuditEvents({});
+      await tamper(() => db.update(auditEventsTable)
+        .set({ actor_user_id: user.id })
+        .where(eq(auditEventsTable.id, events[2].id))
+        .execute());
+
+      expect((await verifyAuditChain()).first_invalid_id).toEqual(events[2].id);
+    });
+  });
+});
@@ -2,9 +2,22 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, sessionsTable } from '../db/schema';
+import { usersTable, sessionsTable, loginThrottlesTable } from '../db/schema';
 import { type LoginInput } from '../schema';
-import { login, logout, validateSession } from '../handlers/auth';
+import {
+  login,
+  logout,
+  validateSession,
+  csrfTokenFor,
+  isValidCsrfToken,
+  getLoginLockouts,
+  unlockLogin,
+  getActiveSessions,
+  revokeSession,
+  signOutOtherSessions,
+  forceLogout,
+  purgeExpiredSessions
+} from '../handlers/auth';
 import { eq } from 'drizzle-orm';
 
 describe('auth handlers', () => {
@@ -114,6 +127,74 @@ describe('auth handlers', () => {
     });
   });
 
+  describe('login throttling', () => {
+    const testPassword = 'testpassword123';
+
+    beforeEach(async () => {
+      await db.insert(usersTable)
+        .values({
+          username: 'testuser',
+          password_hash: await Bun.password.hash(testPassword),
+          role: 'STUDENT',
+          full_name: 'Test User',
+          is_active: true,
+          must_change_password: false
+        })
+        .execute();
+    });
+
+    const failLogin = (username: string, ip: string | null = '10.0.0.1') =>
+      expect(login({ username, password: 'wrongpassword' }, ip)).rejects.toThrow(/invalid username or password/i);
+
+    it('should make the caller wait once the free attempts are used up', async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await failLogin('testuser');
+      }
+
+      // Even the right password is refused while the backoff runs
+      await expect(login({ username: 'testuser', password: testPassword }, '10.0.0.2'))
+        .rejects.toThrow(/too many failed login attempts/i);
+    });
+
+    it('should treat unknown usernames exactly like real ones', async () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        await failLogin('nobody');
+      }
+
+      await expect(login({ username: 'nobody', password: 'wrongpassword' }, '10.0.0.2'))
+        .rejects.toThrow(/too many failed login attempts/i);
+    });
+
+    it('should clear the username failures after a successful login', async () => {
+      await failLogin('testuser');
+      await failLogin('testuser');
+
+      await login({ username: 'testuser', password: testPassword }, '10.0.0.1');
+
+      const throttles = await db.select().from(loginThrottlesTable).execute();
+      expect(throttles.map(throttle => [throttle.scope, throttle.failure_count])).toEqual([['IP', 2]]);
+    });
+
+    it('should lock the account out and let an administrator unlock it', async () => {
+      // Nine earlier failures, with the last backoff already over
+      await db.insert(loginThrottlesTable)
+        .values({ scope: 'USERNAME', key: 'testuser', failure_count: 9, last_failure_at: new Date() })
+        .execute();
+      await failLogin('TestUser', null);
+
+      const lockouts = await getLoginLockouts();
+      expect(lockouts).toHaveLength(1);
+      expect(lockouts[0]).toMatchObject({ scope: 'USERNAME', key: 'testuser', full_name: 'Test User', failure_count: 10 });
+      expect(lockouts[0].locked_until.getTime()).toBeGreaterThan(Date.now() + 10 * 60 * 1000);
+
+      await unlockLogin(lockouts[0].id);
+
+      const result = await login({ username: 'testuser', password: testPassword });
+      expect(result.user.username).toEqual('testuser');
+      expect(await getLoginLockouts()).toEqual([]);
+    });
+  });
+
   describe('logout', () => {
     let sessionId: string;
 
@@ -251,4 +332,116 @@ describe('auth handlers', () => {
       expect(user).toBeNull();
     });
   });
+
+  describe('session management', () => {
+    const testPassword = 'testpassword123';
+    const HOUR = 60 * 60 * 1000;
+    let userId: number;
+
+    beforeEach(async () => {
+      const users = await db.insert(usersTable)
+        .values({
+          username: 'testuser',
+          password_hash: await Bun.password.hash(testPassword),
+          role: 'STAFF',
+          full_name: 'Test User',
+          is_active: true,
+          must_change_password: false
+        })
+        .returning()
+        .execute();
+      userId = users[0].id;
+    });
+
+    const signIn = (userAgent: string) =>
+      login({ username: 'testuser', password: testPassword }, '10.0.0.1', userAgent).then(result => result.session);
+
+    const getSession = async (id: string) =>
+      (await db.select().from(sessionsTable).where(eq(sessionsTable.id, id)).execute())[0];
+
+    it('should record the device and slide the expiry with activity', async () => {
+      const session = await signIn('Mozilla/5.0 (Windows NT 10.0) Chrome/120.0');
+      expect(session.user_agent).toEqual('Mozilla/5.0 (Windows NT 10.0) Chrome/120.0');
+      expect(session.ip_address).toEqual('10.0.0.1');
+
+      // Pretend the last request was two hours ago
+      await db.update(sessionsTable)
+        .set({ last_seen_at: new Date(Date.now() - 2 * HOUR), expires_at: new Date(Date.now() + 22 * HOUR) })
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+
+      expect(await validateSession(session.id)).not.toBeNull();
+
+      const touched = await getSession(session.id);
+      expect(touched.expires_at.getTime()).toBeGreaterThan(Date.now() + 23 * HOUR);
+      expect(touched.last_seen_at.getTime()).toBeGreaterThan(Date.now() - 60 * 1000);
+    });
+
+    it('should not extend a session past its maximum lifetime', async () => {
+      const session = await signIn('test-agent');
+      const createdAt = new Date(Date.now() - 7 * 24 * HOUR + HOUR);
+      await db.update(sessionsTable)
+        .set({ created_at: createdAt, last_seen_at: new Date(Date.now() - 2 * HOUR) })
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+
+      await validateSession(session.id);
+
+      const touched = await getSession(session.id);
+      expect(touched.expires_at.getTime()).toBeLessThanOrEqual(createdAt.getTime() + 7 * 24 * HOUR);
+    });
+
+    it('should list sessions without their secrets and sign out the others', async () => {
+      const current = await signIn('laptop');
+      const other = await signIn('phone');
+
+      const sessions = await getActiveSessions(userId, current.id);
+      expect(sessions).toHaveLength(2);
+      expect(sessions.find(session => session.is_current)!.user_agent).toEqual('laptop');
+      expect(sessions.some(session => 'id' in session)).toBe(false);
+
+      expect(await signOutOtherSessions(userId, current.id)).toEqual({ revoked: 1 });
+      expect(await validateSession(other.id)).toBeNull();
+      expect(await validateSession(current.id)).not.toBeNull();
+    });
+
+    it('should only revoke the caller\'s own sessions', async () => {
+      const session = await signIn('laptop');
+
+      await expect(revokeSession(userId + 1, session.public_id)).rejects.toThrow(/session not found/i);
+
+      await revokeSession(userId, session.public_id);
+      expect(await validateSession(session.id)).toBeNull();
+    });
+
+    it('should force a user out everywhere and purge expired sessions', async () => {
+      const first = await signIn('laptop');
+      await signIn('phone');
+      expect(await forceLogout(userId)).toEqual({ revoked: 2 });
+      expect(await validateSession(first.id)).toBeNull();
+
+      const stale = await signIn('laptop');
+      await signIn('phone');
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - HOUR) })
+        .where(eq(sessionsTable.id, stale.id))
+        .execute();
+
+      expect(await purgeExpiredSessions()).toEqual({ purged: 1 });
+      expect(await getSession(stale.id)).toBeUndefined();
+    });
+  });
+
+  describe('csrf tokens', () => {
+    it('should only accept the token belonging to the session', () => {
+      const sessionId = crypto.randomUUID();
+      const token = csrfTokenFor(sessionId);
+
+      expect(token).not.toContain(sessionId);
+      expect(isValidCsrfToken(sessionId, token)).toBe(true);
+      expect(isValidCsrfToken(sessionId, csrfTokenFor(crypto.randomUUID()))).toBe(false);
+      expect(isValidCsrfToken(sessionId, null)).toBe(false);
+      expect(isValidCsrfToken(sessionId, 'short')).toBe(false);
+    });
+  });
 });
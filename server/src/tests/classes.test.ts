@@ -2,15 +2,19 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { classesTable, usersTable, studentProfilesTable } from '../db/schema';
+import { classesTable, usersTable, studentProfilesTable, classPromotionsTable } from '../db/schema';
 import { type CreateClassInput } from '../schema';
 import { 
   createClass, 
   getAllClasses, 
   getClassById, 
   updateClass, 
-  deleteClass 
+  deleteClass,
+  getRolloverPlan,
+  rolloverAcademicYear,
+  getGraduatingStudents
 } from '../handlers/classes';
+import { updateStudent, getStudentClassHistory } from '../handlers/students';
 import { eq } from 'drizzle-orm';
 
 const testClassInput: CreateClassInput = {
@@ -211,4 +215,215 @@ describe('Classes handlers', () => {
       await expect(deleteClass(createdClass.id)).rejects.toThrow(/Cannot delete class with assigned students/i);
     });
   });
+
+  describe('academic year rollover', () => {
+    let adminId: number;
+    let classAId: number;
+    let classBId: number;
+    let classCId: number;
+
+    const addStudent = async (nis: string, classId: number, balance = '0.00') => {
+      const userResult = await db.insert(usersTable)
+        .values({ username: nis, password_hash: 'hashedpass', role: 'STUDENT', full_name: `Student ${nis}` })
+        .returning()
+        .execute();
+      const profileResult = await db.insert(studentProfilesTable)
+        .values({ user_id: userResult[0].id, nis, class_id: classId, current_balance: balance })
+        .returning()
+        .execute();
+      return profileResult[0];
+    };
+
+    beforeEach(async () => {
+      const adminResult = await db.insert(usersTable)
+        .values({ username: 'admin', password_hash: 'hashedpass', role: 'ADMINISTRATOR', full_name: 'Admin' })
+        .returning()
+        .execute();
+      adminId = adminResult[0].id;
+
+      classAId = (await createClass({ name: 'VII-A', description: 'Wali: Bu Sari', academic_year: '2024/2025' })).id;
+      classBId = (await createClass({ name: 'VIII-A', academic_year: '2024/2025' })).id;
+      classCId = (await createClass({ name: 'IX-A', academic_year: '2024/2025' })).id;
+    });
+
+    it('should suggest the next class and the next academic year', async () => {
+      await addStudent('S1', classAId);
+
+      const plan = await getRolloverPlan('2024/2025');
+
+      expect(plan.to_academic_year).toEqual('2025/2026');
+      expect(plan.classes.map(entry => [entry.class.name, entry.student_count, entry.action, entry.new_class_name])).toEqual([
+        ['IX-A', 0, 'GRADUATE', null],
+        ['VII-A', 1, 'PROMOTE', 'VIII-A'],
+        ['VIII-A', 0, 'PROMOTE', 'IX-A']
+      ]);
+    });
+
+    it('should move students into new classes and flag graduating classes', async () => {
+      const first = await addStudent('S1', classAId, '150.25');
+      const second = await addStudent('S2', classBId, '20.00');
+      const graduate = await addStudent('S3', classCId, '75.50');
+
+      const result = await rolloverAcademicYear(adminId, {
+        from_academic_year: '2024/2025',
+        to_academic_year: '2025/2026',
+        classes: [
+          { class_id: classAId, action: 'PROMOTE', new_class_name: 'VIII-A' },
+          { class_id: classBId, action: 'PROMOTE', new_class_name: 'IX-A' },
+          { class_id: classCId, action: 'GRADUATE', new_class_name: null }
+        ]
+      });
+
+      expect(result.promoted_students).toEqual(2);
+      expect(result.graduated_students).toEqual(1);
+      expect(result.created_classes.map(cls => [cls.name, cls.academic_year])).toEqual([
+        ['VIII-A', '2025/2026'],
+        ['IX-A', '2025/2026']
+      ]);
+      expect(result.created_classes[0].description).toEqual('Wali: Bu Sari');
+
+      const students = await db.select().from(studentProfilesTable).execute();
+      const byId = new Map(students.map(student => [student.id, student]));
+      expect(byId.get(first.id)!.class_id).toEqual(result.created_classes[0].id);
+      expect(byId.get(second.id)!.class_id).toEqual(result.created_classes[1].id);
+      expect(byId.get(graduate.id)!.class_id).toEqual(classCId);
+      expect(students.map(student => student.current_balance).sort()).toEqual(['150.25', '20.00', '75.50']);
+
+      const promotions = await db.select().from(classPromotionsTable).execute();
+      expect(promotions).toHaveLength(3);
+      expect(promotions.find(promotion => promotion.student_id === graduate.id)!.to_class_id).toBeNull();
+
+      const graduating = await getGraduatingStudents();
+      expect(graduating.map(student => [student.nis, student.current_balance])).toEqual([['S3', 75.5]]);
+    });
+
+    it('should leave students with closed accounts where they were', async () => {
+      const staying = await addStudent('S1', classAId, '150.25');
+      const left = await addStudent('S2', classAId);
+      await db.update(studentProfilesTable)
+        .set({ status: 'CLOSED' })
+        .where(eq(studentProfilesTable.id, left.id))
+        .execute();
+
+      const plan = await getRolloverPlan('2024/2025');
+      expect(plan.classes.find(entry => entry.class.id === classAId)!.student_count).toEqual(1);
+
+      const result = await rolloverAcademicYear(adminId, {
+        from_academic_year: '2024/2025',
+        to_academic_year: '2025/2026',
+        classes: [
+          { class_id: classAId, action: 'PROMOTE', new_class_name: 'VIII-A' },
+          { class_id: classBId, action: 'PROMOTE', new_class_name: 'IX-A' },
+          { class_id: classCId, action: 'GRADUATE', new_class_name: null }
+        ]
+      });
+      expect(result.promoted_students).toEqual(1);
+
+      const students = await db.select().from(studentProfilesTable).execute();
+      const byId = new Map(students.map(student => [student.id, student]));
+      expect(byId.get(staying.id)!.class_id).toEqual(result.created_classes[0].id);
+      expect(byId.get(left.id)!.class_id).toEqual(classAId);
+
+      const promotions = await db.select().from(classPromotionsTable).execute();
+      expect(promotions.map(promotion => promotion.student_id)).toEqual([staying.id]);
+    });
+
+    it('should reuse an existing class of the new year', async () => {
+      const existing = await createClass({ name: 'VIII-A', academic_year: '2025/2026' });
+      await addStudent('S1', classAId);
+
+      const result = await rolloverAcademicYear(adminId, {
+        from_academic_year: '2024/2025',
+        to_academic_year: '2025/2026',
+        classes: [
+          { class_id: classAId, action: 'PROMOTE', new_class_name: 'viii-a' },
+          { class_id: classBId, action: 'PROMOTE', new_class_name: 'IX-A' },
+          { class_id: classCId, action: 'GRADUATE', new_class_name: null }
+        ]
+      });
+
+      expect(result.created_classes.map(cls => cls.name)).toEqual(['IX-A']);
+      const students = await db.select().from(studentProfilesTable).execute();
+      expect(students[0].class_id).toEqual(existing.id);
+    });
+
+    it('should require every class of the year to be mapped', async () => {
+      await expect(rolloverAcademicYear(adminId, {
+        from_academic_year: '2024/2025',
+        to_academic_year: '2025/2026',
+        classes: [{ class_id: classAId, action: 'PROMOTE', new_class_name: 'VIII-A' }]
+      })).rejects.toThrow(/must be mapped/i);
+    });
+
+    it('should not roll the same year over twice', async () => {
+      await addStudent('S1', classAId);
+      const input = {
+        from_academic_year: '2024/2025',
+        to_academic_year: '2025/2026',
+        classes: [
+          { class_id: classAId, action: 'PROMOTE' as const, new_class_name: 'VIII-A' },
+          { class_id: classBId, action: 'PROMOTE' as const, new_class_name: 'IX-A' },
+          { class_id: classCId, action: 'GRADUATE' as const, new_class_name: null }
+        ]
+      };
+      await rolloverAcademicYear(adminId, input);
+
+      await expect(rolloverAcademicYear(adminId, input)).rejects.toThrow(/already been rolled over/i);
+    });
+
+    it('should not roll a year without students over twice', async () => {
+      const input = {
+        from_academic_year: '2024/2025',
+        to_academic_year: '2025/2026',
+        classes: [
+          { class_id: classAId, action: 'PROMOTE' as const, new_class_name: 'VIII-A' },
+          { class_id: classBId, action: 'PROMOTE' as const, new_class_name: 'IX-A' },
+          { class_id: classCId, action: 'GRADUATE' as const, new_class_name: null }
+        ]
+      };
+      await rolloverAcademicYear(adminId, input);
+
+      await expect(rolloverAcademicYear(adminId, input)).rejects.toThrow(/already been rolled over/i);
+    });
+
+    it('should refuse to delete a class that students went through', async () => {
+      await addStudent('S1', classAId);
+      const result = await rolloverAcademicYear(adminId, {
+        from_academic_year: '2024/2025',
+        to_academic_year: '2025/2026',
+        classes: [
+          { class_id: classAId, action: 'PROMOTE', new_class_name: 'VIII-A' },
+          { class_id: classBId, action: 'PROMOTE', new_class_name: 'IX-A' },
+          { class_id: classCId, action: 'GRADUATE', new_class_name: null }
+        ]
+      });
+      expect(result.promoted_students).toEqual(1);
+
+      // VII-A is empty now, but the student's history still points at it
+      await expect(deleteClass(classAId)).rejects.toThrow(/class history/i);
+      expect((await deleteClass(classBId)).success).toBe(true);
+    });
+
+    it('should not mistake a transfer during the year for a rollover', async () => {
+      const student = await addStudent('S1', classAId);
+      await updateStudent(adminId, { id: student.id, class_id: classBId });
+
+      const result = await rolloverAcademicYear(adminId, {
+        from_academic_year: '2024/2025',
+        to_academic_year: '2025/2026',
+        classes: [
+          { class_id: classAId, action: 'PROMOTE', new_class_name: 'VIII-A' },
+          { class_id: classBId, action: 'PROMOTE', new_class_name: 'IX-A' },
+          { class_id: classCId, action: 'GRADUATE', new_class_name: null }
+        ]
+      });
+
+      expect(result.promoted_students).toEqual(1);
+      const history = await getStudentClassHistory(student.id);
+      expect(history.map(change => [change.kind, change.from_class.name, change.to_class?.name])).toEqual([
+        ['ROLLOVER', 'VIII-A', 'IX-A'],
+        ['TRANSFER', 'VII-A', 'VIII-A']
+      ]);
+    });
+  });
 });
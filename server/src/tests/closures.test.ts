@@ -0,0 +1,199 @@
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { PassThrough } from 'node:stream';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, classesTable, studentProfilesTable, staffProfilesTable, transactionsTable } from '../db/schema';
+import { closeAccount, closeClassAccounts, setStudentStatus, getClosureReceipts } from '../handlers/closures';
+import { createTransaction, reverseTransaction } from '../handlers/transactions';
+import { writeClosureReceiptsPdf } from '../helpers/export';
+import { eq } from 'drizzle-orm';
+
+describe('Account Closure Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let classId: number;
+  let graduatingClassId: number;
+  let studentId: number;
+  let staffId: number;
+
+  const createStudent = async (nis: string, classId: number) => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: nis,
+        password_hash: 'hashed_password',
+        role: 'STUDENT',
+        full_name: `Student ${nis}`,
+        is_active: true,
+        must_change_password: false
+      })
+      .returning()
+      .execute();
+
+    const profileResult = await db.insert(studentProfilesTable)
+      .values({
+        user_id: userResult[0].id,
+        nis,
+        class_id: classId,
+        parent_name: `Parent ${nis}`,
+        current_balance: '0.00'
+      })
+      .returning()
+      .execute();
+    return profileResult[0].id;
+  };
+
+  const getStudent = async (id: number) => {
+    const rows = await db.select().from(studentProfilesTable).where(eq(studentProfilesTable.id, id)).execute();
+    return rows[0];
+  };
+
+  beforeEach(async () => {
+    const classResult = await db.insert(classesTable)
+      .values([
+        { name: 'VII-A', academic_year: '2024' },
+        { name: 'IX-A', academic_year: '2024', is_graduating: true }
+      ])
+      .returning()
+      .execute();
+    classId = classResult[0].id;
+    graduatingClassId = classResult[1].id;
+
+    studentId = await createStudent('NIS001', classId);
+
+    const staffUserResult = await db.insert(usersTable)
+      .values({
+        username: 'staff1',
+        password_hash: 'hashed_password',
+        role: 'STAFF',
+        full_name: 'Test Staff',
+        is_active: true,
+        must_change_password: false
+      })
+      .returning()
+      .execute();
+
+    const staffProfileResult = await db.insert(staffProfilesTable)
+      .values({
+        user_id: staffUserResult[0].id,
+        employee_id: 'EMP001'
+      })
+      .returning()
+      .execute();
+    staffId = staffProfileResult[0].id;
+  });
+
+  describe('closeAccount', () => {
+    it('should pay out the balance as a final withdrawal and close the account', async () => {
+      await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 125.75 });
+
+      const closure = await closeAccount(staffId, { student_id: studentId, reason: 'Pindah sekolah' });
+
+      expect(closure.payout_amount).toEqual(125.75);
+      expect(closure.transaction_id).not.toBeNull();
+
+      const payout = await db.select().from(transactionsTable).where(eq(transactionsTable.id, closure.transaction_id!)).execute();
+      expect(payout[0].type).toEqual('WITHDRAWAL');
+      expect(payout[0].amount).toEqual('125.75');
+      expect(payout[0].balance_after).toEqual('0.00');
+
+      const student = await getStudent(studentId);
+      expect(student.status).toEqual('CLOSED');
+      expect(student.current_balance).toEqual('0.00');
+    });
+
+    it('should close an empty account without a payout', async () => {
+      const closure = await closeAccount(staffId, { student_id: studentId, reason: 'Lulus' });
+
+      expect(closure.payout_amount).toEqual(0);
+      expect(closure.transaction_id).toBeNull();
+    });
+
+    it('should block further transactions on a closed account', async () => {
+      const deposit = await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 50 });
+      await closeAccount(staffId, { student_id: studentId, reason: 'Lulus' });
+
+      await expect(
+        createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 10 })
+      ).rejects.toThrow(/account is closed/i);
+      await expect(
+        reverseTransaction(staffId, { transaction_id: deposit.id, reason: 'Salah input' })
+      ).rejects.toThrow(/account is closed/i);
+      await expect(
+        closeAccount(staffId, { student_id: studentId, reason: 'Lulus' })
+      ).rejects.toThrow(/already closed/i);
+    });
+  });
+
+  describe('setStudentStatus', () => {
+    it('should stop teller transactions while frozen', async () => {
+      await setStudentStatus({ student_id: studentId, status: 'FROZEN' });
+
+      await expect(
+        createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 10 })
+      ).rejects.toThrow(/frozen/i);
+
+      const student = await setStudentStatus({ student_id: studentId, status: 'ACTIVE' });
+      expect(student.status).toEqual('ACTIVE');
+      await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 10 });
+    });
+
+    it('should allow closing a frozen account', async () => {
+      await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 10 });
+      await setStudentStatus({ student_id: studentId, status: 'FROZEN' });
+
+      const closure = await closeAccount(staffId, { student_id: studentId, reason: 'Keluar' });
+      expect(closure.payout_amount).toEqual(10);
+    });
+
+    it('should not reopen a closed account', async () => {
+      await closeAccount(staffId, { student_id: studentId, reason: 'Lulus' });
+
+      await expect(setStudentStatus({ student_id: studentId, status: 'ACTIVE' })).rejects.toThrow(/closed/i);
+    });
+  });
+
+  describe('closeClassAccounts', () => {
+    it('should close every open account of a graduated class', async () => {
+      const first = await createStudent('NIS101', graduatingClassId);
+      const second = await createStudent('NIS102', graduatingClassId);
+      await createTransaction(staffId, { student_id: first, type: 'DEPOSIT', amount: 40 });
+
+      const closures = await closeClassAccounts(staffId, { class_id: graduatingClassId, reason: 'Lulus 2024' });
+
+      expect(closures.map(closure => [closure.student_id, closure.payout_amount])).toEqual([[first, 40], [second, 0]]);
+      expect((await getStudent(first)).status).toEqual('CLOSED');
+      expect((await getStudent(studentId)).status).toEqual('ACTIVE');
+    });
+
+    it('should refuse a class that has not graduated', async () => {
+      await expect(
+        closeClassAccounts(staffId, { class_id: classId, reason: 'Lulus' })
+      ).rejects.toThrow(/graduated classes/i);
+    });
+  });
+
+  describe('getClosureReceipts', () => {
+    it('should render a receipt page per closed account', async () => {
+      await createStudent('NIS101', graduatingClassId);
+      await createStudent('NIS102', graduatingClassId);
+      await closeClassAccounts(staffId, { class_id: graduatingClassId, reason: 'Lulus 2024' });
+
+      const receipts = await getClosureReceipts({ class_id: graduatingClassId });
+      expect(receipts.map(receipt => [receipt.student.nis, receipt.student.parent_name, receipt.staff_name])).toEqual([
+        ['NIS101', 'Parent NIS101', 'Test Staff'],
+        ['NIS102', 'Parent NIS102', 'Test Staff']
+      ]);
+
+      const stream = new PassThrough();
+      const chunks: Buffer[] = [];
+      stream.on('data', chunk => chunks.push(Buffer.from(chunk)));
+      await writeClosureReceiptsPdf(receipts, stream);
+      const pdf = Buffer.concat(chunks).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-')).toBe(true);
+      expect(pdf).toContain('/Count 2');
+    });
+  });
+});
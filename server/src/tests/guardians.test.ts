@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, transactionsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { createStudent, importStudents } from '../handlers/students';
+import { createClass } from '../handlers/classes';
+import { createStaff } from '../handlers/staff';
+import { createTransaction } from '../handlers/transactions';
+import { login } from '../handlers/auth';
+import {
+  getStudentGuardians,
+  getGuardianStudents,
+  isGuardianOf,
+  createGuardianAccount,
+  unlinkGuardian
+} from '../handlers/guardians';
+import { getMonthlyStatements } from '../handlers/statements';
+
+describe('guardian accounts', () => {
+  let classId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    classId = (await createClass({ name: 'VII-A', academic_year: '2024/2025' })).id;
+  });
+  afterEach(resetDB);
+
+  const student = (nis: string, parentPhone: string | null = '0812-3456-7890') => ({
+    full_name: `Student ${nis}`,
+    nis,
+    class_id: classId,
+    parent_name: 'Ibu Rina',
+    parent_phone: parentPhone,
+    create_guardian_account: true
+  });
+
+  it('should give the parent one account for all of their children', async () => {
+    const first = await createStudent(student('1001'));
+    expect(first.guardian_credential?.username).toEqual('081234567890');
+
+    const { user } = await login({ username: '081234567890', password: first.guardian_credential!.initial_password });
+    expect(user.role).toEqual('PARENT');
+    expect(user.must_change_password).toBe(true);
+
+    // A sibling is linked to the same account, so there is no new password to hand out
+    const second = await createStudent(student('1002', '+62 812 3456 7890'));
+    expect(second.guardian_credential).toBeNull();
+
+    const children = await getGuardianStudents(user.id);
+    expect(children.map(child => child.nis)).toEqual(['1001', '1002']);
+    expect(children[0].user).toEqual({ full_name: 'Student 1001' });
+    expect(await isGuardianOf(user.id, second.profile.id)).toBe(true);
+
+    const withoutAccount = await createStudent({ ...student('1003'), create_guardian_account: false });
+    expect(withoutAccount.guardian_credential).toBeNull();
+    expect(await isGuardianOf(user.id, withoutAccount.profile.id)).toBe(false);
+  });
+
+  it('should refuse parent details that cannot become a guardian account', async () => {
+    await expect(createStudent(student('1001', null))).rejects.toThrow(/parent name and phone/i);
+    await expect(createStudent(student('1001', '12345'))).rejects.toThrow(/not a valid phone number/i);
+
+    await createStaff({ username: '081234567890', password: 'staffpass', full_name: 'Staff', employee_id: 'E1' });
+    await expect(createStudent(student('1001'))).rejects.toThrow(/already the username of another account/i);
+  });
+
+  it('should create guardian accounts for an import, once per family', async () => {
+    const result = await importStudents({
+      file_name: 'students.csv',
+      content_base64: Buffer.from([
+        'nama,nis,kelas,nama_wali,hp_orang_tua',
+        'Ahmad,2001,VII-A,Pak Hadi,0811111111',
+        'Aisyah,2002,VII-A,Pak Hadi,0811-111-111',
+        'Budi,2003,VII-A,Bu Sri,0822222222'
+      ].join('\r\n')).toString('base64'),
+      dry_run: false,
+      create_guardian_accounts: true
+    });
+
+    expect(result.created).toBe(3);
+    expect(result.guardian_credentials.map(credential => credential.username)).toEqual(['0811111111', '0822222222']);
+
+    const [hadi] = await db.select().from(usersTable).where(eq(usersTable.username, '0811111111')).execute();
+    expect((await getGuardianStudents(hadi.id)).map(child => child.nis)).toEqual(['2001', '2002']);
+
+    const missingPhone = await importStudents({
+      file_name: 'students.csv',
+      content_base64: Buffer.from(['nama,nis,kelas,nama_wali', 'Citra,2004,VII-A,Bu Ani'].join('\r\n')).toString('base64'),
+      dry_run: true,
+      create_guardian_accounts: true
+    });
+    expect(missingPhone.errors.map(error => error.message)).toEqual(['Parent name and phone are needed for a guardian account']);
+  });
+
+  it('should link and unlink guardians of existing students', async () => {
+    const created = await createStudent({ ...student('1001'), create_guardian_account: false });
+
+    const { guardians, credential } = await createGuardianAccount(created.profile.id);
+    expect(guardians.map(guardian => guardian.username)).toEqual(['081234567890']);
+    expect(credential?.full_name).toEqual('Ibu Rina');
+
+    // Asking again changes nothing
+    expect((await createGuardianAccount(created.profile.id)).credential).toBeNull();
+
+    const remaining = await unlinkGuardian({ student_id: created.profile.id, guardian_user_id: guardians[0].user_id });
+    expect(remaining).toHaveLength(0);
+    expect(await getStudentGuardians(created.profile.id)).toHaveLength(0);
+  });
+});
+
+describe('getMonthlyStatements', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should summarise each month with activity, newest first', async () => {
+    const classId = (await createClass({ name: 'VII-A', academic_year: '2024/2025' })).id;
+    const { profile } = await createStudent({ full_name: 'Student', nis: '1001', class_id: classId });
+    const staff = await createStaff({ username: 'teller', password: 'staffpass', full_name: 'Teller', employee_id: 'E1' });
+
+    const entries = [
+      { type: 'DEPOSIT' as const, amount: 50000, date: new Date(2024, 7, 5) },
+      { type: 'DEPOSIT' as const, amount: 25000.5, date: new Date(2024, 7, 20) },
+      { type: 'WITHDRAWAL' as const, amount: 10000, date: new Date(2024, 9, 1) }
+    ];
+    for (const entry of entries) {
+      const transaction = await createTransaction(staff.profile.id, { student_id: profile.id, type: entry.type, amount: entry.amount });
+      await db.update(transactionsTable)
+        .set({ transaction_date: entry.date })
+        .where(eq(transactionsTable.id, transaction.id))
+        .execute();
+    }
+
+    expect(await getMonthlyStatements(profile.id)).toEqual([
+      { month: '2024-10', opening_balance: 75000.5, deposits: 0, withdrawals: 10000, closing_balance: 65000.5, transaction_count: 1 },
+      { month: '2024-08', opening_balance: 0, deposits: 75000.5, withdrawals: 0, closing_balance: 75000.5, transaction_count: 2 }
+    ]);
+
+    await expect(getMonthlyStatements(999)).rejects.toThrow(/student profile not found/i);
+  });
+});
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { notificationsTable } from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createStudent, updateStudent } from '../handlers/students';
+import { createClass } from '../handlers/classes';
+import { createStaff } from '../handlers/staff';
+import { createTransaction, reverseTransaction } from '../handlers/transactions';
+import { closeAccount } from '../handlers/closures';
+import {
+  MAX_NOTIFICATION_ATTEMPTS,
+  NOTIFICATION_LEASE_MS,
+  retryDelayMs,
+  deliverPendingNotifications,
+  getNotifications,
+  retryNotification
+} from '../handlers/notifications';
+import { createMessageProvider, fileProvider, type MessageProvider } from '../helpers/messaging';
+
+describe('parent notifications', () => {
+  let studentId: number;
+  let staffId: number;
+  let staffUserId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const classId = (await createClass({ name: 'VII-A', academic_year: '2024/2025' })).id;
+    studentId = (await createStudent({
+      full_name: 'Ahmad',
+      nis: '1001',
+      class_id: classId,
+      parent_name: 'Pak Hadi',
+      parent_phone: '+62 812 3456 7890'
+    })).profile.id;
+    const staff = await createStaff({ username: 'teller', password: 'staffpass', full_name: 'Teller', employee_id: 'E1' });
+    staffId = staff.profile.id;
+    staffUserId = staff.user.id;
+  });
+  afterEach(resetDB);
+
+  const queued = () => db.select().from(notificationsTable).orderBy(asc(notificationsTable.id)).execute();
+
+  it('should queue a message in Indonesian for each deposit and withdrawal', async () => {
+    const deposit = await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 50000 });
+    await createTransaction(staffId, { student_id: studentId, type: 'WITHDRAWAL', amount: 20000 });
+
+    const notifications = await queued();
+    expect(notifications.map(notification => notification.template)).toEqual(['transaction.deposit', 'transaction.withdrawal']);
+    expect(notifications[0].transaction_id).toBe(deposit.id);
+    expect(notifications[0].recipient).toEqual('081234567890');
+    expect(notifications[0].status).toEqual('PENDING');
+    expect(notifications[0].body).toContain('Yth. Bapak/Ibu Pak Hadi, tabungan Ahmad (NIS 1001) menerima setoran Rp50.000');
+    expect(notifications[1].body).toContain('ditarik Rp20.000');
+    expect(notifications[1].body).toContain('Saldo sekarang Rp30.000');
+    expect(notifications[1].body).toContain('segera hubungi pihak sekolah');
+  });
+
+  it('should tell the parent about reversals and the payout when the account is closed', async () => {
+    const deposit = await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 50000 });
+    await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 30000 });
+    const reversal = await reverseTransaction(staffId, { transaction_id: deposit.id, reason: 'Salah input' });
+    await closeAccount(staffId, { student_id: studentId, reason: 'Pindah sekolah' });
+
+    const notifications = await queued();
+    expect(notifications.map(notification => notification.template))
+      .toEqual(['transaction.deposit', 'transaction.deposit', 'transaction.reversal', 'transaction.payout']);
+    expect(notifications[2].transaction_id).toBe(reversal.reversal_transaction_id);
+    expect(notifications[2].body).toContain('saldo dikoreksi sebesar Rp50.000');
+    expect(notifications[2].body).toContain('Saldo sekarang Rp30.000');
+    expect(notifications[3].body).toContain('rekening tabungan Ahmad (NIS 1001) ditutup dan sisa saldo Rp30.000 dibayarkan');
+  });
+
+  it('should not queue anything for parents who opted out or have no phone', async () => {
+    await updateStudent(staffUserId, { id: studentId, notify_parent: false });
+    await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 50000 });
+
+    await updateStudent(staffUserId, { id: studentId, notify_parent: true, parent_phone: null });
+    await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 50000 });
+
+    expect(await queued()).toHaveLength(0);
+  });
+
+  it('should queue one message when a transaction is submitted twice', async () => {
+    const input = { student_id: studentId, type: 'DEPOSIT' as const, amount: 50000, idempotency_key: 'submit-1' };
+    await createTransaction(staffId, input);
+    await createTransaction(staffId, input);
+
+    expect(await queued()).toHaveLength(1);
+  });
+
+  it('should deliver due messages through the provider', async () => {
+    await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 50000 });
+
+    const directory = await mkdtemp(join(tmpdir(), 'notifications-'));
+    try {
+      const path = join(directory, 'outbox.log');
+      expect(await deliverPendingNotifications(fileProvider(path))).toEqual({ sent: 1, failed: 0 });
+
+      const lines = (await readFile(path, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toHaveLength(1);
+      expect(lines[0].to).toEqual('081234567890');
+
+      const { notifications, total } = await getNotifications({ status: 'SENT' });
+      expect(total).toBe(1);
+      expect(notifications[0]).toMatchObject({ student_name: 'Ahmad', nis: '1001', provider: 'file', provider_message_id: lines[0].id, attempts: 1 });
+
+      // Nothing is left to send
+      expect(await deliverPendingNotifications(fileProvider(path))).toEqual({ sent: 0, failed: 0 });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should claim a message before sending it, with nothing held open during the send', async () => {
+    await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 50000 });
+
+    // Read over another connection, this only sees what was committed
+    const seenDuringSend: { status: string; attempts: number }[] = [];
+    const provider: MessageProvider = {
+      name: 'gateway',
+      async send() {
+        const [notification] = await queued();
+        seenDuringSend.push({ status: notification.status, attempts: notification.attempts });
+        return { id: 'gw-1' };
+      }
+    };
+
+    const now = new Date();
+    expect(await deliverPendingNotifications(provider, now)).toEqual({ sent: 1, failed: 0 });
+    expect(seenDuringSend).toEqual([{ status: 'SENDING', attempts: 1 }]);
+
+    const [notification] = await queued();
+    expect(notification).toMatchObject({ status: 'SENT', attempts: 1, provider_message_id: 'gw-1', lease_expires_at: null });
+  });
+
+  it('should take over a message once the worker sending it has run out of time', async () => {
+    await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 50000 });
+    const now = new Date();
+    const [notification] = await queued();
+    await db.update(notificationsTable)
+      .set({ status: 'SENDING', attempts: 1, lease_expires_at: new Date(now.getTime() + NOTIFICATION_LEASE_MS) })
+      .where(eq(notificationsTable.id, notification.id))
+      .execute();
+
+    const directory = await mkdtemp(join(tmpdir(), 'notifications-'));
+    try {
+      const provider = fileProvider(join(directory, 'outbox.log'));
+      expect(await deliverPendingNotifications(provider, now)).toEqual({ sent: 0, failed: 0 });
+
+      const later = new Date(now.getTime() + NOTIFICATION_LEASE_MS);
+      expect(await deliverPendingNotifications(provider, later)).toEqual({ sent: 1, failed: 0 });
+      expect((await queued())[0]).toMatchObject({ status: 'SENT', attempts: 2 });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should not pick a provider unless one is configured', () => {
+    expect(createMessageProvider({})).toBeNull();
+    expect(createMessageProvider({ NOTIFICATION_PROVIDER: 'console' })?.name).toEqual('console');
+    expect(() => createMessageProvider({ NOTIFICATION_PROVIDER: 'webhook' })).toThrow(/NOTIFICATION_WEBHOOK_URL/);
+  });
+
+  it('should write the message log into the data directory', async () => {
+    const dataDir = await mkdtemp(join(tmpdir(), 'data-'));
+    try {
+      const provider = createMessageProvider({ NOTIFICATION_PROVIDER: 'file', DATA_DIR: join(dataDir, 'app') })!;
+      const { id } = await provider.send({ to: '081234567890', body: 'Halo' });
+      const [line] = (await readFile(join(dataDir, 'app', 'notifications.log'), 'utf8')).trim().split('\n');
+      expect(JSON.parse(line)).toMatchObject({ id, to: '081234567890', body: 'Halo' });
+    } finally {
+      await rm(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should back off after failures and give up after the last attempt', async () => {
+    await createTransaction(staffId, { student_id: studentId, type: 'DEPOSIT', amount: 50000 });
+
+    const failing: MessageProvider = {
+      name: 'gateway',
+      async send() {
+        throw new Error('Gateway answered 503: unavailable');
+      }
+    };
+
+    let now = new Date();
+    for (let attempt = 1; attempt < MAX_NOTIFICATION_ATTEMPTS; attempt++) {
+      expect(await deliverPendingNotifications(failing, now)).toEqual({ sent: 0, failed: 1 });
+      const [notification] = await queued();
+      expect(notification.status).toEqual('PENDING');
+      expect(notification.next_attempt_at.getTime()).toBe(now.getTime() + retryDelayMs(attempt));
+
+      // Not due again until the delay has passed
+      expect(await deliverPendingNotifications(failing, now)).toEqual({ sent: 0, failed: 0 });
+      now = notification.next_attempt_at;
+    }
+
+    expect(await deliverPendingNotifications(failing, now)).toEqual({ sent: 0, failed: 1 });
+    const [failed] = await queued();
+    expect(failed.status).toEqual('FAILED');
+    expect(failed.attempts).toBe(MAX_NOTIFICATION_ATTEMPTS);
+    expect(failed.last_error).toEqual('Gateway answered 503: unavailable');
+
+    await retryNotification(failed.id);
+    const [retried] = await queued();
+    expect(retried.status).toEqual('PENDING');
+    expect(retried.attempts).toBe(0);
+    await expect(retryNotification(failed.id)).rejects.toThrow(/only failed notifications/i);
+  });
+});
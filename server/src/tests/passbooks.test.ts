@@ -0,0 +1,198 @@
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { PassThrough } from 'node:stream';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, classesTable, studentProfilesTable, staffProfilesTable } from '../db/schema';
+import { getPassbook, getPassbookStatus, recordPassbookPrint } from '../handlers/passbooks';
+import { createTransaction } from '../handlers/transactions';
+import { writePassbookPdf } from '../helpers/export';
+
+describe('Passbook Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let studentId: number;
+  let otherStudentId: number;
+  let staffId: number;
+  let staffUserId: number;
+
+  const createStudent = async (nis: string, classId: number) => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: nis,
+        password_hash: 'hashed_password',
+        role: 'STUDENT',
+        full_name: `Student ${nis}`,
+        is_active: true,
+        must_change_password: false
+      })
+      .returning()
+      .execute();
+
+    const profileResult = await db.insert(studentProfilesTable)
+      .values({
+        user_id: userResult[0].id,
+        nis,
+        class_id: classId,
+        current_balance: '0.00'
+      })
+      .returning()
+      .execute();
+    return profileResult[0].id;
+  };
+
+  const deposit = (amount: number, student = studentId) =>
+    createTransaction(staffId, { student_id: student, type: 'DEPOSIT', amount });
+
+  beforeEach(async () => {
+    const classResult = await db.insert(classesTable)
+      .values({ name: 'VII-A', academic_year: '2024' })
+      .returning()
+      .execute();
+
+    studentId = await createStudent('NIS001', classResult[0].id);
+    otherStudentId = await createStudent('NIS002', classResult[0].id);
+
+    const staffUserResult = await db.insert(usersTable)
+      .values({
+        username: 'staff1',
+        password_hash: 'hashed_password',
+        role: 'STAFF',
+        full_name: 'Test Staff',
+        is_active: true,
+        must_change_password: false
+      })
+      .returning()
+      .execute();
+    staffUserId = staffUserResult[0].id;
+
+    const staffProfileResult = await db.insert(staffProfilesTable)
+      .values({
+        user_id: staffUserId,
+        employee_id: 'EMP001'
+      })
+      .returning()
+      .execute();
+    staffId = staffProfileResult[0].id;
+  });
+
+  describe('getPassbook', () => {
+    it('should list every transaction oldest first with the running balance', async () => {
+      await deposit(100);
+      await createTransaction(staffId, { student_id: studentId, type: 'WITHDRAWAL', amount: 30 });
+      const last = await deposit(5.5);
+
+      const passbook = await getPassbook({ student_id: studentId, mode: 'FULL' });
+
+      expect(passbook.student).toEqual({ full_name: 'Student NIS001', nis: 'NIS001', class_name: 'VII-A' });
+      expect(passbook.lines.map(line => [line.line, line.code, line.debit, line.credit, line.balance])).toEqual([
+        [1, 'SETOR', null, 100, 100],
+        [2, 'TARIK', 30, null, 70],
+        [3, 'SETOR', null, 5.5, 75.5]
+      ]);
+      expect(passbook.through_transaction_id).toEqual(last.id);
+    });
+
+    it('should continue after the last printed line', async () => {
+      await deposit(100);
+      const printed = await deposit(20);
+      await recordPassbookPrint(staffUserId, { student_id: studentId, mode: 'CONTINUE', through_transaction_id: printed.id });
+      const next = await deposit(10);
+
+      const passbook = await getPassbook({ student_id: studentId, mode: 'CONTINUE' });
+
+      expect(passbook.lines).toHaveLength(1);
+      expect(passbook.lines[0]).toMatchObject({ line: 3, transaction_id: next.id, balance: 130 });
+    });
+
+    it('should reject an unknown student', async () => {
+      await expect(getPassbook({ student_id: 9999, mode: 'FULL' })).rejects.toThrow(/student not found/i);
+    });
+  });
+
+  describe('recordPassbookPrint', () => {
+    it('should track the printed position and pending lines', async () => {
+      await deposit(100);
+      const printed = await deposit(20);
+      await deposit(10);
+
+      const status = await recordPassbookPrint(staffUserId, { student_id: studentId, mode: 'CONTINUE', through_transaction_id: printed.id });
+
+      expect(status.last_printed_transaction_id).toEqual(printed.id);
+      expect(status.printed_lines).toEqual(2);
+      expect(status.pending_lines).toEqual(1);
+    });
+
+    it('should add continued lines to the existing book', async () => {
+      const first = await deposit(100);
+      await recordPassbookPrint(staffUserId, { student_id: studentId, mode: 'CONTINUE', through_transaction_id: first.id });
+      await deposit(20);
+      const third = await deposit(10);
+
+      const status = await recordPassbookPrint(staffUserId, { student_id: studentId, mode: 'CONTINUE', through_transaction_id: third.id });
+
+      expect(status.printed_lines).toEqual(3);
+      expect(status.pending_lines).toEqual(0);
+    });
+
+    it('should restart the line count for a full reprint', async () => {
+      await deposit(100);
+      const second = await deposit(20);
+      await recordPassbookPrint(staffUserId, { student_id: studentId, mode: 'CONTINUE', through_transaction_id: second.id });
+
+      const status = await recordPassbookPrint(staffUserId, { student_id: studentId, mode: 'FULL', through_transaction_id: second.id });
+
+      expect(status.printed_lines).toEqual(2);
+    });
+
+    it('should reject a transaction that was already printed', async () => {
+      const first = await deposit(100);
+      const second = await deposit(20);
+      await recordPassbookPrint(staffUserId, { student_id: studentId, mode: 'CONTINUE', through_transaction_id: second.id });
+
+      await expect(
+        recordPassbookPrint(staffUserId, { student_id: studentId, mode: 'CONTINUE', through_transaction_id: first.id })
+      ).rejects.toThrow(/already printed/i);
+    });
+
+    it("should reject another student's transaction", async () => {
+      const other = await deposit(100, otherStudentId);
+
+      await expect(
+        recordPassbookPrint(staffUserId, { student_id: studentId, mode: 'CONTINUE', through_transaction_id: other.id })
+      ).rejects.toThrow(/does not belong/i);
+    });
+  });
+
+  describe('getPassbookStatus', () => {
+    it('should report every transaction as pending before the first print', async () => {
+      await deposit(100);
+      await deposit(20);
+
+      const status = await getPassbookStatus(studentId);
+
+      expect(status.last_printed_transaction_id).toBeNull();
+      expect(status.printed_lines).toEqual(0);
+      expect(status.pending_lines).toEqual(2);
+    });
+  });
+
+  describe('writePassbookPdf', () => {
+    it('should render a PDF spanning several pages', async () => {
+      for (let i = 0; i < 5; i++) {
+        await deposit(10);
+      }
+      const passbook = await getPassbook({ student_id: studentId, mode: 'FULL' });
+
+      const stream = new PassThrough();
+      const chunks: Buffer[] = [];
+      stream.on('data', chunk => chunks.push(Buffer.from(chunk)));
+      await writePassbookPdf(passbook, 2, stream);
+      const pdf = Buffer.concat(chunks).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-')).toBe(true);
+      expect(pdf).toContain('/Count 3');
+    });
+  });
+});
@@ -0,0 +1,230 @@
+
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { PassThrough } from 'node:stream';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, classesTable, studentProfilesTable, staffProfilesTable, transactionsTable } from '../db/schema';
+import { buildReport } from '../handlers/reports';
+import { createTransaction, getTransactionsReport } from '../handlers/transactions';
+import { rolloverAcademicYear } from '../handlers/classes';
+import { writeReport, reportFileName } from '../helpers/export';
+import { type Report, type ReportFormat } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Collect everything a report writes into a single buffer
+const renderReport = async (report: Report, format: ReportFormat) => {
+  const stream = new PassThrough();
+  const chunks: Buffer[] = [];
+  stream.on('data', chunk => chunks.push(Buffer.from(chunk)));
+  await writeReport(report, format, stream);
+  return Buffer.concat(chunks);
+};
+
+describe('Report Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let classAId: number;
+  let classBId: number;
+  let studentAId: number;
+  let studentBId: number;
+  let staffId: number;
+  let staffUserId: number;
+
+  const createStudent = async (nis: string, fullName: string, classId: number) => {
+    const userResult = await db.insert(usersTable)
+      .values({
+        username: nis,
+        password_hash: 'hashed_password',
+        role: 'STUDENT',
+        full_name: fullName,
+        is_active: true,
+        must_change_password: false
+      })
+      .returning()
+      .execute();
+
+    const profileResult = await db.insert(studentProfilesTable)
+      .values({
+        user_id: userResult[0].id,
+        nis,
+        class_id: classId,
+        current_balance: '0.00'
+      })
+      .returning()
+      .execute();
+    return profileResult[0].id;
+  };
+
+  beforeEach(async () => {
+    const classResult = await db.insert(classesTable)
+      .values([
+        { name: 'VII-A', academic_year: '2024' },
+        { name: 'VII-B', academic_year: '2024' }
+      ])
+      .returning()
+      .execute();
+    classAId = classResult[0].id;
+    classBId = classResult[1].id;
+
+    studentAId = await createStudent('NIS001', 'Ahmad', classAId);
+    studentBId = await createStudent('NIS002', 'Budi', classBId);
+
+    const staffUserResult = await db.insert(usersTable)
+      .values({
+        username: 'staff1',
+        password_hash: 'hashed_password',
+        role: 'STAFF',
+        full_name: 'Test Staff',
+        is_active: true,
+        must_change_password: false
+      })
+      .returning()
+      .execute();
+
+    const staffProfileResult = await db.insert(staffProfilesTable)
+      .values({
+        user_id: staffUserResult[0].id,
+        employee_id: 'EMP001'
+      })
+      .returning()
+      .execute();
+    staffId = staffProfileResult[0].id;
+    staffUserId = staffUserResult[0].id;
+
+    await createTransaction(staffId, { student_id: studentAId, type: 'DEPOSIT', amount: 100.10 });
+    await createTransaction(staffId, { student_id: studentAId, type: 'WITHDRAWAL', amount: 20.05 });
+    await createTransaction(staffId, { student_id: studentBId, type: 'DEPOSIT', amount: 50 });
+  });
+
+  describe('buildReport', () => {
+    it('should summarise all savings for the global report', async () => {
+      const report = await buildReport({ report_type: 'GLOBAL', format: 'CSV' });
+
+      expect(report.title).toEqual('Global Savings Summary');
+      expect(report.period).toEqual('All time');
+      expect(report.rows).toEqual([
+        { metric: 'Students and current savings', count: 2, amount: 130.05 },
+        { metric: 'Deposits', count: 2, amount: 150.10 },
+        { metric: 'Withdrawals', count: 1, amount: 20.05 },
+        { metric: 'Net change', count: 3, amount: 130.05 }
+      ]);
+    });
+
+    it('should total each class', async () => {
+      const report = await buildReport({ report_type: 'CLASS', format: 'CSV' });
+
+      expect(report.rows).toHaveLength(2);
+      expect(report.rows[0]).toMatchObject({ class: 'VII-A', students: 1, transactions: 2, deposits: 100.10, withdrawals: 20.05, balance: 80.05 });
+      expect(report.rows[1]).toMatchObject({ class: 'VII-B', students: 1, transactions: 1, deposits: 50, balance: 50 });
+      expect(report.totals).toMatchObject({ students: 2, transactions: 3, balance: 130.05 });
+    });
+
+    it('should limit the student report to the requested class', async () => {
+      const report = await buildReport({ report_type: 'STUDENT', format: 'CSV', class_id: classBId });
+
+      expect(report.rows).toEqual([
+        { nis: 'NIS002', name: 'Budi', class: 'VII-B', transactions: 1, deposits: 50, withdrawals: 0, balance: 50 }
+      ]);
+    });
+
+    it('should list transactions matching the filters', async () => {
+      const report = await buildReport({
+        report_type: 'TRANSACTIONS',
+        format: 'CSV',
+        student_id: studentAId,
+        transaction_type: 'WITHDRAWAL'
+      });
+
+      expect(report.rows).toHaveLength(1);
+      expect(report.rows[0]).toMatchObject({ nis: 'NIS001', type: 'WITHDRAWAL', amount: 20.05, balance_after: 80.05, staff: 'Test Staff' });
+      expect(report.totals).toMatchObject({ amount: -20.05 });
+    });
+
+    it('should group the monthly summary by month', async () => {
+      const report = await buildReport({ report_type: 'MONTHLY', format: 'CSV' });
+      const now = new Date();
+      const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+
+      expect(report.rows).toEqual([
+        { month, transactions: 3, deposits: 150.10, withdrawals: 20.05, net: 130.05 }
+      ]);
+    });
+
+    it('should total each month on its own, late evenings included', async () => {
+      const [first] = await getTransactionsReport({ student_id: studentAId, transaction_type: 'DEPOSIT' }).then(report => report.transactions);
+      await db.update(transactionsTable)
+        .set({ transaction_date: new Date(2024, 0, 31, 23, 30) })
+        .where(eq(transactionsTable.id, first.id))
+        .execute();
+
+      const report = await buildReport({ report_type: 'MONTHLY', format: 'CSV' });
+
+      expect(report.rows).toHaveLength(2);
+      expect(report.rows[0]).toEqual({ month: '2024-01', transactions: 1, deposits: 100.10, withdrawals: 0, net: 100.10 });
+      expect(report.rows[1]).toMatchObject({ transactions: 2, deposits: 50, withdrawals: 20.05, net: 29.95 });
+      expect(report.totals).toEqual({ month: 'Total', transactions: 3, deposits: 150.10, withdrawals: 20.05, net: 130.05 });
+    });
+  });
+
+  describe('after an academic year rollover', () => {
+    beforeEach(async () => {
+      await rolloverAcademicYear(staffUserId, {
+        from_academic_year: '2024',
+        to_academic_year: '2025',
+        classes: [
+          { class_id: classAId, action: 'PROMOTE', new_class_name: 'VIII-A' },
+          { class_id: classBId, action: 'GRADUATE', new_class_name: null }
+        ]
+      });
+      await createTransaction(staffId, { student_id: studentAId, type: 'DEPOSIT', amount: 10 });
+    });
+
+    it('should keep past transactions under the class they were made in', async () => {
+      const report = await buildReport({ report_type: 'CLASS', format: 'CSV' });
+
+      expect(report.rows).toHaveLength(3);
+      expect(report.rows[0]).toMatchObject({ class: 'VII-A', academic_year: '2024', students: 1, transactions: 2, balance: 0 });
+      expect(report.rows[1]).toMatchObject({ class: 'VII-B', academic_year: '2024', students: 1, transactions: 1, balance: 50 });
+      expect(report.rows[2]).toMatchObject({ class: 'VIII-A', academic_year: '2025', students: 1, transactions: 1, balance: 90.05 });
+      expect(report.totals).toMatchObject({ students: 2, transactions: 4, balance: 140.05 });
+    });
+
+    it('should filter transactions by the class at the time', async () => {
+      const { transactions } = await getTransactionsReport({ class_id: classAId });
+
+      expect(transactions).toHaveLength(2);
+      expect(transactions.every(transaction => transaction.student.class.name === 'VII-A')).toBe(true);
+
+      const report = await buildReport({ report_type: 'STUDENT', format: 'CSV', class_id: classAId });
+      expect(report.rows).toEqual([
+        { nis: 'NIS001', name: 'Ahmad', class: 'VIII-A', transactions: 2, deposits: 100.10, withdrawals: 20.05, balance: 90.05 }
+      ]);
+    });
+  });
+
+  describe('writeReport', () => {
+    it('should write CSV with escaped values and a totals row', async () => {
+      const report = await buildReport({ report_type: 'STUDENT', format: 'CSV' });
+      report.rows[0]['name'] = 'Ahmad "Adi", Jr.';
+
+      const lines = (await renderReport(report, 'CSV')).toString('utf8').replace(/^﻿/, '').trim().split('\r\n');
+
+      expect(lines[0]).toEqual('NIS,Student,Class,Transactions,Deposits,Withdrawals,Current Balance');
+      expect(lines[1]).toEqual('NIS001,"Ahmad ""Adi"", Jr.",VII-A,2,100.10,20.05,80.05');
+      expect(lines[3]).toEqual('Total,,,3,150.10,20.05,130.05');
+    });
+
+    it('should write XLSX and PDF files', async () => {
+      const report = await buildReport({ report_type: 'TRANSACTIONS', format: 'XLSX' });
+
+      const xlsx = await renderReport(report, 'XLSX');
+      const pdf = await renderReport(report, 'PDF');
+
+      // XLSX is a zip archive
+      expect(xlsx.subarray(0, 2).toString()).toEqual('PK');
+      expect(pdf.subarray(0, 5).toString()).toEqual('%PDF-');
+      expect(reportFileName(report, 'PDF')).toMatch(/^transaction-history-\d{4}-\d{2}-\d{2}\.pdf$/);
+    });
+  });
+});
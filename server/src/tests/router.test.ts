@@ -0,0 +1,241 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type http from 'node:http';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { accountClosuresTable, auditEventsTable, classesTable, usersTable } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { appRouter, downloadRoutes } from '../index';
+import { login, csrfTokenFor, validateSession } from '../handlers/auth';
+import { createUser } from '../handlers/users';
+import { createStaff } from '../handlers/staff';
+import { createClass } from '../handlers/classes';
+import { createStudent } from '../handlers/students';
+import { createTransaction } from '../handlers/transactions';
+import { assignStaffToClass } from '../handlers/assignments';
+import { updateSchoolSettings } from '../handlers/settings';
+
+// Calls the procedures the way a signed-in browser would, session cookie and CSRF header included
+async function signIn(username: string, password: string) {
+  const { user, session } = await login({ username, password });
+  return appRouter.createCaller({
+    user,
+    sessionId: session.id,
+    req: {
+      headers: { 'x-csrf-token': csrfTokenFor(session.id) },
+      socket: { remoteAddress: '127.0.0.1' }
+    } as unknown as http.IncomingMessage,
+    res: {} as http.ServerResponse,
+    ip: '127.0.0.1',
+    userAgent: null
+  });
+}
+
+// Requests a file route with the session cookie, and answers the status and error it got back
+async function download(path: string, query: Record<string, string>, username: string, password: string) {
+  const { session } = await login({ username, password });
+  const url = new URL(`http://localhost${path}?${new URLSearchParams(query)}`);
+  const req = { method: 'GET', headers: { cookie: `session=${session.id}` } } as unknown as http.IncomingMessage;
+  const response = { status: 0, body: '' };
+  const res = {
+    headersSent: false,
+    writeHead(status: number) {
+      response.status = status;
+    },
+    end(body?: string) {
+      response.body = body ?? '';
+    }
+  } as unknown as http.ServerResponse;
+  await downloadRoutes[path](req, res, url);
+  return response;
+}
+
+describe('appRouter', () => {
+  let adminId: number;
+  let staffId: number;
+  let graduatingClassId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    adminId = (await createUser({ username: 'headmaster', password: 'adminpass', role: 'ADMINISTRATOR', full_name: 'Headmaster' })).id;
+    staffId = (await createStaff({ username: 'teller', password: 'staffpass', full_name: 'Teller', employee_id: 'E1' })).profile.id;
+    graduatingClassId = (await createClass({ name: 'IX-A', academic_year: '2024/2025' })).id;
+    await db.update(classesTable).set({ is_graduating: true }).where(eq(classesTable.id, graduatingClassId)).execute();
+  });
+  afterEach(resetDB);
+
+  describe('closeClassAccounts', () => {
+    it('should let an administrator close a class on behalf of a teller', async () => {
+      const { profile } = await createStudent({ full_name: 'Ahmad', nis: '1001', class_id: graduatingClassId });
+      await createTransaction(staffId, { student_id: profile.id, type: 'DEPOSIT', amount: 50000 });
+
+      const admin = await signIn('headmaster', 'adminpass');
+      await expect(admin.closeClassAccounts({ class_id: graduatingClassId, reason: 'Lulus 2025' }))
+        .rejects.toThrow(/choose the staff member/i);
+      await expect(admin.closeClassAccounts({ class_id: graduatingClassId, reason: 'Lulus 2025', staff_id: 999 }))
+        .rejects.toThrow(/staff member not found/i);
+
+      const closures = await admin.closeClassAccounts({ class_id: graduatingClassId, reason: 'Lulus 2025', staff_id: staffId });
+      expect(closures).toHaveLength(1);
+      expect(closures[0]).toMatchObject({ student_id: profile.id, payout_amount: 50000 });
+
+      const rows = await db.select().from(accountClosuresTable).execute();
+      expect(rows).toHaveLength(1);
+      expect(rows[0].closed_by).toBe(staffId);
+    });
+  });
+
+  describe('file downloads', () => {
+    it('should answer 500 when the sign-in checks fail', async () => {
+      const { profile } = await createStudent({ full_name: 'Ahmad', nis: '1001', class_id: graduatingClassId });
+      await db.execute(sql`drop table two_factor_requirements`);
+
+      const passbook = await download('/passbooks/export', { student_id: String(profile.id) }, 'teller', 'staffpass');
+      expect(passbook.status).toBe(500);
+      expect(passbook.body).toContain('Passbook printing failed');
+    });
+  });
+
+  describe('user data', () => {
+    it('should never include password hashes', async () => {
+      const { profile } = await createStudent({
+        full_name: 'Ahmad',
+        nis: '1001',
+        class_id: graduatingClassId,
+        parent_name: 'Ibu Rina',
+        parent_phone: '081111111111',
+        create_guardian_account: true
+      });
+      const noHash = (result: unknown) => expect(JSON.stringify(result)).not.toContain('password_hash');
+
+      const { user, session } = await login({ username: 'teller', password: 'staffpass' });
+      noHash(user);
+      noHash(await validateSession(session.id));
+
+      const admin = await signIn('headmaster', 'adminpass');
+      noHash(await admin.createUser({ username: 'clerk', role: 'STAFF', full_name: 'Clerk' }));
+      noHash(await admin.createStudent({ full_name: 'Budi', nis: '1002', class_id: graduatingClassId }));
+      noHash(await admin.getAllUsers());
+      noHash(await admin.getUserById({ id: adminId }));
+      noHash(await admin.updateUser({ id: adminId, full_name: 'Kepala Sekolah' }));
+      noHash(await admin.getAllStaff());
+      noHash(await admin.getStaffById({ id: staffId }));
+      noHash(await admin.getAllStudents());
+      noHash(await admin.getStudentById({ id: profile.id }));
+      noHash(await admin.getStudentsByClass({ classId: graduatingClassId }));
+      noHash(await admin.getGraduatingStudents());
+      noHash(await admin.updateStudent({ id: profile.id, address: 'Jl. Merdeka 1' }));
+
+      const teller = await signIn('teller', 'staffpass');
+      noHash(await teller.getMyStaffProfile());
+      noHash(await teller.updateContactDetails({ email: 'teller@sekolah.sch.id', phone: '' }));
+
+      const { credential } = await createStudent({ full_name: 'Citra', nis: '1003', class_id: graduatingClassId });
+      // Signed in past the first password change
+      await db.update(usersTable).set({ must_change_password: false }).where(eq(usersTable.username, '1003')).execute();
+      const student = await signIn('1003', credential.initial_password);
+      noHash(await student.getMyStudentProfile());
+    });
+  });
+
+  describe('updateStudent', () => {
+    it('should leave identity fields and the parent phone to administrators', async () => {
+      const { profile } = await createStudent({ full_name: 'Ahmad', nis: '1001', class_id: graduatingClassId, parent_phone: '081111111111' });
+
+      const teller = await signIn('teller', 'staffpass');
+      await expect(teller.updateStudent({ id: profile.id, parent_phone: '089999999999' }))
+        .rejects.toThrow('Only administrators can change parent_phone');
+      await expect(teller.updateStudent({ id: profile.id, nis: '2002', is_active: false }))
+        .rejects.toThrow('Only administrators can change nis, is_active');
+      expect(await teller.updateStudent({ id: profile.id, parent_name: 'Ibu Rina', address: 'Jl. Merdeka 1' }))
+        .toMatchObject({ parent_name: 'Ibu Rina', address: 'Jl. Merdeka 1', parent_phone: '081111111111' });
+
+      const admin = await signIn('headmaster', 'adminpass');
+      expect(await admin.updateStudent({ id: profile.id, parent_phone: '089999999999' }))
+        .toMatchObject({ parent_phone: '089999999999' });
+
+      const changes = await db.select().from(auditEventsTable)
+        .where(eq(auditEventsTable.action, 'student.parent_phone_change'))
+        .execute();
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({
+        target_id: profile.id,
+        before: { parent_phone: '081111111111' },
+        after: { parent_phone: '089999999999' }
+      });
+    });
+  });
+
+  describe('with staff limited to their assigned classes', () => {
+    let ownClassId: number;
+    let otherClassId: number;
+    let ownStudentId: number;
+    let otherStudentId: number;
+
+    beforeEach(async () => {
+      ownClassId = (await createClass({ name: 'VII-A', academic_year: '2024/2025' })).id;
+      otherClassId = (await createClass({ name: 'VII-B', academic_year: '2024/2025' })).id;
+      ownStudentId = (await createStudent({ full_name: 'Ahmad', nis: '1001', class_id: ownClassId })).profile.id;
+      otherStudentId = (await createStudent({ full_name: 'Budi', nis: '1002', class_id: otherClassId })).profile.id;
+      await createTransaction(staffId, { student_id: ownStudentId, type: 'DEPOSIT', amount: 50000 });
+      await createTransaction(staffId, { student_id: otherStudentId, type: 'DEPOSIT', amount: 70000 });
+
+      await assignStaffToClass(adminId, { class_id: ownClassId, staff_id: staffId, is_homeroom: true });
+      await updateSchoolSettings(adminId, { restrict_staff_to_assigned_classes: true });
+    });
+
+    it('should only edit students in their classes', async () => {
+      const teller = await signIn('teller', 'staffpass');
+      await expect(teller.updateStudent({ id: otherStudentId, address: 'Jl. Merdeka 1' }))
+        .rejects.toThrow(/not in one of your classes/i);
+      await expect(teller.updateStudent({ id: ownStudentId, class_id: otherClassId }))
+        .rejects.toThrow(/not one of your classes/i);
+      expect(await teller.updateStudent({ id: ownStudentId, address: 'Jl. Merdeka 1' }))
+        .toMatchObject({ address: 'Jl. Merdeka 1' });
+    });
+
+    it('should refuse reversals of transactions outside their classes', async () => {
+      const admin = await signIn('headmaster', 'adminpass');
+      const [own, other] = (await admin.getTransactionsReport({ sort_by: 'amount', sort_order: 'asc' })).transactions;
+
+      const teller = await signIn('teller', 'staffpass');
+      await expect(teller.reverseTransaction({ transaction_id: other.id, reason: 'Salah input' }))
+        .rejects.toThrow(/not in one of your classes/i);
+      expect(await teller.reverseTransaction({ transaction_id: own.id, reason: 'Salah input' }))
+        .toMatchObject({ transaction_id: own.id, status: 'APPROVED' });
+    });
+
+    it('should limit reports and the daily summary to their classes', async () => {
+      const teller = await signIn('teller', 'staffpass');
+
+      const report = await teller.getTransactionsReport({});
+      expect(report.transactions.map(transaction => transaction.student_id)).toEqual([ownStudentId]);
+      expect(report).toMatchObject({ total_count: 1, deposit_amount: 50000 });
+      await expect(teller.getTransactionsReport({ class_id: otherClassId })).rejects.toThrow(/not one of your classes/i);
+      await expect(teller.getTransactionsReport({ student_id: otherStudentId })).rejects.toThrow(/not in one of your classes/i);
+
+      expect(await teller.getDailyTransactionSummary({ date: new Date() }))
+        .toMatchObject({ total_transactions: 1, deposit_amount: 50000 });
+      await expect(teller.getClassById({ id: otherClassId })).rejects.toThrow(/not one of your classes/i);
+    });
+
+    it('should refuse file downloads for students and classes outside their classes', async () => {
+      const passbook = await download('/passbooks/export', { student_id: String(otherStudentId) }, 'teller', 'staffpass');
+      expect(passbook.status).toBe(403);
+      expect(passbook.body).toContain('not in one of your classes');
+
+      const receipts = await download('/closures/receipt', { class_id: String(otherClassId) }, 'teller', 'staffpass');
+      expect(receipts.status).toBe(403);
+
+      const report = await download('/reports/export', {
+        report_type: 'CLASS',
+        format: 'CSV',
+        class_id: String(otherClassId)
+      }, 'teller', 'staffpass');
+      expect(report.status).toBe(403);
+
+      // Their own students are still served
+      const ownReceipts = await download('/closures/receipt', { student_id: String(ownStudentId) }, 'teller', 'staffpass');
+      expect(ownReceipts.status).toBe(404);
+    });
+  });
+});
@@ -4,7 +4,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable, staffProfilesTable } from '../db/schema';
 import { type CreateStaffInput } from '../schema';
-import { createStaff, getAllStaff, getStaffById } from '../handlers/staff';
+import { createStaff, updateStaff, getAllStaff, getStaffById, getStaffByUserId } from '../handlers/staff';
 import { eq } from 'drizzle-orm';
 
 const testInput: CreateStaffInput = {
@@ -59,8 +59,10 @@ describe('staff handlers', () => {
 
       expect(result.user.username).toEqual('auto_staff');
       expect(result.user.must_change_password).toBe(true);
-      expect(result.user.password_hash).toBeDefined();
-      expect(result.user.password_hash.length).toBeGreaterThan(0);
+      expect(result.user).not.toHaveProperty('password_hash');
+      expect(result.credential!.username).toEqual('auto_staff');
+      const [user] = await db.select().from(usersTable).where(eq(usersTable.id, result.user.id)).execute();
+      expect(await Bun.password.verify(result.credential!.initial_password, user.password_hash)).toBe(true);
     });
 
     it('should save staff data to database', async () => {
@@ -159,4 +161,43 @@ describe('staff handlers', () => {
       expect(result!.user.role).toEqual('STAFF');
     });
   });
+
+  describe('getStaffByUserId', () => {
+    it('should return null when the user has no staff profile', async () => {
+      const result = await getStaffByUserId(999);
+      expect(result).toBeNull();
+    });
+
+    it('should return the staff profile owned by the user', async () => {
+      const created = await createStaff(testInput);
+
+      const result = await getStaffByUserId(created.user.id);
+
+      expect(result).toBeDefined();
+      expect(result!.id).toEqual(created.profile.id);
+      expect(result!.employee_id).toEqual('EMP001');
+      expect(result!.user.username).toEqual('test_staff');
+    });
+  });
+
+  describe('updateStaff', () => {
+    it('should update the profile and leave other fields alone', async () => {
+      const created = await createStaff(testInput);
+
+      const result = await updateStaff({ id: created.profile.id, employee_id: 'EMP002', position: '' });
+
+      expect(result.employee_id).toEqual('EMP002');
+      expect(result.position).toBeNull();
+      expect(result.department).toEqual('Administration');
+      expect(result.user.username).toEqual('test_staff');
+    });
+
+    it('should keep employee IDs unique', async () => {
+      const created = await createStaff(testInput);
+      await createStaff({ ...testInput, username: 'other_staff', employee_id: 'EMP002' });
+
+      await expect(updateStaff({ id: created.profile.id, employee_id: 'EMP002' })).rejects.toThrow(/already in use/i);
+      await expect(updateStaff({ id: 999, department: 'Finance' })).rejects.toThrow(/not found/i);
+    });
+  });
 });
@@ -0,0 +1,372 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditEventsTable, statementDeliveriesTable, studentProfilesTable, transactionsTable, usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import net from 'node:net';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createStudent } from '../handlers/students';
+import { createClass } from '../handlers/classes';
+import { createStaff } from '../handlers/staff';
+import { createTransaction } from '../handlers/transactions';
+import { createUser } from '../handlers/users';
+import {
+  getStatementDocument,
+  renderStatementPdf,
+  sendMonthlyStatements,
+  resendStatement,
+  getStatementDeliveries,
+  previousMonth,
+  statementRetryDelayMs,
+  MAX_STATEMENT_ATTEMPTS,
+  STATEMENT_LEASE_MS
+} from '../handlers/statements';
+import { createMailTransport, fileDropTransport, smtpTransport, type MailTransport } from '../helpers/mail';
+
+describe('monthly statements', () => {
+  let classId: number;
+  let staffId: number;
+  let outbox: string;
+
+  beforeEach(async () => {
+    await createDB();
+    classId = (await createClass({ name: 'VII-A', academic_year: '2024/2025' })).id;
+    staffId = (await createStaff({ username: 'teller', password: 'staffpass', full_name: 'Teller', employee_id: 'E1' })).profile.id;
+    outbox = await mkdtemp(join(tmpdir(), 'statements-'));
+  });
+  afterEach(async () => {
+    await rm(outbox, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  // A student whose account was opened at the start of 2024
+  const enrol = async (nis: string, email: string | null) => {
+    const { profile } = await createStudent({ full_name: `Student ${nis}`, nis, class_id: classId, parent_name: 'Ibu Rina', email });
+    await db.update(studentProfilesTable)
+      .set({ created_at: new Date(2024, 0, 1) })
+      .where(eq(studentProfilesTable.id, profile.id))
+      .execute();
+    return profile.id;
+  };
+
+  const post = async (studentId: number, type: 'DEPOSIT' | 'WITHDRAWAL', amount: number, date: Date) => {
+    const transaction = await createTransaction(staffId, { student_id: studentId, type, amount, description: `${type} ${amount}` });
+    await db.update(transactionsTable)
+      .set({ transaction_date: date })
+      .where(eq(transactionsTable.id, transaction.id))
+      .execute();
+  };
+
+  it('should run from the opening to the closing balance of the month', async () => {
+    const studentId = await enrol('1001', null);
+    await post(studentId, 'DEPOSIT', 50000, new Date(2024, 6, 20));
+    await post(studentId, 'DEPOSIT', 25000.5, new Date(2024, 7, 5));
+    await post(studentId, 'WITHDRAWAL', 10000, new Date(2024, 7, 28));
+
+    const august = await getStatementDocument(studentId, '2024-08');
+    expect(august).toMatchObject({
+      student: { full_name: 'Student 1001', nis: '1001', class_name: 'VII-A', parent_name: 'Ibu Rina' },
+      opening_balance: 50000,
+      deposits: 25000.5,
+      withdrawals: 10000,
+      closing_balance: 65000.5
+    });
+    expect(august.lines.map(line => [line.type, line.amount, line.balance_after])).toEqual([
+      ['DEPOSIT', 25000.5, 75000.5],
+      ['WITHDRAWAL', 10000, 65000.5]
+    ]);
+
+    // A quiet month carries the balance over
+    const september = await getStatementDocument(studentId, '2024-09');
+    expect(september).toMatchObject({ opening_balance: 65000.5, closing_balance: 65000.5, lines: [] });
+
+    const pdf = await renderStatementPdf(august);
+    expect(pdf.subarray(0, 5).toString()).toEqual('%PDF-');
+
+    await expect(getStatementDocument(999, '2024-08')).rejects.toThrow(/student profile not found/i);
+  });
+
+  it('should email each student once a month, to the student and their guardians', async () => {
+    const withEmail = await enrol('1001', 'Ahmad@example.com');
+    await enrol('1002', null);
+    await post(withEmail, 'DEPOSIT', 50000, new Date(2024, 7, 5));
+
+    const guardian = await createStudent({
+      full_name: 'Student 1003',
+      nis: '1003',
+      class_id: classId,
+      parent_name: 'Pak Hadi',
+      parent_phone: '0811111111',
+      create_guardian_account: true
+    });
+    await db.update(studentProfilesTable)
+      .set({ created_at: new Date(2024, 0, 1) })
+      .where(eq(studentProfilesTable.id, guardian.profile.id))
+      .execute();
+    await db.update(usersTable)
+      .set({ email: 'hadi@example.com' })
+      .where(eq(usersTable.username, '0811111111'))
+      .execute();
+
+    const transport = fileDropTransport(outbox, 'Tabungan Siswa <tabungan@sekolah.sch.id>');
+    expect(await sendMonthlyStatements(transport, '2024-08')).toEqual({ sent: 2, failed: 0, skipped: 1 });
+
+    const files = (await readdir(outbox)).sort();
+    expect(files).toHaveLength(2);
+    const messages = await Promise.all(files.map(file => readFile(join(outbox, file), 'utf8')));
+    const recipients = messages.map(message => /^To: (.*)$/m.exec(message)?.[1]).sort();
+    expect(recipients).toEqual(['ahmad@example.com', 'hadi@example.com']);
+    expect(messages[0]).toContain('Content-Type: application/pdf');
+    expect(messages[0]).toContain('Subject: Laporan Tabungan Student 100');
+
+    const log = await getStatementDeliveries({ month: '2024-08' });
+    expect(log.map(delivery => [delivery.nis, delivery.status, delivery.transport, delivery.sent_by_name])).toEqual([
+      ['1003', 'SENT', 'file', null],
+      ['1001', 'SENT', 'file', null]
+    ]);
+
+    // Running the job again sends nothing new
+    expect(await sendMonthlyStatements(transport, '2024-08')).toEqual({ sent: 0, failed: 0, skipped: 1 });
+    expect(await readdir(outbox)).toHaveLength(2);
+  });
+
+  it('should log failures and let an administrator send again', async () => {
+    const studentId = await enrol('1001', 'ahmad@example.com');
+    const admin = await createUser({ username: 'admin2', password: 'adminpass', role: 'ADMINISTRATOR', full_name: 'Second Admin' });
+
+    const failing: MailTransport = {
+      name: 'smtp',
+      async send() {
+        throw new Error('SMTP server answered 550 to RCPT: mailbox unavailable');
+      }
+    };
+    expect(await sendMonthlyStatements(failing, '2024-08')).toEqual({ sent: 0, failed: 1, skipped: 0 });
+
+    const delivery = await resendStatement(fileDropTransport(outbox), admin.id, { student_id: studentId, month: '2024-08' });
+    expect(delivery).toMatchObject({ status: 'SENT', recipients: 'ahmad@example.com', sent_by_name: 'Second Admin' });
+
+    const log = await getStatementDeliveries({ month: '2024-08' });
+    expect(log.map(entry => [entry.status, entry.error])).toEqual([
+      ['SENT', null],
+      ['FAILED', 'SMTP server answered 550 to RCPT: mailbox unavailable']
+    ]);
+    expect(await getStatementDeliveries({ month: '2024-08', status: 'FAILED' })).toHaveLength(1);
+
+    const events = await db.select().from(auditEventsTable).where(eq(auditEventsTable.action, 'statement.resend')).execute();
+    expect(events).toHaveLength(1);
+    expect(events[0].target_id).toBe(studentId);
+
+    const withoutEmail = await enrol('1002', null);
+    await expect(resendStatement(fileDropTransport(outbox), admin.id, { student_id: withoutEmail, month: '2024-08' }))
+      .rejects.toThrow(/email address/i);
+  });
+
+  it('should try failed statements again later, up to the last attempt', async () => {
+    await enrol('1001', 'ahmad@example.com');
+    const failing: MailTransport = {
+      name: 'smtp',
+      async send() {
+        throw new Error('connect ECONNREFUSED');
+      }
+    };
+
+    let now = new Date(2024, 8, 1, 0, 30);
+    for (let attempt = 1; attempt <= MAX_STATEMENT_ATTEMPTS; attempt++) {
+      expect(await sendMonthlyStatements(failing, '2024-08', now)).toEqual({ sent: 0, failed: 1, skipped: 0 });
+      // Not again until the wait is over
+      expect(await sendMonthlyStatements(failing, '2024-08', new Date(now.getTime() + statementRetryDelayMs(attempt) - 1)))
+        .toEqual({ sent: 0, failed: 0, skipped: 0 });
+      now = new Date(now.getTime() + statementRetryDelayMs(attempt));
+    }
+
+    // Given up on; an administrator re-sends it from here
+    expect(await sendMonthlyStatements(fileDropTransport(outbox), '2024-08', now)).toEqual({ sent: 0, failed: 0, skipped: 0 });
+    expect(await getStatementDeliveries({ month: '2024-08', status: 'FAILED' })).toHaveLength(MAX_STATEMENT_ATTEMPTS);
+  });
+
+  it('should claim each statement, so overlapping runs send it once', async () => {
+    const studentId = await enrol('1001', 'ahmad@example.com');
+    const now = new Date(2024, 8, 1, 0, 30);
+
+    // A second run starting while the first is still sending
+    let overlapping: { sent: number; failed: number; skipped: number } | null = null;
+    const slow: MailTransport = {
+      name: 'smtp',
+      async send() {
+        overlapping = await sendMonthlyStatements(fileDropTransport(outbox), '2024-08', now);
+        return { id: 'first@sekolah.sch.id' };
+      }
+    };
+    expect(await sendMonthlyStatements(slow, '2024-08', now)).toEqual({ sent: 1, failed: 0, skipped: 0 });
+    expect(overlapping!).toEqual({ sent: 0, failed: 0, skipped: 0 });
+    expect(await readdir(outbox)).toHaveLength(0);
+    expect(await getStatementDeliveries({ month: '2024-08' })).toMatchObject([{ status: 'SENT', message_id: 'first@sekolah.sch.id' }]);
+
+    // A run that died mid-send is taken over once its claim runs out
+    await db.update(statementDeliveriesTable)
+      .set({ status: 'SENDING', lease_expires_at: new Date(now.getTime() + STATEMENT_LEASE_MS) })
+      .where(eq(statementDeliveriesTable.student_id, studentId))
+      .execute();
+    expect(await sendMonthlyStatements(fileDropTransport(outbox), '2024-08', now)).toEqual({ sent: 0, failed: 0, skipped: 0 });
+
+    const later = new Date(now.getTime() + STATEMENT_LEASE_MS + statementRetryDelayMs(1));
+    expect(await sendMonthlyStatements(fileDropTransport(outbox), '2024-08', later)).toEqual({ sent: 1, failed: 0, skipped: 0 });
+    expect((await getStatementDeliveries({ month: '2024-08' })).map(delivery => [delivery.status, delivery.error])).toEqual([
+      ['SENT', null],
+      ['FAILED', 'Sending was interrupted']
+    ]);
+  });
+
+  it('should send the statements of the month before', () => {
+    expect(previousMonth(new Date(2024, 8, 1, 0, 30))).toEqual('2024-08');
+    expect(previousMonth(new Date(2025, 0, 15))).toEqual('2024-12');
+  });
+});
+
+describe('smtpTransport', () => {
+  // Just enough of an SMTP server to accept one message. It offers no STARTTLS, like a server
+  // whose reply was tampered with on the way.
+  async function startFakeServer() {
+    const received: string[] = [];
+    const message = { data: '' };
+
+    const server = net.createServer(socket => {
+      let inData = false;
+      let buffer = '';
+      socket.write('220 mail.test ESMTP\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let end: number;
+        while ((end = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 2.0.0 queued\r\n');
+            } else {
+              message.data += `${line}\r\n`;
+            }
+            continue;
+          }
+          received.push(line);
+          const verb = line.split(' ')[0];
+          if (verb === 'EHLO') {
+            socket.write('250-mail.test\r\n250-AUTH PLAIN\r\n250 SIZE 10485760\r\n');
+          } else if (verb === 'STARTTLS') {
+            socket.write('502 5.5.1 command not implemented\r\n');
+          } else if (verb === 'AUTH') {
+            socket.write('235 2.7.0 accepted\r\n');
+          } else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (verb === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else {
+            socket.write('250 ok\r\n');
+          }
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, port: (server.address() as net.AddressInfo).port, received, message };
+  }
+
+  it('should hand the message to the server', async () => {
+    const { server, port, received, message } = await startFakeServer();
+
+    try {
+      const transport = smtpTransport({
+        host: '127.0.0.1',
+        port,
+        secure: false,
+        from: 'Tabungan Siswa <tabungan@sekolah.sch.id>'
+      });
+
+      const { id } = await transport.send({
+        to: ['ahmad@example.com', 'hadi@example.com'],
+        subject: 'Laporan Tabungan',
+        text: '.baris yang diawali titik',
+        attachments: [{ filename: 'laporan tabungan.pdf', content_type: 'application/pdf', content: Buffer.from('%PDF-1.3') }]
+      });
+
+      expect(id).toEndWith('@sekolah.sch.id');
+      expect(received.slice(1)).toEqual([
+        'MAIL FROM:<tabungan@sekolah.sch.id>',
+        'RCPT TO:<ahmad@example.com>',
+        'RCPT TO:<hadi@example.com>',
+        'DATA'
+      ]);
+      expect(message.data).toContain(`Message-ID: <${id}>`);
+      expect(message.data).toContain('filename="laporan tabungan.pdf"');
+      // Dot-stuffed, so the line doesn't end the message
+      expect(message.data).toContain('\r\n..baris yang diawali titik\r\n');
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should not send the password over a connection without TLS', async () => {
+    const { server, port, received } = await startFakeServer();
+
+    try {
+      const transport = smtpTransport({
+        host: '127.0.0.1',
+        port,
+        secure: false,
+        user: 'tabungan',
+        password: 'secret',
+        from: 'tabungan@sekolah.sch.id'
+      });
+
+      await expect(transport.send({ to: ['ahmad@example.com'], subject: 'x', text: 'x', attachments: [] }))
+        .rejects.toThrow(/STARTTLS: 502/);
+      expect(received.some(line => line.startsWith('AUTH'))).toBe(false);
+      expect(received.some(line => line.startsWith('MAIL'))).toBe(false);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should fail when the server refuses a recipient', async () => {
+    const server = net.createServer(socket => {
+      socket.write('220 mail.test ESMTP\r\n');
+      socket.on('data', chunk => {
+        const verb = chunk.toString().split(/[ \r]/)[0];
+        socket.write(verb === 'RCPT' ? '550 5.1.1 no such user\r\n' : '250 ok\r\n');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const port = (server.address() as net.AddressInfo).port;
+      const transport = smtpTransport({ host: '127.0.0.1', port, secure: false, from: 'tabungan@sekolah.sch.id' });
+      await expect(transport.send({ to: ['nobody@example.com'], subject: 'x', text: 'x', attachments: [] }))
+        .rejects.toThrow('550 5.1.1 no such user');
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe('createMailTransport', () => {
+  it('should send nothing until a transport is chosen', () => {
+    expect(createMailTransport({})).toBeNull();
+    expect(createMailTransport({ MAIL_TRANSPORT: 'file' })?.name).toEqual('file');
+    expect(() => createMailTransport({ MAIL_TRANSPORT: 'smtp' })).toThrow(/SMTP_HOST/);
+    expect(() => createMailTransport({ MAIL_TRANSPORT: 'sendmail' })).toThrow(/unknown MAIL_TRANSPORT/i);
+  });
+
+  it('should drop files into the outbox of the data directory', async () => {
+    const dataDir = await mkdtemp(join(tmpdir(), 'data-'));
+    try {
+      const transport = createMailTransport({ MAIL_TRANSPORT: 'file', DATA_DIR: dataDir })!;
+      await transport.send({ to: ['rina@example.com'], subject: 'Test', text: 'Halo', attachments: [] });
+      expect(await readdir(join(dataDir, 'outbox'))).toHaveLength(1);
+    } finally {
+      await rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
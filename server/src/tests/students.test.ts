@@ -2,16 +2,21 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, studentProfilesTable, classesTable } from '../db/schema';
+import { usersTable, studentProfilesTable, classesTable, sessionsTable } from '../db/schema';
 import { type CreateStudentInput } from '../schema';
 import { 
   createStudent, 
   getAllStudents, 
   getStudentById, 
+  getStudentByUserId,
   getStudentsByClass, 
-  updateStudentBalance 
+  updateStudent,
+  getStudentClassHistory,
+  importStudents
 } from '../handlers/students';
 import { eq } from 'drizzle-orm';
+import ExcelJS from 'exceljs';
+import { login } from '../handlers/auth';
 
 // Test data
 const testClass = {
@@ -100,6 +105,31 @@ describe('Student Handlers', () => {
       expect(profiles[0].nis).toEqual('12345');
       expect(parseFloat(profiles[0].current_balance)).toEqual(0);
     });
+
+    it('should return an initial password the student can log in with', async () => {
+      const classResult = await db.insert(classesTable)
+        .values(testClass)
+        .returning()
+        .execute();
+
+      const result = await createStudent({ ...testStudentInput, class_id: classResult[0].id });
+
+      expect(result.credential.username).toEqual('12345');
+      expect(result.credential.initial_password).toMatch(/^[A-Za-z2-9]{10}$/);
+
+      const users = await db.select().from(usersTable).where(eq(usersTable.id, result.user.id)).execute();
+      expect(users[0].password_hash).not.toContain(result.credential.initial_password);
+
+      const session = await login({ username: '12345', password: result.credential.initial_password });
+      expect(session.user.id).toEqual(result.user.id);
+    });
+
+    it('should not leave a user behind when the profile cannot be created', async () => {
+      await expect(createStudent({ ...testStudentInput, class_id: 9999 })).rejects.toThrow();
+
+      const users = await db.select().from(usersTable).execute();
+      expect(users).toHaveLength(0);
+    });
   });
 
   describe('getAllStudents', () => {
@@ -158,6 +188,31 @@ describe('Student Handlers', () => {
     });
   });
 
+  describe('getStudentByUserId', () => {
+    it('should return the profile owned by the user', async () => {
+      const classResult = await db.insert(classesTable)
+        .values(testClass)
+        .returning()
+        .execute();
+
+      const input = { ...testStudentInput, class_id: classResult[0].id };
+      const created = await createStudent(input);
+
+      const result = await getStudentByUserId(created.user.id);
+
+      expect(result).toBeDefined();
+      expect(result!.id).toEqual(created.profile.id);
+      expect(result!.user.username).toEqual('12345');
+      expect(result!.class.name).toEqual('Test Class 12A');
+      expect(typeof result!.current_balance).toBe('number');
+    });
+
+    it('should return null for a user without a student profile', async () => {
+      const result = await getStudentByUserId(999);
+      expect(result).toBeNull();
+    });
+  });
+
   describe('getStudentsByClass', () => {
     it('should return students in specific class', async () => {
       // Create class first
@@ -185,35 +240,201 @@ describe('Student Handlers', () => {
     });
   });
 
-  describe('updateStudentBalance', () => {
-    it('should update student balance', async () => {
-      // Create class first
-      const classResult = await db.insert(classesTable)
-        .values(testClass)
+  describe('updateStudent', () => {
+    let classA: typeof classesTable.$inferSelect;
+    let classB: typeof classesTable.$inferSelect;
+    let created: Awaited<ReturnType<typeof createStudent>>;
+    let admin: typeof usersTable.$inferSelect;
+
+    beforeEach(async () => {
+      [classA, classB] = await db.insert(classesTable)
+        .values([testClass, { ...testClass, name: 'Test Class 12B' }])
         .returning()
         .execute();
-      const createdClass = classResult[0];
+      created = await createStudent({ ...testStudentInput, class_id: classA.id });
+      [admin] = await db.insert(usersTable)
+        .values({ username: 'admin', password_hash: 'x', role: 'ADMINISTRATOR', full_name: 'Admin User' })
+        .returning()
+        .execute();
+    });
 
-      // Create student
-      const input = { ...testStudentInput, class_id: createdClass.id };
-      const created = await createStudent(input);
+    it('should change profile and login details together', async () => {
+      const updated = await updateStudent(admin.id, {
+        id: created.profile.id,
+        full_name: 'John Smith',
+        nis: '54321',
+        parent_phone: '089999999999',
+        address: ''
+      });
+
+      expect(updated.nis).toEqual('54321');
+      expect(updated.user.username).toEqual('54321');
+      expect(updated.user.full_name).toEqual('John Smith');
+      expect(updated.parent_phone).toEqual('089999999999');
+      expect(updated.address).toBeNull();
+      // Untouched fields stay as they were
+      expect(updated.parent_name).toEqual('Jane Doe');
+      expect(updated.user.email).toEqual('john.doe@test.com');
+
+      // The student signs in with the new NIS
+      const { user } = await login({ username: '54321', password: created.credential.initial_password });
+      expect(user.id).toEqual(created.user.id);
+    });
 
-      const result = await updateStudentBalance(created.profile.id, 150.75);
+    it('should reject a NIS that is already in use', async () => {
+      await createStudent({ ...testStudentInput, nis: '67890', class_id: classA.id });
 
-      expect(result.success).toBe(true);
+      await expect(updateStudent(admin.id, { id: created.profile.id, nis: '67890' })).rejects.toThrow(/already registered/i);
+      await expect(updateStudent(admin.id, { id: created.profile.id, nis: 'admin' })).rejects.toThrow(/already registered/i);
 
-      // Verify balance was updated in database
-      const profiles = await db.select()
-        .from(studentProfilesTable)
-        .where(eq(studentProfilesTable.id, created.profile.id))
+      // Keeping its own NIS is fine
+      const updated = await updateStudent(admin.id, { id: created.profile.id, nis: '12345', full_name: 'John Smith' });
+      expect(updated.user.full_name).toEqual('John Smith');
+    });
+
+    it('should record class transfers in the class history', async () => {
+      const updated = await updateStudent(admin.id, { id: created.profile.id, class_id: classB.id, class_change_reason: 'Moved to the afternoon shift' });
+      expect(updated.class.name).toEqual('Test Class 12B');
+
+      // Saving again without a class change adds nothing
+      await updateStudent(admin.id, { id: created.profile.id, class_id: classB.id, phone: null });
+
+      const history = await getStudentClassHistory(created.profile.id);
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({
+        kind: 'TRANSFER',
+        from_class: { id: classA.id, name: 'Test Class 12A' },
+        to_class: { id: classB.id, name: 'Test Class 12B' },
+        reason: 'Moved to the afternoon shift',
+        changed_by_name: 'Admin User'
+      });
+
+      await expect(updateStudent(admin.id, { id: created.profile.id, class_id: 999 })).rejects.toThrow(/class not found/i);
+    });
+
+    it('should leave closed accounts alone', async () => {
+      await db.update(studentProfilesTable).set({ status: 'CLOSED' }).where(eq(studentProfilesTable.id, created.profile.id)).execute();
+
+      await expect(updateStudent(admin.id, { id: created.profile.id, address: 'Elsewhere' })).rejects.toThrow(/closed/i);
+      await expect(updateStudent(admin.id, { id: 999, address: 'Elsewhere' })).rejects.toThrow(/not found/i);
+    });
+
+    it('should sign out a student whose login is turned off', async () => {
+      await login({ username: '12345', password: created.credential.initial_password });
+
+      const updated = await updateStudent(admin.id, { id: created.profile.id, is_active: false });
+      expect(updated.user.is_active).toBe(false);
+      expect(await db.select().from(sessionsTable).execute()).toHaveLength(0);
+    });
+  });
+
+  describe('importStudents', () => {
+    const csv = (lines: string[]) => ({
+      file_name: 'students.csv',
+      content_base64: Buffer.from(lines.join('\r\n')).toString('base64')
+    });
+
+    beforeEach(async () => {
+      await db.insert(classesTable)
+        .values([
+          { name: 'VII-A', academic_year: '2024' },
+          { name: 'VII-B', academic_year: '2024' }
+        ])
         .execute();
+    });
+
+    it('should report row errors on a dry run without writing anything', async () => {
+      await createStudent({ ...testStudentInput, class_id: (await db.select().from(classesTable).execute())[0].id });
+
+      const result = await importStudents({
+        ...csv([
+          'Nama,NIS,Kelas,Email',
+          'Ahmad,0001,VII-A,',
+          'Budi,0002,IX-Z,',
+          'Citra,0001,vii-b,',
+          'Dewi,12345,VII-B,',
+          'Eko,0005,VII-B,not-an-email'
+        ]),
+        dry_run: true
+      });
+
+      expect(result.total_rows).toEqual(5);
+      expect(result.valid_rows).toEqual(1);
+      expect(result.created).toEqual(0);
+      expect(result.errors.map(error => [error.row, error.nis])).toEqual([
+        [3, '0002'],
+        [4, '0001'],
+        [5, '12345'],
+        [6, '0005']
+      ]);
+      expect(result.errors[0].message).toMatch(/unknown class/i);
+      expect(result.errors[1].message).toMatch(/row 2/);
+      expect(result.errors[2].message).toMatch(/already registered/i);
+
+      const students = await db.select().from(studentProfilesTable).execute();
+      expect(students).toHaveLength(1);
+    });
+
+    it('should create every student in one go', async () => {
+      const result = await importStudents({
+        ...csv([
+          'full_name;nis;class;parent_name;parent_phone',
+          'Ahmad;0001;VII-A;Bapak Ahmad;0812',
+          '"Budi; Jr.";0002;VII-B;;',
+          ';;;;'
+        ]),
+        dry_run: false
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.created).toEqual(2);
+      expect(result.credentials.map(credential => credential.username)).toEqual(['0001', '0002']);
+      expect(new Set(result.credentials.map(credential => credential.initial_password)).size).toEqual(2);
+
+      const students = await getAllStudents();
+      expect(students.map(student => [student.nis, student.user.full_name, student.class.name, student.parent_name])).toEqual([
+        ['0001', 'Ahmad', 'VII-A', 'Bapak Ahmad'],
+        ['0002', 'Budi; Jr.', 'VII-B', null]
+      ]);
+    });
+
+    it('should write nothing when any row is invalid', async () => {
+      const result = await importStudents({
+        ...csv(['nama,nis,kelas', 'Ahmad,0001,VII-A', ',0002,VII-A']),
+        dry_run: false
+      });
+
+      expect(result.created).toEqual(0);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].row).toEqual(3);
+
+      const users = await db.select().from(usersTable).execute();
+      expect(users).toHaveLength(0);
+    });
+
+    it('should reject a file without the required columns', async () => {
+      const result = await importStudents({ ...csv(['nama,kelas', 'Ahmad,VII-A']), dry_run: true });
 
-      expect(parseFloat(profiles[0].current_balance)).toEqual(150.75);
+      expect(result.errors).toEqual([{ row: 1, nis: null, message: 'Missing column(s): nis' }]);
     });
 
-    it('should handle balance update for non-existent student', async () => {
-      const result = await updateStudentBalance(999, 100);
-      expect(result.success).toBe(true); // Update succeeds even if no rows affected
+    it('should read XLSX files and keep leading zeros', async () => {
+      const workbook = new ExcelJS.Workbook();
+      const sheet = workbook.addWorksheet('Siswa');
+      sheet.addRow(['Nama Lengkap', 'NIS', 'Kelas']);
+      sheet.addRow(['Ahmad', '000123', 'VII-A']);
+      const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+      const result = await importStudents({
+        file_name: 'siswa.XLSX',
+        content_base64: buffer.toString('base64'),
+        dry_run: false
+      });
+
+      expect(result.created).toEqual(1);
+      const students = await getAllStudents();
+      expect(students[0].nis).toEqual('000123');
+      expect(students[0].user.username).toEqual('000123');
     });
   });
 });
@@ -7,16 +7,21 @@ import {
   classesTable, 
   studentProfilesTable, 
   staffProfilesTable, 
-  transactionsTable 
+  transactionsTable,
+  reversalRequestsTable
 } from '../db/schema';
 import { 
   createTransaction, 
+  reverseTransaction,
+  reviewReversalRequest,
+  getPendingReversalRequests,
   getTransactionsByStudent, 
   getTransactionsByStaff, 
   getTransactionsReport,
   getDailyTransactionSummary 
 } from '../handlers/transactions';
 import { 
+  createTransactionInputSchema,
   type CreateTransactionInput, 
   type ReportFilters 
 } from '../schema';
@@ -145,6 +150,30 @@ describe('Transaction Handlers', () => {
       expect(parseFloat(students[0].current_balance)).toEqual(125.00);
     });
 
+    it('should keep cent amounts exact across postings', async () => {
+      await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount: 0.10 });
+      const result = await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount: 0.20 });
+
+      expect(result.balance_before).toEqual(100.10);
+      expect(result.balance_after).toEqual(100.30);
+
+      const students = await db.select()
+        .from(studentProfilesTable)
+        .where(eq(studentProfilesTable.id, testStudentId))
+        .execute();
+
+      expect(students[0].current_balance).toEqual('100.30');
+    });
+
+    it('should allow withdrawing the exact balance', async () => {
+      await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount: 0.10 });
+      await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount: 0.20 });
+
+      const result = await createTransaction(testStaffId, { student_id: testStudentId, type: 'WITHDRAWAL', amount: 100.30 });
+
+      expect(result.balance_after).toEqual(0);
+    });
+
     it('should reject withdrawal with insufficient balance', async () => {
       const input: CreateTransactionInput = {
         student_id: testStudentId,
@@ -155,6 +184,84 @@ describe('Transaction Handlers', () => {
       await expect(createTransaction(testStaffId, input)).rejects.toThrow(/insufficient balance/i);
     });
 
+    it('should return the original transaction when an idempotency key is replayed', async () => {
+      const input: CreateTransactionInput = {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 50.00,
+        idempotency_key: 'submit-1'
+      };
+
+      const first = await createTransaction(testStaffId, input);
+      const retry = await createTransaction(testStaffId, input);
+
+      expect(retry.id).toEqual(first.id);
+      expect(retry.idempotency_key).toEqual('submit-1');
+
+      const transactions = await db.select().from(transactionsTable).execute();
+      expect(transactions).toHaveLength(1);
+
+      const students = await db.select()
+        .from(studentProfilesTable)
+        .where(eq(studentProfilesTable.id, testStudentId))
+        .execute();
+      expect(parseFloat(students[0].current_balance)).toEqual(150.00);
+    });
+
+    it('should create a single transaction for concurrent submits with the same key', async () => {
+      const input: CreateTransactionInput = {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 20.00,
+        idempotency_key: 'double-click'
+      };
+
+      const results = await Promise.all([
+        createTransaction(testStaffId, input),
+        createTransaction(testStaffId, input)
+      ]);
+
+      expect(results[0].id).toEqual(results[1].id);
+
+      const transactions = await db.select().from(transactionsTable).execute();
+      expect(transactions).toHaveLength(1);
+    });
+
+    it('should reject an idempotency key reused for a different transaction', async () => {
+      await createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 50.00,
+        idempotency_key: 'submit-2'
+      });
+
+      await expect(createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 60.00,
+        idempotency_key: 'submit-2'
+      })).rejects.toThrow(/idempotency key/i);
+    });
+
+    it('should not lose updates when postings for a student run concurrently', async () => {
+      await Promise.all(Array.from({ length: 5 }, () => createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 10.00
+      })));
+
+      const students = await db.select()
+        .from(studentProfilesTable)
+        .where(eq(studentProfilesTable.id, testStudentId))
+        .execute();
+      expect(parseFloat(students[0].current_balance)).toEqual(150.00);
+
+      // Each entry starts where the previous one ended
+      const transactions = await db.select().from(transactionsTable).execute();
+      const before = transactions.map(t => parseFloat(t.balance_before)).sort((x, y) => x - y);
+      expect(before).toEqual([100, 110, 120, 130, 140]);
+    });
+
     it('should reject transaction for non-existent student', async () => {
       const input: CreateTransactionInput = {
         student_id: 99999,
@@ -166,6 +273,259 @@ describe('Transaction Handlers', () => {
     });
   });
 
+  describe('createTransactionInputSchema', () => {
+    it('should reject amounts with more than two decimal places', () => {
+      const result = createTransactionInputSchema.safeParse({ student_id: 1, type: 'DEPOSIT', amount: 10.005 });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept amounts with two decimal places', () => {
+      const result = createTransactionInputSchema.safeParse({ student_id: 1, type: 'DEPOSIT', amount: 1250.75 });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('reverseTransaction', () => {
+    it('should post a compensating entry below the approval threshold', async () => {
+      const original = await createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 50.00
+      });
+
+      const request = await reverseTransaction(testStaffId, {
+        transaction_id: original.id,
+        reason: 'Wrong student'
+      });
+
+      expect(request.status).toEqual('APPROVED');
+      expect(request.reviewed_by).toBeNull();
+      expect(request.reversal_transaction_id).not.toBeNull();
+
+      const reversals = await db.select()
+        .from(transactionsTable)
+        .where(eq(transactionsTable.id, request.reversal_transaction_id!))
+        .execute();
+
+      expect(reversals[0].type).toEqual('WITHDRAWAL');
+      expect(parseFloat(reversals[0].amount)).toEqual(50.00);
+      expect(reversals[0].reverses_transaction_id).toEqual(original.id);
+      expect(reversals[0].description).toMatch(/wrong student/i);
+
+      const students = await db.select()
+        .from(studentProfilesTable)
+        .where(eq(studentProfilesTable.id, testStudentId))
+        .execute();
+
+      expect(parseFloat(students[0].current_balance)).toEqual(100.00);
+    });
+
+    it('should link the reversal to the original in history', async () => {
+      const original = await createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'WITHDRAWAL',
+        amount: 40.00
+      });
+
+      const request = await reverseTransaction(testStaffId, {
+        transaction_id: original.id,
+        reason: 'Duplicate entry'
+      });
+
+      const results = await getTransactionsByStudent(testStudentId);
+      const reversed = results.find(t => t.id === original.id);
+      const reversal = results.find(t => t.id === request.reversal_transaction_id);
+
+      expect(reversed!.reversal).not.toBeNull();
+      expect(reversed!.reversal!.id).toEqual(request.reversal_transaction_id!);
+      expect(reversal!.type).toEqual('DEPOSIT');
+      expect(reversal!.reverses_transaction_id).toEqual(original.id);
+      expect(reversal!.reversal).toBeNull();
+    });
+
+    it('should reject reversing the same transaction twice', async () => {
+      const original = await createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 10.00
+      });
+
+      await reverseTransaction(testStaffId, { transaction_id: original.id, reason: 'Typo' });
+
+      await expect(reverseTransaction(testStaffId, { transaction_id: original.id, reason: 'Again' }))
+        .rejects.toThrow(/already been reversed/i);
+    });
+
+    it('should reject reversing a reversal entry', async () => {
+      const original = await createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 10.00
+      });
+
+      const request = await reverseTransaction(testStaffId, { transaction_id: original.id, reason: 'Typo' });
+
+      await expect(reverseTransaction(testStaffId, { transaction_id: request.reversal_transaction_id!, reason: 'Undo' }))
+        .rejects.toThrow(/cannot reverse a reversal/i);
+    });
+
+    it('should reject when the balance cannot cover the reversal', async () => {
+      const original = await createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 50.00
+      });
+      await createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'WITHDRAWAL',
+        amount: 120.00
+      });
+
+      await expect(reverseTransaction(testStaffId, { transaction_id: original.id, reason: 'Typo' }))
+        .rejects.toThrow(/insufficient balance/i);
+
+      // Nothing is left behind when the reversal fails
+      const requests = await db.select().from(reversalRequestsTable).execute();
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should reject a non-existent transaction', async () => {
+      await expect(reverseTransaction(testStaffId, { transaction_id: 99999, reason: 'Typo' }))
+        .rejects.toThrow(/transaction not found/i);
+    });
+
+    it('should hold large reversals for approval', async () => {
+      const original = await createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 500000.00
+      });
+
+      const request = await reverseTransaction(testStaffId, {
+        transaction_id: original.id,
+        reason: 'Extra zero'
+      });
+
+      expect(request.status).toEqual('PENDING');
+      expect(request.reversal_transaction_id).toBeNull();
+
+      const pending = await getPendingReversalRequests();
+      expect(pending).toHaveLength(1);
+      expect(pending[0].transaction.amount).toEqual(500000.00);
+      expect(pending[0].student.nis).toEqual('NIS001');
+      expect(pending[0].staff.user.full_name).toEqual('Test Staff');
+
+      // Balance is untouched until approval
+      const students = await db.select()
+        .from(studentProfilesTable)
+        .where(eq(studentProfilesTable.id, testStudentId))
+        .execute();
+      expect(parseFloat(students[0].current_balance)).toEqual(500100.00);
+    });
+
+    it('should compare against the configured threshold to the sen', async () => {
+      const previous = process.env['REVERSAL_APPROVAL_THRESHOLD'];
+      process.env['REVERSAL_APPROVAL_THRESHOLD'] = '50.10';
+      try {
+        const atThreshold = await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount: 50.10 });
+        const aboveThreshold = await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount: 50.11 });
+
+        const applied = await reverseTransaction(testStaffId, { transaction_id: atThreshold.id, reason: 'Typo' });
+        const held = await reverseTransaction(testStaffId, { transaction_id: aboveThreshold.id, reason: 'Typo' });
+
+        expect(applied.status).toEqual('APPROVED');
+        expect(held.status).toEqual('PENDING');
+      } finally {
+        if (previous === undefined) {
+          delete process.env['REVERSAL_APPROVAL_THRESHOLD'];
+        } else {
+          process.env['REVERSAL_APPROVAL_THRESHOLD'] = previous;
+        }
+      }
+    });
+  });
+
+  describe('reviewReversalRequest', () => {
+    let adminUserId: number;
+    let originalId: number;
+    let requestId: number;
+
+    beforeEach(async () => {
+      const adminResult = await db.insert(usersTable)
+        .values({
+          username: 'admin1',
+          password_hash: 'hashed_password',
+          role: 'ADMINISTRATOR',
+          full_name: 'Test Admin'
+        })
+        .returning()
+        .execute();
+      adminUserId = adminResult[0].id;
+
+      const original = await createTransaction(testStaffId, {
+        student_id: testStudentId,
+        type: 'DEPOSIT',
+        amount: 250000.00
+      });
+      originalId = original.id;
+
+      const request = await reverseTransaction(testStaffId, {
+        transaction_id: original.id,
+        reason: 'Wrong amount'
+      });
+      requestId = request.id;
+    });
+
+    it('should post the reversal when approved', async () => {
+      const result = await reviewReversalRequest(adminUserId, { request_id: requestId, approve: true });
+
+      expect(result.status).toEqual('APPROVED');
+      expect(result.reviewed_by).toEqual(adminUserId);
+      expect(result.reviewed_at).toBeInstanceOf(Date);
+
+      const reversals = await db.select()
+        .from(transactionsTable)
+        .where(eq(transactionsTable.reverses_transaction_id, originalId))
+        .execute();
+
+      expect(reversals).toHaveLength(1);
+      expect(reversals[0].staff_id).toEqual(testStaffId);
+      expect(reversals[0].type).toEqual('WITHDRAWAL');
+
+      const students = await db.select()
+        .from(studentProfilesTable)
+        .where(eq(studentProfilesTable.id, testStudentId))
+        .execute();
+      expect(parseFloat(students[0].current_balance)).toEqual(100.00);
+    });
+
+    it('should leave the ledger untouched when rejected', async () => {
+      const result = await reviewReversalRequest(adminUserId, { request_id: requestId, approve: false });
+
+      expect(result.status).toEqual('REJECTED');
+      expect(result.reversal_transaction_id).toBeNull();
+
+      const reversals = await db.select()
+        .from(transactionsTable)
+        .where(eq(transactionsTable.reverses_transaction_id, originalId))
+        .execute();
+      expect(reversals).toHaveLength(0);
+
+      // A rejected request does not block a new one
+      const retry = await reverseTransaction(testStaffId, { transaction_id: originalId, reason: 'Wrong amount, confirmed' });
+      expect(retry.status).toEqual('PENDING');
+    });
+
+    it('should reject reviewing a request twice', async () => {
+      await reviewReversalRequest(adminUserId, { request_id: requestId, approve: false });
+
+      await expect(reviewReversalRequest(adminUserId, { request_id: requestId, approve: true }))
+        .rejects.toThrow(/already been reviewed/i);
+    });
+  });
+
   describe('getTransactionsByStudent', () => {
     it('should return transactions for a student', async () => {
       // Create test transactions
@@ -257,7 +617,7 @@ describe('Transaction Handlers', () => {
         transaction_type: 'DEPOSIT'
       };
 
-      const results = await getTransactionsReport(filters);
+      const { transactions: results } = await getTransactionsReport(filters);
 
       expect(results).toHaveLength(1);
       expect(results[0].type).toEqual('DEPOSIT');
@@ -287,9 +647,58 @@ describe('Transaction Handlers', () => {
         end_date: today
       };
 
-      const results = await getTransactionsReport(filters);
+      const { transactions: results } = await getTransactionsReport(filters);
       expect(results).toHaveLength(1);
     });
+
+    it('should exclude transactions outside the date range', async () => {
+      await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount: 50.00 });
+
+      const tomorrow = new Date();
+      tomorrow.setDate(tomorrow.getDate() + 1);
+
+      const report = await getTransactionsReport({ start_date: tomorrow });
+      expect(report.transactions).toHaveLength(0);
+      expect(report.total_count).toEqual(0);
+      expect(report.deposit_amount).toEqual(0);
+    });
+
+    it('should filter by class', async () => {
+      await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount: 50.00 });
+
+      const otherClass = await db.insert(classesTable)
+        .values({ name: 'Other Class', academic_year: '2024' })
+        .returning()
+        .execute();
+
+      const report = await getTransactionsReport({ class_id: otherClass[0].id });
+      expect(report.transactions).toHaveLength(0);
+
+      const ownClassReport = await getTransactionsReport({ class_id: testClassId });
+      expect(ownClassReport.transactions).toHaveLength(1);
+    });
+
+    it('should page and sort results while totalling every match', async () => {
+      const amounts = [10.10, 30.00, 20.20, 5.00];
+      for (const amount of amounts) {
+        await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount });
+      }
+      await createTransaction(testStaffId, { student_id: testStudentId, type: 'WITHDRAWAL', amount: 15.00 });
+
+      const firstPage = await getTransactionsReport({ sort_by: 'amount', sort_order: 'desc', limit: 2 });
+      expect(firstPage.transactions.map(t => t.amount)).toEqual([30.00, 20.20]);
+      expect(firstPage.total_count).toEqual(5);
+      expect(firstPage.deposit_count).toEqual(4);
+      expect(firstPage.withdrawal_count).toEqual(1);
+      expect(firstPage.deposit_amount).toEqual(65.30);
+      expect(firstPage.withdrawal_amount).toEqual(15.00);
+
+      const secondPage = await getTransactionsReport({ sort_by: 'amount', sort_order: 'desc', limit: 2, offset: 2 });
+      expect(secondPage.transactions.map(t => t.amount)).toEqual([15.00, 10.10]);
+
+      const oldestFirst = await getTransactionsReport({ sort_order: 'asc', limit: 1 });
+      expect(oldestFirst.transactions[0].amount).toEqual(10.10);
+    });
   });
 
   describe('getDailyTransactionSummary', () => {
@@ -327,6 +736,16 @@ describe('Transaction Handlers', () => {
       expect(summary.withdrawal_amount).toEqual(30.00);
     });
 
+    it('should total cent amounts exactly', async () => {
+      for (let i = 0; i < 3; i++) {
+        await createTransaction(testStaffId, { student_id: testStudentId, type: 'DEPOSIT', amount: 0.10 });
+      }
+
+      const summary = await getDailyTransactionSummary(new Date());
+
+      expect(summary.deposit_amount).toEqual(0.30);
+    });
+
     it('should return zeros for day with no transactions', async () => {
       const yesterday = new Date();
       yesterday.setDate(yesterday.getDate() - 1);
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, loginThrottlesTable, twoFactorRecoveryCodesTable } from '../db/schema';
+import { login, validateSession } from '../handlers/auth';
+import {
+  getTwoFactorStatus,
+  beginTwoFactorEnrolment,
+  confirmTwoFactorEnrolment,
+  verifyTwoFactorLogin,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  resetTwoFactor,
+  getTwoFactorRequirements,
+  setTwoFactorRequirement,
+  isTwoFactorSetupPending
+} from '../handlers/twofactor';
+import { base32Encode, totpCode, totpStep, verifyTotp } from '../helpers/totp';
+import { eq } from 'drizzle-orm';
+
+const password = 'staffpassword';
+
+const createUser = async (role: 'ADMINISTRATOR' | 'STAFF' | 'STUDENT' = 'STAFF') => {
+  const users = await db.insert(usersTable)
+    .values({
+      username: `${role.toLowerCase()}user`,
+      password_hash: await Bun.password.hash(password),
+      role,
+      full_name: 'Test User',
+      must_change_password: false
+    })
+    .returning()
+    .execute();
+  return users[0];
+};
+
+// Codes for the current step and the one after it, both inside the accepted window
+const codeAt = (secret: string, offset = 0) => totpCode(secret, totpStep(new Date()) + offset);
+
+describe('two-factor authentication', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should generate the RFC 6238 reference codes', () => {
+    const secret = base32Encode(new TextEncoder().encode('12345678901234567890'));
+    const time = new Date(59 * 1000);
+
+    expect(totpCode(secret, totpStep(time), 8)).toEqual('94287082');
+    expect(verifyTotp(secret, '287082', time)).toEqual(1);
+    expect(verifyTotp(secret, '287083', time)).toBeNull();
+  });
+
+  it('should enrol a user and hand out recovery codes once', async () => {
+    const user = await createUser();
+
+    const enrolment = await beginTwoFactorEnrolment(user.id);
+    expect(enrolment.otpauth_uri).toContain(`secret=${enrolment.secret}`);
+    expect(enrolment.qr_code_data_url).toStartWith('data:image/png;base64,');
+
+    // Nothing changes until the first code is confirmed
+    expect((await getTwoFactorStatus(user.id)).enabled).toBe(false);
+    await expect(confirmTwoFactorEnrolment(user.id, { code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+
+    const { recovery_codes } = await confirmTwoFactorEnrolment(user.id, { code: codeAt(enrolment.secret) });
+    expect(recovery_codes).toHaveLength(10);
+    expect(recovery_codes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+
+    const status = await getTwoFactorStatus(user.id);
+    expect(status).toEqual({ enabled: true, required: false, recovery_codes_remaining: 10 });
+
+    // Only hashes are stored
+    const stored = await db.select().from(twoFactorRecoveryCodesTable).execute();
+    expect(stored.map(code => code.code_hash)).not.toContain(recovery_codes[0]);
+
+    await expect(beginTwoFactorEnrolment(user.id)).rejects.toThrow(/already enabled/i);
+  });
+
+  it('should not offer two-factor authentication to students', async () => {
+    const student = await createUser('STUDENT');
+    await expect(beginTwoFactorEnrolment(student.id)).rejects.toThrow(/only available/i);
+  });
+
+  describe('login', () => {
+    let user: Awaited<ReturnType<typeof createUser>>;
+    let secret: string;
+    let recoveryCodes: string[];
+
+    beforeEach(async () => {
+      user = await createUser();
+      secret = (await beginTwoFactorEnrolment(user.id)).secret;
+      recoveryCodes = (await confirmTwoFactorEnrolment(user.id, { code: codeAt(secret) })).recovery_codes;
+    });
+
+    it('should only complete the session once the code is in', async () => {
+      const { session } = await login({ username: user.username, password });
+      expect(session.two_factor_pending).toBe(true);
+      expect(await validateSession(session.id)).toBeNull();
+
+      const verified = await verifyTwoFactorLogin(session.id, { code: codeAt(secret, 1) });
+      expect(verified.id).toEqual(user.id);
+      expect((await validateSession(session.id))?.id).toEqual(user.id);
+    });
+
+    it('should reject a code that was already used', async () => {
+      // The code from enrolment itself
+      const { session } = await login({ username: user.username, password });
+      await expect(verifyTwoFactorLogin(session.id, { code: codeAt(secret) })).rejects.toThrow(/invalid authentication code/i);
+
+      await verifyTwoFactorLogin(session.id, { code: codeAt(secret, 1) });
+
+      const second = await login({ username: user.username, password });
+      await expect(verifyTwoFactorLogin(second.session.id, { code: codeAt(secret, 1) })).rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const first = await login({ username: user.username, password });
+      await verifyTwoFactorLogin(first.session.id, { code: recoveryCodes[0].toLowerCase() });
+      expect((await getTwoFactorStatus(user.id)).recovery_codes_remaining).toEqual(9);
+
+      const second = await login({ username: user.username, password });
+      await expect(verifyTwoFactorLogin(second.session.id, { code: recoveryCodes[0] })).rejects.toThrow(/invalid authentication code/i);
+    });
+
+    it('should drop the pending session after too many wrong codes', async () => {
+      const { session } = await login({ username: user.username, password });
+      await expect(verifyTwoFactorLogin(session.id, { code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+
+      // Wrong codes also count towards the login throttle, so skip ahead to the last attempt
+      await db.update(sessionsTable).set({ two_factor_attempts: 4 }).where(eq(sessionsTable.id, session.id)).execute();
+      await db.delete(loginThrottlesTable).execute();
+      await expect(verifyTwoFactorLogin(session.id, { code: '000000' })).rejects.toThrow(/invalid authentication code/i);
+
+      const sessions = await db.select().from(sessionsTable).where(eq(sessionsTable.id, session.id)).execute();
+      expect(sessions).toHaveLength(0);
+      await expect(verifyTwoFactorLogin(session.id, { code: codeAt(secret, 1) })).rejects.toThrow(/expired/i);
+    });
+
+    it('should replace the recovery codes only with a valid app code', async () => {
+      await expect(regenerateRecoveryCodes(user.id, { code: recoveryCodes[0] })).rejects.toThrow(/invalid authentication code/i);
+
+      const { recovery_codes } = await regenerateRecoveryCodes(user.id, { code: codeAt(secret, 1) });
+      expect(recovery_codes).not.toContain(recoveryCodes[0]);
+
+      const { session } = await login({ username: user.username, password });
+      await expect(verifyTwoFactorLogin(session.id, { code: recoveryCodes[0] })).rejects.toThrow(/invalid authentication code/i);
+    });
+  });
+
+  describe('policy', () => {
+    it('should require enrolment for covered roles', async () => {
+      const admin = await createUser('ADMINISTRATOR');
+      const staff = await createUser('STAFF');
+
+      expect(await setTwoFactorRequirement(admin.id, { role: 'STAFF', required: true })).toEqual(['STAFF']);
+      expect(await getTwoFactorRequirements()).toEqual(['STAFF']);
+      expect(await isTwoFactorSetupPending(staff)).toBe(true);
+      expect(await isTwoFactorSetupPending(admin)).toBe(false);
+
+      const secret = (await beginTwoFactorEnrolment(staff.id)).secret;
+      await confirmTwoFactorEnrolment(staff.id, { code: codeAt(secret) });
+
+      const [enrolled] = await db.select().from(usersTable).where(eq(usersTable.id, staff.id)).execute();
+      expect(await isTwoFactorSetupPending(enrolled)).toBe(false);
+
+      // Can't be switched off while the role requires it
+      await expect(disableTwoFactor(staff.id, { password })).rejects.toThrow(/required/i);
+
+      await setTwoFactorRequirement(admin.id, { role: 'STAFF', required: false });
+      await expect(disableTwoFactor(staff.id, { password: 'wrong' })).rejects.toThrow(/password is incorrect/i);
+      await disableTwoFactor(staff.id, { password });
+      expect((await getTwoFactorStatus(staff.id)).enabled).toBe(false);
+    });
+
+    it('should let an administrator reset a lost authenticator', async () => {
+      const staff = await createUser('STAFF');
+      const secret = (await beginTwoFactorEnrolment(staff.id)).secret;
+      await confirmTwoFactorEnrolment(staff.id, { code: codeAt(secret) });
+      const pending = await login({ username: staff.username, password });
+
+      await resetTwoFactor(staff.id);
+
+      expect(await getTwoFactorStatus(staff.id)).toEqual({ enabled: false, required: false, recovery_codes_remaining: 0 });
+      expect(await db.select().from(sessionsTable).execute()).toHaveLength(0);
+      await expect(verifyTwoFactorLogin(pending.session.id, { code: codeAt(secret, 1) })).rejects.toThrow(/expired/i);
+
+      // The password alone signs in again
+      const { session } = await login({ username: staff.username, password });
+      expect(session.two_factor_pending).toBe(false);
+    });
+  });
+});
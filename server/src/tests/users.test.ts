@@ -1,17 +1,25 @@
 
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { PassThrough } from 'node:stream';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, classesTable } from '../db/schema';
 import { type CreateUserInput, type UpdatePasswordInput, type ResetPasswordInput } from '../schema';
 import { 
   createUser, 
   getAllUsers, 
   getUserById, 
+  updateUser,
+  updateContactDetails,
   updatePassword, 
   resetPassword, 
-  toggleUserStatus 
+  toggleUserStatus,
+  issueCredentials
 } from '../handlers/users';
+import { createStudent } from '../handlers/students';
+import { createStaff } from '../handlers/staff';
+import { login, validateSession } from '../handlers/auth';
+import { writeCredentialSlipsPdf } from '../helpers/export';
 import { eq } from 'drizzle-orm';
 
 // Test inputs
@@ -57,8 +65,7 @@ describe('User Handlers', () => {
       expect(result.is_active).toBe(true);
       expect(result.must_change_password).toBe(false);
       expect(result.id).toBeDefined();
-      expect(result.password_hash).toBeDefined();
-      expect(result.password_hash).not.toEqual('testpass123'); // Should be hashed
+      expect(result).not.toHaveProperty('password_hash');
       expect(result.created_at).toBeInstanceOf(Date);
       expect(result.updated_at).toBeInstanceOf(Date);
     });
@@ -73,7 +80,14 @@ describe('User Handlers', () => {
       expect(result.phone).toBeNull();
       expect(result.is_active).toBe(true);
       expect(result.must_change_password).toBe(true); // Auto-generated password
-      expect(result.password_hash).toBeDefined();
+      expect(result).not.toHaveProperty('password_hash');
+      expect(result.credential!.initial_password).toMatch(/^[A-Za-z2-9]{10}$/);
+    });
+
+    it('should not echo a password the admin chose', async () => {
+      const result = await createUser(testUserInput);
+
+      expect(result.credential).toBeNull();
     });
 
     it('should save user to database', async () => {
@@ -135,6 +149,52 @@ describe('User Handlers', () => {
     });
   });
 
+  describe('updateUser', () => {
+    it('should change the name, contact details and username', async () => {
+      const user = await createUser(testUserInput);
+
+      const result = await updateUser({ id: user.id, username: 'renamed', full_name: 'Renamed User', phone: '' });
+
+      expect(result.username).toEqual('renamed');
+      expect(result.full_name).toEqual('Renamed User');
+      expect(result.phone).toBeNull();
+      expect(result.email).toEqual('test@example.com');
+
+      const { user: signedIn } = await login({ username: 'renamed', password: 'testpass123' });
+      expect(signedIn.id).toEqual(user.id);
+    });
+
+    it('should reject a username that is taken', async () => {
+      const user = await createUser(testUserInput);
+      await createUser({ ...testUserInput, username: 'other' });
+
+      await expect(updateUser({ id: user.id, username: 'other' })).rejects.toThrow(/already taken/i);
+      await expect(updateUser({ id: 999, full_name: 'Nobody' })).rejects.toThrow(/not found/i);
+    });
+
+    it('should not let a student username drift from the NIS', async () => {
+      const student = await createUser(testStudentInput);
+
+      await expect(updateUser({ id: student.id, username: 'student2' })).rejects.toThrow(/NIS/);
+
+      const result = await updateUser({ id: student.id, username: 'student1', email: 'student@example.com' });
+      expect(result.email).toEqual('student@example.com');
+    });
+  });
+
+  describe('updateContactDetails', () => {
+    it('should only touch email and phone', async () => {
+      const user = await createUser(testUserInput);
+
+      const result = await updateContactDetails(user.id, { email: 'new@example.com', phone: null });
+
+      expect(result.email).toEqual('new@example.com');
+      expect(result.phone).toBeNull();
+      expect(result.full_name).toEqual('Test User');
+      expect(result.username).toEqual('testuser');
+    });
+  });
+
   describe('updatePassword', () => {
     it('should update password successfully', async () => {
       const user = await createUser(testUserInput);
@@ -148,9 +208,9 @@ describe('User Handlers', () => {
       expect(result.success).toBe(true);
 
       // Verify password was updated in database
-      const updatedUser = await getUserById(user.id);
-      expect(updatedUser!.password_hash).not.toEqual(user.password_hash);
-      expect(updatedUser!.must_change_password).toBe(false);
+      const [updatedUser] = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(await Bun.password.verify('newpass456', updatedUser.password_hash)).toBe(true);
+      expect(updatedUser.must_change_password).toBe(false);
     });
 
     it('should fail with incorrect current password', async () => {
@@ -165,6 +225,17 @@ describe('User Handlers', () => {
         .rejects.toThrow(/current password is incorrect/i);
     });
 
+    it('should keep the flag when the temporary password is entered again', async () => {
+      const user = await createUser(testStudentInput);
+      const temporary = user.credential!.initial_password;
+
+      await expect(updatePassword(user.id, { current_password: temporary, new_password: temporary }))
+        .rejects.toThrow(/must be different/i);
+
+      const unchanged = await getUserById(user.id);
+      expect(unchanged!.must_change_password).toBe(true);
+    });
+
     it('should fail for non-existent user', async () => {
       const updateInput: UpdatePasswordInput = {
         current_password: 'testpass123',
@@ -189,9 +260,18 @@ describe('User Handlers', () => {
       expect(result.success).toBe(true);
 
       // Verify password was reset in database
-      const updatedUser = await getUserById(user.id);
-      expect(updatedUser!.password_hash).not.toEqual(user.password_hash);
-      expect(updatedUser!.must_change_password).toBe(true);
+      const [updatedUser] = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+      expect(await Bun.password.verify('resetpass123', updatedUser.password_hash)).toBe(true);
+      expect(updatedUser.must_change_password).toBe(true);
+    });
+
+    it('should sign the user out of existing sessions', async () => {
+      const user = await createUser(testUserInput);
+      const { session } = await login({ username: 'testuser', password: 'testpass123' });
+
+      await resetPassword({ user_id: user.id, new_password: 'resetpass123' });
+
+      expect(await validateSession(session.id)).toBeNull();
     });
 
     it('should fail for non-existent user', async () => {
@@ -231,9 +311,90 @@ describe('User Handlers', () => {
       expect(updatedUser!.is_active).toBe(true);
     });
 
+    it('should sign a deactivated user out', async () => {
+      const user = await createUser(testUserInput);
+      const { session } = await login({ username: 'testuser', password: 'testpass123' });
+
+      await toggleUserStatus(user.id);
+      await toggleUserStatus(user.id);
+
+      expect(await validateSession(session.id)).toBeNull();
+    });
+
     it('should fail for non-existent user', async () => {
       await expect(toggleUserStatus(999))
         .rejects.toThrow(/user not found/i);
     });
   });
+
+  describe('issueCredentials', () => {
+    let classId: number;
+
+    beforeEach(async () => {
+      const classResult = await db.insert(classesTable)
+        .values({ name: 'VII-A', academic_year: '2024' })
+        .returning()
+        .execute();
+      classId = classResult[0].id;
+    });
+
+    const newStudent = (nis: string) => createStudent({
+      full_name: `Student ${nis}`,
+      nis,
+      class_id: classId,
+      parent_name: null,
+      parent_phone: null,
+      address: null,
+      email: null,
+      phone: null
+    });
+
+    it('should replace temporary passwords and skip accounts already in use', async () => {
+      const waiting = await newStudent('NIS001');
+      const active = await newStudent('NIS002');
+      await updatePassword(active.user.id, {
+        current_password: active.credential.initial_password,
+        new_password: 'chosenpass123'
+      });
+
+      const result = await issueCredentials({ group: 'CLASS', class_id: classId });
+
+      expect(result.skipped).toEqual(1);
+      expect(result.credentials.map(credential => credential.username)).toEqual(['NIS001']);
+      expect(result.credentials[0].initial_password).not.toEqual(waiting.credential.initial_password);
+
+      await expect(login({ username: 'NIS001', password: waiting.credential.initial_password }))
+        .rejects.toThrow(/invalid/i);
+      const session = await login({ username: 'NIS001', password: result.credentials[0].initial_password });
+      expect(session.user.must_change_password).toBe(true);
+      await login({ username: 'NIS002', password: 'chosenpass123' });
+    });
+
+    it('should limit staff groups to the requested department', async () => {
+      await createStaff({ username: 'teller', full_name: 'Teller', employee_id: 'EMP001', department: 'Finance' });
+      await createStaff({ username: 'it', full_name: 'Technician', employee_id: 'EMP002', department: 'IT' });
+
+      const result = await issueCredentials({ group: 'STAFF', department: 'Finance' });
+
+      expect(result.credentials.map(credential => credential.username)).toEqual(['teller']);
+      expect(result.skipped).toEqual(0);
+    });
+
+    it('should print two columns of five slips per page', async () => {
+      const credentials = Array.from({ length: 11 }, (_, index) => ({
+        username: `NIS${index}`,
+        full_name: `Student ${index}`,
+        initial_password: 'abcdEFGH23'
+      }));
+
+      const stream = new PassThrough();
+      const chunks: Buffer[] = [];
+      stream.on('data', chunk => chunks.push(Buffer.from(chunk)));
+      await writeCredentialSlipsPdf(credentials, 'http://localhost:5173', stream);
+      const pdf = Buffer.concat(chunks).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-')).toBe(true);
+      expect(pdf).toContain('/Count 2');
+    });
+  });
 });